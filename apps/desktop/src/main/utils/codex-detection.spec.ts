@@ -0,0 +1,232 @@
+// ---- Mocks ----
+
+const mockExistsSync = jest.fn();
+const mockReadFileSync = jest.fn();
+const mockExecFileAsync = jest.fn();
+
+jest.mock('fs', () => ({
+  existsSync: (...args: unknown[]) => mockExistsSync(...args),
+  readFileSync: (...args: unknown[]) => mockReadFileSync(...args),
+}));
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn(),
+}));
+
+jest.mock('util', () => ({
+  promisify:
+    () =>
+    (...args: unknown[]) =>
+      mockExecFileAsync(...args),
+}));
+
+const mockFindCliInPath = jest.fn();
+const mockFindCliInLocalPaths = jest.fn();
+jest.mock('./cli-detection', () => ({
+  findCliInPath: (...args: unknown[]) => mockFindCliInPath(...args),
+  findCliInLocalPaths: (...args: unknown[]) => mockFindCliInLocalPaths(...args),
+}));
+
+const mockJoinPaths = jest.fn((...parts: string[]) => parts.join('/'));
+const mockGetHomeDir = jest.fn(() => '/home/testuser');
+const mockIsWindows = jest.fn(() => false);
+jest.mock('./path', () => ({
+  joinPaths: (...args: unknown[]) => mockJoinPaths(...args),
+  getHomeDir: () => mockGetHomeDir(),
+  isWindows: () => mockIsWindows(),
+}));
+
+// ---- Tests ----
+
+import {
+  getCodexConfigDir,
+  getCodexCliPaths,
+  findCodexCli,
+  getCodexCliVersion,
+  checkCodexAuth,
+  getCodexCliStatus,
+} from './codex-detection';
+
+describe('codex-detection', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIsWindows.mockReturnValue(false);
+    mockGetHomeDir.mockReturnValue('/home/testuser');
+    delete process.env['CODEX_HOME'];
+    delete process.env['OPENAI_API_KEY'];
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  // ================================================================
+  // getCodexConfigDir
+  // ================================================================
+  describe('getCodexConfigDir', () => {
+    it('should return ~/.codex by default', () => {
+      expect(getCodexConfigDir()).toBe('/home/testuser/.codex');
+    });
+
+    it('should respect CODEX_HOME', () => {
+      process.env['CODEX_HOME'] = '/custom/codex';
+      expect(getCodexConfigDir()).toBe('/custom/codex');
+    });
+  });
+
+  // ================================================================
+  // getCodexCliPaths
+  // ================================================================
+  describe('getCodexCliPaths', () => {
+    it('should return Unix paths on non-Windows', () => {
+      const result = getCodexCliPaths();
+
+      expect(result).toContain('/usr/local/bin/codex');
+      expect(result).toContain('/home/testuser/.local/bin/codex');
+    });
+
+    it('should return Windows paths on Windows', () => {
+      mockIsWindows.mockReturnValue(true);
+      process.env['APPDATA'] = 'C:/Users/test/AppData/Roaming';
+
+      const result = getCodexCliPaths();
+
+      expect(result).toContain('C:/Users/test/AppData/Roaming/npm/codex.cmd');
+    });
+  });
+
+  // ================================================================
+  // findCodexCli
+  // ================================================================
+  describe('findCodexCli', () => {
+    it('should return path method when found in PATH', async () => {
+      mockFindCliInPath.mockResolvedValue('/usr/bin/codex');
+
+      const result = await findCodexCli();
+
+      expect(mockFindCliInPath).toHaveBeenCalledWith('codex');
+      expect(result).toEqual({ cliPath: '/usr/bin/codex', method: 'path' });
+    });
+
+    it('should fall back to local paths', async () => {
+      mockFindCliInPath.mockResolvedValue(undefined);
+      mockFindCliInLocalPaths.mockReturnValue('/home/testuser/.local/bin/codex');
+
+      const result = await findCodexCli();
+
+      expect(result).toEqual({ cliPath: '/home/testuser/.local/bin/codex', method: 'local' });
+    });
+
+    it('should return none when not found', async () => {
+      mockFindCliInPath.mockResolvedValue(undefined);
+      mockFindCliInLocalPaths.mockReturnValue(undefined);
+
+      const result = await findCodexCli();
+
+      expect(result).toEqual({ method: 'none' });
+    });
+  });
+
+  // ================================================================
+  // getCodexCliVersion
+  // ================================================================
+  describe('getCodexCliVersion', () => {
+    it('should return trimmed version string', async () => {
+      mockExecFileAsync.mockResolvedValue({ stdout: 'codex-cli 0.46.0\n' });
+
+      const result = await getCodexCliVersion('/usr/bin/codex');
+
+      expect(result).toBe('codex-cli 0.46.0');
+    });
+
+    it('should return undefined on failure', async () => {
+      mockExecFileAsync.mockRejectedValue(new Error('not found'));
+
+      const result = await getCodexCliVersion('/usr/bin/codex');
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  // ================================================================
+  // checkCodexAuth
+  // ================================================================
+  describe('checkCodexAuth', () => {
+    it('should return authenticated true when OPENAI_API_KEY is set', async () => {
+      process.env['OPENAI_API_KEY'] = 'sk-test';
+
+      const result = await checkCodexAuth();
+
+      expect(result).toEqual({ authenticated: true });
+      expect(mockExistsSync).not.toHaveBeenCalled();
+    });
+
+    it('should return authenticated true when auth.json has an access token', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ tokens: { access_token: 'abc' } }));
+
+      const result = await checkCodexAuth();
+
+      expect(result).toEqual({ authenticated: true });
+    });
+
+    it('should return authenticated true when auth.json has an API key', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(JSON.stringify({ OPENAI_API_KEY: 'sk-stored' }));
+
+      const result = await checkCodexAuth();
+
+      expect(result).toEqual({ authenticated: true });
+    });
+
+    it('should return authenticated false when auth.json is missing', async () => {
+      mockExistsSync.mockReturnValue(false);
+
+      const result = await checkCodexAuth();
+
+      expect(result).toEqual({ authenticated: false });
+    });
+
+    it('should handle malformed auth.json gracefully', async () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue('not valid json{{{');
+
+      const result = await checkCodexAuth();
+
+      expect(result).toEqual({ authenticated: false });
+    });
+  });
+
+  // ================================================================
+  // getCodexCliStatus
+  // ================================================================
+  describe('getCodexCliStatus', () => {
+    it('should return full status when installed and authenticated', async () => {
+      mockFindCliInPath.mockResolvedValue('/usr/bin/codex');
+      mockExecFileAsync.mockResolvedValue({ stdout: 'codex-cli 0.46.0' });
+      process.env['OPENAI_API_KEY'] = 'sk-test';
+
+      const result = await getCodexCliStatus();
+
+      expect(result.installed).toBe(true);
+      expect(result.path).toBe('/usr/bin/codex');
+      expect(result.version).toBe('codex-cli 0.46.0');
+      expect(result.method).toBe('path');
+      expect(result.auth).toEqual({ authenticated: true });
+    });
+
+    it('should report not installed when CLI is missing', async () => {
+      mockFindCliInPath.mockResolvedValue(undefined);
+      mockFindCliInLocalPaths.mockReturnValue(undefined);
+      mockExistsSync.mockReturnValue(false);
+
+      const result = await getCodexCliStatus();
+
+      expect(result.installed).toBe(false);
+      expect(result.version).toBeUndefined();
+      expect(result.method).toBeUndefined();
+    });
+  });
+});
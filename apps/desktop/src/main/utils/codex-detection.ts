@@ -0,0 +1,133 @@
+import { existsSync, readFileSync } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { CodexCliStatus } from '@gitchorus/shared';
+import { createLogger } from '@gitchorus/shared';
+import { joinPaths, getHomeDir, isWindows } from './path';
+import { findCliInPath, findCliInLocalPaths, type CliDetectionResult } from './cli-detection';
+
+const logger = createLogger('CodexDetection');
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Get Codex config directory ($CODEX_HOME or ~/.codex)
+ */
+export function getCodexConfigDir(): string {
+  return process.env['CODEX_HOME'] || joinPaths(getHomeDir(), '.codex');
+}
+
+/**
+ * Get common Codex CLI installation paths (cross-platform)
+ */
+export function getCodexCliPaths(): string[] {
+  const home = getHomeDir();
+
+  if (isWindows()) {
+    const appData = process.env['APPDATA'] || joinPaths(home, 'AppData/Roaming');
+    return [
+      joinPaths(appData, 'npm/codex.cmd'),
+      joinPaths(appData, 'npm/codex'),
+      joinPaths(home, '.local/bin/codex.exe'),
+    ];
+  }
+
+  // Unix (macOS/Linux)
+  return [
+    '/usr/local/bin/codex',
+    '/opt/homebrew/bin/codex',
+    joinPaths(home, '.local/bin/codex'),
+    joinPaths(home, '.npm-global/bin/codex'),
+  ];
+}
+
+/**
+ * Find Codex CLI installation
+ */
+export async function findCodexCli(): Promise<CliDetectionResult> {
+  const pathResult = await findCliInPath('codex');
+  if (pathResult) {
+    return { cliPath: pathResult, method: 'path' };
+  }
+
+  const localPath = findCliInLocalPaths(getCodexCliPaths());
+  if (localPath) {
+    return { cliPath: localPath, method: 'local' };
+  }
+
+  return { method: 'none' };
+}
+
+/**
+ * Get Codex CLI version
+ */
+export async function getCodexCliVersion(cliPath: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync(cliPath, ['--version']);
+    return stdout.trim();
+  } catch (error) {
+    logger.debug('Failed to get Codex CLI version:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Check Codex CLI authentication status.
+ *
+ * Codex stores either a ChatGPT login (tokens) or an API key in
+ * auth.json inside the config directory. An OPENAI_API_KEY in the
+ * environment also works for `codex exec`.
+ */
+export async function checkCodexAuth(): Promise<{ authenticated: boolean }> {
+  const apiKey = process.env['OPENAI_API_KEY'];
+  if (typeof apiKey === 'string' && apiKey.length > 0) {
+    return { authenticated: true };
+  }
+
+  const authPath = joinPaths(getCodexConfigDir(), 'auth.json');
+  if (!existsSync(authPath)) {
+    return { authenticated: false };
+  }
+
+  try {
+    const content = readFileSync(authPath, 'utf-8');
+    const auth: unknown = JSON.parse(content);
+
+    if (typeof auth !== 'object' || auth === null) {
+      return { authenticated: false };
+    }
+
+    const data = auth as Record<string, unknown>;
+    const tokens = data['tokens'] as Record<string, unknown> | undefined;
+    const hasKey = typeof data['OPENAI_API_KEY'] === 'string' && data['OPENAI_API_KEY'].length > 0;
+    const hasToken =
+      typeof tokens?.['access_token'] === 'string' && tokens['access_token'].length > 0;
+
+    return { authenticated: hasKey || hasToken };
+  } catch (error) {
+    logger.debug(`Failed to read Codex auth from ${authPath}:`, error);
+    return { authenticated: false };
+  }
+}
+
+/**
+ * Get full Codex CLI status
+ */
+export async function getCodexCliStatus(): Promise<CodexCliStatus> {
+  const platform = process.platform;
+  const arch = process.arch;
+
+  const { cliPath, method } = await findCodexCli();
+  const version = cliPath ? await getCodexCliVersion(cliPath) : undefined;
+  const auth = await checkCodexAuth();
+
+  return {
+    installed: !!cliPath,
+    path: cliPath,
+    version,
+    method: method === 'none' ? undefined : method,
+    platform,
+    arch,
+    auth,
+  };
+}
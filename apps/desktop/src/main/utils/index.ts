@@ -30,3 +30,13 @@ export {
   checkClaudeAuth,
   getClaudeCliStatus,
 } from './claude-detection';
+
+// Codex CLI detection
+export {
+  getCodexConfigDir,
+  getCodexCliPaths,
+  findCodexCli,
+  getCodexCliVersion,
+  checkCodexAuth,
+  getCodexCliStatus,
+} from './codex-detection';
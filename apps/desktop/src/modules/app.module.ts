@@ -6,6 +6,7 @@ import { ProviderModule } from './provider';
 import { ValidationModule } from './validation';
 import { ReviewModule } from './review';
 import { SettingsModule } from './settings';
+import { BudgetModule } from './budget';
 
 @Module({
   imports: [
@@ -30,6 +31,7 @@ import { SettingsModule } from './settings';
     GitModule,
     SettingsModule,
     ProviderModule,
+    BudgetModule,
     ValidationModule,
     ReviewModule,
   ],
@@ -0,0 +1,108 @@
+import {
+  buildBudgetStatus,
+  formatBudgetExhaustedMessage,
+  resolveBudgetCap,
+  toMonthKey,
+  type SpendRecord,
+} from './budget-ledger';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+// ---------------------------------------------------------------------------
+// toMonthKey
+// ---------------------------------------------------------------------------
+
+describe('toMonthKey', () => {
+  it('should use the UTC calendar month', () => {
+    expect(toMonthKey(new Date('2026-03-31T23:30:00.000Z'))).toBe('2026-03');
+    expect(toMonthKey(new Date('2026-04-01T00:00:00.000Z'))).toBe('2026-04');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveBudgetCap
+// ---------------------------------------------------------------------------
+
+describe('resolveBudgetCap', () => {
+  it('should prefer the repository cap over the global cap', () => {
+    const config = { monthlyBudgetUsd: 20, repoBudgetsUsd: { 'owner/repo': 5 } };
+
+    expect(resolveBudgetCap(config, 'owner/repo')).toBe(5);
+    expect(resolveBudgetCap(config, 'owner/other')).toBe(20);
+  });
+
+  it('should treat 0 as uncapped, including a repository opting out of the global cap', () => {
+    expect(resolveBudgetCap({ monthlyBudgetUsd: 0, repoBudgetsUsd: {} }, 'owner/repo')).toBeNull();
+    expect(
+      resolveBudgetCap({ monthlyBudgetUsd: 20, repoBudgetsUsd: { 'owner/repo': 0 } }, 'owner/repo')
+    ).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildBudgetStatus
+// ---------------------------------------------------------------------------
+
+describe('buildBudgetStatus', () => {
+  const records: SpendRecord[] = [
+    { kind: 'review', costUsd: 1.2, at: '2026-03-02T09:00:00.000Z' },
+    { kind: 'review', costUsd: 0.3, at: '2026-03-10T09:00:00.000Z' },
+    { kind: 'validation', costUsd: 0.5, at: '2026-03-11T09:00:00.000Z' },
+    { kind: 'review', costUsd: 9, at: '2026-02-27T09:00:00.000Z' },
+  ];
+
+  it('should only count spend from the current month', () => {
+    const status = buildBudgetStatus('owner/repo', records, 5, NOW);
+
+    expect(status).toEqual({
+      repositoryFullName: 'owner/repo',
+      month: '2026-03',
+      spentUsd: 2,
+      reviewSpendUsd: 1.5,
+      validationSpendUsd: 0.5,
+      runCount: 3,
+      capUsd: 5,
+      remainingUsd: 3,
+      exhausted: false,
+    });
+  });
+
+  it('should mark the budget exhausted at the cap and never report negative remaining', () => {
+    const status = buildBudgetStatus('owner/repo', records, 1.5, NOW);
+
+    expect(status.remainingUsd).toBe(0);
+    expect(status.exhausted).toBe(true);
+  });
+
+  it('should report no remaining budget and never exhaust when uncapped', () => {
+    const status = buildBudgetStatus('owner/repo', records, null, NOW);
+
+    expect(status.remainingUsd).toBeNull();
+    expect(status.exhausted).toBe(false);
+  });
+
+  it('should ignore records with invalid timestamps or costs', () => {
+    const status = buildBudgetStatus(
+      'owner/repo',
+      [
+        { kind: 'review', costUsd: 1, at: 'not a date' },
+        { kind: 'review', costUsd: Number.NaN, at: '2026-03-02T09:00:00.000Z' },
+      ],
+      null,
+      NOW
+    );
+
+    expect(status.spentUsd).toBe(0);
+    expect(status.runCount).toBe(1);
+  });
+});
+
+describe('formatBudgetExhaustedMessage', () => {
+  it('should name the cap, the repository and the month', () => {
+    const status = buildBudgetStatus('owner/repo', [], 10, NOW);
+
+    expect(formatBudgetExhaustedMessage({ ...status, spentUsd: 10.2 })).toBe(
+      'Monthly budget of $10.00 for owner/repo is used up ($10.20 spent in 2026-03). Raise the cap in Settings → Budget to continue.'
+    );
+  });
+});
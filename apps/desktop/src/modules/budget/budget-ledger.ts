@@ -0,0 +1,105 @@
+/**
+ * Budget Ledger
+ *
+ * Pure helpers that turn the recorded cost of review/validation runs into a
+ * monthly spend figure per repository and compare it against the configured cap.
+ *
+ * Extracted to a separate file so the ledger math can be tested without
+ * electron-store.
+ */
+
+import type { BudgetStatus, ReviewConfig } from '@gitchorus/shared';
+
+/**
+ * Cost of a single finished run, as recorded in the spend ledger.
+ */
+export interface SpendRecord {
+  kind: 'review' | 'validation';
+  /** Cost in USD */
+  costUsd: number;
+  /** ISO timestamp the run completed */
+  at: string;
+}
+
+/**
+ * Share of a repository's remaining budget held by a run in progress.
+ */
+export interface BudgetReservation {
+  id: string;
+  repositoryFullName: string;
+  /** Most the run may spend, in USD. Undefined when the repository is uncapped */
+  maxBudgetUsd?: number;
+}
+
+/**
+ * Calendar month key (YYYY-MM) in UTC.
+ */
+export function toMonthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Round a USD amount to 4 decimals to avoid floating point noise in sums.
+ */
+function roundUsd(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+/**
+ * Resolve the monthly cap of a repository: its own cap if configured,
+ * otherwise the global cap. Returns null when uncapped (0 or unset).
+ */
+export function resolveBudgetCap(
+  config: Pick<ReviewConfig, 'monthlyBudgetUsd' | 'repoBudgetsUsd'>,
+  repositoryFullName: string
+): number | null {
+  const repoCap = config.repoBudgetsUsd?.[repositoryFullName];
+  const cap = repoCap !== undefined ? repoCap : config.monthlyBudgetUsd;
+  return cap && cap > 0 ? cap : null;
+}
+
+/**
+ * Aggregate a repository's spend for the month containing `now` and compare it to the cap.
+ */
+export function buildBudgetStatus(
+  repositoryFullName: string,
+  records: SpendRecord[],
+  capUsd: number | null,
+  now: Date
+): BudgetStatus {
+  const month = toMonthKey(now);
+  let reviewSpendUsd = 0;
+  let validationSpendUsd = 0;
+  let runCount = 0;
+
+  for (const record of records) {
+    const at = new Date(record.at);
+    if (Number.isNaN(at.getTime()) || toMonthKey(at) !== month) continue;
+    const cost = Number.isFinite(record.costUsd) ? record.costUsd : 0;
+    if (record.kind === 'review') reviewSpendUsd += cost;
+    else validationSpendUsd += cost;
+    runCount++;
+  }
+
+  const spentUsd = roundUsd(reviewSpendUsd + validationSpendUsd);
+  const remainingUsd = capUsd === null ? null : roundUsd(Math.max(capUsd - spentUsd, 0));
+
+  return {
+    repositoryFullName,
+    month,
+    spentUsd,
+    reviewSpendUsd: roundUsd(reviewSpendUsd),
+    validationSpendUsd: roundUsd(validationSpendUsd),
+    runCount,
+    capUsd,
+    remainingUsd,
+    exhausted: remainingUsd !== null && remainingUsd <= 0,
+  };
+}
+
+/**
+ * Error message for a run refused because the repository's budget is used up.
+ */
+export function formatBudgetExhaustedMessage(status: BudgetStatus): string {
+  return `Monthly budget of $${status.capUsd?.toFixed(2)} for ${status.repositoryFullName} is used up ($${status.spentUsd.toFixed(2)} spent in ${status.month}). Raise the cap in Settings → Budget to continue.`;
+}
@@ -0,0 +1,58 @@
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayInit,
+} from '@nestjs/websockets';
+import { UseGuards } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { WsThrottlerGuard } from '../shared/ws-throttler.guard';
+import {
+  BudgetEvents,
+  createLogger,
+  extractErrorMessage,
+  type BudgetStatusPayload,
+  type BudgetStatusResponse,
+} from '@gitchorus/shared';
+import { CORS_CONFIG } from '../shared/cors.config';
+import { BudgetService } from './budget.service';
+
+/**
+ * WebSocket gateway for budget events.
+ *
+ * Answers budget status requests so the UI can show the remaining monthly budget.
+ */
+@UseGuards(WsThrottlerGuard)
+@WebSocketGateway({
+  cors: CORS_CONFIG,
+})
+export class BudgetGateway implements OnGatewayInit {
+  private readonly logger = createLogger('BudgetGateway');
+
+  constructor(private readonly budgetService: BudgetService) {}
+
+  afterInit(): void {
+    this.logger.log('Initialized');
+  }
+
+  /**
+   * Handle budget status request for a repository.
+   */
+  @SubscribeMessage(BudgetEvents.STATUS)
+  handleStatus(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: BudgetStatusPayload
+  ): BudgetStatusResponse {
+    try {
+      if (!payload.repositoryFullName) {
+        return { status: null, error: 'repositoryFullName is required' };
+      }
+      return { status: this.budgetService.getStatus(payload.repositoryFullName) };
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error getting budget status: ${message}`);
+      return { status: null, error: message };
+    }
+  }
+}
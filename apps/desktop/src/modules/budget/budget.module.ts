@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { SettingsModule } from '../settings';
+import { BudgetService } from './budget.service';
+import { BudgetGateway } from './budget.gateway';
+
+/**
+ * NestJS module for the per-repository monthly budget.
+ *
+ * Provides BudgetService, which aggregates spend from the sources that
+ * ReviewModule and ValidationModule register on init (their history),
+ * and BudgetGateway for WebSocket status requests.
+ * Exports BudgetService so those modules can register sources and enforce caps.
+ */
+@Module({
+  imports: [SettingsModule],
+  providers: [BudgetService, BudgetGateway],
+  exports: [BudgetService],
+})
+export class BudgetModule {}
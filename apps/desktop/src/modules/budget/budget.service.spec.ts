@@ -0,0 +1,115 @@
+import { BudgetService } from './budget.service';
+import type { SettingsService } from '../settings';
+
+// ---------------------------------------------------------------------------
+// Mock electron-store
+// ---------------------------------------------------------------------------
+
+let storeData: Record<string, unknown> = {};
+
+jest.mock('electron-store', () => {
+  return jest.fn().mockImplementation(() => ({
+    get: jest.fn((key: string) => storeData[key]),
+    set: jest.fn((key: string, value: unknown) => {
+      storeData[key] = value;
+    }),
+  }));
+});
+
+// ---------------------------------------------------------------------------
+// Service mocks
+// ---------------------------------------------------------------------------
+
+const mockSettingsService = {
+  getConfig: jest.fn(),
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('BudgetService', () => {
+  let service: BudgetService;
+  const now = new Date('2026-03-15T12:00:00.000Z');
+
+  beforeEach(() => {
+    storeData = {};
+    service = new BudgetService(mockSettingsService as unknown as SettingsService);
+    mockSettingsService.getConfig.mockReturnValue({
+      monthlyBudgetUsd: 5,
+      repoBudgetsUsd: {},
+    });
+  });
+
+  it('should sum the recorded runs of the month', () => {
+    service.recordRun('owner/repo', 'review', 2, now);
+    service.recordRun('owner/repo', 'validation', 3, now);
+    service.recordRun('owner/other', 'review', 1, now);
+
+    const status = service.getStatus('owner/repo', now);
+
+    expect(status.spentUsd).toBe(5);
+    expect(status.runCount).toBe(2);
+    expect(status.exhausted).toBe(true);
+    expect(service.getStatus('owner/other', now).spentUsd).toBe(1);
+  });
+
+  describe('reserve', () => {
+    it('should give a lone run the whole remaining budget', () => {
+      service.recordRun('owner/repo', 'review', 4.9, now);
+
+      expect(service.reserve('owner/repo', now).maxBudgetUsd).toBeCloseTo(0.1);
+    });
+
+    it('should not let runs in progress reserve more than what is left', () => {
+      service.recordRun('owner/repo', 'review', 1, now);
+
+      const first = service.reserve('owner/repo', now);
+
+      expect(first.maxBudgetUsd).toBe(4);
+      expect(() => service.reserve('owner/repo', now)).toThrow('reserved by runs in progress');
+    });
+
+    it('should give a released reservation back', () => {
+      const first = service.reserve('owner/repo', now);
+      service.release(first);
+
+      expect(service.reserve('owner/repo', now).maxBudgetUsd).toBe(5);
+    });
+
+    it('should keep repositories apart', () => {
+      service.reserve('owner/other', now);
+
+      expect(service.reserve('owner/repo', now).maxBudgetUsd).toBe(5);
+    });
+
+    it('should throw when the budget is used up', () => {
+      service.recordRun('owner/repo', 'review', 5, now);
+
+      expect(() => service.reserve('owner/repo', now)).toThrow('is used up');
+    });
+
+    it('should not limit runs of an uncapped repository', () => {
+      mockSettingsService.getConfig.mockReturnValue({ monthlyBudgetUsd: 0 });
+
+      expect(service.reserve('owner/repo', now).maxBudgetUsd).toBeUndefined();
+    });
+  });
+
+  describe('recordRun', () => {
+    it('should skip runs that cost nothing', () => {
+      service.recordRun('owner/repo', 'validation', 0, now);
+
+      expect(service.getStatus('owner/repo', now).runCount).toBe(0);
+    });
+
+    it('should drop runs of earlier months', () => {
+      service.recordRun('owner/repo', 'review', 1, new Date('2026-02-10T00:00:00.000Z'));
+      service.recordRun('owner/repo', 'review', 2, now);
+
+      expect(storeData.spendLedger).toEqual({
+        'owner/repo': [{ kind: 'review', costUsd: 2, at: now.toISOString() }],
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import Store from 'electron-store';
+import { createLogger } from '@gitchorus/shared';
+import type { BudgetStatus } from '@gitchorus/shared';
+import { SettingsService } from '../settings';
+import {
+  buildBudgetStatus,
+  formatBudgetExhaustedMessage,
+  resolveBudgetCap,
+  toMonthKey,
+  type BudgetReservation,
+  type SpendRecord,
+} from './budget-ledger';
+
+const logger = createLogger('BudgetService');
+
+/** Store key for the cost of every run of the current month, per repository */
+const SPEND_LEDGER_STORE_KEY = 'spendLedger';
+
+/**
+ * Monthly budget ledger per repository.
+ *
+ * Every review and validation records what it cost in an append-only ledger,
+ * whether it succeeded or failed. Spend is summed from that ledger rather than
+ * from history, so deleting history entries never gives budget back. Caps come
+ * from settings.
+ *
+ * Runs in progress reserve the budget they may spend, so parallel runs cannot
+ * together spend more than what is left.
+ */
+@Injectable()
+export class BudgetService {
+  private readonly store: Store;
+  private readonly reservations = new Map<string, BudgetReservation>();
+  private nextReservationId = 0;
+
+  constructor(private readonly settingsService: SettingsService) {
+    this.store = new Store();
+  }
+
+  /**
+   * Get a repository's spend and remaining budget for the current month.
+   */
+  getStatus(repositoryFullName: string, now: Date = new Date()): BudgetStatus {
+    const records = this.getLedger()[repositoryFullName] ?? [];
+    const cap = resolveBudgetCap(this.settingsService.getConfig(), repositoryFullName);
+    return buildBudgetStatus(repositoryFullName, records, cap, now);
+  }
+
+  /**
+   * Reserve the budget of a run that is about to start.
+   *
+   * The run may spend whatever runs in progress have not reserved yet, so runs
+   * started in parallel cannot overspend the cap. Throws when nothing is left.
+   * Release the reservation with release() once the run has finished.
+   */
+  reserve(repositoryFullName: string, now: Date = new Date()): BudgetReservation {
+    const status = this.getStatus(repositoryFullName, now);
+    if (status.exhausted) {
+      throw new Error(formatBudgetExhaustedMessage(status));
+    }
+
+    const reservation: BudgetReservation = {
+      id: `budget-${++this.nextReservationId}`,
+      repositoryFullName,
+    };
+
+    if (status.remainingUsd !== null) {
+      const reservedUsd = [...this.reservations.values()]
+        .filter(r => r.repositoryFullName === repositoryFullName)
+        .reduce((sum, r) => sum + (r.maxBudgetUsd ?? 0), 0);
+      const availableUsd = status.remainingUsd - reservedUsd;
+      if (availableUsd <= 0) {
+        throw new Error(
+          `The remaining budget of $${status.remainingUsd.toFixed(2)} for ${repositoryFullName} is reserved by runs in progress. Wait for them to finish or raise the cap in Settings → Budget.`
+        );
+      }
+      reservation.maxBudgetUsd = availableUsd;
+    }
+
+    this.reservations.set(reservation.id, reservation);
+    return reservation;
+  }
+
+  /**
+   * Release a reservation taken with reserve().
+   */
+  release(reservation: BudgetReservation): void {
+    this.reservations.delete(reservation.id);
+  }
+
+  /**
+   * Record the cost of a finished run, successful or not.
+   */
+  recordRun(
+    repositoryFullName: string,
+    kind: SpendRecord['kind'],
+    costUsd: number,
+    now: Date = new Date()
+  ): void {
+    if (!Number.isFinite(costUsd) || costUsd <= 0) return;
+
+    // Only the current month counts towards the cap, older records are dropped
+    const month = toMonthKey(now);
+    const ledger = this.getLedger();
+    const records = (ledger[repositoryFullName] ?? []).filter(
+      record => toMonthKey(new Date(record.at)) === month
+    );
+    records.push({ kind, costUsd, at: now.toISOString() });
+    this.store.set(SPEND_LEDGER_STORE_KEY, { ...ledger, [repositoryFullName]: records });
+    logger.info(`Recorded ${kind} cost of $${costUsd.toFixed(4)} for ${repositoryFullName}`);
+  }
+
+  private getLedger(): Record<string, SpendRecord[]> {
+    return (this.store.get(SPEND_LEDGER_STORE_KEY) as Record<string, SpendRecord[]>) || {};
+  }
+}
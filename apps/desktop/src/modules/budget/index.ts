@@ -0,0 +1,4 @@
+export { BudgetModule } from './budget.module';
+export { BudgetService } from './budget.service';
+export type { BudgetReservation, SpendRecord } from './budget-ledger';
+export { formatBudgetExhaustedMessage } from './budget-ledger';
@@ -257,6 +257,47 @@ describe('GitCommitService', () => {
     });
   });
 
+  describe('getBlobShas', () => {
+    it('should map each file to its blob SHA at the commit', async () => {
+      gitBase.execGit.mockResolvedValue({
+        stdout: '100644 blob aaa111\tsrc/a.ts\0' + '100755 blob bbb222\tscripts/run file.sh\0',
+        stderr: '',
+      });
+
+      const result = await service.getBlobShas('/repo', 'abc123', [
+        'src/a.ts',
+        'scripts/run file.sh',
+        'src/deleted.ts',
+      ]);
+
+      expect(result).toEqual(
+        new Map([
+          ['src/a.ts', 'aaa111'],
+          ['scripts/run file.sh', 'bbb222'],
+        ])
+      );
+      expect(gitBase.execGit).toHaveBeenCalledWith('/repo', [
+        'ls-tree',
+        '-r',
+        '-z',
+        'abc123',
+        '--',
+        'src/a.ts',
+        'scripts/run file.sh',
+        'src/deleted.ts',
+      ]);
+    });
+
+    it('should batch large file lists', async () => {
+      gitBase.execGit.mockResolvedValue({ stdout: '', stderr: '' });
+      const files = Array.from({ length: 450 }, (_, i) => `file${i}.ts`);
+
+      await service.getBlobShas('/repo', 'abc123', files);
+
+      expect(gitBase.execGit).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('diff', () => {
     it('should return diff output for the working tree', async () => {
       const diffOutput = `diff --git a/file.ts b/file.ts
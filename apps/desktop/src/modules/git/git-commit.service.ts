@@ -2,6 +2,9 @@ import { Injectable } from '@nestjs/common';
 import { CommitInfo, createLogger } from '@gitchorus/shared';
 import { GitBaseService } from './git-base.service';
 
+/** Files passed to a single `git ls-tree` call, to stay below command-line length limits */
+const LS_TREE_BATCH_SIZE = 200;
+
 @Injectable()
 export class GitCommitService {
   private readonly logger = createLogger('GitCommitService');
@@ -119,6 +122,39 @@ export class GitCommitService {
     return stdout.trim();
   }
 
+  /**
+   * Get the blob SHA of each file at a commit.
+   * Files that do not exist at that commit (e.g. deleted ones) are left out.
+   * @returns Map from file path to blob SHA
+   */
+  async getBlobShas(
+    repoPath: string,
+    commit: string,
+    files: string[]
+  ): Promise<Map<string, string>> {
+    const blobs = new Map<string, string>();
+
+    for (let i = 0; i < files.length; i += LS_TREE_BATCH_SIZE) {
+      const batch = files.slice(i, i + LS_TREE_BATCH_SIZE);
+      const { stdout } = await this.gitBase.execGit(repoPath, [
+        'ls-tree',
+        '-r',
+        '-z',
+        commit,
+        '--',
+        ...batch,
+      ]);
+
+      // Records are "<mode> blob <sha>\t<path>", NUL-terminated
+      for (const record of stdout.split('\0')) {
+        const match = record.match(/^\d+ blob ([0-9a-f]+)\t(.+)$/);
+        if (match) blobs.set(match[2], match[1]);
+      }
+    }
+
+    return blobs;
+  }
+
   /**
    * Get diff for the working tree or a specific file
    * @param projectPath - Repository path
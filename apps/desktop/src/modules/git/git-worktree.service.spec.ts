@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import { GitWorktreeService, parseWorktreeList } from './git-worktree.service';
+import { GitBaseService } from './git-base.service';
+
+const SHA = 'abc1234def5678abc1234def5678abc1234def56';
+
+describe('parseWorktreeList', () => {
+  it('should parse main and linked worktrees', () => {
+    const output = [
+      'worktree /repo',
+      `HEAD ${SHA}`,
+      'branch refs/heads/main',
+      '',
+      'worktree /tmp/gitchorus-worktrees/repo-pr42-x1',
+      'HEAD 1111111111111111111111111111111111111111',
+      'detached',
+      'locked',
+      '',
+      'worktree /tmp/stale',
+      'HEAD 2222222222222222222222222222222222222222',
+      'detached',
+      'prunable gitdir file points to non-existent location',
+      '',
+    ].join('\n');
+
+    const result = parseWorktreeList(output);
+
+    expect(result).toEqual([
+      {
+        path: '/repo',
+        head: SHA,
+        branch: 'main',
+        isMain: true,
+        isLocked: false,
+        isPrunable: false,
+      },
+      {
+        path: '/tmp/gitchorus-worktrees/repo-pr42-x1',
+        head: '1111111111111111111111111111111111111111',
+        branch: '',
+        isMain: false,
+        isLocked: true,
+        isPrunable: false,
+      },
+      {
+        path: '/tmp/stale',
+        head: '2222222222222222222222222222222222222222',
+        branch: '',
+        isMain: false,
+        isLocked: false,
+        isPrunable: true,
+      },
+    ]);
+  });
+
+  it('should return an empty list for empty output', () => {
+    expect(parseWorktreeList('')).toEqual([]);
+  });
+});
+
+describe('GitWorktreeService', () => {
+  let service: GitWorktreeService;
+  let gitBase: jest.Mocked<GitBaseService>;
+  const created: string[] = [];
+
+  beforeEach(async () => {
+    gitBase = {
+      execGit: jest.fn(),
+    } as unknown as jest.Mocked<GitBaseService>;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [GitWorktreeService, { provide: GitBaseService, useValue: gitBase }],
+    }).compile();
+
+    service = module.get<GitWorktreeService>(GitWorktreeService);
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      created.splice(0).map(dir => fs.promises.rm(dir, { recursive: true, force: true }))
+    );
+  });
+
+  describe('createPrWorktree', () => {
+    it('should add a detached worktree when the commit is available locally', async () => {
+      gitBase.execGit
+        .mockResolvedValueOnce({ stdout: `${SHA}\n`, stderr: '' })
+        .mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      const worktree = await service.createPrWorktree('/repo', 42, SHA);
+      created.push(worktree.path);
+
+      expect(worktree.path).toContain('repo-pr42-');
+      expect(worktree.head).toBe(SHA);
+      expect(worktree.isMain).toBe(false);
+      expect(gitBase.execGit).toHaveBeenCalledTimes(2);
+      expect(gitBase.execGit).toHaveBeenLastCalledWith('/repo', [
+        'worktree',
+        'add',
+        '--detach',
+        worktree.path,
+        SHA,
+      ]);
+    });
+
+    it('should fetch the PR head when the commit is missing', async () => {
+      gitBase.execGit
+        .mockResolvedValueOnce({ stdout: '', stderr: '' })
+        .mockResolvedValueOnce({ stdout: '', stderr: '' })
+        .mockResolvedValueOnce({ stdout: `${SHA}\n`, stderr: '' })
+        .mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      const worktree = await service.createPrWorktree('/repo', 42, SHA);
+      created.push(worktree.path);
+
+      expect(gitBase.execGit).toHaveBeenCalledWith(
+        '/repo',
+        ['fetch', 'origin', 'pull/42/head'],
+        expect.any(Number)
+      );
+    });
+
+    it('should throw when the commit is still missing after fetching', async () => {
+      gitBase.execGit.mockResolvedValue({ stdout: '', stderr: '' });
+
+      await expect(service.createPrWorktree('/repo', 42, SHA)).rejects.toThrow(
+        'is not available locally'
+      );
+    });
+
+    it('should reject an invalid SHA without running git', async () => {
+      await expect(service.createPrWorktree('/repo', 42, 'HEAD; rm -rf /')).rejects.toThrow(
+        'Invalid commit SHA'
+      );
+      expect(gitBase.execGit).not.toHaveBeenCalled();
+    });
+
+    it('should delete the temporary directory when git worktree add fails', async () => {
+      gitBase.execGit
+        .mockResolvedValueOnce({ stdout: `${SHA}\n`, stderr: '' })
+        .mockRejectedValueOnce(new Error('Git command failed: worktree add'));
+
+      await expect(service.createPrWorktree('/repo', 42, SHA)).rejects.toThrow(
+        'Git command failed'
+      );
+
+      const worktreePath = gitBase.execGit.mock.calls[1][1][3];
+      expect(fs.existsSync(worktreePath)).toBe(false);
+    });
+  });
+
+  describe('removeWorktree', () => {
+    it('should remove the worktree with git', async () => {
+      gitBase.execGit.mockResolvedValue({ stdout: '', stderr: '' });
+
+      await service.removeWorktree('/repo', '/tmp/wt');
+
+      expect(gitBase.execGit).toHaveBeenCalledTimes(1);
+      expect(gitBase.execGit).toHaveBeenCalledWith('/repo', [
+        'worktree',
+        'remove',
+        '--force',
+        '/tmp/wt',
+      ]);
+    });
+
+    it('should delete the directory and prune when git cannot remove it', async () => {
+      gitBase.execGit
+        .mockRejectedValueOnce(new Error('Git command failed: worktree remove'))
+        .mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      await service.removeWorktree('/repo', '/tmp/gitchorus-missing-worktree');
+
+      expect(gitBase.execGit).toHaveBeenLastCalledWith('/repo', ['worktree', 'prune']);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorktreeInfo, createLogger } from '@gitchorus/shared';
+import { GitBaseService } from './git-base.service';
+
+/** Timeout for fetching a PR head, which may download a lot of objects */
+const FETCH_TIMEOUT_MS = 120_000;
+
+/** Parent directory of the temporary worktrees GitChorus creates */
+const WORKTREE_ROOT = path.join(os.tmpdir(), 'gitchorus-worktrees');
+
+/** Full or abbreviated commit SHA */
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+/**
+ * Parse `git worktree list --porcelain` output.
+ * Records are separated by blank lines; the first record is the main worktree.
+ */
+export function parseWorktreeList(output: string): WorktreeInfo[] {
+  const worktrees: WorktreeInfo[] = [];
+
+  for (const record of output.split(/\n\s*\n/)) {
+    const lines = record.split('\n').map(line => line.trim());
+    const pathLine = lines.find(line => line.startsWith('worktree '));
+    if (!pathLine) continue;
+
+    const head = lines.find(line => line.startsWith('HEAD '));
+    const branch = lines.find(line => line.startsWith('branch '));
+
+    worktrees.push({
+      path: pathLine.slice('worktree '.length),
+      head: head ? head.slice('HEAD '.length) : '',
+      branch: branch ? branch.slice('branch '.length).replace(/^refs\/heads\//, '') : '',
+      isMain: worktrees.length === 0,
+      isLocked: lines.some(line => line === 'locked' || line.startsWith('locked ')),
+      isPrunable: lines.some(line => line === 'prunable' || line.startsWith('prunable ')),
+    });
+  }
+
+  return worktrees;
+}
+
+@Injectable()
+export class GitWorktreeService {
+  private readonly logger = createLogger('GitWorktreeService');
+
+  constructor(private readonly gitBase: GitBaseService) {}
+
+  /**
+   * List the worktrees of a repository, main worktree first.
+   */
+  async listWorktrees(repoPath: string): Promise<WorktreeInfo[]> {
+    const { stdout } = await this.gitBase.execGit(repoPath, ['worktree', 'list', '--porcelain']);
+    return parseWorktreeList(stdout);
+  }
+
+  /**
+   * Create a temporary detached worktree checked out at a PR's head commit.
+   *
+   * Fetches the PR head from origin when the commit is not available locally
+   * (e.g. PRs from forks). The caller owns the worktree and must remove it
+   * with {@link removeWorktree}.
+   */
+  async createPrWorktree(repoPath: string, prNumber: number, sha: string): Promise<WorktreeInfo> {
+    if (!SHA_PATTERN.test(sha)) {
+      throw new Error(`Invalid commit SHA: ${sha}`);
+    }
+
+    if (!(await this.hasCommit(repoPath, sha))) {
+      this.logger.info(`Fetching head of PR #${prNumber} (${sha.slice(0, 7)}) from origin`);
+      await this.gitBase.execGit(
+        repoPath,
+        ['fetch', 'origin', `pull/${prNumber}/head`],
+        FETCH_TIMEOUT_MS
+      );
+      if (!(await this.hasCommit(repoPath, sha))) {
+        throw new Error(`Commit ${sha.slice(0, 7)} of PR #${prNumber} is not available locally`);
+      }
+    }
+
+    await fs.promises.mkdir(WORKTREE_ROOT, { recursive: true });
+    const worktreePath = await fs.promises.mkdtemp(
+      path.join(WORKTREE_ROOT, `${path.basename(repoPath)}-pr${prNumber}-`)
+    );
+
+    try {
+      await this.gitBase.execGit(repoPath, ['worktree', 'add', '--detach', worktreePath, sha]);
+    } catch (error) {
+      await fs.promises.rm(worktreePath, { recursive: true, force: true });
+      throw error;
+    }
+
+    this.logger.info(`Created worktree for PR #${prNumber} at ${worktreePath}`);
+    return {
+      path: worktreePath,
+      head: sha,
+      branch: '',
+      isMain: false,
+      isLocked: false,
+      isPrunable: false,
+    };
+  }
+
+  /**
+   * Remove a worktree created by {@link createPrWorktree}.
+   * Falls back to deleting the directory and pruning if git cannot remove it.
+   */
+  async removeWorktree(repoPath: string, worktreePath: string): Promise<void> {
+    try {
+      await this.gitBase.execGit(repoPath, ['worktree', 'remove', '--force', worktreePath]);
+    } catch (error) {
+      this.logger.warn(`git worktree remove failed for ${worktreePath}, deleting manually:`, error);
+      await fs.promises.rm(worktreePath, { recursive: true, force: true });
+      await this.gitBase.execGit(repoPath, ['worktree', 'prune']);
+    }
+    this.logger.info(`Removed worktree ${worktreePath}`);
+  }
+
+  /**
+   * Whether a commit exists in the local object database.
+   */
+  private async hasCommit(repoPath: string, sha: string): Promise<boolean> {
+    const { stdout } = await this.gitBase.execGit(repoPath, [
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      `${sha}^{commit}`,
+    ]);
+    return stdout.trim().length > 0;
+  }
+}
@@ -772,7 +772,7 @@ export class GitGateway implements OnGatewayInit {
     @MessageBody() payload: GithubCreatePrReviewPayload
   ): Promise<GithubCreatePrReviewResponse> {
     try {
-      const { projectPath, prNumber, body, event, comments } = payload;
+      const { projectPath, prNumber, body, event, comments, draft, openFindingKeys } = payload;
       const pathError = this.validatePath(projectPath);
 
       if (pathError) {
@@ -783,19 +783,33 @@ export class GitGateway implements OnGatewayInit {
         return { success: false, error: 'PR number and review body are required' };
       }
 
+      // Resolve fixed threads of earlier pushes and skip findings already open.
+      // Drafts leave threads alone until their author submits them.
+      const reconciled = await this.githubService.reconcileReviewThreads(
+        projectPath,
+        prNumber,
+        comments || [],
+        draft ? undefined : openFindingKeys
+      );
+
       const result = await this.githubService.createPrReview(
         projectPath,
         prNumber,
         body,
         event,
-        comments || []
+        reconciled.comments,
+        draft ?? false
       );
 
       return {
         success: true,
         url: result.url,
+        reviewId: result.reviewId,
+        commentIds: result.commentIds,
         postedComments: result.postedComments,
         skippedComments: result.skippedComments,
+        resolvedThreads: reconciled.resolvedThreads,
+        duplicateComments: reconciled.duplicateComments,
       };
     } catch (error) {
       const message = extractErrorMessage(error, 'Unknown error');
@@ -5,6 +5,7 @@ import { GitStatusService } from './git-status.service';
 import { GitCommitService } from './git-commit.service';
 import { GitRemoteService } from './git-remote.service';
 import { GitRepoService } from './git-repo.service';
+import { GitWorktreeService } from './git-worktree.service';
 import { GitService } from './git.service';
 import { GithubService } from './github.service';
 import { GitGateway } from './git.gateway';
@@ -20,6 +21,7 @@ import { GitHubCliGuard } from '../../common/guards';
     GitCommitService,
     GitRemoteService,
     GitRepoService,
+    GitWorktreeService,
     // Facade service
     GitService,
     // Other services
@@ -34,6 +36,7 @@ import { GitHubCliGuard } from '../../common/guards';
     GitCommitService,
     GitRemoteService,
     GitRepoService,
+    GitWorktreeService,
     GitService,
     GithubService,
   ],
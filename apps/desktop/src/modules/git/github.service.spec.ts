@@ -1021,6 +1021,45 @@ describe('GithubService', () => {
       ).rejects.toThrow('review was created in PENDING state instead of REQUEST_CHANGES');
     });
 
+    it('should leave a draft review pending by sending no event', async () => {
+      mockRepoInfoAndDiff();
+      mockSpawn.mockReturnValueOnce(
+        createMockChildProcess({
+          stdout: JSON.stringify({ id: 7, state: 'PENDING', html_url: 'u' }),
+          code: 0,
+        })
+      );
+
+      const result = await service.createPrReview(
+        repoPath,
+        1,
+        'Body',
+        'REQUEST_CHANGES',
+        [{ path: 'src/file.ts', line: 2, body: 'Fix this' }],
+        true
+      );
+
+      const payload = JSON.parse(mockSpawn.mock.results[0].value.stdin.write.mock.calls[0][0]);
+      expect(payload).not.toHaveProperty('event');
+      expect(result).toMatchObject({ url: 'u', postedComments: 1 });
+    });
+
+    it('should not retry when a pending review already exists', async () => {
+      mockRepoInfoAndDiff();
+      mockSpawn.mockReturnValueOnce(
+        createMockChildProcess({
+          stderr:
+            'Unprocessable Entity (HTTP 422): User can only have one pending review per pull request',
+          code: 1,
+        })
+      );
+
+      await expect(
+        service.createPrReview(repoPath, 1, 'Body', 'COMMENT', [], true)
+      ).rejects.toThrow('you already have a pending review on this PR');
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(1);
+    });
+
     it('should fallback to summary-only review on 422 error', async () => {
       mockRepoInfoAndDiff();
 
@@ -1077,6 +1116,34 @@ describe('GithubService', () => {
       expect(payload.comments).toEqual([{ path: 'src/file.ts', line: 2, body: 'Comment' }]);
     });
 
+    it('should list the IDs of the posted comments from every page', async () => {
+      mockRepoInfoAndDiff();
+
+      const reviewResponse = {
+        id: 42,
+        state: 'COMMENTED',
+        html_url: 'https://github.com/user/my-repo/pull/1#pullrequestreview-42',
+      };
+      mockSpawn.mockReturnValueOnce(
+        createMockChildProcess({ stdout: JSON.stringify(reviewResponse), code: 0 })
+      );
+      mockExecFileAsync.mockResolvedValueOnce({ stdout: '70\n71\n170\n', stderr: '' });
+
+      const result = await service.createPrReview(repoPath, 1, 'Body', 'COMMENT', [
+        { path: 'src/file.ts', line: 2, body: 'Comment' },
+      ]);
+
+      expect(result.commentIds).toEqual([70, 71, 170]);
+      const listArgs = mockExecFileAsync.mock.calls[2][1] as string[];
+      expect(listArgs).toEqual([
+        'api',
+        '--paginate',
+        'repos/user/my-repo/pulls/1/reviews/42/comments?per_page=100',
+        '--jq',
+        '.[].id',
+      ]);
+    });
+
     it('should skip comments targeting lines outside the diff', async () => {
       mockRepoInfoAndDiff();
 
@@ -1099,6 +1166,77 @@ describe('GithubService', () => {
       expect(result.skippedDetails).toHaveLength(1);
       expect(result.skippedDetails![0].line).toBe(999);
     });
+    it('should send multi-line and removed-line comments in the API format', async () => {
+      mockExecFileAsync.mockResolvedValueOnce({ stdout: JSON.stringify(repoInfo), stderr: '' });
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: [
+          'diff --git a/src/file.ts b/src/file.ts',
+          '--- a/src/file.ts',
+          '+++ b/src/file.ts',
+          '@@ -1,4 +1,4 @@',
+          ' line1',
+          '-old',
+          '+new',
+          ' line3',
+          ' line4',
+          '@@ -20,2 +20,2 @@',
+          ' x',
+          '+y',
+        ].join('\n'),
+        stderr: '',
+      });
+      mockSpawn.mockReturnValueOnce(
+        createMockChildProcess({
+          stdout: JSON.stringify({ id: 1, state: 'COMMENTED', html_url: 'u' }),
+          code: 0,
+        })
+      );
+
+      const result = await service.createPrReview(repoPath, 1, 'Body', 'COMMENT', [
+        { path: 'src/file.ts', line: 4, startLine: 2, body: 'Block', side: 'RIGHT' },
+        { path: 'src/file.ts', line: 2, body: 'Removed code', side: 'LEFT' },
+        { path: 'src/file.ts', line: 20, startLine: 3, body: 'Across hunks', side: 'RIGHT' },
+      ]);
+
+      const payload = JSON.parse(mockSpawn.mock.results[0].value.stdin.write.mock.calls[0][0]);
+      expect(payload.comments).toEqual([
+        {
+          path: 'src/file.ts',
+          line: 4,
+          start_line: 2,
+          start_side: 'RIGHT',
+          body: 'Block',
+          side: 'RIGHT',
+        },
+        { path: 'src/file.ts', line: 2, body: 'Removed code', side: 'LEFT' },
+      ]);
+      expect(result.skippedDetails).toEqual([
+        expect.objectContaining({
+          line: 20,
+          reason: 'Lines 3-20 are not in one diff hunk of "src/file.ts"',
+        }),
+      ]);
+    });
+
+    it('should not snap suggestions to a nearby line', async () => {
+      mockRepoInfoAndDiff();
+      mockSpawn.mockReturnValueOnce(
+        createMockChildProcess({
+          stdout: JSON.stringify({ id: 1, state: 'COMMENTED', html_url: 'u' }),
+          code: 0,
+        })
+      );
+
+      const result = await service.createPrReview(repoPath, 1, 'Body', 'COMMENT', [
+        { path: 'src/file.ts', line: 6, body: 'Nearby' },
+        { path: 'src/file.ts', line: 6, body: '```suggestion\nfixed\n```' },
+      ]);
+
+      expect(result.postedComments).toBe(1);
+      expect(result.skippedDetails).toEqual([
+        expect.objectContaining({ reason: 'Line 6 not in diff for "src/file.ts"' }),
+      ]);
+    });
   });
 
   // ==================== listPrReviews ====================
@@ -1201,6 +1339,264 @@ describe('GithubService', () => {
     });
   });
 
+  // ==================== reconcileReviewThreads ====================
+
+  describe('reconcileReviewThreads', () => {
+    const repoInfoOutput = {
+      stdout: JSON.stringify({
+        name: 'my-repo',
+        nameWithOwner: 'user/my-repo',
+        url: 'https://github.com/user/my-repo',
+        defaultBranchRef: { name: 'main' },
+        visibility: 'PUBLIC',
+      }),
+      stderr: '',
+    };
+    const marker = (key: string) => `<!-- gitchorus-finding:${key} -->`;
+
+    function thread(id: string, body: string, reviewId: number, isResolved = false) {
+      return {
+        id,
+        isResolved,
+        path: 'src/a.ts',
+        comments: { nodes: [{ body, pullRequestReview: { databaseId: reviewId } }] },
+      };
+    }
+
+    function mockReviewsAndThreads(threads: unknown[]) {
+      mockExecFileAsync.mockResolvedValueOnce(repoInfoOutput);
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify([
+          { id: 1, body: '<!-- gitchorus-review -->\nSummary', state: 'COMMENTED' },
+          { id: 2, body: 'Human review', state: 'COMMENTED' },
+        ]),
+        stderr: '',
+      });
+      mockExecFileAsync.mockResolvedValueOnce(repoInfoOutput);
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify({
+          data: { repository: { pullRequest: { reviewThreads: { nodes: threads } } } },
+        }),
+        stderr: '',
+      });
+    }
+
+    it('should resolve fixed GitChorus threads and skip findings that are still open', async () => {
+      mockReviewsAndThreads([
+        thread('T_fixed', `Fixed issue\n${marker('aaaaaaaa')}`, 1),
+        thread('T_open', `Persisting issue\n${marker('bbbbbbbb')}`, 1),
+        thread('T_done', `Resolved earlier\n${marker('cccccccc')}`, 1, true),
+        thread('T_human', `Human thread\n${marker('dddddddd')}`, 2),
+        thread('T_legacy', 'Comment pushed before markers', 1),
+      ]);
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify({
+          data: { resolveReviewThread: { thread: { id: 'T_fixed', isResolved: true } } },
+        }),
+        stderr: '',
+      });
+
+      const comments = [
+        { path: 'src/a.ts', line: 1, body: `Persisting\n${marker('bbbbbbbb')}` },
+        { path: 'src/a.ts', line: 2, body: `Regression\n${marker('cccccccc')}` },
+        { path: 'src/a.ts', line: 3, body: `New\n${marker('eeeeeeee')}` },
+      ];
+      const result = await service.reconcileReviewThreads('/repo', 1, comments, [
+        'bbbbbbbb',
+        'cccccccc',
+        'eeeeeeee',
+      ]);
+
+      expect(result).toEqual({
+        comments: [comments[1], comments[2]],
+        resolvedThreads: 1,
+        duplicateComments: 1,
+      });
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(5);
+      const resolveArgs = mockExecFileAsync.mock.calls[4][1] as string[];
+      expect(resolveArgs.slice(0, 2)).toEqual(['api', 'graphql']);
+      expect(resolveArgs).toContain('threadId=T_fixed');
+    });
+
+    it('should keep the thread of a finding that is still reported but not pushed', async () => {
+      mockReviewsAndThreads([
+        thread('T_unselected', `Still present\n${marker('aaaaaaaa')}`, 1),
+        thread('T_fixed', `Fixed issue\n${marker('bbbbbbbb')}`, 1),
+      ]);
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify({
+          data: { resolveReviewThread: { thread: { id: 'T_fixed', isResolved: true } } },
+        }),
+        stderr: '',
+      });
+
+      const comments = [{ path: 'src/a.ts', line: 1, body: `New\n${marker('eeeeeeee')}` }];
+      const result = await service.reconcileReviewThreads('/repo', 1, comments, [
+        'aaaaaaaa',
+        'eeeeeeee',
+      ]);
+
+      expect(result).toEqual({ comments, resolvedThreads: 1, duplicateComments: 0 });
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(5);
+      expect(mockExecFileAsync.mock.calls[4][1]).toContain('threadId=T_fixed');
+    });
+
+    it('should resolve no thread without the keys of the reported findings', async () => {
+      mockReviewsAndThreads([thread('T_fixed', `Fixed issue\n${marker('aaaaaaaa')}`, 1)]);
+      const comments = [{ path: 'src/a.ts', line: 1, body: `New\n${marker('eeeeeeee')}` }];
+
+      const result = await service.reconcileReviewThreads('/repo', 1, comments);
+
+      expect(result).toEqual({ comments, resolvedThreads: 0, duplicateComments: 0 });
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(4);
+    });
+
+    it('should follow the pages of review threads', async () => {
+      mockExecFileAsync.mockResolvedValueOnce(repoInfoOutput);
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify({
+          data: {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  pageInfo: { hasNextPage: true, endCursor: 'CURSOR_1' },
+                  nodes: [thread('T_1', 'First', 1)],
+                },
+              },
+            },
+          },
+        }),
+        stderr: '',
+      });
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify({
+          data: {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  pageInfo: { hasNextPage: false, endCursor: 'CURSOR_2' },
+                  nodes: [thread('T_2', 'Second', 1)],
+                },
+              },
+            },
+          },
+        }),
+        stderr: '',
+      });
+
+      const threads = await service.listPrReviewThreads('/repo', 1);
+
+      expect(threads.map(t => t.id)).toEqual(['T_1', 'T_2']);
+      expect(mockExecFileAsync.mock.calls[1][1]).not.toContain('cursor=CURSOR_1');
+      expect(mockExecFileAsync.mock.calls[2][1]).toContain('cursor=CURSOR_1');
+    });
+
+    it('should leave comments alone when the PR has no GitChorus review', async () => {
+      mockExecFileAsync.mockResolvedValueOnce(repoInfoOutput);
+      mockExecFileAsync.mockResolvedValueOnce({ stdout: '[]', stderr: '' });
+      const comments = [{ path: 'src/a.ts', line: 1, body: `New\n${marker('aaaaaaaa')}` }];
+
+      const result = await service.reconcileReviewThreads('/repo', 1, comments);
+
+      expect(result).toEqual({ comments, resolvedThreads: 0, duplicateComments: 0 });
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should post all comments when the threads cannot be listed', async () => {
+      mockExecFileAsync.mockResolvedValueOnce(repoInfoOutput);
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify([{ id: 1, body: '<!-- gitchorus-review -->' }]),
+        stderr: '',
+      });
+      mockExecFileAsync.mockResolvedValueOnce(repoInfoOutput);
+      mockExecFileAsync.mockResolvedValueOnce({
+        stdout: JSON.stringify({ errors: [{ message: 'Resource not accessible' }] }),
+        stderr: '',
+      });
+      const comments = [{ path: 'src/a.ts', line: 1, body: `New\n${marker('aaaaaaaa')}` }];
+
+      await expect(service.reconcileReviewThreads('/repo', 1, comments)).resolves.toEqual({
+        comments,
+        resolvedThreads: 0,
+        duplicateComments: 0,
+      });
+    });
+  });
+
+  // ==================== retractPrReview ====================
+
+  describe('retractPrReview', () => {
+    const repoInfoOutput = {
+      stdout: JSON.stringify({ name: 'my-repo', nameWithOwner: 'user/my-repo', url: 'u' }),
+      stderr: '',
+    };
+    const ok = { stdout: '', stderr: '' };
+
+    it('should delete comments, dismiss the review and replace its summary', async () => {
+      mockExecFileAsync
+        .mockResolvedValueOnce(repoInfoOutput)
+        .mockResolvedValueOnce({ stdout: 'CHANGES_REQUESTED\n', stderr: '' })
+        .mockResolvedValueOnce(ok)
+        .mockResolvedValueOnce({ stdout: '{}', stderr: 'gh: Not Found (HTTP 404)' })
+        .mockResolvedValueOnce(ok)
+        .mockResolvedValueOnce(ok);
+
+      const result = await service.retractPrReview('/repo', 1, 7, [70, 71]);
+
+      expect(result).toEqual({ deletedComments: 2, dismissed: true, deletedReview: false });
+      const calls = mockExecFileAsync.mock.calls.map(call => (call[1] as string[]).slice(1, 3));
+      expect(calls.slice(2)).toEqual([
+        ['repos/user/my-repo/pulls/comments/70', '-X'],
+        ['repos/user/my-repo/pulls/comments/71', '-X'],
+        ['repos/user/my-repo/pulls/1/reviews/7/dismissals', '-X'],
+        ['repos/user/my-repo/pulls/1/reviews/7', '-X'],
+      ]);
+      expect(mockExecFileAsync.mock.calls[5][1]).toContain(
+        'body=_This GitChorus review was retracted._'
+      );
+    });
+
+    it('should delete a pending review outright', async () => {
+      mockExecFileAsync
+        .mockResolvedValueOnce(repoInfoOutput)
+        .mockResolvedValueOnce({ stdout: 'PENDING\n', stderr: '' })
+        .mockResolvedValueOnce(ok);
+
+      const result = await service.retractPrReview('/repo', 1, 7, [70]);
+
+      expect(result).toEqual({ deletedComments: 1, dismissed: false, deletedReview: true });
+      expect(mockExecFileAsync.mock.calls[2][1]).toEqual([
+        'api',
+        'repos/user/my-repo/pulls/1/reviews/7',
+        '-X',
+        'DELETE',
+      ]);
+    });
+
+    it('should throw when the review no longer exists', async () => {
+      mockExecFileAsync
+        .mockResolvedValueOnce(repoInfoOutput)
+        .mockResolvedValueOnce({ stdout: '', stderr: 'gh: Not Found (HTTP 404)' });
+
+      await expect(service.retractPrReview('/repo', 1, 7, [])).rejects.toThrow(
+        'Review 7 was not found on PR #1'
+      );
+    });
+
+    it('should report comments that could not be deleted after retracting the rest', async () => {
+      mockExecFileAsync
+        .mockResolvedValueOnce(repoInfoOutput)
+        .mockResolvedValueOnce({ stdout: 'COMMENTED\n', stderr: '' })
+        .mockResolvedValueOnce({ stdout: '', stderr: 'gh: Forbidden (HTTP 403)' })
+        .mockResolvedValueOnce(ok);
+
+      await expect(service.retractPrReview('/repo', 1, 7, [70])).rejects.toThrow(
+        '1 inline comment(s) could not be deleted'
+      );
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(4);
+    });
+  });
+
   // ==================== parseDiffValidLines ====================
 
   describe('parseDiffValidLines', () => {
@@ -1221,7 +1617,7 @@ describe('GithubService', () => {
       const result = service.parseDiffValidLines(diff);
 
       expect(result.has('src/app.ts')).toBe(true);
-      const lines = result.get('src/app.ts')!;
+      const lines = result.get('src/app.ts')!.RIGHT;
       // Context lines: 10, 11, then added line 12, then context 13, 14, 15
       expect(lines.has(10)).toBe(true);
       expect(lines.has(11)).toBe(true);
@@ -1257,14 +1653,14 @@ describe('GithubService', () => {
       expect(result.has('src/a.ts')).toBe(true);
       expect(result.has('src/b.ts')).toBe(true);
 
-      const aLines = result.get('src/a.ts')!;
+      const aLines = result.get('src/a.ts')!.RIGHT;
       expect(aLines.has(1)).toBe(true);
       expect(aLines.has(2)).toBe(true); // added
       expect(aLines.has(3)).toBe(true);
       expect(aLines.has(4)).toBe(true);
       expect(aLines.size).toBe(4);
 
-      const bLines = result.get('src/b.ts')!;
+      const bLines = result.get('src/b.ts')!.RIGHT;
       expect(bLines.has(5)).toBe(true);
       expect(bLines.has(6)).toBe(true); // replacement line
       expect(bLines.has(7)).toBe(true);
@@ -1284,7 +1680,7 @@ describe('GithubService', () => {
       ].join('\n');
 
       const result = service.parseDiffValidLines(diff);
-      const lines = result.get('src/c.ts')!;
+      const lines = result.get('src/c.ts')!.RIGHT;
 
       expect(lines.has(1)).toBe(true); // keep
       expect(lines.has(2)).toBe(true); // also_keep (line 2 after removal)
@@ -1305,7 +1701,7 @@ describe('GithubService', () => {
       ].join('\n');
 
       const result = service.parseDiffValidLines(diff);
-      const lines = result.get('src/new.ts')!;
+      const lines = result.get('src/new.ts')!.RIGHT;
 
       expect(lines.has(1)).toBe(true);
       expect(lines.has(2)).toBe(true);
@@ -1331,7 +1727,7 @@ describe('GithubService', () => {
       ].join('\n');
 
       const result = service.parseDiffValidLines(diff);
-      const lines = result.get('src/multi.ts')!;
+      const lines = result.get('src/multi.ts')!.RIGHT;
 
       // First hunk
       expect(lines.has(1)).toBe(true);
@@ -1346,6 +1742,65 @@ describe('GithubService', () => {
       expect(lines.size).toBe(8);
     });
 
+    it('should track removed and context lines of the old file on the left side', () => {
+      const diff = [
+        'diff --git a/src/c.ts b/src/c.ts',
+        '--- a/src/c.ts',
+        '+++ b/src/c.ts',
+        '@@ -1,4 +1,3 @@',
+        ' keep',
+        '-removed',
+        ' also_keep',
+        ' end',
+        '@@ -40,2 +39,2 @@',
+        '-old',
+        '+new',
+        ' tail',
+      ].join('\n');
+
+      const lines = service.parseDiffValidLines(diff).get('src/c.ts')!;
+
+      expect([...lines.LEFT]).toEqual([
+        [1, 0],
+        [2, 0],
+        [3, 0],
+        [4, 0],
+        [40, 1],
+        [41, 1],
+      ]);
+      expect([...lines.RIGHT]).toEqual([
+        [1, 0],
+        [2, 0],
+        [3, 0],
+        [39, 1],
+        [40, 1],
+      ]);
+    });
+
+    it('should key deleted files by their old path', () => {
+      const diff = [
+        'diff --git a/src/a.ts b/src/a.ts',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1 +1 @@',
+        '-a',
+        '+b',
+        'diff --git a/src/gone.ts b/src/gone.ts',
+        'deleted file mode 100644',
+        '--- a/src/gone.ts',
+        '+++ /dev/null',
+        '@@ -1,2 +0,0 @@',
+        '-line1',
+        '-line2',
+      ].join('\n');
+
+      const result = service.parseDiffValidLines(diff);
+
+      expect([...result.get('src/gone.ts')!.LEFT.keys()]).toEqual([1, 2]);
+      expect(result.get('src/gone.ts')!.RIGHT.size).toBe(0);
+      expect([...result.get('src/a.ts')!.LEFT.keys()]).toEqual([1]);
+    });
+
     it('should return empty map for empty diff', () => {
       const result = service.parseDiffValidLines('');
       expect(result.size).toBe(0);
@@ -4,7 +4,14 @@ import { promisify } from 'util';
 import { existsSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
-import { GH_TIMEOUT_MS, createLogger, normalizePath, extractErrorMessage } from '@gitchorus/shared';
+import {
+  GH_TIMEOUT_MS,
+  GITCHORUS_REVIEW_MARKER,
+  FINDING_MARKER_PATTERN,
+  createLogger,
+  normalizePath,
+  extractErrorMessage,
+} from '@gitchorus/shared';
 import type {
   GhCliStatus,
   GhCliAuthStatus,
@@ -20,6 +27,8 @@ import type {
   IssueComment,
   ListIssuesOptions,
   RepoInfo,
+  GithubPrReviewComment,
+  DefaultReviewAction,
 } from '@gitchorus/shared';
 import type { ExecResult } from './git-base.service';
 
@@ -39,6 +48,54 @@ interface CliDetectionResult {
   method: GhCliDetectionMethod | 'none';
 }
 
+/**
+ * Lines of a file in a PR diff that review comments can be placed on, per
+ * side, each mapped to the index of its hunk (multi-line comments must stay
+ * within one hunk).
+ */
+export interface DiffCommentableLines {
+  LEFT: Map<number, number>;
+  RIGHT: Map<number, number>;
+}
+
+/**
+ * A review thread on a PR, as listed by the GraphQL API.
+ */
+export interface PrReviewThread {
+  /** GraphQL node ID, used to resolve the thread */
+  id: string;
+  isResolved: boolean;
+  path: string;
+  /** Body of the thread's first comment */
+  body: string;
+  /** Database ID of the review the thread was opened in */
+  reviewId: number | null;
+}
+
+/** Review threads of a PR with their first comment and its review */
+const REVIEW_THREADS_QUERY = `query($owner: String!, $name: String!, $number: Int!, $cursor: String) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          isResolved
+          path
+          comments(first: 1) { nodes { body pullRequestReview { databaseId } } }
+        }
+      }
+    }
+  }
+}`;
+
+const RESOLVE_REVIEW_THREAD_MUTATION = `mutation($threadId: ID!) {
+  resolveReviewThread(input: { threadId: $threadId }) { thread { id isResolved } }
+}`;
+
+/** Matches a GitHub suggestion block, which replaces exactly the lines its comment is on */
+const SUGGESTION_BLOCK_PATTERN = /^`{3,}suggestion\s*$/m;
+
 /**
  * Join paths and normalize
  */
@@ -580,23 +637,29 @@ export class GithubService {
    *
    * Uses the GitHub Reviews API (POST /repos/{owner}/{repo}/pulls/{prNumber}/reviews).
    * Pre-validates comments against the PR diff to prevent 422 errors.
-   * Comments targeting lines outside the diff are skipped and reported back
-   * so the caller can include them in the summary body.
+   * Comments may target removed lines (side LEFT) and span several lines
+   * (startLine); those targeting lines outside the diff are skipped and
+   * reported back so the caller can include them in the summary body.
+   * A draft review is created without an event, which leaves it pending for
+   * its author to edit and submit on GitHub.
    */
   async createPrReview(
     repoPath: string,
     prNumber: number,
     body: string,
-    event: 'REQUEST_CHANGES' | 'COMMENT',
-    comments: Array<{ path: string; line: number; body: string; side?: 'LEFT' | 'RIGHT' }>
+    event: DefaultReviewAction,
+    comments: GithubPrReviewComment[],
+    draft = false
   ): Promise<{
     url: string;
+    reviewId: number;
+    commentIds: number[];
     postedComments: number;
     skippedComments: number;
     skippedDetails?: Array<{ path: string; line: number; body: string; reason: string }>;
   }> {
     this.logger.debug(
-      `createPrReview: PR #${prNumber}, event=${event}, commentsCount=${comments.length}`
+      `createPrReview: PR #${prNumber}, event=${draft ? 'PENDING' : event}, commentsCount=${comments.length}`
     );
     const repoInfo = await this.getRepoInfo(repoPath);
     if (!repoInfo) {
@@ -646,12 +709,19 @@ export class GithubService {
 
     const result = await this.createPrReviewWithStdin(repoPath, repoInfo.fullName, prNumber, {
       body: finalBody,
-      event,
+      event: draft ? undefined : event,
       comments: validComments,
     });
 
+    // Keep the IDs of the created comments so the push can be retracted
+    const commentIds =
+      result.postedComments > 0
+        ? await this.listReviewCommentIds(repoPath, repoInfo.fullName, prNumber, result.reviewId)
+        : [];
+
     return {
       ...result,
+      commentIds,
       skippedComments: result.skippedComments + skippedDetails.length,
       skippedDetails: skippedDetails.length > 0 ? skippedDetails : undefined,
     };
@@ -659,6 +729,7 @@ export class GithubService {
 
   /**
    * Internal: create PR review using gh api with stdin JSON.
+   * Without an event the review stays pending.
    * On 422 failure, retries once without inline comments as a fallback.
    */
   private async createPrReviewWithStdin(
@@ -667,11 +738,18 @@ export class GithubService {
     prNumber: number,
     payload: {
       body: string;
-      event: string;
-      comments: Array<{ path: string; line: number; body: string; side?: 'LEFT' | 'RIGHT' }>;
+      event?: string;
+      comments: GithubPrReviewComment[];
     }
-  ): Promise<{ url: string; postedComments: number; skippedComments: number }> {
-    const inputJson = JSON.stringify(payload);
+  ): Promise<{ url: string; reviewId: number; postedComments: number; skippedComments: number }> {
+    const inputJson = JSON.stringify({
+      ...payload,
+      comments: payload.comments.map(({ startLine, startSide, ...comment }) => ({
+        ...comment,
+        start_line: startLine,
+        start_side: startLine !== undefined ? (startSide ?? comment.side) : undefined,
+      })),
+    });
     this.logger.debug(
       `createPrReviewWithStdin: PR #${prNumber}, event=${payload.event}, comments=${payload.comments.length}, payloadSize=${inputJson.length}`
     );
@@ -688,6 +766,13 @@ export class GithubService {
       if (result.code !== 0) {
         // Check for 422 (validation error -- inline comment on line not in diff)
         const errorOutput = result.stderr + result.stdout;
+        // GitHub allows one pending review per user and PR; retrying would hit it again
+        if (errorOutput.includes('one pending review')) {
+          throw new Error(
+            'Failed to create PR review: you already have a pending review on this PR. ' +
+              'Submit or delete it on GitHub before pushing another one.'
+          );
+        }
         if (
           errorOutput.includes('422') ||
           errorOutput.includes('pull_request_review_thread.path')
@@ -714,8 +799,8 @@ export class GithubService {
         `PR review API response: id=${data.id}, state=${data.state}, url=${data.html_url}`
       );
 
-      // Defensive: catch reviews stuck in PENDING state
-      if (data.state === 'PENDING') {
+      // Defensive: catch reviews stuck in PENDING state (unless a draft was asked for)
+      if (data.state === 'PENDING' && payload.event) {
         throw new Error(
           `Failed to create PR review: review was created in PENDING state instead of ${payload.event}. ` +
             `This usually indicates the API did not process the event field correctly.`
@@ -728,6 +813,7 @@ export class GithubService {
 
       return {
         url,
+        reviewId: data.id,
         postedComments: payload.comments.length,
         skippedComments: 0,
       };
@@ -808,9 +894,9 @@ export class GithubService {
     repoFullName: string,
     prNumber: number,
     body: string,
-    event: string,
+    event: string | undefined,
     totalComments: number
-  ): Promise<{ url: string; postedComments: number; skippedComments: number }> {
+  ): Promise<{ url: string; reviewId: number; postedComments: number; skippedComments: number }> {
     const { stdout } = await this.execGh(repoPath, [
       'api',
       `repos/${repoFullName}/pulls/${prNumber}/reviews`,
@@ -818,14 +904,13 @@ export class GithubService {
       'POST',
       '-f',
       `body=${body}`,
-      '-f',
-      `event=${event}`,
+      ...(event ? ['-f', `event=${event}`] : []),
     ]);
 
     const data = JSON.parse(stdout);
 
-    // Defensive: catch reviews stuck in PENDING state
-    if (data.state === 'PENDING') {
+    // Defensive: catch reviews stuck in PENDING state (unless a draft was asked for)
+    if (data.state === 'PENDING' && event) {
       throw new Error(
         `Failed to create PR review: review was created in PENDING state instead of ${event}. ` +
           `This usually indicates the API did not process the event field correctly.`
@@ -838,77 +923,213 @@ export class GithubService {
 
     return {
       url,
+      reviewId: data.id,
       postedComments: 0,
       skippedComments: totalComments,
     };
   }
 
   /**
-   * Parse a unified diff to extract valid (path, line) pairs on the RIGHT side.
-   * Returns a Map from normalized file path to a Set of valid line numbers.
+   * Internal: IDs of the inline comments of a review, from every page of the
+   * listing. Best effort, since the review itself was already created: returns
+   * an empty list on failure.
+   */
+  private async listReviewCommentIds(
+    repoPath: string,
+    repoFullName: string,
+    prNumber: number,
+    reviewId: number
+  ): Promise<number[]> {
+    try {
+      // --paginate runs the filter on each page, so the IDs come one per line
+      const { stdout } = await this.execGh(repoPath, [
+        'api',
+        '--paginate',
+        `repos/${repoFullName}/pulls/${prNumber}/reviews/${reviewId}/comments?per_page=100`,
+        '--jq',
+        '.[].id',
+      ]);
+      return stdout
+        .split('\n')
+        .map(line => Number(line.trim()))
+        .filter(id => Number.isInteger(id) && id > 0);
+    } catch (error) {
+      this.logger.warn(`Failed to list comments of review ${reviewId} on PR #${prNumber}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Retract a review pushed by GitChorus.
+   *
+   * A pending review is deleted with its comments. A submitted review cannot
+   * be deleted, so its inline comments are deleted, an approval or change
+   * request is dismissed, and its summary is replaced by a short retraction
+   * note without the GitChorus marker (so imports and re-pushes ignore it).
+   * Comments that are already gone count as deleted.
+   */
+  async retractPrReview(
+    repoPath: string,
+    prNumber: number,
+    reviewId: number,
+    commentIds: number[]
+  ): Promise<{ deletedComments: number; dismissed: boolean; deletedReview: boolean }> {
+    const repoInfo = await this.getRepoInfo(repoPath);
+    if (!repoInfo) {
+      throw new Error('Could not determine repository info for retracting the PR review');
+    }
+    const reviewPath = `repos/${repoInfo.fullName}/pulls/${prNumber}/reviews/${reviewId}`;
+
+    const { stdout, stderr } = await this.execGh(repoPath, ['api', reviewPath, '--jq', '.state']);
+    const state = stdout.trim();
+    if (!state || stderr.includes('HTTP')) {
+      throw new Error(`Review ${reviewId} was not found on PR #${prNumber}`);
+    }
+
+    if (state === 'PENDING') {
+      await this.execGhApiMutation(repoPath, [reviewPath, '-X', 'DELETE']);
+      return { deletedComments: commentIds.length, dismissed: false, deletedReview: true };
+    }
+
+    let deletedComments = 0;
+    const failures: string[] = [];
+    for (const commentId of commentIds) {
+      try {
+        await this.execGhApiMutation(
+          repoPath,
+          [`repos/${repoInfo.fullName}/pulls/comments/${commentId}`, '-X', 'DELETE'],
+          true
+        );
+        deletedComments++;
+      } catch (error) {
+        failures.push(extractErrorMessage(error, `comment ${commentId}`));
+      }
+    }
+
+    const dismissed = state === 'APPROVED' || state === 'CHANGES_REQUESTED';
+    if (dismissed) {
+      await this.execGhApiMutation(repoPath, [
+        `${reviewPath}/dismissals`,
+        '-X',
+        'PUT',
+        '-f',
+        'message=Retracted by GitChorus',
+        '-f',
+        'event=DISMISS',
+      ]);
+    }
+
+    await this.execGhApiMutation(repoPath, [
+      reviewPath,
+      '-X',
+      'PUT',
+      '-f',
+      'body=_This GitChorus review was retracted._',
+    ]);
+
+    if (failures.length > 0) {
+      throw new Error(
+        `Review ${reviewId} was retracted, but ${failures.length} inline comment(s) could not be deleted: ${failures[0]}`
+      );
+    }
+
+    this.logger.log(
+      `Retracted review ${reviewId} on PR #${prNumber}: ${deletedComments} comment(s) deleted${dismissed ? ', review dismissed' : ''}`
+    );
+    return { deletedComments, dismissed, deletedReview: false };
+  }
+
+  /**
+   * Internal: run a gh api request that changes state and throw when GitHub
+   * rejects it. execGh resolves on non-zero exits, so failures are detected
+   * from the HTTP status gh prints to stderr.
+   */
+  private async execGhApiMutation(
+    repoPath: string,
+    args: string[],
+    allowNotFound = false
+  ): Promise<void> {
+    const { stderr } = await this.execGh(repoPath, ['api', ...args]);
+    const status = stderr.match(/\(HTTP (\d{3})\)/)?.[1];
+    if (status && !(allowNotFound && status === '404')) {
+      throw new Error(`gh api ${args[0]} failed: ${stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Parse a unified diff to extract the lines comments can be placed on.
+   * Returns a Map from file path to its commentable lines on both sides:
+   * RIGHT holds added and context lines of the new file, LEFT removed and
+   * context lines of the old file. Deleted files are keyed by their old path.
    * @internal Exposed as public for unit testing.
    */
-  parseDiffValidLines(diff: string): Map<string, Set<number>> {
-    const validLines = new Map<string, Set<number>>();
+  parseDiffValidLines(diff: string): Map<string, DiffCommentableLines> {
+    const validLines = new Map<string, DiffCommentableLines>();
     const lines = diff.split('\n');
-    let currentFile: string | null = null;
+    let oldFile: string | null = null;
+    let current: DiffCommentableLines | null = null;
+    let leftLine = 0;
     let rightLine = 0;
+    let hunk = -1;
     let inHunk = false;
 
+    const fileLines = (path: string): DiffCommentableLines => {
+      if (!validLines.has(path)) {
+        validLines.set(path, { LEFT: new Map(), RIGHT: new Map() });
+      }
+      return validLines.get(path)!;
+    };
+
     for (const line of lines) {
-      // Match +++ b/path/to/file (new file path)
-      const fileMatch = line.match(/^\+\+\+ b\/(.+)/);
-      if (fileMatch) {
-        currentFile = fileMatch[1];
+      // Inter-file metadata (diff --git, index, mode lines) ends the previous file
+      if (line.startsWith('diff ')) {
+        oldFile = null;
+        current = null;
         inHunk = false;
-        if (!validLines.has(currentFile)) {
-          validLines.set(currentFile, new Set());
-        }
         continue;
       }
 
-      // Skip diff header lines (---, +++ /dev/null)
-      // Note: +++ b/path lines are handled by the fileMatch regex above
-      if (line.startsWith('--- ') || line === '+++ /dev/null') {
+      if (!inHunk && line.startsWith('--- ')) {
+        const oldMatch = line.match(/^--- a\/(.+)/);
+        oldFile = oldMatch ? oldMatch[1] : null;
         continue;
       }
 
-      // Match @@ hunk header to get the starting line number on the right side
-      const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
-      if (hunkMatch) {
-        rightLine = parseInt(hunkMatch[1], 10);
-        inHunk = true;
+      // New file path, or the old one when the file is deleted (+++ /dev/null)
+      if (!inHunk && line.startsWith('+++ ')) {
+        const newMatch = line.match(/^\+\+\+ b\/(.+)/);
+        const path = newMatch ? newMatch[1] : oldFile;
+        current = path ? fileLines(path) : null;
         continue;
       }
 
-      // Skip inter-file metadata lines (diff --git, index, etc.)
-      if (line.startsWith('diff ')) {
-        inHunk = false;
+      // Match @@ hunk header to get the starting line numbers on both sides
+      const hunkMatch = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunkMatch) {
+        leftLine = parseInt(hunkMatch[1], 10);
+        rightLine = parseInt(hunkMatch[2], 10);
+        hunk++;
+        inHunk = true;
         continue;
       }
 
-      if (!currentFile || !inHunk) continue;
-
-      // Context line (unchanged) — counts on both sides
-      if (!line.startsWith('+') && !line.startsWith('-') && !line.startsWith('\\')) {
-        const fileLines = validLines.get(currentFile)!;
-        fileLines.add(rightLine);
-        rightLine++;
-        continue;
-      }
+      if (!current || !inHunk || line.startsWith('\\')) continue;
 
       // Added line — counts on the right side only
       if (line.startsWith('+')) {
-        const fileLines = validLines.get(currentFile)!;
-        fileLines.add(rightLine);
-        rightLine++;
+        current.RIGHT.set(rightLine++, hunk);
         continue;
       }
 
-      // Removed line — only counts on the left side, skip right
+      // Removed line — counts on the left side only
       if (line.startsWith('-')) {
+        current.LEFT.set(leftLine++, hunk);
         continue;
       }
+
+      // Context line (unchanged) — counts on both sides
+      current.LEFT.set(leftLine++, hunk);
+      current.RIGHT.set(rightLine++, hunk);
     }
 
     return validLines;
@@ -916,17 +1137,18 @@ export class GithubService {
 
   /**
    * Validate comments against the parsed diff.
-   * Tries to snap close line numbers (within ±3 lines) to a valid diff line.
-   * Returns valid and skipped comments.
+   * Tries to snap close line numbers (within ±3 lines) to a valid diff line
+   * on the same side. Multi-line comments and suggestions cover exact lines,
+   * so they are never snapped. Returns valid and skipped comments.
    */
   private validateCommentsAgainstDiff(
-    comments: Array<{ path: string; line: number; body: string; side?: 'LEFT' | 'RIGHT' }>,
-    validLines: Map<string, Set<number>>
+    comments: GithubPrReviewComment[],
+    validLines: Map<string, DiffCommentableLines>
   ): {
-    valid: Array<{ path: string; line: number; body: string; side?: 'LEFT' | 'RIGHT' }>;
+    valid: GithubPrReviewComment[];
     skipped: Array<{ path: string; line: number; body: string; reason: string }>;
   } {
-    const valid: Array<{ path: string; line: number; body: string; side?: 'LEFT' | 'RIGHT' }> = [];
+    const valid: GithubPrReviewComment[] = [];
     const skipped: Array<{ path: string; line: number; body: string; reason: string }> = [];
 
     for (const comment of comments) {
@@ -947,20 +1169,45 @@ export class GithubService {
         continue;
       }
 
+      const side = comment.side ?? 'RIGHT';
+      const sideLines = fileLines[side];
+      const sideLabel = side === 'LEFT' ? ' (removed lines)' : '';
+
+      // Multi-line: both ends must be in the diff, in the same hunk
+      if (comment.startLine !== undefined && comment.startLine !== comment.line) {
+        const startHunk = fileLines[comment.startSide ?? side].get(comment.startLine);
+        const endHunk = sideLines.get(comment.line);
+        if (comment.startLine < comment.line && startHunk !== undefined && startHunk === endHunk) {
+          valid.push({ ...comment, path: normalizedPath });
+        } else {
+          skipped.push({
+            path: normalizedPath,
+            line: comment.line,
+            body: comment.body,
+            reason: `Lines ${comment.startLine}-${comment.line}${sideLabel} are not in one diff hunk of "${normalizedPath}"`,
+          });
+        }
+        continue;
+      }
+
+      const { startLine: _startLine, startSide: _startSide, ...singleLine } = comment;
+
       // Exact match
-      if (fileLines.has(comment.line)) {
-        valid.push({ ...comment, path: normalizedPath });
+      if (sideLines.has(comment.line)) {
+        valid.push({ ...singleLine, path: normalizedPath });
         continue;
       }
 
       // Try snapping to nearest valid line within ±3 lines
       let snappedLine: number | null = null;
-      let minDistance = Infinity;
-      for (const validLine of fileLines) {
-        const distance = Math.abs(validLine - comment.line);
-        if (distance <= 3 && distance < minDistance) {
-          minDistance = distance;
-          snappedLine = validLine;
+      if (!SUGGESTION_BLOCK_PATTERN.test(comment.body)) {
+        let minDistance = Infinity;
+        for (const validLine of sideLines.keys()) {
+          const distance = Math.abs(validLine - comment.line);
+          if (distance <= 3 && distance < minDistance) {
+            minDistance = distance;
+            snappedLine = validLine;
+          }
         }
       }
 
@@ -968,7 +1215,7 @@ export class GithubService {
         this.logger.debug(
           `Snapped comment line ${comment.line} → ${snappedLine} for ${normalizedPath}`
         );
-        valid.push({ ...comment, path: normalizedPath, line: snappedLine });
+        valid.push({ ...singleLine, path: normalizedPath, line: snappedLine });
         continue;
       }
 
@@ -976,7 +1223,7 @@ export class GithubService {
         path: normalizedPath,
         line: comment.line,
         body: comment.body,
-        reason: `Line ${comment.line} not in diff for "${normalizedPath}"`,
+        reason: `Line ${comment.line}${sideLabel} not in diff for "${normalizedPath}"`,
       });
     }
 
@@ -1029,6 +1276,152 @@ export class GithubService {
     }));
   }
 
+  /**
+   * List the review threads of a pull request via the GraphQL API, following
+   * the pages of the connection.
+   */
+  async listPrReviewThreads(repoPath: string, prNumber: number): Promise<PrReviewThread[]> {
+    const repoInfo = await this.getRepoInfo(repoPath);
+    if (!repoInfo) {
+      throw new Error('Could not determine repository info for listing review threads');
+    }
+
+    const [owner, name] = repoInfo.fullName.split('/');
+    const threads: Array<Record<string, unknown>> = [];
+    let cursor: string | undefined;
+    do {
+      const { stdout } = await this.execGh(repoPath, [
+        'api',
+        'graphql',
+        '-f',
+        `query=${REVIEW_THREADS_QUERY}`,
+        '-F',
+        `owner=${owner}`,
+        '-F',
+        `name=${name}`,
+        '-F',
+        `number=${prNumber}`,
+        ...(cursor ? ['-f', `cursor=${cursor}`] : []),
+      ]);
+
+      const data = JSON.parse(stdout);
+      if (data.errors?.length) {
+        throw new Error(`Failed to list review threads: ${data.errors[0].message}`);
+      }
+
+      const connection = data.data?.repository?.pullRequest?.reviewThreads;
+      threads.push(...((connection?.nodes ?? []) as Array<Record<string, unknown>>));
+      cursor = connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : undefined;
+    } while (cursor);
+
+    return threads.map(thread => {
+      const comments = (thread.comments as { nodes?: Array<Record<string, unknown>> })?.nodes;
+      const first = comments?.[0];
+      const review = first?.pullRequestReview as { databaseId?: number } | null | undefined;
+      return {
+        id: thread.id as string,
+        isResolved: Boolean(thread.isResolved),
+        path: (thread.path as string) || '',
+        body: (first?.body as string) || '',
+        reviewId: review?.databaseId ?? null,
+      };
+    });
+  }
+
+  /**
+   * Resolve a review thread via the GraphQL resolveReviewThread mutation.
+   */
+  async resolveReviewThread(repoPath: string, threadId: string): Promise<void> {
+    const { stdout } = await this.execGh(repoPath, [
+      'api',
+      'graphql',
+      '-f',
+      `query=${RESOLVE_REVIEW_THREAD_MUTATION}`,
+      '-F',
+      `threadId=${threadId}`,
+    ]);
+
+    const data = JSON.parse(stdout);
+    if (data.errors?.length || !data.data?.resolveReviewThread?.thread?.isResolved) {
+      throw new Error(
+        `Failed to resolve review thread ${threadId}: ${data.errors?.[0]?.message ?? 'not resolved'}`
+      );
+    }
+  }
+
+  /**
+   * Reconcile a re-push with the threads of earlier GitChorus reviews on the PR.
+   *
+   * Inline comments carry a hidden finding marker. Open GitChorus threads
+   * whose finding the review no longer reports (missing from openFindingKeys)
+   * are resolved as fixed; a finding that is merely not pushed keeps its thread.
+   * Comments whose finding still has an open thread are dropped as duplicates,
+   * so only new findings and ones whose thread was resolved are posted again.
+   * Threads from before markers were added are left alone. Without
+   * openFindingKeys (e.g. drafts, since resolving is visible before the draft
+   * is submitted) no thread is resolved. Best effort: on failure all comments
+   * are returned unchanged.
+   */
+  async reconcileReviewThreads(
+    repoPath: string,
+    prNumber: number,
+    comments: GithubPrReviewComment[],
+    openFindingKeys?: string[]
+  ): Promise<{
+    comments: GithubPrReviewComment[];
+    resolvedThreads: number;
+    duplicateComments: number;
+  }> {
+    const unchanged = { comments, resolvedThreads: 0, duplicateComments: 0 };
+
+    try {
+      const reviews = await this.listPrReviews(repoPath, prNumber);
+      const gitchorusReviewIds = new Set(
+        reviews.filter(r => r.body.includes(GITCHORUS_REVIEW_MARKER)).map(r => r.id)
+      );
+      if (gitchorusReviewIds.size === 0) {
+        return unchanged;
+      }
+
+      const openThreads = (await this.listPrReviewThreads(repoPath, prNumber))
+        .filter(t => !t.isResolved && t.reviewId !== null && gitchorusReviewIds.has(t.reviewId))
+        .map(t => ({ id: t.id, key: t.body.match(FINDING_MARKER_PATTERN)?.[1] }))
+        .filter((t): t is { id: string; key: string } => t.key !== undefined);
+
+      const commentKeys = comments.map(c => c.body.match(FINDING_MARKER_PATTERN)?.[1]);
+      const openKeys = new Set(openThreads.map(t => t.key));
+
+      let resolvedThreads = 0;
+      const reportedKeys = new Set(openFindingKeys);
+      const fixedThreads = openFindingKeys ? openThreads.filter(t => !reportedKeys.has(t.key)) : [];
+      for (const thread of fixedThreads) {
+        try {
+          await this.resolveReviewThread(repoPath, thread.id);
+          resolvedThreads++;
+        } catch (error) {
+          this.logger.warn(`PR #${prNumber}: ${extractErrorMessage(error, 'Unknown error')}`);
+        }
+      }
+
+      const toPost = comments.filter((_, i) => {
+        const key = commentKeys[i];
+        return key === undefined || !openKeys.has(key);
+      });
+      const duplicateComments = comments.length - toPost.length;
+
+      this.logger.log(
+        `PR #${prNumber}: resolved ${resolvedThreads} fixed thread(s), skipped ${duplicateComments} duplicate comment(s)`
+      );
+      return { comments: toPost, resolvedThreads, duplicateComments };
+    } catch (error) {
+      this.logger.warn(
+        `Failed to reconcile earlier review threads of PR #${prNumber}, posting all comments:`,
+        error
+      );
+      return unchanged;
+    }
+  }
+
   /**
    * Get the HEAD commit SHA for a pull request
    */
@@ -1050,6 +1443,33 @@ export class GithubService {
     return sha;
   }
 
+  /**
+   * Get the head commit and branch of a pull request, and whether the branch
+   * lives in a fork rather than this repository.
+   */
+  async getPrHeadRef(
+    repoPath: string,
+    prNumber: number
+  ): Promise<{ sha: string; branch: string; isCrossRepository: boolean }> {
+    const { stdout } = await this.execGh(repoPath, [
+      'pr',
+      'view',
+      prNumber.toString(),
+      '--json',
+      'headRefOid,headRefName,isCrossRepository',
+    ]);
+
+    const data = JSON.parse(stdout || '{}');
+    if (!data.headRefOid || !data.headRefName) {
+      throw new Error(`Failed to get the head of PR #${prNumber}`);
+    }
+    return {
+      sha: data.headRefOid as string,
+      branch: data.headRefName as string,
+      isCrossRepository: Boolean(data.isCrossRepository),
+    };
+  }
+
   /**
    * Get the diff between two commits (for incremental re-review).
    * Fetches from origin first to ensure commits are available locally.
@@ -5,6 +5,7 @@ export { GitStatusService } from './git-status.service';
 export { GitCommitService } from './git-commit.service';
 export { GitRemoteService } from './git-remote.service';
 export { GitRepoService } from './git-repo.service';
+export { GitWorktreeService } from './git-worktree.service';
 export { GitService } from './git.service';
 export { GithubService } from './github.service';
 export { GitGateway } from './git.gateway';
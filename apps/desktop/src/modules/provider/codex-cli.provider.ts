@@ -0,0 +1,423 @@
+import { Injectable } from '@nestjs/common';
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import type {
+  ProviderStatus,
+  ValidationParams,
+  ValidationStep,
+  ValidationResult,
+  ReviewParams,
+  ReviewResult,
+  Logger,
+} from '@gitchorus/shared';
+import { createLogger } from '@gitchorus/shared';
+import { findCodexCli, getCodexCliStatus } from '../../main/utils';
+import { SettingsService } from '../settings';
+import {
+  VALIDATION_OUTPUT_SCHEMA,
+  REVIEW_OUTPUT_SCHEMA,
+  RE_REVIEW_OUTPUT_SCHEMA,
+  buildSystemPrompt,
+  buildIssuePrompt,
+  buildReviewSystemPrompt,
+  buildReviewPrompt,
+  buildReReviewSystemPrompt,
+  buildReReviewPrompt,
+} from './prompts';
+import { buildReviewResult, buildValidationResult, extractJsonObject } from './result-builders';
+import {
+  getPromptTemplateUsage,
+  RE_REVIEW_PROMPT_TEMPLATES,
+  REVIEW_PROMPT_TEMPLATES,
+  VALIDATION_PROMPT_TEMPLATES,
+} from './prompt-templates';
+import { buildCodexEnv, buildCodexPrompt, codexEventToSteps, parseCodexEvent } from './codex-utils';
+import { createRunAbortController, createRunLogger } from './run-context';
+
+/**
+ * Default model for Codex CLI runs
+ */
+const DEFAULT_MODEL = 'gpt-5-codex';
+
+/**
+ * Nominal turn budget passed to the shared prompt builders.
+ * Codex has no turn limit; this only affects the wording of efficiency guidance,
+ * which is omitted for non-Claude models anyway.
+ */
+const NOMINAL_MAX_TURNS = 50;
+
+/**
+ * Maximum number of stderr lines to retain for error diagnostics.
+ */
+const MAX_STDERR_LINES = 20;
+
+/**
+ * OpenAI Codex CLI provider for issue validation and PR review.
+ *
+ * Spawns `codex exec --json` in a read-only sandbox rooted at the repository,
+ * streams its JSONL events as ValidationSteps, and parses the agent's final
+ * message into the same ValidationResult/ReviewResult shapes as the Claude provider.
+ */
+@Injectable()
+export class CodexCliProvider {
+  /** Controllers of the runs in progress, aborted together by cancel() */
+  private readonly activeRuns = new Set<AbortController>();
+  private cachedCliPath: string | null = null;
+
+  constructor(private readonly settingsService: SettingsService) {}
+
+  /**
+   * Create the AbortController for one run, linked to the job's signal.
+   * Released by runExec when the run ends.
+   */
+  private acquireAbortController(signal?: AbortSignal): AbortController {
+    const abortController = createRunAbortController(signal);
+    this.activeRuns.add(abortController);
+    return abortController;
+  }
+
+  /**
+   * Resolve the Codex CLI executable. Cached once found.
+   */
+  private async resolveCliPath(): Promise<string> {
+    if (this.cachedCliPath) return this.cachedCliPath;
+
+    const { cliPath } = await findCodexCli();
+    if (!cliPath) {
+      throw new Error(
+        'Codex CLI is not installed. Install it with "npm install -g @openai/codex".'
+      );
+    }
+
+    this.cachedCliPath = cliPath;
+    return cliPath;
+  }
+
+  /**
+   * Resolve the model for a run: explicit config override, then settings, then default.
+   */
+  private resolveModel(params: { config?: { model?: string } }): string {
+    return params.config?.model || this.settingsService.getConfig().codexModel || DEFAULT_MODEL;
+  }
+
+  /**
+   * Spawn `codex exec` with the prompt on stdin and stream its events.
+   * Yields progress steps and returns the text of the agent's final message.
+   */
+  private async *runExec(
+    prompt: string,
+    cwd: string,
+    model: string,
+    logger: Logger,
+    label: string,
+    signal: AbortSignal | undefined
+  ): AsyncGenerator<ValidationStep, string> {
+    const abortController = this.acquireAbortController(signal);
+    const stderrBuffer: string[] = [];
+    let lastMessage: string | null = null;
+    let failureMessage: string | null = null;
+
+    try {
+      const cliPath = await this.resolveCliPath();
+      const args = [
+        'exec',
+        '--json',
+        '--sandbox',
+        'read-only',
+        '--skip-git-repo-check',
+        '--cd',
+        cwd,
+        '--model',
+        model,
+        '-',
+      ];
+
+      logger.info(`Spawning Codex CLI: ${cliPath} ${args.join(' ')}`);
+      const child = spawn(cliPath, args, {
+        cwd,
+        signal: abortController.signal,
+        env: buildCodexEnv(),
+        shell: process.platform === 'win32',
+        windowsHide: true,
+      });
+
+      const exited = new Promise<{ code: number | null; error?: Error }>(resolve => {
+        child.once('error', error => resolve({ code: null, error }));
+        child.once('close', code => resolve({ code }));
+      });
+
+      child.stderr.on('data', (data: Buffer) => {
+        for (const line of data.toString().split('\n')) {
+          if (!line.trim()) continue;
+          stderrBuffer.push(line.trimEnd());
+          if (stderrBuffer.length > MAX_STDERR_LINES) {
+            stderrBuffer.shift();
+          }
+        }
+      });
+
+      child.stdin.on('error', error => logger.debug(`Codex stdin error: ${error.message}`));
+      child.stdin.end(prompt);
+
+      try {
+        const lines = createInterface({ input: child.stdout });
+        for await (const line of lines) {
+          const event = parseCodexEvent(line);
+          if (!event) continue;
+
+          logger.debug(`Codex event: type=${event.type}`);
+
+          if (event.type === 'item.completed' && event.item?.type === 'agent_message') {
+            lastMessage = event.item.text ?? lastMessage;
+          } else if (event.type === 'turn.failed') {
+            failureMessage = event.error?.message || 'Codex turn failed';
+          } else if (event.type === 'error') {
+            failureMessage = event.message || 'Codex reported an error';
+          } else if (event.type === 'turn.completed' && event.usage) {
+            logger.info(
+              `${label} token usage: input=${event.usage.input_tokens ?? 0}, cached=${event.usage.cached_input_tokens ?? 0}, output=${event.usage.output_tokens ?? 0}`
+            );
+          }
+
+          for (const step of codexEventToSteps(event)) {
+            logger.info(`Step: [${step.stepType}] ${step.message}`);
+            yield step;
+          }
+        }
+      } finally {
+        if (child.exitCode === null && !child.killed) {
+          child.kill();
+        }
+      }
+
+      const { code, error } = await exited;
+
+      if (abortController.signal.aborted) {
+        logger.info(`${label} cancelled by user`);
+        throw new Error(`${label} cancelled by user`);
+      }
+      if (error) {
+        throw new Error(`Failed to start Codex CLI: ${error.message}`);
+      }
+      if (failureMessage) {
+        throw new Error(`${label} failed: ${failureMessage}`);
+      }
+      if (code !== 0) {
+        throw new Error(`${label} failed: Codex CLI exited with code ${code}`);
+      }
+    } catch (error) {
+      if (stderrBuffer.length > 0 && error instanceof Error) {
+        const stderrContext = stderrBuffer.join('\n');
+        logger.error(`stderr output:\n${stderrContext}`);
+        const enhanced = new Error(`${error.message}\n[stderr]: ${stderrContext}`);
+        enhanced.name = error.name;
+        enhanced.stack = error.stack;
+        throw enhanced;
+      }
+      throw error;
+    } finally {
+      this.activeRuns.delete(abortController);
+    }
+
+    if (!lastMessage) {
+      throw new Error(`${label} completed without producing a result`);
+    }
+
+    logger.info(`${label} completed successfully`);
+    return lastMessage;
+  }
+
+  /**
+   * Parse the final agent message as JSON, with a labelled error on failure.
+   */
+  private parseOutput(message: string, label: string): Record<string, unknown> {
+    try {
+      return extractJsonObject(message);
+    } catch {
+      throw new Error(`${label} did not produce valid JSON output`);
+    }
+  }
+
+  /**
+   * Check if the Codex CLI is available and authenticated.
+   */
+  async getStatus(): Promise<ProviderStatus> {
+    try {
+      const cliStatus = await getCodexCliStatus();
+
+      return {
+        type: 'codex',
+        available: cliStatus.installed,
+        version: cliStatus.version,
+        authenticated: cliStatus.auth.authenticated,
+        error: !cliStatus.installed
+          ? 'Codex CLI is not installed'
+          : !cliStatus.auth.authenticated
+            ? 'Codex CLI is not authenticated. Run "codex login" to authenticate.'
+            : undefined,
+      };
+    } catch (error) {
+      const defaultLogger = createLogger('CodexCliProvider');
+      defaultLogger.error('Failed to get Codex CLI status:', error);
+      return {
+        type: 'codex',
+        available: false,
+        authenticated: false,
+        error: `Failed to check Codex CLI status: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Run validation on an issue using the Codex CLI.
+   *
+   * Yields ValidationStep events for progress tracking and returns the final ValidationResult.
+   * Codex does not report cost, so costUsd is always 0.
+   */
+  async *validate(params: ValidationParams): AsyncGenerator<ValidationStep, ValidationResult> {
+    const startTime = Date.now();
+    const model = this.resolveModel(params);
+    const logger = createRunLogger('CodexCliProvider', params);
+    const templates = this.settingsService.getConfig().promptTemplates;
+
+    yield {
+      step: 'initializing',
+      message: 'Starting Codex agent for issue analysis...',
+      timestamp: new Date().toISOString(),
+      stepType: 'init',
+    };
+
+    const prompt = buildCodexPrompt(
+      buildSystemPrompt(model, NOMINAL_MAX_TURNS, templates),
+      buildIssuePrompt(params, templates),
+      VALIDATION_OUTPUT_SCHEMA
+    );
+
+    yield {
+      step: 'reading-issue',
+      message: `Analyzing issue #${params.issue.number}: ${params.issue.title}`,
+      timestamp: new Date().toISOString(),
+      stepType: 'analyzing',
+    };
+
+    const message = yield* this.runExec(
+      prompt,
+      params.repoPath,
+      model,
+      logger,
+      'Validation',
+      params.signal
+    );
+
+    yield {
+      step: 'processing-result',
+      message: 'Processing validation result...',
+      timestamp: new Date().toISOString(),
+      stepType: 'processing',
+    };
+
+    const output = this.parseOutput(message, 'Validation');
+    return buildValidationResult(output, params, {
+      providerType: 'codex',
+      model,
+      costUsd: 0,
+      startTime,
+      promptTemplates: getPromptTemplateUsage(VALIDATION_PROMPT_TEMPLATES, templates),
+    });
+  }
+
+  /**
+   * Review entry point matching ClaudeAgentProvider.reviewAuto.
+   * Codex has no sub-agent support, so multi-agent mode falls back to a single-agent review.
+   */
+  async *reviewAuto(params: ReviewParams): AsyncGenerator<ValidationStep, ReviewResult> {
+    if (this.settingsService.getConfig().reviewMode === 'multi-agent' && !params.isReReview) {
+      const logger = createRunLogger('CodexCliProvider', params);
+      logger.info('Multi-agent mode is not supported by Codex, running single-agent review');
+    }
+    return yield* this.review(params);
+  }
+
+  /**
+   * Run a PR code review (or re-review) using the Codex CLI.
+   */
+  async *review(params: ReviewParams): AsyncGenerator<ValidationStep, ReviewResult> {
+    const startTime = Date.now();
+    const model = this.resolveModel(params);
+    const logger = createRunLogger('CodexCliProvider', params);
+    const isReReview = params.isReReview && params.previousReview;
+    const label = isReReview ? 'Re-review' : 'Review';
+    const templates = this.settingsService.getConfig().promptTemplates;
+
+    yield {
+      step: 'initializing',
+      message: isReReview
+        ? 'Starting Codex agent for PR re-review...'
+        : 'Starting Codex agent for PR review...',
+      timestamp: new Date().toISOString(),
+      stepType: 'init',
+    };
+
+    const prompt = isReReview
+      ? buildCodexPrompt(
+          buildReReviewSystemPrompt(model, NOMINAL_MAX_TURNS, params.rules, templates),
+          buildReReviewPrompt(params, templates),
+          RE_REVIEW_OUTPUT_SCHEMA
+        )
+      : buildCodexPrompt(
+          buildReviewSystemPrompt(model, NOMINAL_MAX_TURNS, params.rules, templates),
+          buildReviewPrompt(params, templates),
+          REVIEW_OUTPUT_SCHEMA
+        );
+
+    yield {
+      step: 'reading-pr',
+      message: isReReview
+        ? `Re-reviewing PR #${params.prNumber}: ${params.prTitle}`
+        : `Analyzing PR #${params.prNumber}: ${params.prTitle}`,
+      timestamp: new Date().toISOString(),
+      stepType: 'analyzing',
+    };
+
+    const message = yield* this.runExec(
+      prompt,
+      params.repoPath,
+      model,
+      logger,
+      label,
+      params.signal
+    );
+
+    yield {
+      step: 'processing-result',
+      message: 'Processing review result...',
+      timestamp: new Date().toISOString(),
+      stepType: 'processing',
+    };
+
+    const output = this.parseOutput(message, label);
+    return buildReviewResult(output, params, {
+      providerType: 'codex',
+      model,
+      costUsd: 0,
+      startTime,
+      promptTemplates: getPromptTemplateUsage(
+        isReReview ? RE_REVIEW_PROMPT_TEMPLATES : REVIEW_PROMPT_TEMPLATES,
+        templates
+      ),
+    });
+  }
+
+  /**
+   * Cancel every validation and review in progress on this provider.
+   * To cancel a single run, abort the signal passed in its params instead.
+   */
+  cancel(): void {
+    if (this.activeRuns.size > 0) {
+      const logger = createLogger('CodexCliProvider');
+      logger.info(`Cancelling ${this.activeRuns.size} Codex CLI runs`);
+      for (const abortController of this.activeRuns) abortController.abort();
+      this.activeRuns.clear();
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  buildCodexEnv,
+  buildCodexPrompt,
+  parseCodexEvent,
+  unwrapShellCommand,
+  codexEventToSteps,
+} from './codex-utils';
+import type { CodexEvent } from './codex-utils';
+
+function stepsFor(event: CodexEvent) {
+  return [...codexEventToSteps(event)];
+}
+
+// ---------------------------------------------------------------------------
+// buildCodexEnv
+// ---------------------------------------------------------------------------
+
+describe('buildCodexEnv', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('should pass only allowlisted and Codex variables', () => {
+    process.env = {
+      PATH: '/usr/bin',
+      HOME: '/home/dev',
+      GITHUB_TOKEN: 'ghp_secret',
+      AWS_SECRET_ACCESS_KEY: 'aws',
+      ANTHROPIC_API_KEY: 'sk-ant',
+      OPENAI_API_KEY: 'sk-openai',
+      CODEX_HOME: '/home/dev/.codex',
+    };
+
+    expect(buildCodexEnv()).toEqual({
+      PATH: '/usr/bin',
+      HOME: '/home/dev',
+      NO_COLOR: '1',
+      OPENAI_API_KEY: 'sk-openai',
+      CODEX_HOME: '/home/dev/.codex',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildCodexPrompt
+// ---------------------------------------------------------------------------
+
+describe('buildCodexPrompt', () => {
+  it('should combine system prompt, task prompt, and schema', () => {
+    const prompt = buildCodexPrompt('SYSTEM', 'TASK', { type: 'object' });
+
+    expect(prompt.indexOf('SYSTEM')).toBeLessThan(prompt.indexOf('TASK'));
+    expect(prompt).toContain('"type": "object"');
+    expect(prompt).toContain('single JSON object');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseCodexEvent
+// ---------------------------------------------------------------------------
+
+describe('parseCodexEvent', () => {
+  it('should parse a JSONL event', () => {
+    const event = parseCodexEvent('{"type":"turn.started"}');
+    expect(event).toEqual({ type: 'turn.started' });
+  });
+
+  it('should return null for blank lines and non-JSON noise', () => {
+    expect(parseCodexEvent('')).toBeNull();
+    expect(parseCodexEvent('Reading prompt from stdin...')).toBeNull();
+    expect(parseCodexEvent('{not json')).toBeNull();
+  });
+
+  it('should return null for objects without a type', () => {
+    expect(parseCodexEvent('{"foo":"bar"}')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// unwrapShellCommand
+// ---------------------------------------------------------------------------
+
+describe('unwrapShellCommand', () => {
+  it('should strip bash -lc wrapper', () => {
+    expect(unwrapShellCommand("bash -lc 'rg -n foo src'")).toBe('rg -n foo src');
+  });
+
+  it('should strip absolute shell path wrapper', () => {
+    expect(unwrapShellCommand('/bin/zsh -lc "ls -la"')).toBe('ls -la');
+  });
+
+  it('should leave plain commands untouched', () => {
+    expect(unwrapShellCommand('cat README.md')).toBe('cat README.md');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// codexEventToSteps
+// ---------------------------------------------------------------------------
+
+describe('codexEventToSteps', () => {
+  it('should map file reads to reading steps', () => {
+    const steps = stepsFor({
+      type: 'item.started',
+      item: { type: 'command_execution', command: "bash -lc 'sed -n 1,80p src/app.ts'" },
+    });
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({
+      step: 'tool-read',
+      stepType: 'reading',
+      toolName: 'Read',
+      filePath: 'src/app.ts',
+    });
+  });
+
+  it('should map rg/grep to searching steps', () => {
+    const steps = stepsFor({
+      type: 'item.started',
+      item: { type: 'command_execution', command: "bash -lc 'rg -n TODO'" },
+    });
+
+    expect(steps[0]).toMatchObject({ step: 'tool-grep', stepType: 'searching' });
+  });
+
+  it('should map ls/find to glob steps', () => {
+    const steps = stepsFor({
+      type: 'item.started',
+      item: { type: 'command_execution', command: 'find . -name "*.ts"' },
+    });
+
+    expect(steps[0]).toMatchObject({ step: 'tool-glob', toolName: 'Glob' });
+  });
+
+  it('should map other commands to bash steps', () => {
+    const steps = stepsFor({
+      type: 'item.started',
+      item: { type: 'command_execution', command: 'git log --oneline' },
+    });
+
+    expect(steps[0]).toMatchObject({ step: 'tool-bash', stepType: 'tool-use' });
+  });
+
+  it('should ignore completion events and non-tool items', () => {
+    expect(
+      stepsFor({
+        type: 'item.completed',
+        item: { type: 'command_execution', command: 'ls' },
+      })
+    ).toHaveLength(0);
+    expect(stepsFor({ type: 'item.started', item: { type: 'reasoning', text: '...' } })).toEqual(
+      []
+    );
+    expect(stepsFor({ type: 'turn.started' })).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Codex CLI Utilities
+ *
+ * Pure functions for driving `codex exec --json`:
+ * - Environment of the spawned CLI
+ * - Prompt assembly (system prompt + task prompt + output schema)
+ * - JSONL event parsing
+ * - Mapping Codex items to ValidationStep progress events
+ *
+ * Extracted to a separate file so they can be tested without spawning the CLI.
+ */
+
+import type { ValidationStep } from '@gitchorus/shared';
+import { buildSafeEnv } from '../shared/env-utils';
+import { buildJsonOutputInstructions } from './prompts';
+
+/**
+ * Variables Codex reads for its own configuration and authentication.
+ * The API key would be dropped by the env blocklist, so these are added after it.
+ */
+const CODEX_ENV_KEYS = ['CODEX_HOME', 'OPENAI_API_KEY', 'OPENAI_BASE_URL'];
+
+/**
+ * A single item in a Codex thread (command, message, reasoning, ...).
+ * Only the fields GitChorus reads are typed.
+ */
+export interface CodexThreadItem {
+  id?: string;
+  type: string;
+  text?: string;
+  command?: string;
+  query?: string;
+  server?: string;
+  tool?: string;
+}
+
+/**
+ * A single JSONL event emitted by `codex exec --json`.
+ */
+export interface CodexEvent {
+  type: string;
+  item?: CodexThreadItem;
+  message?: string;
+  error?: { message?: string };
+  usage?: {
+    input_tokens?: number;
+    cached_input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+/**
+ * Truncate a string to maxLen characters, appending "..." if truncated.
+ */
+function truncate(str: string, maxLen: number): string {
+  if (str.length <= maxLen) return str;
+  return str.slice(0, maxLen) + '...';
+}
+
+/**
+ * Build the environment of a `codex exec` run: the allowlisted variables plus
+ * Codex's own, so no other secret of the app reaches the agent's commands.
+ */
+export function buildCodexEnv(): Record<string, string> {
+  const codexEnv = buildSafeEnv({ NO_COLOR: '1' });
+  for (const key of CODEX_ENV_KEYS) {
+    const value = process.env[key];
+    if (value !== undefined) {
+      codexEnv[key] = value;
+    }
+  }
+  return codexEnv;
+}
+
+/**
+ * Build the single prompt passed to `codex exec`.
+ * Codex has no separate system prompt or structured output channel we rely on,
+ * so the instructions, the task, and the expected JSON schema are combined.
+ */
+export function buildCodexPrompt(
+  systemPrompt: string,
+  taskPrompt: string,
+  schema: Record<string, unknown>
+): string {
+  return `${systemPrompt}
+
+---
+
+${taskPrompt}
+
+---
+
+${buildJsonOutputInstructions(schema)}`;
+}
+
+/**
+ * Parse one line of `codex exec --json` output.
+ * Returns null for blank lines and non-JSON noise.
+ */
+export function parseCodexEvent(line: string): CodexEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{')) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!parsed || typeof parsed !== 'object') return null;
+    const event = parsed as Record<string, unknown>;
+    return typeof event.type === 'string' ? (event as unknown as CodexEvent) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strip the `bash -lc '...'` wrapper Codex puts around shell commands.
+ */
+export function unwrapShellCommand(command: string): string {
+  const match = command.match(/^(?:\/\S*\/)?(?:bash|sh|zsh)\s+-l?c\s+(['"])([\s\S]*)\1\s*$/);
+  return match ? match[2] : command;
+}
+
+/**
+ * Map a Codex shell command to a progress step.
+ * Read-like and search-like commands get the same step types as the
+ * Claude Read/Grep/Glob tools so the activity UI renders them consistently.
+ */
+function commandToStep(command: string, timestamp: string): ValidationStep {
+  const cmd = unwrapShellCommand(command).trim();
+  const [binary = '', ...args] = cmd.split(/\s+/);
+  const lastArg = args.filter(a => !a.startsWith('-')).pop();
+
+  if (['cat', 'head', 'tail', 'sed', 'nl', 'less'].includes(binary) && lastArg) {
+    return {
+      step: 'tool-read',
+      message: `Reading ${lastArg}`,
+      timestamp,
+      stepType: 'reading',
+      toolName: 'Read',
+      filePath: lastArg,
+    };
+  }
+
+  if (['rg', 'grep', 'ag', 'ack'].includes(binary)) {
+    return {
+      step: 'tool-grep',
+      message: `Searching: ${truncate(cmd, 60)}`,
+      timestamp,
+      stepType: 'searching',
+      toolName: 'Grep',
+    };
+  }
+
+  if (['ls', 'find', 'fd', 'tree'].includes(binary)) {
+    return {
+      step: 'tool-glob',
+      message: `Listing files: ${truncate(cmd, 60)}`,
+      timestamp,
+      stepType: 'searching',
+      toolName: 'Glob',
+    };
+  }
+
+  return {
+    step: 'tool-bash',
+    message: `Running command: ${truncate(cmd, 80)}`,
+    timestamp,
+    stepType: 'tool-use',
+    toolName: 'Bash',
+  };
+}
+
+/**
+ * Map a Codex event to the progress steps it represents.
+ * Only `item.started` events produce steps — completion events would duplicate them.
+ */
+export function* codexEventToSteps(event: CodexEvent): Generator<ValidationStep> {
+  if (event.type !== 'item.started' || !event.item) return;
+
+  const item = event.item;
+  const timestamp = new Date().toISOString();
+
+  switch (item.type) {
+    case 'command_execution': {
+      if (item.command) {
+        yield commandToStep(item.command, timestamp);
+      }
+      break;
+    }
+    case 'web_search': {
+      yield {
+        step: 'tool-web-search',
+        message: `Searching the web for "${truncate(item.query || '', 40)}"`,
+        timestamp,
+        stepType: 'searching',
+        toolName: 'WebSearch',
+      };
+      break;
+    }
+    case 'mcp_tool_call': {
+      const toolName = item.tool || 'mcp';
+      yield {
+        step: `tool-${toolName.toLowerCase()}`,
+        message: `Using ${item.server ? `${item.server}/` : ''}${toolName}`,
+        timestamp,
+        stepType: 'tool-use',
+        toolName,
+      };
+      break;
+    }
+    // agent_message, reasoning, todo_list, file_change: nothing to show
+    default:
+      break;
+  }
+}
@@ -1,3 +1,13 @@
 export { ProviderModule } from './provider.module';
 export { ClaudeAgentProvider } from './claude-agent.provider';
+export { CodexCliProvider } from './codex-cli.provider';
+export { LocalOpenAIProvider } from './local-openai.provider';
+export { ReplayProvider } from './replay.provider';
 export { ProviderRegistry } from './provider.registry';
+export type { AgentProvider, ProviderAttempt } from './provider.registry';
+export {
+  isFailoverError,
+  ProviderRunError,
+  getErrorCostUsd,
+  addErrorCost,
+} from './provider-errors';
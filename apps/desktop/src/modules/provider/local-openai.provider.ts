@@ -0,0 +1,482 @@
+import { Injectable } from '@nestjs/common';
+import type {
+  ProviderStatus,
+  ValidationParams,
+  ValidationStep,
+  ValidationResult,
+  ReviewParams,
+  ReviewResult,
+  Logger,
+  SecretRedaction,
+} from '@gitchorus/shared';
+import { createLogger, REVIEW_DEPTH_CONFIG, DEFAULT_REVIEW_CONFIG } from '@gitchorus/shared';
+import { SettingsService } from '../settings';
+import {
+  VALIDATION_OUTPUT_SCHEMA,
+  REVIEW_OUTPUT_SCHEMA,
+  RE_REVIEW_OUTPUT_SCHEMA,
+  buildSystemPrompt,
+  buildIssuePrompt,
+  buildReviewSystemPrompt,
+  buildReviewPrompt,
+  buildReReviewSystemPrompt,
+  buildReReviewPrompt,
+  buildJsonOutputInstructions,
+} from './prompts';
+import { buildReviewResult, buildValidationResult, extractJsonObject } from './result-builders';
+import {
+  getPromptTemplateUsage,
+  RE_REVIEW_PROMPT_TEMPLATES,
+  REVIEW_PROMPT_TEMPLATES,
+  VALIDATION_PROMPT_TEMPLATES,
+} from './prompt-templates';
+import {
+  LOCAL_TOOL_DEFINITIONS,
+  executeLocalTool,
+  parseToolArguments,
+  toolCallToStep,
+} from './local-tools';
+import { redactSecrets } from '../shared/secret-redaction';
+import { createRunAbortController, createRunLogger } from './run-context';
+
+/**
+ * Timeout for the status check against the endpoint's /models route.
+ */
+const STATUS_TIMEOUT_MS = 3000;
+
+/**
+ * Extra system instructions for local models. The shared prompts mention Bash,
+ * which the local provider does not offer.
+ */
+const LOCAL_TOOL_NOTE = `AVAILABLE TOOLS:
+You can only use the Read, Grep and Glob tools. Paths are relative to the repository root. There is no shell access.`;
+
+/**
+ * OpenAI chat completion message (the subset GitChorus sends and reads).
+ */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments?: string };
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: ChatMessage; finish_reason?: string }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string } | string;
+}
+
+/**
+ * Local model provider for issue validation and PR review.
+ *
+ * Talks to any OpenAI-compatible chat completions endpoint (Ollama, llama.cpp,
+ * LM Studio, vLLM, ...). The model explores the repository through read-only
+ * Read/Grep/Glob tools that GitChorus executes locally, then replies with JSON
+ * matching the same schemas as the Claude provider.
+ */
+@Injectable()
+export class LocalOpenAIProvider {
+  /** Controllers of the runs in progress, aborted together by cancel() */
+  private readonly activeRuns = new Set<AbortController>();
+
+  constructor(private readonly settingsService: SettingsService) {}
+
+  /**
+   * Create the AbortController for one run, linked to the job's signal.
+   * Released by runAgent when the run ends.
+   */
+  private acquireAbortController(signal?: AbortSignal): AbortController {
+    const abortController = createRunAbortController(signal);
+    this.activeRuns.add(abortController);
+    return abortController;
+  }
+
+  /**
+   * Base URL of the endpoint without a trailing slash.
+   */
+  private getEndpoint(): string {
+    const endpoint =
+      this.settingsService.getConfig().localEndpoint || DEFAULT_REVIEW_CONFIG.localEndpoint;
+    return endpoint.trim().replace(/\/+$/, '');
+  }
+
+  /**
+   * Resolve the model for a run: explicit config override, then settings, then default.
+   */
+  private resolveModel(params: { config?: { model?: string } }): string {
+    return (
+      params.config?.model ||
+      this.settingsService.getConfig().localModel ||
+      DEFAULT_REVIEW_CONFIG.localModel
+    );
+  }
+
+  /**
+   * POST a chat completion request and return the parsed response.
+   */
+  private async createChatCompletion(
+    model: string,
+    messages: ChatMessage[],
+    signal: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    const endpoint = this.getEndpoint();
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, messages, tools: LOCAL_TOOL_DEFINITIONS, stream: false }),
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw new Error(
+        `Could not reach local model endpoint ${endpoint}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const body = (await response.json().catch(() => ({}))) as ChatCompletionResponse;
+    if (!response.ok) {
+      const detail = typeof body.error === 'string' ? body.error : body.error?.message;
+      throw new Error(
+        `Local model endpoint returned ${response.status}${detail ? `: ${detail}` : ''}`
+      );
+    }
+
+    return body;
+  }
+
+  /**
+   * Run the tool-calling loop until the model replies with a JSON object.
+   * Yields progress steps and returns the parsed structured output.
+   * Secrets in tool output are masked before the model sees them and
+   * recorded in `redactions`.
+   */
+  private async *runAgent(
+    systemPrompt: string,
+    taskPrompt: string,
+    schema: Record<string, unknown>,
+    repoPath: string,
+    model: string,
+    maxTurns: number,
+    logger: Logger,
+    label: string,
+    signal: AbortSignal | undefined,
+    redactions: SecretRedaction[]
+  ): AsyncGenerator<ValidationStep, Record<string, unknown>> {
+    const abortController = this.acquireAbortController(signal);
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `${systemPrompt}\n\n${LOCAL_TOOL_NOTE}\n\n${buildJsonOutputInstructions(schema)}`,
+      },
+      { role: 'user', content: taskPrompt },
+    ];
+    let askedForJson = false;
+
+    try {
+      for (let turn = 1; turn <= maxTurns; turn++) {
+        const response = await this.createChatCompletion(model, messages, abortController.signal);
+        const message = response.choices?.[0]?.message;
+        if (!message) {
+          throw new Error(`${label} failed: local model returned no message`);
+        }
+
+        if (response.usage) {
+          logger.debug(
+            `Turn ${turn} token usage: prompt=${response.usage.prompt_tokens ?? 0}, completion=${response.usage.completion_tokens ?? 0}`
+          );
+        }
+
+        const toolCalls = message.tool_calls ?? [];
+        if (toolCalls.length > 0) {
+          messages.push({
+            role: 'assistant',
+            content: message.content ?? null,
+            tool_calls: toolCalls,
+          });
+
+          for (const call of toolCalls) {
+            const step = toolCallToStep(call.function.name, call.function.arguments);
+            logger.info(`Step: [${step.stepType}] ${step.message}`);
+            yield step;
+
+            const output = await executeLocalTool(
+              repoPath,
+              call.function.name,
+              call.function.arguments
+            );
+            const file =
+              call.function.name === 'Read'
+                ? parseToolArguments(call.function.arguments)['file_path']
+                : undefined;
+            const redacted = redactSecrets(
+              output,
+              'file',
+              typeof file === 'string' ? () => ({ file }) : undefined
+            );
+            if (redacted.redactions.length > 0) {
+              logger.warn(
+                `Masked ${redacted.redactions.length} secret(s) in ${call.function.name} output`
+              );
+              redactions.push(...redacted.redactions);
+            }
+            messages.push({ role: 'tool', tool_call_id: call.id, content: redacted.text });
+          }
+          continue;
+        }
+
+        const content = message.content ?? '';
+        try {
+          const output = extractJsonObject(content);
+          logger.info(`${label} completed successfully after ${turn} turns`);
+          return output;
+        } catch {
+          // Small models sometimes answer in prose; ask once for the JSON object
+          if (askedForJson) {
+            throw new Error(`${label} did not produce valid JSON output`);
+          }
+          askedForJson = true;
+          logger.warn(`${label} reply was not valid JSON, asking the model to reformat`);
+          messages.push({ role: 'assistant', content });
+          messages.push({
+            role: 'user',
+            content:
+              'Reply again with ONLY the JSON object described in the output format. No prose, no markdown.',
+          });
+        }
+      }
+
+      const errorMsg = `${label} ran out of turns (limit: ${maxTurns}). Try increasing the review depth in Settings or using a more capable model.`;
+      logger.error(errorMsg);
+      throw new Error(errorMsg);
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        logger.info(`${label} cancelled by user`);
+        throw new Error(`${label} cancelled by user`);
+      }
+      throw error;
+    } finally {
+      this.activeRuns.delete(abortController);
+    }
+  }
+
+  /**
+   * Check that the endpoint is reachable and serves the configured model.
+   * Local servers need no authentication, so a reachable endpoint counts as authenticated.
+   */
+  async getStatus(): Promise<ProviderStatus> {
+    const endpoint = this.getEndpoint();
+    const model = this.resolveModel({});
+
+    try {
+      const response = await fetch(`${endpoint}/models`, {
+        signal: AbortSignal.timeout(STATUS_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        return {
+          type: 'local',
+          available: false,
+          authenticated: false,
+          error: `Local model endpoint returned ${response.status}`,
+        };
+      }
+
+      const body = (await response.json().catch(() => ({}))) as {
+        data?: Array<{ id?: string }>;
+      };
+      const models = (body.data ?? []).map(m => m.id).filter(Boolean);
+      const hasModel = models.length === 0 || models.includes(model);
+
+      return {
+        type: 'local',
+        available: true,
+        authenticated: true,
+        error: hasModel ? undefined : `Model "${model}" is not served by ${endpoint}`,
+      };
+    } catch (error) {
+      return {
+        type: 'local',
+        available: false,
+        authenticated: false,
+        error: `Local model endpoint ${endpoint} is not reachable: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Run validation on an issue using the local model.
+   *
+   * Yields ValidationStep events for progress tracking and returns the final ValidationResult.
+   * Local models have no cost, so costUsd is always 0.
+   */
+  async *validate(params: ValidationParams): AsyncGenerator<ValidationStep, ValidationResult> {
+    const startTime = Date.now();
+    const settingsConfig = this.settingsService.getConfig();
+    const model = this.resolveModel(params);
+    const maxTurns =
+      params.config?.maxTurns ||
+      REVIEW_DEPTH_CONFIG[settingsConfig.validationDepth]?.validationMaxTurns ||
+      REVIEW_DEPTH_CONFIG.standard.validationMaxTurns;
+    const logger = createRunLogger('LocalOpenAIProvider', params);
+
+    yield {
+      step: 'initializing',
+      message: `Starting local model ${model} for issue analysis...`,
+      timestamp: new Date().toISOString(),
+      stepType: 'init',
+    };
+
+    yield {
+      step: 'reading-issue',
+      message: `Analyzing issue #${params.issue.number}: ${params.issue.title}`,
+      timestamp: new Date().toISOString(),
+      stepType: 'analyzing',
+    };
+
+    const redactions: SecretRedaction[] = [];
+    const output = yield* this.runAgent(
+      buildSystemPrompt(model, maxTurns, settingsConfig.promptTemplates),
+      buildIssuePrompt(params, settingsConfig.promptTemplates),
+      VALIDATION_OUTPUT_SCHEMA,
+      params.repoPath,
+      model,
+      maxTurns,
+      logger,
+      'Validation',
+      params.signal,
+      redactions
+    );
+
+    yield {
+      step: 'processing-result',
+      message: 'Processing validation result...',
+      timestamp: new Date().toISOString(),
+      stepType: 'processing',
+    };
+
+    return buildValidationResult(output, params, {
+      providerType: 'local',
+      model,
+      costUsd: 0,
+      startTime,
+      promptTemplates: getPromptTemplateUsage(
+        VALIDATION_PROMPT_TEMPLATES,
+        settingsConfig.promptTemplates
+      ),
+      redactions,
+    });
+  }
+
+  /**
+   * Review entry point matching ClaudeAgentProvider.reviewAuto.
+   * Local models have no sub-agent support, so multi-agent mode falls back to a single-agent review.
+   */
+  async *reviewAuto(params: ReviewParams): AsyncGenerator<ValidationStep, ReviewResult> {
+    if (this.settingsService.getConfig().reviewMode === 'multi-agent' && !params.isReReview) {
+      const logger = createRunLogger('LocalOpenAIProvider', params);
+      logger.info('Multi-agent mode is not supported by local models, running single-agent review');
+    }
+    return yield* this.review(params);
+  }
+
+  /**
+   * Run a PR code review (or re-review) using the local model.
+   */
+  async *review(params: ReviewParams): AsyncGenerator<ValidationStep, ReviewResult> {
+    const startTime = Date.now();
+    const settingsConfig = this.settingsService.getConfig();
+    const model = this.resolveModel(params);
+    const maxTurns =
+      params.config?.maxTurns ||
+      REVIEW_DEPTH_CONFIG[settingsConfig.reviewDepth]?.reviewMaxTurns ||
+      REVIEW_DEPTH_CONFIG.standard.reviewMaxTurns;
+    const logger = createRunLogger('LocalOpenAIProvider', params);
+    const isReReview = params.isReReview && params.previousReview;
+    const label = isReReview ? 'Re-review' : 'Review';
+
+    yield {
+      step: 'initializing',
+      message: isReReview
+        ? `Starting local model ${model} for PR re-review...`
+        : `Starting local model ${model} for PR review...`,
+      timestamp: new Date().toISOString(),
+      stepType: 'init',
+    };
+
+    yield {
+      step: 'reading-pr',
+      message: isReReview
+        ? `Re-reviewing PR #${params.prNumber}: ${params.prTitle}`
+        : `Analyzing PR #${params.prNumber}: ${params.prTitle}`,
+      timestamp: new Date().toISOString(),
+      stepType: 'analyzing',
+    };
+
+    const redactions: SecretRedaction[] = [];
+    const output = isReReview
+      ? yield* this.runAgent(
+          buildReReviewSystemPrompt(model, maxTurns, params.rules, settingsConfig.promptTemplates),
+          buildReReviewPrompt(params, settingsConfig.promptTemplates),
+          RE_REVIEW_OUTPUT_SCHEMA,
+          params.repoPath,
+          model,
+          maxTurns,
+          logger,
+          label,
+          params.signal,
+          redactions
+        )
+      : yield* this.runAgent(
+          buildReviewSystemPrompt(model, maxTurns, params.rules, settingsConfig.promptTemplates),
+          buildReviewPrompt(params, settingsConfig.promptTemplates),
+          REVIEW_OUTPUT_SCHEMA,
+          params.repoPath,
+          model,
+          maxTurns,
+          logger,
+          label,
+          params.signal,
+          redactions
+        );
+
+    yield {
+      step: 'processing-result',
+      message: 'Processing review result...',
+      timestamp: new Date().toISOString(),
+      stepType: 'processing',
+    };
+
+    return buildReviewResult(output, params, {
+      providerType: 'local',
+      model,
+      costUsd: 0,
+      startTime,
+      promptTemplates: getPromptTemplateUsage(
+        isReReview ? RE_REVIEW_PROMPT_TEMPLATES : REVIEW_PROMPT_TEMPLATES,
+        settingsConfig.promptTemplates
+      ),
+      redactions,
+    });
+  }
+
+  /**
+   * Cancel every validation and review in progress on this provider.
+   * To cancel a single run, abort the signal passed in its params instead.
+   */
+  cancel(): void {
+    if (this.activeRuns.size > 0) {
+      const logger = createLogger('LocalOpenAIProvider');
+      logger.info(`Cancelling ${this.activeRuns.size} local model runs`);
+      for (const abortController of this.activeRuns) abortController.abort();
+      this.activeRuns.clear();
+    }
+  }
+}
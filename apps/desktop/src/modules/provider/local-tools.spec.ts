@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  globToRegExp,
+  resolveRepoPath,
+  executeLocalTool,
+  toolCallToStep,
+  parseToolArguments,
+} from './local-tools';
+
+// ---------------------------------------------------------------------------
+// Test fixture: a small repository in a temp directory
+// ---------------------------------------------------------------------------
+
+let repo: string;
+let outside: string;
+
+beforeAll(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'gitchorus-local-tools-'));
+  outside = fs.mkdtempSync(path.join(os.tmpdir(), 'gitchorus-outside-'));
+
+  fs.mkdirSync(path.join(repo, 'src', 'utils'), { recursive: true });
+  fs.mkdirSync(path.join(repo, 'node_modules', 'dep'), { recursive: true });
+  fs.writeFileSync(path.join(repo, 'src', 'index.ts'), 'import { add } from "./utils/math";\n');
+  fs.writeFileSync(
+    path.join(repo, 'src', 'utils', 'math.ts'),
+    'export function add(a: number, b: number) {\n  return a + b;\n}\n'
+  );
+  fs.writeFileSync(path.join(repo, 'README.md'), '# Fixture\n');
+  fs.writeFileSync(
+    path.join(repo, 'node_modules', 'dep', 'index.ts'),
+    'export function add() {}\n'
+  );
+  fs.writeFileSync(path.join(repo, 'image.png'), Buffer.from([0x89, 0x50, 0x00, 0x01]));
+  fs.writeFileSync(path.join(outside, 'secret.txt'), 'top secret\n');
+  fs.symlinkSync(path.join(outside, 'secret.txt'), path.join(repo, 'escape.txt'));
+});
+
+afterAll(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+  fs.rmSync(outside, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// globToRegExp
+// ---------------------------------------------------------------------------
+
+describe('globToRegExp', () => {
+  it('should match across directories with **', () => {
+    const regex = globToRegExp('src/**/*.ts');
+    expect(regex.test('src/index.ts')).toBe(true);
+    expect(regex.test('src/utils/math.ts')).toBe(true);
+    expect(regex.test('lib/index.ts')).toBe(false);
+  });
+
+  it('should keep * within a single path segment', () => {
+    const regex = globToRegExp('src/*.ts');
+    expect(regex.test('src/index.ts')).toBe(true);
+    expect(regex.test('src/utils/math.ts')).toBe(false);
+  });
+
+  it('should support brace alternation and escape dots', () => {
+    const regex = globToRegExp('*.{ts,tsx}');
+    expect(regex.test('App.tsx')).toBe(true);
+    expect(regex.test('index.ts')).toBe(true);
+    expect(regex.test('indexxts')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveRepoPath
+// ---------------------------------------------------------------------------
+
+describe('resolveRepoPath', () => {
+  it('should resolve relative paths inside the repository', async () => {
+    const resolved = await resolveRepoPath(repo, 'src/index.ts');
+    expect(resolved).toBe(path.join(fs.realpathSync(repo), 'src', 'index.ts'));
+  });
+
+  it('should reject parent traversal and absolute paths outside the repository', async () => {
+    await expect(resolveRepoPath(repo, '../etc/passwd')).rejects.toThrow('outside the repository');
+    await expect(resolveRepoPath(repo, outside)).rejects.toThrow('outside the repository');
+  });
+
+  it('should reject symlinks that point outside the repository', async () => {
+    await expect(resolveRepoPath(repo, 'escape.txt')).rejects.toThrow('outside the repository');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// executeLocalTool
+// ---------------------------------------------------------------------------
+
+describe('executeLocalTool', () => {
+  it('should read a file with line numbers', async () => {
+    const output = await executeLocalTool(repo, 'Read', '{"file_path":"src/utils/math.ts"}');
+    expect(output).toContain('     1\texport function add');
+    expect(output).toContain('     2\t  return a + b;');
+  });
+
+  it('should honour offset and limit when reading', async () => {
+    const output = await executeLocalTool(
+      repo,
+      'Read',
+      '{"file_path":"src/utils/math.ts","offset":2,"limit":1}'
+    );
+    expect(output).toContain('     2\t  return a + b;');
+    expect(output).not.toContain('export function');
+    expect(output).toContain('more lines');
+  });
+
+  it('should refuse to read binary files', async () => {
+    const output = await executeLocalTool(repo, 'Read', '{"file_path":"image.png"}');
+    expect(output).toContain('binary');
+  });
+
+  it('should grep the repository and skip node_modules', async () => {
+    const output = await executeLocalTool(repo, 'Grep', '{"pattern":"function add"}');
+    expect(output).toBe('src/utils/math.ts:1: export function add(a: number, b: number) {');
+  });
+
+  it('should filter grep results by glob', async () => {
+    const output = await executeLocalTool(repo, 'Grep', '{"pattern":"add","glob":"index.ts"}');
+    expect(output).toContain('src/index.ts:1:');
+    expect(output).not.toContain('math.ts');
+  });
+
+  it('should list files matching a glob', async () => {
+    const output = await executeLocalTool(repo, 'Glob', '{"pattern":"**/*.ts"}');
+    expect(output.split('\n')).toEqual(['src/index.ts', 'src/utils/math.ts']);
+  });
+
+  it('should return errors as text instead of throwing', async () => {
+    await expect(executeLocalTool(repo, 'Read', '{"file_path":"../x"}')).resolves.toMatch(
+      /^Error: Path is outside the repository/
+    );
+    await expect(executeLocalTool(repo, 'Bash', '{"command":"rm -rf /"}')).resolves.toContain(
+      'Unknown tool'
+    );
+    await expect(executeLocalTool(repo, 'Grep', '{"pattern":"("}')).resolves.toContain(
+      'Invalid regular expression'
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// toolCallToStep / parseToolArguments
+// ---------------------------------------------------------------------------
+
+describe('toolCallToStep', () => {
+  it('should map tool calls to the Claude step types', () => {
+    expect(toolCallToStep('Read', '{"file_path":"src/a.ts"}')).toMatchObject({
+      stepType: 'reading',
+      toolName: 'Read',
+      filePath: 'src/a.ts',
+    });
+    expect(toolCallToStep('Grep', '{"pattern":"foo"}')).toMatchObject({
+      stepType: 'searching',
+      message: 'Searching for "foo" in .',
+    });
+    expect(toolCallToStep('Glob', 'not json')).toMatchObject({ stepType: 'searching' });
+  });
+});
+
+describe('parseToolArguments', () => {
+  it('should treat empty arguments as an empty object', () => {
+    expect(parseToolArguments('')).toEqual({});
+    expect(parseToolArguments(undefined)).toEqual({});
+  });
+
+  it('should reject non-object arguments', () => {
+    expect(() => parseToolArguments('[1]')).toThrow('JSON object');
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Local Provider Tools
+ *
+ * Read-only Read/Grep/Glob tools exposed to models served by an
+ * OpenAI-compatible endpoint (Ollama, llama.cpp, ...). These models have no
+ * built-in filesystem access, so GitChorus executes their tool calls itself:
+ * - Every path is confined to the repository root (no `..`, no symlink escapes)
+ * - .git, node_modules and other heavy directories are never walked
+ * - Output is capped so a single call cannot blow up the context window
+ *
+ * Extracted to a separate file so they can be tested without an HTTP server.
+ */
+
+import type { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ValidationStep } from '@gitchorus/shared';
+
+/** Directories never walked by Grep/Glob */
+const IGNORED_DIRS = new Set(['.git', 'node_modules', 'dist', 'build', 'out', 'coverage']);
+
+/** Default and maximum number of lines returned by Read */
+const MAX_READ_LINES = 2000;
+
+/** Maximum characters of a single line returned by Read or Grep */
+const MAX_LINE_LENGTH = 500;
+
+/** Maximum number of Grep matches returned */
+const MAX_GREP_MATCHES = 200;
+
+/** Maximum number of Glob results returned */
+const MAX_GLOB_RESULTS = 500;
+
+/** Maximum number of files visited by a single walk */
+const MAX_WALKED_FILES = 20000;
+
+/** Files larger than this are skipped by Grep and refused by Read */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/** Hard cap on the size of any tool result sent back to the model */
+const MAX_OUTPUT_CHARS = 50000;
+
+/**
+ * OpenAI function tool definitions for the local tools.
+ * Names and arguments mirror the Claude Read/Grep/Glob tools the prompts refer to.
+ */
+export const LOCAL_TOOL_DEFINITIONS = [
+  {
+    type: 'function',
+    function: {
+      name: 'Read',
+      description:
+        'Read a text file from the repository. Returns lines prefixed with their line number.',
+      parameters: {
+        type: 'object',
+        properties: {
+          file_path: { type: 'string', description: 'Path relative to the repository root' },
+          offset: { type: 'number', description: '1-based line to start reading from' },
+          limit: { type: 'number', description: `Number of lines to read (max ${MAX_READ_LINES})` },
+        },
+        required: ['file_path'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'Grep',
+      description:
+        'Search file contents with a regular expression. Returns matching lines as "file:line: text".',
+      parameters: {
+        type: 'object',
+        properties: {
+          pattern: { type: 'string', description: 'JavaScript regular expression' },
+          path: { type: 'string', description: 'File or directory to search (default: repo root)' },
+          glob: {
+            type: 'string',
+            description: 'Only search files matching this glob, e.g. "*.ts"',
+          },
+        },
+        required: ['pattern'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'Glob',
+      description: 'List repository files matching a glob pattern, e.g. "src/**/*.ts".',
+      parameters: {
+        type: 'object',
+        properties: {
+          pattern: { type: 'string', description: 'Glob pattern' },
+          path: { type: 'string', description: 'Directory to search in (default: repo root)' },
+        },
+        required: ['pattern'],
+      },
+    },
+  },
+] as const;
+
+/**
+ * Truncate a string to maxLen characters, appending "..." if truncated.
+ */
+function truncate(str: string, maxLen: number): string {
+  if (str.length <= maxLen) return str;
+  return str.slice(0, maxLen) + '...';
+}
+
+/**
+ * Parse tool call arguments. Models occasionally send an empty string for no arguments.
+ */
+export function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw || !raw.trim()) return {};
+  const parsed: unknown = JSON.parse(raw);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Tool arguments must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Convert a glob pattern to a RegExp matched against POSIX-style relative paths.
+ * Supports `**`, `*`, `?` and `{a,b}` alternation.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Test a relative path against a glob. Patterns without a slash match the file name
+ * at any depth, like `rg --glob`.
+ */
+export function matchesGlob(relativePath: string, pattern: string, regex: RegExp): boolean {
+  return pattern.includes('/')
+    ? regex.test(relativePath)
+    : regex.test(path.posix.basename(relativePath));
+}
+
+/**
+ * Resolve a model-supplied path inside the repository.
+ * Throws if the path (or the target of a symlink) points outside repoPath.
+ */
+export async function resolveRepoPath(repoPath: string, requested?: string): Promise<string> {
+  const root = await fs.realpath(repoPath);
+  const target = path.resolve(root, requested || '.');
+
+  const isInside = (candidate: string) => {
+    const relative = path.relative(root, candidate);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  };
+
+  if (!isInside(target)) {
+    throw new Error(`Path is outside the repository: ${requested}`);
+  }
+
+  const real = await fs.realpath(target).catch(() => target);
+  if (!isInside(real)) {
+    throw new Error(`Path is outside the repository: ${requested}`);
+  }
+
+  return real;
+}
+
+/**
+ * Convert an absolute path inside the repository to a POSIX relative path.
+ */
+function toRelative(root: string, absolutePath: string): string {
+  return path.relative(root, absolutePath).split(path.sep).join('/') || '.';
+}
+
+/**
+ * Walk a directory depth-first, yielding absolute file paths.
+ * Skips IGNORED_DIRS and symlinks, and stops after MAX_WALKED_FILES files.
+ */
+export async function* walkFiles(dir: string): AsyncGenerator<string> {
+  const stack = [dir];
+  let visited = 0;
+
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    const subdirs: string[] = [];
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) subdirs.push(fullPath);
+      } else if (entry.isFile()) {
+        if (++visited > MAX_WALKED_FILES) return;
+        yield fullPath;
+      }
+    }
+    // Reversed so subdirectories are visited in alphabetical order
+    stack.push(...subdirs.reverse());
+  }
+}
+
+/**
+ * Read a file as text, returning null for binary or oversized files.
+ */
+async function readTextFile(filePath: string): Promise<string | null> {
+  const stat = await fs.stat(filePath);
+  if (stat.size > MAX_FILE_BYTES) return null;
+
+  const buffer = await fs.readFile(filePath);
+  if (buffer.subarray(0, 8000).includes(0)) return null;
+  return buffer.toString('utf-8');
+}
+
+/**
+ * Read tool: numbered lines of a single file.
+ */
+async function readTool(repoPath: string, args: Record<string, unknown>): Promise<string> {
+  if (typeof args.file_path !== 'string' || !args.file_path) {
+    throw new Error('file_path is required');
+  }
+
+  const filePath = await resolveRepoPath(repoPath, args.file_path);
+  const content = await readTextFile(filePath);
+  if (content === null) {
+    return `${args.file_path} is binary or larger than ${MAX_FILE_BYTES} bytes and cannot be read`;
+  }
+
+  const lines = content.split('\n');
+  const offset = Math.max(1, Math.floor(Number(args.offset) || 1));
+  const limit = Math.min(
+    MAX_READ_LINES,
+    Math.max(1, Math.floor(Number(args.limit) || MAX_READ_LINES))
+  );
+  const slice = lines.slice(offset - 1, offset - 1 + limit);
+
+  if (slice.length === 0) {
+    return `${args.file_path} has ${lines.length} lines; offset ${offset} is past the end`;
+  }
+
+  const body = slice
+    .map((line, i) => `${String(offset + i).padStart(6)}\t${truncate(line, MAX_LINE_LENGTH)}`)
+    .join('\n');
+  const remaining = lines.length - (offset - 1 + slice.length);
+  return remaining > 0 ? `${body}\n... (${remaining} more lines)` : body;
+}
+
+/**
+ * Grep tool: regex search over file contents.
+ */
+async function grepTool(repoPath: string, args: Record<string, unknown>): Promise<string> {
+  if (typeof args.pattern !== 'string' || !args.pattern) {
+    throw new Error('pattern is required');
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(args.pattern);
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+  }
+
+  const root = await fs.realpath(repoPath);
+  const searchPath = await resolveRepoPath(repoPath, args.path as string | undefined);
+  const globPattern = typeof args.glob === 'string' && args.glob ? args.glob : null;
+  const globRegex = globPattern ? globToRegExp(globPattern) : null;
+
+  const stat = await fs.stat(searchPath);
+  const files = stat.isFile() ? [searchPath] : walkFiles(searchPath);
+
+  const matches: string[] = [];
+  for await (const filePath of files) {
+    const relative = toRelative(root, filePath);
+    if (globPattern && globRegex && !matchesGlob(relative, globPattern, globRegex)) continue;
+
+    const content = await readTextFile(filePath).catch(() => null);
+    if (content === null) continue;
+
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (!regex.test(lines[i])) continue;
+      matches.push(`${relative}:${i + 1}: ${truncate(lines[i].trim(), MAX_LINE_LENGTH)}`);
+      if (matches.length >= MAX_GREP_MATCHES) {
+        return `${matches.join('\n')}\n... (stopped after ${MAX_GREP_MATCHES} matches, narrow the search)`;
+      }
+    }
+  }
+
+  return matches.length > 0 ? matches.join('\n') : 'No matches found';
+}
+
+/**
+ * Glob tool: list files matching a pattern.
+ */
+async function globTool(repoPath: string, args: Record<string, unknown>): Promise<string> {
+  if (typeof args.pattern !== 'string' || !args.pattern) {
+    throw new Error('pattern is required');
+  }
+
+  const root = await fs.realpath(repoPath);
+  const basePath = await resolveRepoPath(repoPath, args.path as string | undefined);
+  const pattern = args.pattern.replace(/^\.\//, '');
+  const regex = globToRegExp(pattern);
+
+  const results: string[] = [];
+  for await (const filePath of walkFiles(basePath)) {
+    const relativeToBase = toRelative(basePath, filePath);
+    if (!matchesGlob(relativeToBase, pattern, regex)) continue;
+
+    results.push(toRelative(root, filePath));
+    if (results.length >= MAX_GLOB_RESULTS) {
+      return `${results.join('\n')}\n... (stopped after ${MAX_GLOB_RESULTS} files, narrow the pattern)`;
+    }
+  }
+
+  return results.length > 0 ? results.join('\n') : 'No files found';
+}
+
+/**
+ * Execute a tool call against the repository.
+ *
+ * Never throws: errors are returned as text so the model can correct its call
+ * instead of aborting the whole run.
+ */
+export async function executeLocalTool(
+  repoPath: string,
+  name: string,
+  rawArguments: string | undefined
+): Promise<string> {
+  try {
+    const args = parseToolArguments(rawArguments);
+    let output: string;
+
+    switch (name) {
+      case 'Read':
+        output = await readTool(repoPath, args);
+        break;
+      case 'Grep':
+        output = await grepTool(repoPath, args);
+        break;
+      case 'Glob':
+        output = await globTool(repoPath, args);
+        break;
+      default:
+        return `Error: Unknown tool "${name}". Available tools: Read, Grep, Glob`;
+    }
+
+    return truncate(output, MAX_OUTPUT_CHARS);
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Map a tool call to a progress step, using the same step types as the
+ * Claude Read/Grep/Glob tools so the activity UI renders them consistently.
+ */
+export function toolCallToStep(name: string, rawArguments: string | undefined): ValidationStep {
+  const timestamp = new Date().toISOString();
+  let args: Record<string, unknown> = {};
+  try {
+    args = parseToolArguments(rawArguments);
+  } catch {
+    // Show the step without details; executeLocalTool reports the error to the model
+  }
+
+  switch (name) {
+    case 'Read': {
+      const filePath = typeof args.file_path === 'string' ? args.file_path : undefined;
+      return {
+        step: 'tool-read',
+        message: filePath ? `Reading ${filePath}` : 'Reading file',
+        timestamp,
+        stepType: 'reading',
+        toolName: 'Read',
+        filePath,
+      };
+    }
+    case 'Grep': {
+      const searchPath = typeof args.path === 'string' && args.path ? args.path : '.';
+      return {
+        step: 'tool-grep',
+        message: `Searching for "${truncate(String(args.pattern ?? ''), 40)}" in ${searchPath}`,
+        timestamp,
+        stepType: 'searching',
+        toolName: 'Grep',
+      };
+    }
+    case 'Glob':
+      return {
+        step: 'tool-glob',
+        message: `Finding files matching ${String(args.pattern ?? '')}`,
+        timestamp,
+        stepType: 'searching',
+        toolName: 'Glob',
+      };
+    default:
+      return {
+        step: `tool-${name.toLowerCase()}`,
+        message: `Using ${name}`,
+        timestamp,
+        stepType: 'tool-use',
+        toolName: name,
+      };
+  }
+}
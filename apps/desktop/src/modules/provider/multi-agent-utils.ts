@@ -89,9 +89,12 @@ export function deduplicateFindings(findings: ReviewFinding[]): ReviewFinding[]
 }
 
 /**
- * Calculate weighted quality score from sub-agent scores.
+ * Calculate weighted quality score from sub-agent scores
+ * (or any scores with weights, e.g. map-reduce clusters weighted by diff size).
  */
-export function calculateWeightedScore(subAgentScores: SubAgentScore[]): number {
+export function calculateWeightedScore(
+  subAgentScores: Pick<SubAgentScore, 'score' | 'weight'>[]
+): number {
   let totalWeight = 0;
   let weightedSum = 0;
 
@@ -0,0 +1,134 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayInit,
+} from '@nestjs/websockets';
+import { UseGuards } from '@nestjs/common';
+import { Server, Socket } from 'socket.io';
+import { WsThrottlerGuard } from '../shared/ws-throttler.guard';
+import {
+  PromptTemplateEvents,
+  SettingsEvents,
+  createLogger,
+  extractErrorMessage,
+  type PromptTemplateListPayload,
+  type PromptTemplateListResponse,
+  type PromptTemplateOverrides,
+  type PromptTemplateResetPayload,
+  type PromptTemplateSavePayload,
+} from '@gitchorus/shared';
+import { CORS_CONFIG } from '../shared/cors.config';
+import { SettingsService } from '../settings';
+import {
+  getPromptTemplateVersion,
+  listPromptTemplates,
+  validatePromptTemplate,
+} from './prompt-templates';
+
+/**
+ * WebSocket gateway for prompt template events.
+ *
+ * Lists the built-in prompt templates with the user's overrides, and saves or
+ * resets overrides in Settings. Every change is broadcast as a settings change
+ * so other clients pick it up.
+ */
+@UseGuards(WsThrottlerGuard)
+@WebSocketGateway({
+  cors: CORS_CONFIG,
+})
+export class PromptTemplatesGateway implements OnGatewayInit {
+  private readonly logger = createLogger('PromptTemplatesGateway');
+
+  @WebSocketServer()
+  server!: Server;
+
+  constructor(private readonly settingsService: SettingsService) {}
+
+  afterInit(): void {
+    this.logger.log('Initialized');
+  }
+
+  /**
+   * Handle prompt template list request.
+   */
+  @SubscribeMessage(PromptTemplateEvents.LIST)
+  handleList(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() _payload: PromptTemplateListPayload
+  ): PromptTemplateListResponse {
+    return { templates: this.listTemplates() };
+  }
+
+  /**
+   * Handle prompt template save request.
+   * The override records the built-in version it was based on, so Settings
+   * can flag overrides whose default has changed since.
+   */
+  @SubscribeMessage(PromptTemplateEvents.SAVE)
+  handleSave(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: PromptTemplateSavePayload
+  ): PromptTemplateListResponse {
+    try {
+      if (!payload.id || typeof payload.template !== 'string') {
+        return { templates: this.listTemplates(), error: 'id and template are required' };
+      }
+      validatePromptTemplate(payload.id, payload.template);
+
+      const info = this.listTemplates().find(template => template.id === payload.id);
+      this.updateOverrides({
+        ...this.settingsService.getConfig().promptTemplates,
+        [payload.id]: {
+          template: payload.template,
+          baseVersion: info?.defaultVersion ?? '',
+          updatedAt: new Date().toISOString(),
+        },
+      });
+      this.logger.log(
+        `Saved prompt template ${payload.id} (version ${getPromptTemplateVersion(payload.template)})`
+      );
+      return { templates: this.listTemplates() };
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error saving prompt template: ${message}`);
+      return { templates: this.listTemplates(), error: message };
+    }
+  }
+
+  /**
+   * Handle prompt template reset request, removing the override.
+   */
+  @SubscribeMessage(PromptTemplateEvents.RESET)
+  handleReset(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: PromptTemplateResetPayload
+  ): PromptTemplateListResponse {
+    try {
+      if (!payload.id) {
+        return { templates: this.listTemplates(), error: 'id is required' };
+      }
+
+      const overrides = { ...this.settingsService.getConfig().promptTemplates };
+      delete overrides[payload.id];
+      this.updateOverrides(overrides);
+      this.logger.log(`Reset prompt template ${payload.id} to the built-in default`);
+      return { templates: this.listTemplates() };
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error resetting prompt template: ${message}`);
+      return { templates: this.listTemplates(), error: message };
+    }
+  }
+
+  private listTemplates() {
+    return listPromptTemplates(this.settingsService.getConfig().promptTemplates);
+  }
+
+  private updateOverrides(promptTemplates: PromptTemplateOverrides): void {
+    const config = this.settingsService.updateConfig({ promptTemplates });
+    this.server.emit(SettingsEvents.CHANGED, { config });
+  }
+}
@@ -0,0 +1,154 @@
+import type { PromptTemplateOverrides } from '@gitchorus/shared';
+import {
+  getPromptTemplateUsage,
+  getPromptTemplateVersion,
+  listPromptTemplates,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from './prompt-templates';
+import { buildIssuePrompt } from './prompts';
+import { buildTriagePrompt } from './triage';
+import { buildVerificationPrompt } from './verification';
+
+function createOverrides(template: string): PromptTemplateOverrides {
+  return {
+    'validation-user': { template, baseVersion: 'abcd1234', updatedAt: '2026-01-01T00:00:00Z' },
+  };
+}
+
+describe('renderPromptTemplate', () => {
+  it('should render the built-in template without overrides', () => {
+    const prompt = renderPromptTemplate('validation-system', { efficiencyGuidance: '' });
+
+    expect(prompt).toContain('validate a GitHub issue');
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('should render an override instead of the built-in template', () => {
+    const prompt = renderPromptTemplate(
+      'validation-user',
+      { issueNumber: 7, issueTitle: 'Crash' },
+      createOverrides('Issue {{ issueNumber }}: {{issueTitle}}')
+    );
+
+    expect(prompt).toBe('Issue 7: Crash');
+  });
+
+  it('should insert values verbatim, even when they contain placeholders', () => {
+    const prompt = renderPromptTemplate(
+      'validation-user',
+      { issueTitle: '{{issueNumber}}', issueNumber: 7 },
+      createOverrides('{{issueTitle}} / {{issueNumber}}')
+    );
+
+    expect(prompt).toBe('{{issueNumber}} / 7');
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('should accept the variables of the template', () => {
+    expect(() => validatePromptTemplate('review-system', '{{reviewRules}}')).not.toThrow();
+  });
+
+  it('should reject unknown variables', () => {
+    expect(() => validatePromptTemplate('review-system', '{{diff}} {{diff}}')).toThrow(
+      'Review System Prompt uses unknown variable(s) {{diff}} (available: efficiencyGuidance, reviewRules)'
+    );
+  });
+
+  it('should reject an empty template', () => {
+    expect(() => validatePromptTemplate('review-user', '  \n')).toThrow('cannot be empty');
+  });
+});
+
+describe('listPromptTemplates', () => {
+  it('should describe every template with its version', () => {
+    const templates = listPromptTemplates(createOverrides('Issue {{issueNumber}}'));
+
+    expect(templates).toHaveLength(12);
+    const system = templates.find(template => template.id === 'validation-system');
+    expect(system?.override).toBeNull();
+    expect(system?.version).toBe(system?.defaultVersion);
+    expect(system?.defaultVersion).toBe(getPromptTemplateVersion(system?.defaultTemplate ?? ''));
+
+    const user = templates.find(template => template.id === 'validation-user');
+    expect(user?.override?.baseVersion).toBe('abcd1234');
+    expect(user?.version).toBe(getPromptTemplateVersion('Issue {{issueNumber}}'));
+    expect(user?.version).not.toBe(user?.defaultVersion);
+  });
+});
+
+describe('getPromptTemplateUsage', () => {
+  it('should record the version and source of each template', () => {
+    const usage = getPromptTemplateUsage(
+      ['validation-system', 'validation-user'],
+      createOverrides('Issue {{issueNumber}}')
+    );
+
+    expect(usage).toEqual([
+      {
+        id: 'validation-system',
+        version: listPromptTemplates(undefined)[0].defaultVersion,
+        custom: false,
+      },
+      {
+        id: 'validation-user',
+        version: getPromptTemplateVersion('Issue {{issueNumber}}'),
+        custom: true,
+      },
+    ]);
+  });
+});
+
+describe('buildIssuePrompt', () => {
+  it('should render the user override of the issue prompt', () => {
+    const prompt = buildIssuePrompt(
+      {
+        issue: { number: 3, title: 'Bug', body: '', labels: [] },
+        repoPath: '/repo',
+        repoName: 'user/repo',
+      } as unknown as Parameters<typeof buildIssuePrompt>[0],
+      createOverrides('Check #{{issueNumber}} in {{repoName}}')
+    );
+
+    expect(prompt).toBe('Check #3 in user/repo');
+  });
+});
+
+describe('buildTriagePrompt and buildVerificationPrompt', () => {
+  const params = {
+    repoName: 'user/repo',
+    prNumber: 7,
+    prTitle: 'Add cache',
+    headBranch: 'feature',
+    baseBranch: 'main',
+    diff: '+x',
+  } as unknown as Parameters<typeof buildTriagePrompt>[0];
+
+  it('should render the user overrides of the triage and verification prompts', () => {
+    const overrides: PromptTemplateOverrides = {
+      'triage-user': {
+        template: 'Rate #{{prNumber}}: {{diff}}',
+        baseVersion: 'abcd1234',
+        updatedAt: '2026-01-01T00:00:00Z',
+      },
+      'verification-user': {
+        template: 'Check {{repoName}}#{{prNumber}}',
+        baseVersion: 'abcd1234',
+        updatedAt: '2026-01-01T00:00:00Z',
+      },
+    };
+
+    expect(buildTriagePrompt(params, overrides)).toBe('Rate #7: +x');
+    expect(buildVerificationPrompt(params, [], overrides)).toBe('Check user/repo#7');
+  });
+
+  it('should validate overrides against the variables of the new templates', () => {
+    expect(() =>
+      validatePromptTemplate('multi-agent-review-user', 'Ask {{agentNames}} about {{diff}}')
+    ).not.toThrow();
+    expect(() => validatePromptTemplate('triage-user', '{{injectionWarning}}')).toThrow(
+      'unknown variable'
+    );
+  });
+});
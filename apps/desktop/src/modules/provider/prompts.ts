@@ -0,0 +1,422 @@
+/**
+ * Provider Prompts and Output Schemas
+ *
+ * Provider-agnostic prompt builders and JSON schemas for issue validation,
+ * PR review, and re-review. Shared by every provider so that all of them
+ * produce the same ValidationResult/ReviewResult shapes.
+ *
+ * Extracted to a separate file to avoid importing the Claude Agent SDK
+ * in test environments.
+ */
+
+import type {
+  ValidationParams,
+  ReviewParams,
+  ReviewDiffCluster,
+  ReviewRules,
+  PromptTemplateOverrides,
+} from '@gitchorus/shared';
+import { MODEL_TURN_MULTIPLIERS, REVIEW_RULES_FILE_NAME } from '@gitchorus/shared';
+import type { ClaudeModel } from '@gitchorus/shared';
+import { buildTriageFocusSection } from './triage';
+import { renderPromptTemplate } from './prompt-templates';
+import { buildPromptInjectionWarning, fenceUntrustedContent } from './prompt-injection';
+
+/**
+ * JSON schema for structured validation output.
+ * Matches the ValidationResult type (without metadata fields that are added after).
+ */
+export const VALIDATION_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    issueType: { type: 'string', enum: ['bug', 'feature'] },
+    verdict: { type: 'string', enum: ['confirmed', 'likely', 'uncertain', 'unlikely', 'invalid'] },
+    confidence: { type: 'number', minimum: 0, maximum: 100 },
+    affectedFiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          reason: { type: 'string' },
+          snippet: {
+            type: 'string',
+            description:
+              'The relevant code snippet from this file. Include enough context (5-15 lines) to understand the issue. Provide raw code only — do NOT wrap in markdown fencing.',
+          },
+        },
+        required: ['path', 'reason'],
+      },
+    },
+    complexity: { type: 'string', enum: ['trivial', 'low', 'medium', 'high', 'very-high'] },
+    suggestedApproach: {
+      type: 'string',
+      description:
+        'A well-structured implementation approach using markdown. Use numbered steps for the main workflow, bold (**text**) for emphasis, and inline code (`backticks`) for file paths, function names, and code references. For complex issues, group steps by priority or phase.',
+    },
+    reasoning: {
+      type: 'string',
+      description:
+        'A clear, structured analysis using markdown. Use bold (**text**) for headings of each point. Use inline code (`backticks`) when referencing specific files, functions, or code patterns. Lead with key evidence, then explain implications.',
+    },
+    // Feature-specific fields (optional for bugs)
+    prerequisites: { type: 'array', items: { type: 'string' } },
+    potentialConflicts: { type: 'array', items: { type: 'string' } },
+    effortEstimate: { type: 'string' },
+  },
+  required: [
+    'issueType',
+    'verdict',
+    'confidence',
+    'affectedFiles',
+    'complexity',
+    'suggestedApproach',
+    'reasoning',
+  ],
+};
+
+/**
+ * Build the system prompt for issue validation.
+ */
+export function buildSystemPrompt(
+  model: string,
+  maxTurns: number,
+  templates?: PromptTemplateOverrides
+): string {
+  const multiplier = MODEL_TURN_MULTIPLIERS[model as ClaudeModel] ?? 1.0;
+  const isSmallModel = multiplier > 1.0;
+
+  const efficiencyGuidance = isSmallModel
+    ? `\n- Be efficient: you have a limited budget of ${maxTurns} turns. Batch searches, use Glob to discover structure before reading individual files, and avoid redundant explorations
+- Prioritize: (1) understand project structure with Glob, (2) search for key terms with Grep, (3) read only the most relevant files, (4) produce your result`
+    : '';
+
+  return renderPromptTemplate('validation-system', { efficiencyGuidance }, templates);
+}
+
+/**
+ * Build the user prompt for a specific issue.
+ */
+export function buildIssuePrompt(
+  params: ValidationParams,
+  templates?: PromptTemplateOverrides
+): string {
+  const issue = params.issue;
+  return renderPromptTemplate(
+    'validation-user',
+    {
+      repoPath: params.repoPath,
+      repoName: params.repoName,
+      issueNumber: issue.number,
+      issueTitle: fenceUntrustedContent(issue.title),
+      issueLabels:
+        issue.labels.length > 0
+          ? fenceUntrustedContent(`Labels: ${issue.labels.map(l => l.name).join(', ')}`)
+          : '',
+      issueBody: issue.body
+        ? `\n${fenceUntrustedContent(issue.body)}`
+        : '(No description provided)',
+      injectionWarning: buildPromptInjectionWarning(params.promptInjection),
+    },
+    templates
+  );
+}
+
+/**
+ * Base finding item schema shared across all review output schemas.
+ * Extended by re-review (adds addressingStatus) and multi-agent (adds agentSource/agentConfidence).
+ */
+export const BASE_FINDING_ITEM_PROPERTIES = {
+  severity: { type: 'string', enum: ['critical', 'major', 'minor', 'nit'] },
+  category: {
+    type: 'string',
+    enum: ['security', 'logic', 'performance', 'style', 'codebase-fit'],
+  },
+  file: { type: 'string' },
+  line: { type: 'number' },
+  side: { type: 'string', enum: ['LEFT', 'RIGHT'] },
+  codeSnippet: { type: 'string' },
+  explanation: { type: 'string' },
+  suggestedFix: { type: 'string' },
+  title: { type: 'string' },
+  startLine: { type: 'number' },
+  endLine: { type: 'number' },
+  replacement: { type: 'string' },
+} as const;
+
+export const BASE_FINDING_REQUIRED = [
+  'severity',
+  'category',
+  'file',
+  'line',
+  'codeSnippet',
+  'explanation',
+  'suggestedFix',
+  'title',
+];
+
+/**
+ * JSON schema for structured review output.
+ * Matches the ReviewResult type (without metadata fields that are added after).
+ */
+export const REVIEW_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...BASE_FINDING_ITEM_PROPERTIES },
+        required: [...BASE_FINDING_REQUIRED],
+      },
+    },
+    verdict: { type: 'string' },
+    qualityScore: { type: 'number', minimum: 1, maximum: 10 },
+  },
+  required: ['findings', 'verdict', 'qualityScore'],
+};
+
+/**
+ * JSON schema for structured re-review output.
+ * Extends the standard review schema with addressedFindings and per-finding addressingStatus.
+ */
+export const RE_REVIEW_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...BASE_FINDING_ITEM_PROPERTIES,
+          addressingStatus: { type: 'string', enum: ['new', 'persisting', 'regression'] },
+        },
+        required: [...BASE_FINDING_REQUIRED, 'addressingStatus'],
+      },
+    },
+    verdict: { type: 'string' },
+    qualityScore: { type: 'number', minimum: 1, maximum: 10 },
+    addressedFindings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          severity: { type: 'string', enum: ['critical', 'major', 'minor', 'nit'] },
+          status: {
+            type: 'string',
+            enum: ['addressed', 'partially-addressed', 'unaddressed', 'new-issue'],
+          },
+          explanation: { type: 'string' },
+        },
+        required: ['title', 'severity', 'status', 'explanation'],
+      },
+    },
+  },
+  required: ['findings', 'verdict', 'qualityScore', 'addressedFindings'],
+};
+
+/**
+ * Build the system prompt section with a repository's own review rules.
+ * Empty when the repository has no rules file or it defines nothing for the prompt.
+ */
+export function buildReviewRulesSection(rules: ReviewRules | undefined): string {
+  if (!rules) return '';
+
+  const parts: string[] = [];
+  if (rules.guidelines) {
+    parts.push(`### Guidelines\n${rules.guidelines}`);
+  }
+
+  const severities = Object.entries(rules.severity).map(
+    ([category, severity]) => `- Report every ${category} finding with severity ${severity}`
+  );
+  if (severities.length > 0) {
+    parts.push(`### Severities\n${severities.join('\n')}`);
+  }
+
+  if (rules.focus.length > 0) {
+    const notes = rules.focus.map(entry => `- \`${entry.path}\`: ${entry.note}`);
+    parts.push(`### Focus Areas\n${notes.join('\n')}`);
+  }
+
+  if (parts.length === 0) return '';
+
+  return `
+
+## Repository Review Rules
+The maintainers of this repository set these rules in ${REVIEW_RULES_FILE_NAME}. They take precedence over the general guidance above.
+
+${parts.join('\n\n')}`;
+}
+
+/**
+ * Build the system prompt for PR code review.
+ */
+export function buildReviewSystemPrompt(
+  model: string,
+  maxTurns: number,
+  rules?: ReviewRules,
+  templates?: PromptTemplateOverrides
+): string {
+  const multiplier = MODEL_TURN_MULTIPLIERS[model as ClaudeModel] ?? 1.0;
+  const isSmallModel = multiplier > 1.0;
+
+  const efficiencyGuidance = isSmallModel
+    ? `\n- Be efficient: you have a limited budget of ${maxTurns} turns. Batch searches, read related files strategically, and avoid redundant explorations`
+    : '';
+
+  return renderPromptTemplate(
+    'review-system',
+    { efficiencyGuidance, reviewRules: buildReviewRulesSection(rules) },
+    templates
+  );
+}
+
+/**
+ * Template variables describing the PR, shared by the review and re-review prompts.
+ * Everything the PR author wrote is escaped so it cannot close the <user-content> fence.
+ */
+export function buildPrVariables(params: ReviewParams): Record<string, string | number> {
+  return {
+    repoName: params.repoName,
+    prNumber: params.prNumber,
+    prTitle: fenceUntrustedContent(params.prTitle),
+    headBranch: fenceUntrustedContent(params.headBranch),
+    baseBranch: fenceUntrustedContent(params.baseBranch),
+    prDescription: params.prBody
+      ? `**Description:**\n${fenceUntrustedContent(params.prBody)}`
+      : '(No description provided)',
+    diff: fenceUntrustedContent(params.diff),
+    injectionWarning: buildPromptInjectionWarning(params.promptInjection),
+  };
+}
+
+/**
+ * Build the user prompt for a specific PR review.
+ */
+export function buildReviewPrompt(
+  params: ReviewParams,
+  templates?: PromptTemplateOverrides
+): string {
+  return renderPromptTemplate(
+    'review-user',
+    {
+      ...buildPrVariables(params),
+      repoPath: params.repoPath,
+      triageFocus: buildTriageFocusSection(params.triage),
+      diffCluster: buildDiffClusterSection(params.diffCluster),
+    },
+    templates
+  );
+}
+
+/** Most files of the other clusters listed in a cluster prompt */
+const MAX_LISTED_OTHER_FILES = 50;
+
+/**
+ * Build the prompt section telling the agent it sees one cluster of a large PR.
+ * Empty unless the review is part of a map-reduce review.
+ */
+export function buildDiffClusterSection(cluster: ReviewDiffCluster | undefined): string {
+  if (!cluster) return '';
+
+  const listed = cluster.otherFiles.slice(0, MAX_LISTED_OTHER_FILES).map(file => `- ${file}`);
+  const unlisted = cluster.otherFiles.length - listed.length;
+  if (unlisted > 0) listed.push(`- ...and ${unlisted} more`);
+
+  return `
+
+## Partial Review (part ${cluster.index} of ${cluster.total})
+This PR is too large to review in one pass, so its diff was split by file. The diff above covers only these ${cluster.files.length} file(s); report findings for them only. The other parts are reviewed separately.
+Files changed elsewhere in this PR (read them from the repository if you need context):
+${listed.join('\n') || '(none)'}`;
+}
+
+/**
+ * Build the system prompt for a re-review with previous review context.
+ */
+export function buildReReviewSystemPrompt(
+  model: string,
+  maxTurns: number,
+  rules?: ReviewRules,
+  templates?: PromptTemplateOverrides
+): string {
+  const multiplier = MODEL_TURN_MULTIPLIERS[model as ClaudeModel] ?? 1.0;
+  const isSmallModel = multiplier > 1.0;
+
+  const efficiencyGuidance = isSmallModel
+    ? `\n- Be efficient: you have a limited budget of ${maxTurns} turns. Focus on the incremental diff and changes since last review`
+    : '';
+
+  return renderPromptTemplate(
+    're-review-system',
+    { efficiencyGuidance, reviewRules: buildReviewRulesSection(rules) },
+    templates
+  );
+}
+
+/**
+ * Build the user prompt for a re-review with previous review context.
+ */
+export function buildReReviewPrompt(
+  params: ReviewParams,
+  templates?: PromptTemplateOverrides
+): string {
+  const prev = params.previousReview!;
+
+  const previousFindingsList = prev.findings
+    .map(
+      (f, i) =>
+        `${i + 1}. [${f.severity.toUpperCase()}] ${f.title}\n   File: ${f.file}:${f.line}\n   Category: ${f.category}\n   Explanation: ${f.explanation}`
+    )
+    .join('\n');
+
+  const incrementalDiff = params.incrementalDiff
+    ? `
+## Incremental Changes (since last review)
+These are the changes made since the previous review. Focus on these to determine what was addressed:
+
+<user-content>
+\`\`\`diff
+${fenceUntrustedContent(params.incrementalDiff)}
+\`\`\`
+</user-content>
+`
+    : '';
+
+  const cachedFiles =
+    params.cachedFiles && params.cachedFiles.length > 0
+      ? `
+## Unchanged Files
+These files are identical to when they were last reviewed. Their findings are carried forward automatically and they are left out of the diff below, so do not report findings for them:
+${params.cachedFiles.map(file => `- ${file}`).join('\n')}
+`
+      : '';
+
+  return renderPromptTemplate(
+    're-review-user',
+    {
+      ...buildPrVariables(params),
+      previousScore: prev.qualityScore,
+      previousVerdict: prev.verdict,
+      previousFindingCount: prev.findings.length,
+      previousFindings: previousFindingsList || '(No findings)',
+      incrementalDiff,
+      cachedFiles,
+    },
+    templates
+  );
+}
+
+/**
+ * Build output instructions for providers without a native structured output channel.
+ * The agent is asked to reply with a bare JSON object matching the given schema.
+ */
+export function buildJsonOutputInstructions(schema: Record<string, unknown>): string {
+  return `OUTPUT FORMAT:
+When you are done, reply with a single JSON object and nothing else. It must conform to this JSON schema:
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\``;
+}
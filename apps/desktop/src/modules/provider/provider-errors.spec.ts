@@ -0,0 +1,24 @@
+import { isFailoverError } from './provider-errors';
+
+describe('isFailoverError', () => {
+  it.each([
+    'Claude authentication failed. Please re-authenticate.',
+    'Codex CLI is not authenticated. Run "codex login" to authenticate.',
+    'Rate limited by Claude API. Please try again later.',
+    'Claude billing error. Check your subscription.',
+    'Review failed: Claude AI usage limit reached',
+    'Local model endpoint returned 429: too many requests',
+    'Review ran out of turns (limit: 60). Try increasing the review depth in Settings or using a more capable model.',
+  ])('should fail over on "%s"', message => {
+    expect(isFailoverError(message)).toBe(true);
+  });
+
+  it.each([
+    'Review cancelled by user',
+    'Review did not produce valid JSON output',
+    'Could not fetch diff for PR #42',
+    'Claude API server error. Please try again later.',
+  ])('should not fail over on "%s"', message => {
+    expect(isFailoverError(message)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Provider Error Classification
+ *
+ * Decides which provider failures are worth retrying on the next entry of the
+ * review fallback chain. Only failures tied to the provider itself qualify —
+ * a different provider or model may well succeed where this one could not:
+ * - Authentication errors (not logged in, expired or rejected credentials)
+ * - Usage limits (rate limits, billing, quota, exhausted credits)
+ * - Running out of turns before producing a result
+ *
+ * Cancellations and errors about the PR itself (missing diff, bad output) never fail over.
+ */
+
+/** Message patterns for failures that another provider or model may not hit */
+const FAILOVER_PATTERNS: RegExp[] = [
+  // Authentication
+  /authenticat/i,
+  /unauthori[sz]ed/i,
+  /invalid api key/i,
+  /\b401\b/,
+  // Usage limits
+  /rate limit/i,
+  /usage limit/i,
+  /billing/i,
+  /quota/i,
+  /credit balance/i,
+  /\b429\b/,
+  /overloaded/i,
+  // Turn limit
+  /ran out of turns/i,
+];
+
+/**
+ * Whether a provider error should trigger a retry on the next fallback.
+ */
+export function isFailoverError(message: string): boolean {
+  if (/cancelled|aborted/i.test(message)) return false;
+  return FAILOVER_PATTERNS.some(pattern => pattern.test(message));
+}
+
+/**
+ * A provider failure that still cost money, e.g. a run that used the model
+ * and then ran out of turns. Its cost counts towards the repository's budget.
+ */
+export class ProviderRunError extends Error {
+  constructor(
+    message: string,
+    readonly costUsd: number
+  ) {
+    super(message);
+    this.name = 'ProviderRunError';
+  }
+}
+
+/**
+ * Cost in USD a failed run incurred before the error (0 when unknown).
+ */
+export function getErrorCostUsd(error: unknown): number {
+  return error instanceof ProviderRunError && Number.isFinite(error.costUsd) ? error.costUsd : 0;
+}
+
+/**
+ * The error, carrying extraCostUsd on top of its own cost (e.g. the spend of
+ * earlier failed attempts or review parts), so the caller can record all of it.
+ */
+export function addErrorCost(error: unknown, extraCostUsd: number): unknown {
+  if (extraCostUsd <= 0) return error;
+  const costed = new ProviderRunError(
+    error instanceof Error ? error.message : String(error),
+    getErrorCostUsd(error) + extraCostUsd
+  );
+  if (error instanceof Error) costed.stack = error.stack;
+  return costed;
+}
@@ -1,7 +1,11 @@
 import { Module, OnModuleInit } from '@nestjs/common';
 import { createLogger } from '@gitchorus/shared';
 import { ClaudeAgentProvider } from './claude-agent.provider';
+import { CodexCliProvider } from './codex-cli.provider';
+import { LocalOpenAIProvider } from './local-openai.provider';
+import { ReplayProvider } from './replay.provider';
 import { ProviderRegistry } from './provider.registry';
+import { PromptTemplatesGateway } from './prompt-templates.gateway';
 import { SettingsModule } from '../settings';
 
 const logger = createLogger('ProviderModule');
@@ -9,24 +13,44 @@ const logger = createLogger('ProviderModule');
 /**
  * NestJS module that manages AI providers.
  *
- * Registers the ClaudeAgentProvider with the ProviderRegistry
- * during module initialization. The registry and provider are
- * exported for use by other modules (e.g., ValidationModule).
+ * Registers the ClaudeAgentProvider, CodexCliProvider, LocalOpenAIProvider and
+ * ReplayProvider with the ProviderRegistry during module initialization. The registry and provider are
+ * exported for use by other modules (e.g., ValidationModule). PromptTemplatesGateway serves the
+ * prompt templates the providers render, and their overrides, to the Settings UI.
  */
 @Module({
   imports: [SettingsModule],
-  providers: [ClaudeAgentProvider, ProviderRegistry],
-  exports: [ClaudeAgentProvider, ProviderRegistry],
+  providers: [
+    ClaudeAgentProvider,
+    CodexCliProvider,
+    LocalOpenAIProvider,
+    ReplayProvider,
+    ProviderRegistry,
+    PromptTemplatesGateway,
+  ],
+  exports: [
+    ClaudeAgentProvider,
+    CodexCliProvider,
+    LocalOpenAIProvider,
+    ReplayProvider,
+    ProviderRegistry,
+  ],
 })
 export class ProviderModule implements OnModuleInit {
   constructor(
     private readonly claudeProvider: ClaudeAgentProvider,
+    private readonly codexProvider: CodexCliProvider,
+    private readonly localProvider: LocalOpenAIProvider,
+    private readonly replayProvider: ReplayProvider,
     private readonly registry: ProviderRegistry
   ) {}
 
   onModuleInit(): void {
     logger.info('Initializing provider module');
     this.registry.register('claude', this.claudeProvider);
+    this.registry.register('codex', this.codexProvider);
+    this.registry.register('local', this.localProvider);
+    this.registry.register('replay', this.replayProvider);
     logger.info('Provider module initialized');
   }
 }
@@ -0,0 +1,122 @@
+import { ProviderRegistry, type AgentProvider } from './provider.registry';
+import type { SettingsService } from '../settings';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function createMockProvider(): AgentProvider {
+  return {
+    getStatus: jest.fn(),
+    validate: jest.fn(),
+    reviewAuto: jest.fn(),
+    cancel: jest.fn(),
+  };
+}
+
+const mockSettingsService = {
+  getConfig: jest.fn(),
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry;
+  let claude: AgentProvider;
+  let codex: AgentProvider;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry(mockSettingsService as unknown as SettingsService);
+    claude = createMockProvider();
+    codex = createMockProvider();
+    registry.register('claude', claude);
+    registry.register('codex', codex);
+  });
+
+  describe('getForTask', () => {
+    it('should route each task to its configured provider', () => {
+      mockSettingsService.getConfig.mockReturnValue({
+        reviewProvider: 'codex',
+        validationProvider: 'claude',
+      });
+
+      expect(registry.getForTask('review')).toEqual({ type: 'codex', provider: codex });
+      expect(registry.getForTask('validation')).toEqual({ type: 'claude', provider: claude });
+    });
+
+    it('should default to claude when no provider is configured', () => {
+      mockSettingsService.getConfig.mockReturnValue({});
+
+      expect(registry.getForTask('review')).toEqual({ type: 'claude', provider: claude });
+    });
+
+    it('should return undefined provider when the configured one is not registered', () => {
+      const empty = new ProviderRegistry(mockSettingsService as unknown as SettingsService);
+      mockSettingsService.getConfig.mockReturnValue({ reviewProvider: 'codex' });
+
+      expect(empty.getForTask('review')).toEqual({ type: 'codex', provider: undefined });
+    });
+  });
+
+  describe('getChainForTask', () => {
+    it('should append review fallbacks after the configured provider', () => {
+      mockSettingsService.getConfig.mockReturnValue({
+        reviewProvider: 'claude',
+        reviewFallbacks: [
+          { provider: 'claude', model: 'claude-opus-4-6' },
+          { provider: 'codex' },
+          { provider: 'local' },
+        ],
+      });
+
+      expect(registry.getChainForTask('review')).toEqual([
+        { type: 'claude', provider: claude },
+        { type: 'claude', model: 'claude-opus-4-6', provider: claude },
+        { type: 'codex', model: undefined, provider: codex },
+        { type: 'local', model: undefined, provider: undefined },
+      ]);
+    });
+
+    it('should drop fallbacks that repeat an earlier entry', () => {
+      mockSettingsService.getConfig.mockReturnValue({
+        reviewProvider: 'codex',
+        reviewFallbacks: [{ provider: 'codex' }, { provider: 'claude' }, { provider: 'claude' }],
+      });
+
+      expect(registry.getChainForTask('review').map(attempt => attempt.type)).toEqual([
+        'codex',
+        'claude',
+      ]);
+    });
+
+    it('should not apply review fallbacks to validation', () => {
+      mockSettingsService.getConfig.mockReturnValue({
+        validationProvider: 'claude',
+        reviewFallbacks: [{ provider: 'codex' }],
+      });
+
+      expect(registry.getChainForTask('validation')).toEqual([
+        { type: 'claude', provider: claude },
+      ]);
+    });
+  });
+
+  describe('getStatuses', () => {
+    it('should report a failed status check as unavailable', async () => {
+      (claude.getStatus as jest.Mock).mockResolvedValue({
+        type: 'claude',
+        available: true,
+        authenticated: true,
+      });
+      (codex.getStatus as jest.Mock).mockRejectedValue(new Error('boom'));
+
+      const statuses = await registry.getStatuses();
+
+      expect(statuses).toHaveLength(2);
+      expect(statuses[1]).toMatchObject({ type: 'codex', available: false });
+      expect(statuses[1].error).toContain('boom');
+    });
+  });
+});
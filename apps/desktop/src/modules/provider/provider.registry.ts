@@ -1,7 +1,16 @@
 import { Injectable } from '@nestjs/common';
-import type { ProviderType, ProviderStatus } from '@gitchorus/shared';
+import type {
+  ProviderType,
+  ProviderTask,
+  ProviderStatus,
+  ValidationParams,
+  ValidationStep,
+  ValidationResult,
+  ReviewParams,
+  ReviewResult,
+} from '@gitchorus/shared';
 import { createLogger } from '@gitchorus/shared';
-import type { ClaudeAgentProvider } from './claude-agent.provider';
+import { SettingsService } from '../settings';
 
 const logger = createLogger('ProviderRegistry');
 
@@ -14,21 +23,46 @@ interface ProviderLike {
   getStatus(): Promise<ProviderStatus>;
 }
 
+/**
+ * A provider that can run validations and reviews.
+ * Every registered provider (Claude, Codex, Local, Replay) satisfies this shape.
+ * Providers run any number of jobs at once; each run is cancelled through the
+ * signal in its params, while cancel() aborts every run in progress.
+ */
+export interface AgentProvider extends ProviderLike {
+  validate(params: ValidationParams): AsyncGenerator<ValidationStep, ValidationResult>;
+  reviewAuto(params: ReviewParams): AsyncGenerator<ValidationStep, ReviewResult>;
+  cancel(): void;
+}
+
+/**
+ * One step of a task's provider chain: the provider to run and an optional model override.
+ */
+export interface ProviderAttempt {
+  type: ProviderType;
+  /** Model override passed via ProviderConfig (provider default when omitted) */
+  model?: string;
+  /** Registered provider, or undefined if the type is not registered */
+  provider: AgentProvider | undefined;
+}
+
 /**
  * Registry that manages all available AI providers.
  *
  * Providers register themselves during module initialization.
  * The registry provides a unified way to query provider statuses
- * and retrieve specific providers by type.
+ * and retrieve specific providers by type or by task.
  */
 @Injectable()
 export class ProviderRegistry {
-  private providers = new Map<ProviderType, ProviderLike>();
+  private providers = new Map<ProviderType, AgentProvider>();
+
+  constructor(private readonly settingsService: SettingsService) {}
 
   /**
    * Register a provider with the registry.
    */
-  register(type: ProviderType, provider: ProviderLike): void {
+  register(type: ProviderType, provider: AgentProvider): void {
     logger.info(`Registering provider: ${type}`);
     this.providers.set(type, provider);
   }
@@ -36,15 +70,45 @@ export class ProviderRegistry {
   /**
    * Get a specific provider by type.
    */
-  get(type: ProviderType): ProviderLike | undefined {
+  get(type: ProviderType): AgentProvider | undefined {
     return this.providers.get(type);
   }
 
   /**
-   * Get the Claude agent provider specifically (typed).
+   * Get the provider configured for a task in ReviewConfig
+   * (reviewProvider / validationProvider).
    */
-  getClaude(): ClaudeAgentProvider | undefined {
-    return this.providers.get('claude') as ClaudeAgentProvider | undefined;
+  getForTask(task: ProviderTask): { type: ProviderType; provider: AgentProvider | undefined } {
+    const config = this.settingsService.getConfig();
+    const type =
+      (task === 'review' ? config.reviewProvider : config.validationProvider) ?? 'claude';
+    return { type, provider: this.providers.get(type) };
+  }
+
+  /**
+   * Get the ordered providers to try for a task: the configured provider first,
+   * then the review fallback chain (reviews only). Duplicate entries are dropped.
+   */
+  getChainForTask(task: ProviderTask): ProviderAttempt[] {
+    const config = this.settingsService.getConfig();
+    const { type, provider } = this.getForTask(task);
+    const chain: ProviderAttempt[] = [{ type, provider }];
+
+    if (task === 'review') {
+      for (const fallback of config.reviewFallbacks ?? []) {
+        const isDuplicate = chain.some(
+          attempt => attempt.type === fallback.provider && attempt.model === fallback.model
+        );
+        if (isDuplicate) continue;
+        chain.push({
+          type: fallback.provider,
+          model: fallback.model,
+          provider: this.providers.get(fallback.provider),
+        });
+      }
+    }
+
+    return chain;
   }
 
   /**
@@ -0,0 +1,163 @@
+import { Injectable } from '@nestjs/common';
+import type { SDKMessage, Options } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  ProviderType,
+  ProviderStatus,
+  ValidationParams,
+  ValidationStep,
+  ValidationResult,
+  ReviewParams,
+  ReviewResult,
+} from '@gitchorus/shared';
+import { SettingsService } from '../settings';
+import { ClaudeAgentProvider } from './claude-agent.provider';
+import {
+  findLatestRecording,
+  listRecordings,
+  loadRecording,
+  replayMessages,
+  type RecordingHeader,
+  type RecordingKind,
+  type SessionRecorder,
+} from './session-recorder';
+import { createRunLogger } from './run-context';
+
+/**
+ * Replay provider for deterministic review sessions.
+ *
+ * Feeds a session recorded by ClaudeAgentProvider back through the exact same
+ * step/result pipeline instead of calling the Claude API. The newest recording
+ * for the same repository, PR/issue and kind of run is used, with the recorded
+ * model and turn limit, so a bad review can be reproduced exactly and the app
+ * can be demoed without spending credits.
+ */
+@Injectable()
+export class ReplayProvider extends ClaudeAgentProvider {
+  protected override readonly providerType: ProviderType = 'replay';
+
+  constructor(settingsService: SettingsService) {
+    super(settingsService);
+  }
+
+  /**
+   * Find the newest recording for a run, or throw with guidance on how to create one.
+   */
+  private findRecording(
+    kinds: RecordingKind[],
+    params: ValidationParams | ReviewParams
+  ): RecordingHeader {
+    const target =
+      'issue' in params
+        ? { issueNumber: params.issue.number, label: `issue #${params.issue.number}` }
+        : { prNumber: params.prNumber, label: `PR #${params.prNumber}` };
+
+    const header = findLatestRecording(this.getRecordingsDir(), {
+      kinds,
+      repositoryFullName: params.repoName,
+      prNumber: target.prNumber,
+      issueNumber: target.issueNumber,
+    });
+
+    if (!header) {
+      throw new Error(
+        `No recorded ${kinds.join(' or ')} session found for ${target.label} in ${params.repoName}. Enable "Record agent sessions" in Settings and run it with Claude first.`
+      );
+    }
+
+    return header;
+  }
+
+  /**
+   * Pin the model and turn limit to the recorded ones so the replayed result matches.
+   */
+  private withRecordedConfig<T extends ValidationParams | ReviewParams>(
+    params: T,
+    header: RecordingHeader
+  ): T {
+    return {
+      ...params,
+      config: { ...params.config, type: 'replay', model: header.model, maxTurns: header.maxTurns },
+    };
+  }
+
+  /**
+   * Replays never record themselves.
+   */
+  protected override createRecorder(): SessionRecorder | null {
+    return null;
+  }
+
+  /**
+   * Stream the newest matching recording instead of starting a live query.
+   */
+  protected override createQuery(
+    _prompt: string,
+    options: Options,
+    kind: RecordingKind,
+    params: ValidationParams | ReviewParams
+  ): AsyncIterable<SDKMessage> {
+    return this.replayRecording(kind, params, options.abortController?.signal);
+  }
+
+  /**
+   * Load the recording lazily so lookup errors surface inside the message loop,
+   * which releases the abort controller like any other failed run.
+   */
+  private async *replayRecording(
+    kind: RecordingKind,
+    params: ValidationParams | ReviewParams,
+    signal?: AbortSignal
+  ): AsyncGenerator<SDKMessage> {
+    const header = this.findRecording([kind], params);
+    const recording = loadRecording(this.getRecordingsDir(), header.id);
+
+    const logger = createRunLogger('ReplayProvider', params);
+    logger.info(`Replaying ${recording.messages.length} SDK messages from ${header.id}`);
+
+    yield* replayMessages(recording.messages, signal) as AsyncGenerator<SDKMessage>;
+  }
+
+  /**
+   * Available whenever at least one recording exists. No authentication is needed.
+   */
+  override async getStatus(): Promise<ProviderStatus> {
+    const count = listRecordings(this.getRecordingsDir()).length;
+    return {
+      type: 'replay',
+      available: count > 0,
+      authenticated: true,
+      error:
+        count > 0
+          ? undefined
+          : 'No recorded sessions yet. Enable "Record agent sessions" in Settings and run a Claude review first.',
+    };
+  }
+
+  /**
+   * Replay the newest recorded validation of this issue.
+   */
+  override async *validate(
+    params: ValidationParams
+  ): AsyncGenerator<ValidationStep, ValidationResult> {
+    const header = this.findRecording(['validation'], params);
+    return yield* super.validate(this.withRecordedConfig(params, header));
+  }
+
+  /**
+   * Replay the newest recorded review of this PR, in the mode it was recorded in
+   * (single-agent or multi-agent) regardless of the current review mode setting.
+   */
+  override async *reviewAuto(params: ReviewParams): AsyncGenerator<ValidationStep, ReviewResult> {
+    const isReReview = params.isReReview && params.previousReview;
+    const header = this.findRecording(
+      isReReview ? ['re-review'] : ['review', 'multi-agent-review'],
+      params
+    );
+    const replayParams = this.withRecordedConfig(params, header);
+
+    if (header.kind === 'multi-agent-review') {
+      return yield* this.reviewMultiAgent(replayParams);
+    }
+    return yield* this.review(replayParams);
+  }
+}
@@ -0,0 +1,112 @@
+import { validateFindings, buildReviewResult, extractJsonObject } from './result-builders';
+import type { ReviewParams } from '@gitchorus/shared';
+
+// ---------------------------------------------------------------------------
+// validateFindings
+// ---------------------------------------------------------------------------
+
+describe('validateFindings', () => {
+  it('should drop malformed findings and unknown severities', () => {
+    const findings = validateFindings([
+      { file: 'a.ts', line: 1, explanation: 'ok', severity: 'major' },
+      { file: 'b.ts', line: '2', explanation: 'bad line', severity: 'minor' },
+      { file: 'c.ts', line: 3, explanation: 'bad severity', severity: 'blocker' },
+      null,
+    ]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].file).toBe('a.ts');
+  });
+
+  it('should keep complete replacement ranges and drop malformed ones', () => {
+    const base = { file: 'a.ts', line: 4, explanation: 'ok', severity: 'minor' };
+    const findings = validateFindings([
+      { ...base, startLine: 4, endLine: 5, replacement: '```ts\nconst a = 1;\nconst b = 2;\n```' },
+      { ...base, startLine: 5, endLine: 4, replacement: 'const a = 1;' },
+      { ...base, startLine: 4, replacement: 'const a = 1;' },
+    ]);
+
+    expect(findings[0]).toMatchObject({
+      startLine: 4,
+      endLine: 5,
+      replacement: 'const a = 1;\nconst b = 2;',
+    });
+    expect(findings[1]).not.toHaveProperty('replacement');
+    expect(findings[2]).not.toHaveProperty('startLine');
+  });
+
+  it('should keep block ranges without a replacement and drop replacements of removed code', () => {
+    const base = { file: 'a.ts', line: 4, explanation: 'ok', severity: 'minor' };
+    const findings = validateFindings([
+      { ...base, startLine: 2, endLine: 4 },
+      { ...base, side: 'LEFT', startLine: 4, endLine: 4, replacement: 'x' },
+      { ...base, side: 'BOTH' },
+    ]);
+
+    expect(findings[0]).toMatchObject({ startLine: 2, endLine: 4 });
+    expect(findings[1]).toMatchObject({ side: 'LEFT', startLine: 4, endLine: 4 });
+    expect(findings[1]).not.toHaveProperty('replacement');
+    expect(findings[2]).not.toHaveProperty('side');
+  });
+
+  it('should return an empty array for non-array input', () => {
+    expect(validateFindings(undefined)).toEqual([]);
+    expect(validateFindings({ file: 'a.ts' })).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildReviewResult
+// ---------------------------------------------------------------------------
+
+describe('buildReviewResult', () => {
+  const params = {
+    prNumber: 7,
+    prTitle: 'Add feature',
+    repoName: 'owner/repo',
+  } as ReviewParams;
+
+  it('should fill defaults and attach run metadata', () => {
+    const result = buildReviewResult({}, params, {
+      providerType: 'local',
+      model: 'qwen2.5-coder:14b',
+      costUsd: 0,
+      startTime: Date.now(),
+    });
+
+    expect(result).toMatchObject({
+      prNumber: 7,
+      repositoryFullName: 'owner/repo',
+      findings: [],
+      verdict: 'No verdict provided',
+      qualityScore: 5,
+      providerType: 'local',
+      model: 'qwen2.5-coder:14b',
+      costUsd: 0,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// extractJsonObject
+// ---------------------------------------------------------------------------
+
+describe('extractJsonObject', () => {
+  it('should parse bare JSON', () => {
+    expect(extractJsonObject('{"verdict":"ok"}')).toEqual({ verdict: 'ok' });
+  });
+
+  it('should parse a fenced json block', () => {
+    const text = 'Here is the result:\n```json\n{"qualityScore": 8}\n```\nDone.';
+    expect(extractJsonObject(text)).toEqual({ qualityScore: 8 });
+  });
+
+  it('should parse JSON surrounded by prose', () => {
+    expect(extractJsonObject('Result: {"findings": []} end')).toEqual({ findings: [] });
+  });
+
+  it('should throw when no JSON object is present', () => {
+    expect(() => extractJsonObject('no json here')).toThrow('valid JSON object');
+    expect(() => extractJsonObject('[1, 2, 3]')).toThrow();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Provider Result Builders
+ *
+ * Pure functions that turn a provider's structured output into the
+ * ValidationResult/ReviewResult shapes consumed by the services and UI.
+ * Shared by every provider so results are validated the same way
+ * regardless of which backend produced them.
+ */
+
+import type {
+  PromptTemplateUsage,
+  ProviderType,
+  ValidationParams,
+  ValidationResult,
+  ReviewParams,
+  ReviewResult,
+  ReviewFinding,
+  ReviewSeverity,
+  SecretRedaction,
+} from '@gitchorus/shared';
+
+/**
+ * Run metadata attached to every result by the provider that produced it.
+ */
+export interface ResultMetadata {
+  /** Provider that ran the analysis */
+  providerType: ProviderType;
+  /** Model used for the run */
+  model: string;
+  /** Cost of the run in USD (0 when the provider does not report cost) */
+  costUsd: number;
+  /** Date.now() at the start of the run, used for durationMs */
+  startTime: number;
+  /** Versions of the prompt templates the run used */
+  promptTemplates?: PromptTemplateUsage[];
+  /** Secrets masked in tool output during the run */
+  redactions?: SecretRedaction[];
+}
+
+const VALID_SEVERITIES: ReviewSeverity[] = ['critical', 'major', 'minor', 'nit'];
+
+/**
+ * Runtime-validate raw findings: filter out malformed entries instead of blind casting.
+ */
+export function validateFindings(rawFindings: unknown): ReviewFinding[] {
+  if (!Array.isArray(rawFindings)) return [];
+
+  return rawFindings
+    .filter((f: unknown): f is ReviewFinding => {
+      if (!f || typeof f !== 'object') return false;
+      const entry = f as Record<string, unknown>;
+      return (
+        typeof entry.file === 'string' &&
+        typeof entry.line === 'number' &&
+        typeof entry.explanation === 'string' &&
+        typeof entry.severity === 'string' &&
+        VALID_SEVERITIES.includes(entry.severity as ReviewSeverity)
+      );
+    })
+    .map(validateLocation);
+}
+
+/** Matches a replacement the model wrapped in a code fence despite being told not to */
+const FENCED_REPLACEMENT_PATTERN = /^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/;
+
+/**
+ * Keep a finding's side and line range only when they are well-formed, and
+ * its replacement only for a range of the new file, so a malformed range
+ * never becomes a comment or suggestion on the wrong lines.
+ */
+function validateLocation(finding: ReviewFinding): ReviewFinding {
+  const { side, startLine, endLine, replacement, ...rest } = finding;
+  const validated: ReviewFinding = { ...rest };
+  if (side === 'LEFT' || side === 'RIGHT') {
+    validated.side = side;
+  }
+  if (
+    typeof startLine !== 'number' ||
+    typeof endLine !== 'number' ||
+    !Number.isInteger(startLine) ||
+    !Number.isInteger(endLine) ||
+    startLine < 1 ||
+    endLine < startLine
+  ) {
+    return validated;
+  }
+  validated.startLine = startLine;
+  validated.endLine = endLine;
+  if (typeof replacement === 'string' && side !== 'LEFT') {
+    validated.replacement = FENCED_REPLACEMENT_PATTERN.exec(replacement)?.[1] ?? replacement;
+  }
+  return validated;
+}
+
+/**
+ * Build a full ReviewResult from a provider's structured output.
+ */
+export function buildReviewResult(
+  output: Record<string, unknown>,
+  params: ReviewParams,
+  meta: ResultMetadata
+): ReviewResult {
+  const findings = validateFindings(output['findings']);
+
+  const verdict = typeof output['verdict'] === 'string' ? output['verdict'] : 'No verdict provided';
+  const qualityScore = typeof output['qualityScore'] === 'number' ? output['qualityScore'] : 5;
+
+  const result: ReviewResult = {
+    prNumber: params.prNumber,
+    prTitle: params.prTitle,
+    repositoryFullName: params.repoName,
+    findings,
+    verdict,
+    qualityScore,
+    reviewedAt: new Date().toISOString(),
+    providerType: meta.providerType,
+    model: meta.model,
+    costUsd: meta.costUsd,
+    durationMs: Date.now() - meta.startTime,
+  };
+
+  if (meta.promptTemplates) {
+    result.promptTemplates = meta.promptTemplates;
+  }
+  if (meta.redactions && meta.redactions.length > 0) {
+    result.redactions = meta.redactions;
+  }
+
+  // Include addressedFindings from re-review output
+  if (Array.isArray(output['addressedFindings'])) {
+    result.addressedFindings = output['addressedFindings'] as ReviewResult['addressedFindings'];
+  }
+
+  return result;
+}
+
+/**
+ * Build a full ValidationResult from a provider's structured output.
+ */
+export function buildValidationResult(
+  output: Record<string, unknown>,
+  params: ValidationParams,
+  meta: ResultMetadata
+): ValidationResult {
+  const baseResult = {
+    issueNumber: params.issue.number,
+    issueTitle: params.issue.title,
+    repositoryFullName: params.repoName,
+    validatedAt: new Date().toISOString(),
+    providerType: meta.providerType,
+    model: meta.model,
+    costUsd: meta.costUsd,
+    durationMs: Date.now() - meta.startTime,
+    ...(meta.promptTemplates && { promptTemplates: meta.promptTemplates }),
+    ...(meta.redactions && meta.redactions.length > 0 && { redactions: meta.redactions }),
+  };
+
+  if (output['issueType'] === 'feature') {
+    return {
+      issueType: 'feature',
+      verdict: output['verdict'] as ValidationResult['verdict'],
+      confidence: output['confidence'] as number,
+      affectedFiles: (output['affectedFiles'] || []) as ValidationResult['affectedFiles'],
+      complexity: output['complexity'] as ValidationResult['complexity'],
+      prerequisites: (output['prerequisites'] || []) as string[],
+      potentialConflicts: (output['potentialConflicts'] || []) as string[],
+      effortEstimate: (output['effortEstimate'] || 'Unknown') as string,
+      suggestedApproach: output['suggestedApproach'] as string,
+      reasoning: output['reasoning'] as string,
+      ...baseResult,
+    };
+  }
+
+  return {
+    issueType: 'bug',
+    verdict: output['verdict'] as ValidationResult['verdict'],
+    confidence: output['confidence'] as number,
+    affectedFiles: (output['affectedFiles'] || []) as ValidationResult['affectedFiles'],
+    complexity: output['complexity'] as ValidationResult['complexity'],
+    suggestedApproach: output['suggestedApproach'] as string,
+    reasoning: output['reasoning'] as string,
+    ...baseResult,
+  };
+}
+
+/**
+ * Extract a JSON object from an agent's final text message.
+ * Used by providers without a native structured output channel.
+ * Accepts bare JSON, a fenced ```json block, or JSON surrounded by prose.
+ */
+export function extractJsonObject(text: string): Record<string, unknown> {
+  const candidates: string[] = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      const parsed: unknown = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error('Response does not contain a valid JSON object');
+}
@@ -0,0 +1,175 @@
+import type { CustomReviewAgent, SubAgentScore } from '@gitchorus/shared';
+import {
+  applyRosterWeights,
+  buildAgentRosterPrompt,
+  buildCustomAgentDefinition,
+  findDelegatedAgent,
+  resolveReviewAgents,
+} from './review-agents';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function createAgent(overrides: Partial<CustomReviewAgent> = {}): CustomReviewAgent {
+  return {
+    id: 'accessibility',
+    name: 'Accessibility',
+    description: 'ARIA roles, keyboard navigation, color contrast',
+    prompt: 'Check that every interactive element is reachable by keyboard.',
+    tools: ['Read', 'Grep'],
+    weight: 20,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function createScore(overrides: Partial<SubAgentScore> = {}): SubAgentScore {
+  return {
+    agent: 'code-quality',
+    score: 8,
+    weight: 0.9,
+    summary: 'Fine',
+    findingCount: 0,
+    severityCounts: { critical: 0, major: 0, minor: 0, nit: 0 },
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// resolveReviewAgents
+// ---------------------------------------------------------------------------
+
+describe('resolveReviewAgents', () => {
+  it('should use the default built-in weights', () => {
+    const roster = resolveReviewAgents({});
+
+    expect(roster.map(entry => [entry.id, entry.weight])).toEqual([
+      ['code-quality', 0.25],
+      ['code-patterns', 0.25],
+      ['security-performance', 0.5],
+    ]);
+  });
+
+  it('should add enabled custom agents and normalize all weights', () => {
+    const roster = resolveReviewAgents({
+      subAgentWeights: { 'code-quality': 20, 'code-patterns': 20, 'security-performance': 40 },
+      customReviewAgents: [createAgent(), createAgent({ id: 'migrations', enabled: false })],
+    });
+
+    expect(roster.map(entry => entry.id)).toEqual([
+      'code-quality',
+      'code-patterns',
+      'security-performance',
+      'accessibility',
+    ]);
+    expect(roster[3].weight).toBeCloseTo(0.2);
+    expect(roster[3].focus).toBe('ARIA roles, keyboard navigation, color contrast');
+    expect(roster.reduce((sum, entry) => sum + entry.weight, 0)).toBeCloseTo(1);
+  });
+
+  it('should skip custom agents with invalid or taken ids', () => {
+    const roster = resolveReviewAgents({
+      customReviewAgents: [
+        createAgent({ id: 'Not Valid' }),
+        createAgent({ id: 'context' }),
+        createAgent({ id: 'code-quality' }),
+        createAgent({ id: 'api-compat' }),
+        createAgent({ id: 'api-compat', name: 'Duplicate' }),
+      ],
+    });
+
+    expect(roster.filter(entry => entry.custom).map(entry => entry.custom?.name)).toEqual([
+      'Accessibility',
+    ]);
+  });
+
+  it('should weigh every agent equally when all weights are zero', () => {
+    const roster = resolveReviewAgents({
+      subAgentWeights: { 'code-quality': 0, 'code-patterns': 0, 'security-performance': 0 },
+      customReviewAgents: [createAgent({ weight: 0 })],
+    });
+
+    expect(roster.map(entry => entry.weight)).toEqual([0.25, 0.25, 0.25, 0.25]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Definitions and prompts
+// ---------------------------------------------------------------------------
+
+describe('buildCustomAgentDefinition', () => {
+  it('should wrap the instructions in the finding format and keep read-only tools', () => {
+    const definition = buildCustomAgentDefinition(
+      createAgent({ tools: ['Read', 'Bash' as never, 'Glob'] })
+    );
+
+    expect(definition.tools).toEqual(['Read', 'Glob']);
+    expect(definition.model).toBe('inherit');
+    expect(definition.prompt).toContain('You are the "Accessibility" reviewer');
+    expect(definition.prompt).toContain('reachable by keyboard');
+    expect(definition.prompt).toContain('---FINDING---');
+    expect(definition.prompt).toContain('SCORE: <1-10>');
+  });
+});
+
+describe('buildAgentRosterPrompt', () => {
+  it('should list every agent with its focus and weight', () => {
+    const prompt = buildAgentRosterPrompt(
+      resolveReviewAgents({ customReviewAgents: [createAgent({ weight: 100 })] })
+    );
+
+    expect(prompt.delegation).toContain(
+      '   - "accessibility": ARIA roles, keyboard navigation, color contrast'
+    );
+    expect(prompt.weights).toContain('- security-performance: 25% weight');
+    expect(prompt.weights).toContain('- accessibility: 50% weight');
+    expect(prompt.weights).toContain('- context: 0% weight');
+    expect(prompt.names).toBe(
+      '"code-quality", "code-patterns", "security-performance" and "accessibility"'
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findDelegatedAgent
+// ---------------------------------------------------------------------------
+
+describe('findDelegatedAgent', () => {
+  const agentIds = ['context', 'security-performance', 'security'];
+
+  it('should prefer the subagent_type of the delegation', () => {
+    expect(
+      findDelegatedAgent({ subagent_type: 'security', description: 'context check' }, agentIds)
+    ).toBe('security');
+  });
+
+  it('should match the longest agent id mentioned in the description', () => {
+    expect(findDelegatedAgent({ description: 'Run security-performance review' }, agentIds)).toBe(
+      'security-performance'
+    );
+    expect(findDelegatedAgent({ description: 'Summarize the PR' }, agentIds)).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyRosterWeights
+// ---------------------------------------------------------------------------
+
+describe('applyRosterWeights', () => {
+  it('should replace reported weights with the configured ones', () => {
+    const roster = resolveReviewAgents({ customReviewAgents: [createAgent({ weight: 100 })] });
+
+    const scores = applyRosterWeights(
+      [
+        createScore({ agent: 'context' }),
+        createScore({ agent: 'security-performance' }),
+        createScore({ agent: 'accessibility', weight: 0 }),
+        createScore({ agent: 'unknown' }),
+      ],
+      roster
+    );
+
+    expect(scores.map(score => score.weight)).toEqual([0, 0.25, 0.5, 0]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Review Agent Roster
+ *
+ * Resolves the scoring sub-agents of a multi-agent review from Settings: the
+ * built-in code-quality, code-patterns and security-performance agents plus
+ * any enabled user-defined agents, each with its configured weight. The
+ * roster drives the orchestrator prompt, the output schema and the weighted
+ * quality score, so custom agents take part in all three automatically.
+ *
+ * Extracted to a separate file to avoid importing the Claude Agent SDK
+ * in test environments.
+ */
+
+import type { AgentDefinition } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  CustomReviewAgent,
+  ReviewConfig,
+  ScoringAgentType,
+  SubAgentScore,
+} from '@gitchorus/shared';
+import {
+  CUSTOM_AGENT_ID_PATTERN,
+  CUSTOM_AGENT_TOOLS,
+  DEFAULT_REVIEW_CONFIG,
+  SCORING_AGENT_TYPES,
+} from '@gitchorus/shared';
+
+/** Turn limit of a custom sub-agent, matching the built-in review sub-agents */
+const CUSTOM_AGENT_MAX_TURNS = 25;
+
+/** What each built-in scoring agent reviews, as listed in the orchestrator prompt */
+const BUILT_IN_AGENT_FOCUS: Record<ScoringAgentType, string> = {
+  'code-quality': 'naming, DRY, complexity, error handling, readability',
+  'code-patterns': 'framework patterns, module boundaries, type safety',
+  'security-performance': 'OWASP, injection, auth, memory leaks, async patterns',
+};
+
+/**
+ * A scoring sub-agent taking part in a multi-agent review.
+ */
+export interface ReviewAgentRosterEntry {
+  /** Agent name in the SDK agents map, and the agentSource of its findings */
+  id: string;
+  /** What the agent reviews, as listed in the orchestrator prompt */
+  focus: string;
+  /** Normalized weight of the agent's score (all roster weights sum to 1) */
+  weight: number;
+  /** Definition of a user-defined agent (undefined for built-in agents) */
+  custom?: CustomReviewAgent;
+}
+
+/**
+ * Resolve the scoring sub-agents of a multi-agent review.
+ *
+ * Custom agents that are disabled, have an invalid id or reuse the id of an
+ * earlier agent are left out. Weights are normalized to sum to 1; if every
+ * weight is zero, all agents count equally.
+ */
+export function resolveReviewAgents(
+  config: Partial<Pick<ReviewConfig, 'subAgentWeights' | 'customReviewAgents'>>
+): ReviewAgentRosterEntry[] {
+  const weights = { ...DEFAULT_REVIEW_CONFIG.subAgentWeights, ...config.subAgentWeights };
+  const entries: ReviewAgentRosterEntry[] = SCORING_AGENT_TYPES.map(id => ({
+    id,
+    focus: BUILT_IN_AGENT_FOCUS[id],
+    weight: Math.max(weights[id] ?? 0, 0),
+  }));
+
+  const ids = new Set<string>(['context', ...entries.map(entry => entry.id)]);
+  for (const agent of config.customReviewAgents ?? []) {
+    if (!agent.enabled || !CUSTOM_AGENT_ID_PATTERN.test(agent.id) || ids.has(agent.id)) continue;
+    ids.add(agent.id);
+    entries.push({
+      id: agent.id,
+      focus: agent.description,
+      weight: Number.isFinite(agent.weight) ? Math.max(agent.weight, 0) : 0,
+      custom: agent,
+    });
+  }
+
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  return entries.map(entry => ({
+    ...entry,
+    weight: total > 0 ? entry.weight / total : 1 / entries.length,
+  }));
+}
+
+/**
+ * Build the SDK definition of a user-defined sub-agent. Its instructions are
+ * wrapped in the same finding and score format the built-in agents report in.
+ */
+export function buildCustomAgentDefinition(agent: CustomReviewAgent): AgentDefinition {
+  return {
+    description: agent.description,
+    tools: agent.tools.filter(tool => CUSTOM_AGENT_TOOLS.includes(tool)),
+    model: 'inherit',
+    maxTurns: CUSTOM_AGENT_MAX_TURNS,
+    prompt: `You are the "${agent.name}" reviewer. Focus ONLY on this area:
+
+${agent.prompt.trim()}
+
+Pick the closest review category for each finding: security | logic | performance | style | codebase-fit
+
+For each finding, output this EXACT format (one per finding):
+---FINDING---
+SEVERITY: critical|major|minor|nit
+CATEGORY: security|logic|performance|style|codebase-fit
+FILE: <file path>
+LINE: <line number from the diff>
+TITLE: <one-line summary>
+CODE_SNIPPET: <problematic code>
+EXPLANATION: <why this is an issue>
+SUGGESTED_FIX: <code fix with inline comments>
+CONFIDENCE: <0-100>
+---END_FINDING---
+
+After all findings, output:
+---SCORE---
+SCORE: <1-10>
+SUMMARY: <2-3 sentence summary of your area>
+---END_SCORE---
+
+If the PR does not touch your area, report no findings and a score of 10.`,
+  };
+}
+
+/**
+ * Build the orchestrator prompt lines that list the review sub-agents and
+ * their score weights.
+ */
+export function buildAgentRosterPrompt(roster: ReviewAgentRosterEntry[]): {
+  delegation: string;
+  weights: string;
+  names: string;
+} {
+  const names = roster.map(entry => `"${entry.id}"`);
+  return {
+    delegation: roster.map(entry => `   - "${entry.id}": ${entry.focus}`).join('\n'),
+    names:
+      names.length > 1
+        ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+        : names.join(''),
+    weights: [
+      ...roster.map(entry => `- ${entry.id}: ${Math.round(entry.weight * 100)}% weight`),
+      '- context: 0% weight (provides context only, no score)',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Which sub-agent a Task delegation goes to: its subagent_type, or else the
+ * longest agent id its description mentions (so "security-performance" wins
+ * over a custom "security"). Returns undefined for unknown agents.
+ */
+export function findDelegatedAgent(
+  input: Record<string, unknown>,
+  agentIds: string[]
+): string | undefined {
+  if (typeof input.subagent_type === 'string' && agentIds.includes(input.subagent_type)) {
+    return input.subagent_type;
+  }
+  const description = typeof input.description === 'string' ? input.description.toLowerCase() : '';
+  return [...agentIds]
+    .sort((a, b) => b.length - a.length)
+    .find(id => description.includes(id.toLowerCase()));
+}
+
+/**
+ * Replace the weights the orchestrator reported with the configured ones, so
+ * the weighted score never depends on the model copying weights correctly.
+ * Agents outside the roster (including context) get weight 0.
+ */
+export function applyRosterWeights(
+  scores: SubAgentScore[],
+  roster: ReviewAgentRosterEntry[]
+): SubAgentScore[] {
+  const weights = new Map(roster.map(entry => [entry.id, entry.weight]));
+  return scores.map(score => ({ ...score, weight: weights.get(score.agent) ?? 0 }));
+}
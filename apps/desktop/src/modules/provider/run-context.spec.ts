@@ -0,0 +1,40 @@
+import { createRunAbortController, createRunLogger } from './run-context';
+
+describe('createRunAbortController', () => {
+  it('should abort when the job signal aborts', () => {
+    const job = new AbortController();
+    const run = createRunAbortController(job.signal);
+
+    expect(run.signal.aborted).toBe(false);
+    job.abort();
+    expect(run.signal.aborted).toBe(true);
+  });
+
+  it('should start aborted when the job was already cancelled', () => {
+    const job = new AbortController();
+    job.abort();
+
+    expect(createRunAbortController(job.signal).signal.aborted).toBe(true);
+  });
+
+  it('should not abort the job when the run is aborted', () => {
+    const job = new AbortController();
+    createRunAbortController(job.signal).abort();
+
+    expect(job.signal.aborted).toBe(false);
+  });
+});
+
+describe('createRunLogger', () => {
+  it('should tag file log entries with the job context', () => {
+    const lines: string[] = [];
+    const logger = createRunLogger('ClaudeAgentProvider', {
+      fileTransport: line => lines.push(line),
+      logContext: 'PR #42',
+    });
+
+    logger.error('Review failed');
+
+    expect(lines.map(line => JSON.parse(line).context)).toEqual(['ClaudeAgentProvider:PR #42']);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Per-Run Context
+ *
+ * Helpers that scope a provider run to the job that started it, so several
+ * reviews and validations can share one provider instance:
+ * - Each run gets its own AbortController, linked to the job's signal
+ * - Each run logs under a context that names the job (e.g. "ClaudeAgentProvider:PR #42")
+ *
+ * Extracted to a separate file to avoid importing the Claude Agent SDK
+ * in test environments.
+ */
+
+import { createLogger } from '@gitchorus/shared';
+import type { Logger } from '@gitchorus/shared';
+
+/** The parts of ValidationParams / ReviewParams that describe the job */
+export interface RunContextParams {
+  fileTransport?: (message: string) => void;
+  logContext?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Create a logger for a single run, tagged with the job's log context when given.
+ */
+export function createRunLogger(context: string, params: RunContextParams): Logger {
+  return createLogger(params.logContext ? `${context}:${params.logContext}` : context, {
+    fileTransport: params.fileTransport,
+  });
+}
+
+/**
+ * Create an AbortController for a single run that aborts when the job's signal does.
+ */
+export function createRunAbortController(signal?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+  return controller;
+}
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SessionRecorder,
+  RECORDING_FORMAT_VERSION,
+  buildRecordingId,
+  listRecordings,
+  findLatestRecording,
+  loadRecording,
+  pruneRecordings,
+  replayMessages,
+  type RecordingHeader,
+} from './session-recorder';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gitchorus-recordings-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeHeader(overrides: Partial<RecordingHeader> = {}): RecordingHeader {
+  const base = {
+    version: RECORDING_FORMAT_VERSION,
+    kind: 'review' as const,
+    model: 'claude-sonnet-4-5-20250929',
+    maxTurns: 60,
+    recordedAt: '2026-01-01T10:00:00.000Z',
+    repositoryFullName: 'owner/repo',
+    prNumber: 42,
+    ...overrides,
+  };
+  return { ...base, id: buildRecordingId(base) };
+}
+
+async function record(header: RecordingHeader, messages: unknown[]): Promise<void> {
+  const recorder = new SessionRecorder(dir, header);
+  for (const message of messages) recorder.record(message);
+  await recorder.close();
+}
+
+async function collect(stream: AsyncIterable<unknown>): Promise<unknown[]> {
+  const items: unknown[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// buildRecordingId
+// ---------------------------------------------------------------------------
+
+describe('buildRecordingId', () => {
+  it('should build a filesystem-safe id from timestamp, kind and target', () => {
+    expect(
+      buildRecordingId({
+        kind: 'validation',
+        recordedAt: '2026-01-01T10:00:00.000Z',
+        issueNumber: 7,
+      })
+    ).toBe('2026-01-01T10-00-00-000Z-validation-issue7');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SessionRecorder / loadRecording
+// ---------------------------------------------------------------------------
+
+describe('SessionRecorder', () => {
+  it('should round-trip the header and messages in order', async () => {
+    const header = makeHeader();
+    const messages = [
+      { type: 'system', subtype: 'init' },
+      { type: 'assistant', message: { content: [] } },
+      { type: 'result', subtype: 'success', total_cost_usd: 0.12 },
+    ];
+
+    await record(header, messages);
+    const recording = loadRecording(dir, header.id);
+
+    expect(recording.header).toEqual(header);
+    expect(recording.messages).toEqual(messages);
+  });
+
+  it('should mask secrets in tool results before writing them', async () => {
+    const header = makeHeader();
+    const secret = 'ghp_' + 'a'.repeat(36);
+
+    await record(header, [
+      {
+        type: 'user',
+        message: {
+          content: [
+            { type: 'tool_result', tool_use_id: 't1', content: `GITHUB_TOKEN=${secret}\n` },
+          ],
+        },
+      },
+    ]);
+
+    const raw = fs.readFileSync(path.join(dir, `${header.id}.jsonl`), 'utf-8');
+    expect(raw).not.toContain(secret);
+    expect(loadRecording(dir, header.id).messages[0]).toEqual({
+      type: 'user',
+      message: {
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 't1',
+            content: 'GITHUB_TOKEN=[REDACTED:github-token]\n',
+          },
+        ],
+      },
+    });
+  });
+
+  it('should not create a file when nothing was recorded', async () => {
+    const recorder = new SessionRecorder(dir, makeHeader());
+    await recorder.close();
+
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('should report write errors instead of throwing', () => {
+    const onError = jest.fn();
+    const blocker = path.join(dir, 'not-a-dir');
+    fs.writeFileSync(blocker, '');
+    const recorder = new SessionRecorder(path.join(blocker, 'nested'), makeHeader(), onError);
+
+    expect(() => recorder.record({ type: 'system' })).not.toThrow();
+    expect(onError).toHaveBeenCalled();
+  });
+});
+
+describe('loadRecording', () => {
+  it('should reject files without a recording header', () => {
+    fs.writeFileSync(path.join(dir, 'bogus.jsonl'), '{"type":"assistant"}\n');
+
+    expect(() => loadRecording(dir, 'bogus')).toThrow('missing its header');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listRecordings / findLatestRecording / pruneRecordings
+// ---------------------------------------------------------------------------
+
+describe('findLatestRecording', () => {
+  it('should return the newest recording matching repo, target and kind', async () => {
+    const older = makeHeader({ recordedAt: '2026-01-01T10:00:00.000Z' });
+    const newer = makeHeader({
+      recordedAt: '2026-01-02T10:00:00.000Z',
+      kind: 'multi-agent-review',
+    });
+    const otherPr = makeHeader({ recordedAt: '2026-01-03T10:00:00.000Z', prNumber: 43 });
+    await record(older, [{ type: 'result' }]);
+    await record(newer, [{ type: 'result' }]);
+    await record(otherPr, [{ type: 'result' }]);
+
+    const match = findLatestRecording(dir, {
+      kinds: ['review', 'multi-agent-review'],
+      repositoryFullName: 'owner/repo',
+      prNumber: 42,
+    });
+    expect(match?.id).toBe(newer.id);
+
+    const reviewOnly = findLatestRecording(dir, {
+      kinds: ['review'],
+      repositoryFullName: 'owner/repo',
+      prNumber: 42,
+    });
+    expect(reviewOnly?.id).toBe(older.id);
+  });
+
+  it('should return null when no recording matches', () => {
+    expect(
+      findLatestRecording(dir, { kinds: ['validation'], repositoryFullName: 'owner/repo' })
+    ).toBeNull();
+  });
+});
+
+describe('pruneRecordings', () => {
+  it('should keep only the newest recordings', async () => {
+    const headers = [1, 2, 3].map(day =>
+      makeHeader({ recordedAt: `2026-01-0${day}T10:00:00.000Z` })
+    );
+    for (const header of headers) await record(header, [{ type: 'result' }]);
+
+    pruneRecordings(dir, 2);
+
+    expect(listRecordings(dir).map(h => h.id)).toEqual([headers[2].id, headers[1].id]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// replayMessages
+// ---------------------------------------------------------------------------
+
+describe('replayMessages', () => {
+  it('should replay messages in order with result cost zeroed', async () => {
+    const replayed = await collect(
+      replayMessages([{ type: 'assistant' }, { type: 'result', total_cost_usd: 1.5 }])
+    );
+
+    expect(replayed).toEqual([{ type: 'assistant' }, { type: 'result', total_cost_usd: 0 }]);
+  });
+
+  it('should throw an AbortError when the signal fires', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      collect(replayMessages([{ type: 'assistant' }], controller.signal))
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
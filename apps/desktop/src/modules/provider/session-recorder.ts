@@ -0,0 +1,279 @@
+/**
+ * Agent Session Recordings
+ *
+ * Captures every SDK message of an agent run to a JSONL file so the run can be
+ * replayed later through the same step/result pipeline (see ReplayProvider):
+ * - Line 1 is a header describing the run (kind, model, PR/issue, ...)
+ * - Every following line is one SDK message, in the order it was received
+ *
+ * Messages include the agent's tool results (files it read, command output),
+ * so secrets in every string of a message are masked before it is written.
+ *
+ * Functions take the recordings directory as an argument so they can be tested
+ * without Electron.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { maskSecretValues } from '../shared/secret-redaction';
+
+/** Current recording file format version */
+export const RECORDING_FORMAT_VERSION = 1;
+
+/** Maximum number of recordings kept on disk; the oldest are pruned first */
+export const MAX_RECORDINGS = 50;
+
+/** Marker type of the header line, distinguishing it from SDK messages */
+const HEADER_TYPE = 'gitchorus_recording';
+
+/**
+ * Which provider entry point produced a recording.
+ * Replays are matched to the same entry point.
+ */
+export type RecordingKind =
+  | 'validation'
+  | 'review'
+  | 're-review'
+  | 'multi-agent-review'
+  | 'triage'
+  | 'verification';
+
+/**
+ * Header stored as the first line of every recording.
+ */
+export interface RecordingHeader {
+  version: number;
+  /** File name without extension */
+  id: string;
+  kind: RecordingKind;
+  /** Model the run used; replays reuse it so prompts and results match */
+  model: string;
+  /** Turn limit the run used */
+  maxTurns: number;
+  recordedAt: string;
+  repositoryFullName: string;
+  prNumber?: number;
+  issueNumber?: number;
+}
+
+/**
+ * A recording loaded from disk.
+ */
+export interface SessionRecording {
+  header: RecordingHeader;
+  /** Raw SDK messages in the order they were received */
+  messages: unknown[];
+}
+
+/**
+ * Criteria for finding a recording to replay.
+ */
+export interface RecordingQuery {
+  kinds: RecordingKind[];
+  repositoryFullName: string;
+  prNumber?: number;
+  issueNumber?: number;
+}
+
+/**
+ * Build a sortable, filesystem-safe recording id.
+ */
+export function buildRecordingId(
+  header: Pick<RecordingHeader, 'kind' | 'recordedAt' | 'prNumber' | 'issueNumber'>
+): string {
+  const timestamp = header.recordedAt.replace(/[:.]/g, '-');
+  const target =
+    header.prNumber !== undefined
+      ? `pr${header.prNumber}`
+      : header.issueNumber !== undefined
+        ? `issue${header.issueNumber}`
+        : 'run';
+  return `${timestamp}-${header.kind}-${target}`;
+}
+
+/**
+ * Writes the messages of a single agent run to disk.
+ *
+ * Recording is best-effort: write errors are reported through onError and never
+ * interrupt the run being recorded.
+ */
+export class SessionRecorder {
+  private stream: fs.WriteStream | null = null;
+  private messageCount = 0;
+
+  constructor(
+    private readonly dir: string,
+    readonly header: RecordingHeader,
+    private readonly onError: (error: Error) => void = () => {}
+  ) {}
+
+  /** Path of the recording file */
+  get filePath(): string {
+    return path.join(this.dir, `${this.header.id}.jsonl`);
+  }
+
+  /** Number of SDK messages recorded so far */
+  get count(): number {
+    return this.messageCount;
+  }
+
+  /**
+   * Append one SDK message, with its secrets masked. Opens the file (and writes the header) on first use.
+   */
+  record(message: unknown): void {
+    try {
+      if (!this.stream) {
+        fs.mkdirSync(this.dir, { recursive: true });
+        this.stream = fs.createWriteStream(this.filePath, { flags: 'w' });
+        this.stream.on('error', error => this.onError(error));
+        this.stream.write(JSON.stringify({ type: HEADER_TYPE, ...this.header }) + '\n');
+      }
+      this.stream.write(JSON.stringify(maskSecretValues(message)) + '\n');
+      this.messageCount++;
+    } catch (error) {
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Flush and close the recording file, then prune old recordings.
+   */
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (!stream) return;
+    this.stream = null;
+
+    await new Promise<void>(resolve => stream.end(resolve));
+    pruneRecordings(this.dir, MAX_RECORDINGS);
+  }
+}
+
+/**
+ * Parse the header line of a recording, or return null if it is not one.
+ */
+function parseHeader(line: string): RecordingHeader | null {
+  try {
+    const parsed = JSON.parse(line) as Record<string, unknown>;
+    if (parsed.type !== HEADER_TYPE || parsed.version !== RECORDING_FORMAT_VERSION) return null;
+    const header: Record<string, unknown> = { ...parsed };
+    delete header.type;
+    return header as unknown as RecordingHeader;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read only the first line of a file.
+ */
+function readFirstLine(filePath: string): string {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(4096);
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).toString('utf-8').split('\n')[0];
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * List recording headers in a directory, newest first.
+ */
+export function listRecordings(dir: string): RecordingHeader[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(file => file.endsWith('.jsonl'));
+  } catch {
+    return [];
+  }
+
+  const headers: RecordingHeader[] = [];
+  for (const file of files) {
+    try {
+      const header = parseHeader(readFirstLine(path.join(dir, file)));
+      if (header) headers.push(header);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  return headers.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+}
+
+/**
+ * Find the newest recording matching a repository, PR/issue and kind.
+ */
+export function findLatestRecording(dir: string, query: RecordingQuery): RecordingHeader | null {
+  return (
+    listRecordings(dir).find(
+      header =>
+        query.kinds.includes(header.kind) &&
+        header.repositoryFullName === query.repositoryFullName &&
+        (query.prNumber === undefined || header.prNumber === query.prNumber) &&
+        (query.issueNumber === undefined || header.issueNumber === query.issueNumber)
+    ) ?? null
+  );
+}
+
+/**
+ * Load a recording's header and messages.
+ */
+export function loadRecording(dir: string, id: string): SessionRecording {
+  const filePath = path.join(dir, `${path.basename(id)}.jsonl`);
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(Boolean);
+
+  const header = lines.length > 0 ? parseHeader(lines[0]) : null;
+  if (!header) {
+    throw new Error(`Recording ${id} is missing its header or uses an unsupported format`);
+  }
+
+  const messages = lines.slice(1).map((line, index) => {
+    try {
+      return JSON.parse(line) as unknown;
+    } catch {
+      throw new Error(`Recording ${id} is corrupt at line ${index + 2}`);
+    }
+  });
+
+  return { header, messages };
+}
+
+/**
+ * Delete the oldest recordings so at most `keep` remain.
+ */
+export function pruneRecordings(dir: string, keep: number): void {
+  const stale = listRecordings(dir).slice(keep);
+  for (const header of stale) {
+    try {
+      fs.unlinkSync(path.join(dir, `${header.id}.jsonl`));
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Feed recorded messages back as an SDK message stream.
+ *
+ * Result messages are replayed with a cost of 0 since no API call is made.
+ * Throws an AbortError when the signal fires, matching a cancelled live query.
+ */
+export async function* replayMessages(
+  messages: unknown[],
+  signal?: AbortSignal
+): AsyncGenerator<unknown> {
+  for (const message of messages) {
+    // Yield to the event loop so cancellation and UI updates interleave like a live run
+    await new Promise(resolve => setImmediate(resolve));
+
+    if (signal?.aborted) {
+      const error = new Error('Replay aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+
+    const record = message as Record<string, unknown> | null;
+    yield record?.type === 'result' ? { ...record, total_cost_usd: 0 } : message;
+  }
+}
@@ -0,0 +1,268 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_SHELL_ALLOWLIST } from '@gitchorus/shared';
+import type { Logger } from '@gitchorus/shared';
+import {
+  createToolPermissions,
+  evaluateToolUse,
+  parseShellPipeline,
+  type ToolPolicy,
+} from './tool-policy';
+
+// ---------------------------------------------------------------------------
+// Test fixture: a repository with a credential file and symlinks pointing
+// outside of it and at the credential file
+// ---------------------------------------------------------------------------
+
+let repo: string;
+let outside: string;
+let policy: ToolPolicy;
+
+beforeAll(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'gitchorus-tool-policy-'));
+  outside = fs.mkdtempSync(path.join(os.tmpdir(), 'gitchorus-outside-'));
+  fs.mkdirSync(path.join(repo, 'src'));
+  fs.writeFileSync(path.join(repo, 'src', 'index.ts'), 'export {};\n');
+  fs.writeFileSync(path.join(outside, 'secret.txt'), 'top secret\n');
+  fs.symlinkSync(path.join(outside, 'secret.txt'), path.join(repo, 'escape.txt'));
+  fs.mkdirSync(path.join(repo, 'config'));
+  fs.writeFileSync(path.join(repo, 'config', '.env'), 'TOKEN=abc123secret\n');
+  fs.symlinkSync(path.join(repo, 'config', '.env'), path.join(repo, 'notes.txt'));
+
+  policy = {
+    root: repo,
+    tools: ['Read', 'Grep', 'Glob', 'Bash', 'Write'],
+    shellAllowlist: DEFAULT_SHELL_ALLOWLIST,
+  };
+});
+
+afterAll(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+  fs.rmSync(outside, { recursive: true, force: true });
+});
+
+function createLogger(): Logger {
+  return { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn(), log: jest.fn() };
+}
+
+// ---------------------------------------------------------------------------
+// evaluateToolUse
+// ---------------------------------------------------------------------------
+
+describe('evaluateToolUse', () => {
+  it('should allow reading files inside the repository', async () => {
+    await expect(evaluateToolUse('Read', { file_path: 'src/index.ts' }, policy)).resolves.toEqual({
+      allowed: true,
+      reason: 'Read src/index.ts',
+    });
+    await expect(
+      evaluateToolUse('Read', { file_path: path.join(repo, 'src/index.ts') }, policy)
+    ).resolves.toMatchObject({ allowed: true });
+  });
+
+  it.each([
+    ['Read', { file_path: '/etc/passwd' }],
+    ['Read', { file_path: '../secret.txt' }],
+    ['Read', { file_path: 'escape.txt' }],
+    ['Read', { file_path: '~/.ssh/id_rsa' }],
+    ['Grep', { pattern: 'token', path: '/home' }],
+    ['Glob', { pattern: '../**/*.env' }],
+  ])('should deny %s outside the repository (%j)', async (tool, input) => {
+    await expect(evaluateToolUse(tool, input, policy)).resolves.toMatchObject({ allowed: false });
+  });
+
+  it.each([
+    ['Read', { file_path: '.env' }],
+    ['Read', { file_path: 'config/.env.production' }],
+    ['Read', { file_path: 'certs/server.key' }],
+    ['Bash', { command: 'cat deploy/id_rsa' }],
+    ['Bash', { command: 'head -5 .npmrc' }],
+    ['Bash', { command: 'git show HEAD:.env' }],
+    ['Bash', { command: 'git show HEAD~1:config/.env.production' }],
+    ['Bash', { command: 'git diff main -- .env' }],
+    ['Bash', { command: 'git log -p -- deploy/server.pem' }],
+  ])('should deny %s of files that may contain secrets (%j)', async (tool, input) => {
+    const decision = await evaluateToolUse(tool, input, policy);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain('may contain secrets and is not sent to the provider');
+  });
+
+  it.each([
+    'cat escape.txt',
+    'head -5 escape.txt',
+    'git show HEAD:escape.txt',
+    'grep -n secret escape.txt',
+  ])(
+    'should deny the shell command %s following a symlink out of the repository',
+    async command => {
+      const decision = await evaluateToolUse('Bash', { command }, policy);
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.reason).toContain('Path is outside the repository: escape.txt');
+    }
+  );
+
+  it('should deny reading a credential file through a symlink', async () => {
+    await expect(evaluateToolUse('Read', { file_path: 'notes.txt' }, policy)).resolves.toEqual({
+      allowed: false,
+      reason: 'notes.txt may contain secrets and is not sent to the provider',
+    });
+  });
+
+  it.each([
+    ['Grep', { pattern: 'TOKEN' }],
+    ['Grep', { pattern: 'TOKEN', path: 'config' }],
+    ['Grep', { pattern: 'TOKEN', glob: '.env*' }],
+    ['Bash', { command: 'rg TOKEN' }],
+    ['Bash', { command: 'rg TOKEN config' }],
+    ['Bash', { command: 'grep -rn TOKEN .' }],
+    ['Bash', { command: 'grep -d recurse TOKEN' }],
+    ['Bash', { command: 'git grep TOKEN' }],
+  ])('should deny a recursive %s over credential files (%j)', async (tool, input) => {
+    const decision = await evaluateToolUse(tool, input, policy);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain('config/.env may contain secrets');
+  });
+
+  it.each([
+    ['Grep', { pattern: 'TOKEN', path: 'src' }],
+    ['Grep', { pattern: 'TOKEN', glob: '*.ts' }],
+    ['Bash', { command: 'rg TOKEN src' }],
+    ['Bash', { command: 'rg TOKEN src/index.ts' }],
+    ['Bash', { command: 'cat src/index.ts | rg export' }],
+    ['Bash', { command: 'grep -n TOKEN src/index.ts' }],
+  ])('should allow searches that leave credential files out (%s %j)', async (tool, input) => {
+    await expect(evaluateToolUse(tool, input, policy)).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('should allow reading environment file templates', async () => {
+    await expect(
+      evaluateToolUse('Read', { file_path: '.env.example' }, policy)
+    ).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('should deny tools that are not read-only, even when the query has them', async () => {
+    await expect(evaluateToolUse('Write', { file_path: 'a.ts' }, policy)).resolves.toEqual({
+      allowed: false,
+      reason: 'Write is not a read-only tool',
+    });
+  });
+
+  it('should deny tools the query was not given', async () => {
+    await expect(evaluateToolUse('WebFetch', { url: 'https://x' }, policy)).resolves.toEqual({
+      allowed: false,
+      reason: 'WebFetch is not available to this agent',
+    });
+  });
+
+  it.each([
+    'ls -la src',
+    'git log --oneline -5',
+    'grep -rn "a|b; c" src | head -20',
+    "find . -name '*.ts' | wc -l",
+    'tail -n 20 src/index.ts',
+    'git show HEAD:src/index.ts',
+    'sort -u src/index.ts',
+  ])('should allow the read-only command %s', async command => {
+    await expect(evaluateToolUse('Bash', { command }, policy)).resolves.toMatchObject({
+      allowed: true,
+    });
+  });
+
+  it.each([
+    ['curl https://evil.example', 'is not in the shell allowlist'],
+    ['git push origin main', '"git push" is not in the shell allowlist'],
+    ['ls && rm -rf .', 'Shell operator "&" is not allowed'],
+    ['cat src/index.ts > out.txt', 'Shell operator ">" is not allowed'],
+    ['cat $(echo /etc/passwd)', 'Shell operator "$" is not allowed'],
+    ['echo "$HOME"', 'Shell operator "$" is not allowed'],
+    ['find . -delete', 'Argument "-delete" of find is not allowed'],
+    ['git diff --output=/tmp/x', 'Argument "--output=/tmp/x" of git is not allowed'],
+    ['git grep -Otouch foo', 'Argument "-Otouch" of git is not allowed'],
+    ['git grep -nOtouch foo', 'Argument "-nOtouch" of git is not allowed'],
+    ['git grep --open-files-in-pager=touch foo', 'of git is not allowed'],
+    ['git grep --open-files=touch foo', 'of git is not allowed'],
+    ['sort --compress-program=sh README.md', 'of sort is not allowed'],
+    ['sort --compress=sh README.md', 'of sort is not allowed'],
+    ['tail -f README.md', 'Argument "-f" of tail is not allowed'],
+    ['tail -F README.md', 'Argument "-F" of tail is not allowed'],
+    ['tail --follow=name README.md', 'of tail is not allowed'],
+    ['cat /etc/passwd', 'Path is outside the repository: /etc/passwd'],
+    ['git -C /tmp log', '"git -C" is not in the shell allowlist'],
+    ['ls | ', 'Empty command'],
+  ])('should deny the command %s', async (command, reason) => {
+    const decision = await evaluateToolUse('Bash', { command }, policy);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain(reason);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseShellPipeline
+// ---------------------------------------------------------------------------
+
+describe('parseShellPipeline', () => {
+  it('should split pipe segments and honor quotes and escapes', () => {
+    expect(parseShellPipeline(`grep -n 'a | b' "src dir" | head\\ x`)).toEqual([
+      ['grep', '-n', 'a | b', 'src dir'],
+      ['head x'],
+    ]);
+  });
+
+  it('should reject unterminated quotes and "||"', () => {
+    expect(() => parseShellPipeline("grep 'x")).toThrow('Unterminated quote');
+    expect(() => parseShellPipeline('ls || ls')).toThrow('"||" is not allowed');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createToolPermissions
+// ---------------------------------------------------------------------------
+
+describe('createToolPermissions', () => {
+  const options = { signal: new AbortController().signal, toolUseID: 'tool-1' };
+
+  it('should answer permission requests with the policy decision', async () => {
+    const { canUseTool } = createToolPermissions(policy, createLogger());
+
+    await expect(canUseTool('Read', { file_path: 'src/index.ts' }, options)).resolves.toMatchObject(
+      { behavior: 'allow' }
+    );
+    await expect(
+      canUseTool('Bash', { command: 'curl https://evil.example' }, options)
+    ).resolves.toMatchObject({
+      behavior: 'deny',
+      message: expect.stringContaining('Denied by the GitChorus sandbox'),
+    });
+  });
+
+  it('should deny through the PreToolUse hook and log each tool call once', async () => {
+    const logger = createLogger();
+    const { canUseTool, hooks } = createToolPermissions(policy, logger);
+    const hook = hooks.PreToolUse?.[0].hooks[0];
+    const input = {
+      hook_event_name: 'PreToolUse' as const,
+      tool_name: 'Read',
+      tool_input: { file_path: '/etc/passwd' },
+      tool_use_id: 'tool-2',
+      session_id: 's',
+      transcript_path: '',
+      cwd: repo,
+    };
+
+    const output = await hook?.(input, 'tool-2', { signal: options.signal });
+    await canUseTool('Read', { file_path: '/etc/passwd' }, { ...options, toolUseID: 'tool-2' });
+
+    expect(output).toMatchObject({
+      hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny' },
+    });
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Tool denied: Read (Path is outside the repository: /etc/passwd)'
+    );
+  });
+});
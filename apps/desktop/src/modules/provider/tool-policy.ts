@@ -0,0 +1,437 @@
+/**
+ * Tool Sandbox Policy
+ *
+ * Decides which tool calls a Claude agent may make, so reviews of untrusted
+ * PR content never run with unrestricted permissions:
+ * - Only read-only tools are allowed (plus Task to delegate to sub-agents)
+ * - Every path is confined to the repository root or review worktree, with
+ *   symlinks resolved, including each path a shell command names
+ * - Files that usually hold credentials (.env, private keys, .npmrc, ...)
+ *   are never read, since the SDK gives no way to mask what Read returns;
+ *   recursive searches (Grep, rg, grep -r, git grep) of a directory holding
+ *   such files are refused unless a Grep glob leaves them out
+ * - Bash runs a single command or a pipe of commands from the shell allowlist;
+ *   chaining, redirection, substitution and variable expansion are refused,
+ *   and network tools are simply not on the list
+ * - Every decision is written to the run log
+ *
+ * The policy is enforced twice: a PreToolUse hook sees every tool call
+ * (including those the CLI would approve on its own), and canUseTool answers
+ * any permission request that still reaches the SDK.
+ *
+ * Extracted to a separate file to avoid importing the Claude Agent SDK
+ * in test environments.
+ */
+
+import type { CanUseTool, HookCallbackMatcher, HookEvent } from '@anthropic-ai/claude-agent-sdk';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Logger } from '@gitchorus/shared';
+import { globToRegExp, matchesGlob, resolveRepoPath, walkFiles } from './local-tools';
+
+/** Tools that cannot modify anything, allowed whenever a query is given them */
+const READ_ONLY_TOOLS = new Set(['Read', 'Grep', 'Glob', 'Task']);
+
+/** Arguments that make an otherwise read-only command write files or run programs */
+const DANGEROUS_ARGUMENTS: Record<string, string[]> = {
+  find: [
+    '-exec',
+    '-execdir',
+    '-ok',
+    '-okdir',
+    '-delete',
+    '-fprint',
+    '-fprint0',
+    '-fprintf',
+    '-fls',
+  ],
+  rg: ['--pre'],
+  git: ['--output', '--ext-diff', '--textconv', '--exec', '-O', '--open-files-in-pager'],
+  sort: ['-o', '--output', '--compress-program'],
+  tree: ['-o'],
+  // Following a file never returns
+  tail: ['-f', '-F', '--follow'],
+};
+
+/** Files that usually hold credentials; templates such as .env.example are fine */
+const SECRET_FILE_PATTERN =
+  /(?:^|[\\/])(?:\.env(?:\.(?!example$|sample$|template$)[^\\/]+)?|[^\\/]+\.(?:pem|key|p12|pfx)|id_(?:rsa|dsa|ecdsa|ed25519)|\.npmrc|\.netrc|\.pgpass)$/i;
+
+/** Shell characters that chain, redirect, substitute or expand, refused outside single quotes */
+const SHELL_OPERATORS = new Set([';', '&', '>', '<', '`', '$', '(', ')', '{', '}', '\n']);
+
+/**
+ * What an agent query may do.
+ */
+export interface ToolPolicy {
+  /** Repository root or review worktree; no path outside it may be read */
+  root: string;
+  /** Tools the query was given */
+  tools: string[];
+  /** Allowed shell commands, as "command" or "command subcommand" (e.g. "git log") */
+  shellAllowlist: string[];
+}
+
+/**
+ * The outcome of checking one tool call.
+ */
+export interface ToolDecision {
+  allowed: boolean;
+  /** Why the call was denied, or a short description of what was allowed */
+  reason: string;
+}
+
+/**
+ * Check one tool call against the policy.
+ */
+export async function evaluateToolUse(
+  toolName: string,
+  input: Record<string, unknown>,
+  policy: ToolPolicy
+): Promise<ToolDecision> {
+  if (!policy.tools.includes(toolName)) {
+    return deny(`${toolName} is not available to this agent`);
+  }
+
+  switch (toolName) {
+    case 'Read':
+      return checkPaths([input.file_path], policy, `Read ${String(input.file_path)}`);
+    case 'Grep': {
+      const decision = await checkPaths([input.path], policy, `Grep "${String(input.pattern)}"`);
+      if (!decision.allowed) return decision;
+      const glob = typeof input.glob === 'string' && input.glob ? input.glob : undefined;
+      const searchPath = typeof input.path === 'string' && input.path ? input.path : '.';
+      return (await checkSearchRoots([searchPath], policy, glob)) ?? decision;
+    }
+    case 'Glob':
+      return checkPaths(
+        [input.path, globBase(input.pattern)],
+        policy,
+        `Glob ${String(input.pattern)}`
+      );
+    case 'Bash':
+      return checkShellCommand(String(input.command ?? ''), policy);
+    default:
+      return READ_ONLY_TOOLS.has(toolName)
+        ? allow(toolName)
+        : deny(`${toolName} is not a read-only tool`);
+  }
+}
+
+function allow(reason: string): ToolDecision {
+  return { allowed: true, reason };
+}
+
+function deny(reason: string): ToolDecision {
+  return { allowed: false, reason };
+}
+
+/**
+ * The directory part of a glob pattern before its first wildcard, if the
+ * pattern could reach outside the root (absolute, home-relative or with `..`).
+ */
+function globBase(pattern: unknown): string | undefined {
+  if (typeof pattern !== 'string' || !isSuspiciousPath(pattern)) return undefined;
+  const wildcard = pattern.search(/[*?[{]/);
+  return wildcard === -1 ? pattern : pattern.slice(0, wildcard) || '.';
+}
+
+/** Whether an argument could point outside the working directory */
+function isSuspiciousPath(value: string): boolean {
+  return value.startsWith('/') || value.startsWith('~') || /(^|[\\/])\.\.([\\/]|$)/.test(value);
+}
+
+async function checkPaths(
+  paths: unknown[],
+  policy: ToolPolicy,
+  description: string
+): Promise<ToolDecision> {
+  for (const requested of paths) {
+    if (typeof requested !== 'string' || requested === '') continue;
+    if (requested.startsWith('~')) {
+      return deny(`Path is outside the repository: ${requested}`);
+    }
+    if (SECRET_FILE_PATTERN.test(requested)) {
+      return deny(`${requested} may contain secrets and is not sent to the provider`);
+    }
+    let resolved: string;
+    try {
+      resolved = await resolveRepoPath(policy.root, requested);
+    } catch (error) {
+      return deny(error instanceof Error ? error.message : String(error));
+    }
+    // A symlink with an innocent name may point at a credential file
+    if (SECRET_FILE_PATTERN.test(resolved)) {
+      return deny(`${requested} may contain secrets and is not sent to the provider`);
+    }
+  }
+  return allow(description);
+}
+
+/**
+ * A path inside the repository as a directory, or null when it is not one.
+ */
+async function resolveDirectory(policy: ToolPolicy, requested: string): Promise<string | null> {
+  try {
+    const resolved = await resolveRepoPath(policy.root, requested);
+    return (await fs.stat(resolved)).isDirectory() ? resolved : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Deny a recursive search of a directory holding files that may contain
+ * secrets, since the search returns their contents. A glob leaving them out
+ * (Grep only) or a narrower directory lets the search through.
+ * Returns null when the search may run.
+ */
+async function checkSearchRoots(
+  roots: string[],
+  policy: ToolPolicy,
+  glob?: string
+): Promise<ToolDecision | null> {
+  const globRegex = glob ? globToRegExp(glob) : null;
+
+  for (const requested of roots) {
+    const dir = await resolveDirectory(policy, requested);
+    if (!dir) continue;
+
+    for await (const file of walkFiles(dir)) {
+      if (!SECRET_FILE_PATTERN.test(file)) continue;
+      const relative = path.relative(dir, file).split(path.sep).join('/');
+      if (glob && globRegex && !matchesGlob(relative, glob, globRegex)) continue;
+      return deny(
+        `${path.posix.join(requested, relative)} may contain secrets, so ${requested} cannot be searched as a whole; search a narrower path or filter the files with a glob`
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * The directories a shell command searches recursively: the directory
+ * operands of rg, git grep and grep -r, or the working directory when none
+ * is given (rg reading a pipe searches nothing).
+ */
+async function recursiveSearchRoots(
+  args: string[],
+  policy: ToolPolicy,
+  readsPipe: boolean
+): Promise<string[]> {
+  const isGitGrep = args[0] === 'git' && args[1] === 'grep';
+  const isRecursiveGrep =
+    args[0] === 'grep' &&
+    args.some(
+      (arg, i) =>
+        /^-[^-]*[rR]/.test(arg) ||
+        arg === '--recursive' ||
+        arg === '--dereference-recursive' ||
+        arg === '--directories=recurse' ||
+        (arg === '-d' && args[i + 1] === 'recurse')
+    );
+  if (args[0] !== 'rg' && !isGitGrep && !isRecursiveGrep) return [];
+
+  const operands = args.slice(isGitGrep ? 2 : 1).filter(arg => !arg.startsWith('-'));
+  const dirs: string[] = [];
+  let names = false;
+  for (const operand of operands) {
+    if (await resolveDirectory(policy, operand)) dirs.push(operand);
+    else if (await fs.stat(path.resolve(policy.root, operand)).catch(() => null)) names = true;
+  }
+  if (dirs.length > 0 || names) return dirs;
+  return args[0] === 'rg' && readsPipe ? [] : ['.'];
+}
+
+/**
+ * Split a shell command into the argument lists of its pipe segments.
+ * @throws Error naming the first shell operator that is not allowed
+ */
+export function parseShellPipeline(command: string): string[][] {
+  const segments: string[][] = [[]];
+  let token: string | null = null;
+  let quote: "'" | '"' | null = null;
+
+  const endToken = () => {
+    if (token !== null) segments[segments.length - 1].push(token);
+    token = null;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else token += char;
+      continue;
+    }
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      else if (char === '$' || char === '`') {
+        throw new Error(`Shell operator "${char}" is not allowed`);
+      } else token += char;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      token ??= '';
+    } else if (char === '\\' && i + 1 < command.length && command[i + 1] !== '\n') {
+      token = (token ?? '') + command[++i];
+    } else if (char === ' ' || char === '\t') {
+      endToken();
+    } else if (char === '|') {
+      if (command[i + 1] === '|') throw new Error('Shell operator "||" is not allowed');
+      endToken();
+      segments.push([]);
+    } else if (SHELL_OPERATORS.has(char)) {
+      throw new Error(`Shell operator "${char === '\n' ? '\\n' : char}" is not allowed`);
+    } else {
+      token = (token ?? '') + char;
+    }
+  }
+
+  if (quote) throw new Error('Unterminated quote');
+  endToken();
+  if (segments.some(segment => segment.length === 0)) {
+    throw new Error('Empty command');
+  }
+  return segments;
+}
+
+/**
+ * Whether an argument passes one of the dangerous flags. Short flags count
+ * inside bundles and with an attached value (-Ofoo, -nO), and long flags when
+ * abbreviated (--open-files), since git and GNU getopt accept both.
+ */
+function isDangerousArgument(arg: string, flags: string[]): boolean {
+  return flags.some(flag => {
+    if (arg === flag || arg.startsWith(`${flag}=`)) return true;
+    if (/^-[A-Za-z]$/.test(flag)) {
+      return /^-[^-]/.test(arg) && arg.includes(flag[1]);
+    }
+    const name = arg.split('=')[0];
+    return flag.startsWith('--') && name.length > 2 && flag.startsWith(name);
+  });
+}
+
+/**
+ * The paths an argument may name: the argument itself and, for git's
+ * <rev>:<path> form (HEAD:.env, :config/.env), the path after the colon.
+ */
+function argumentPaths(arg: string): string[] {
+  const colon = arg.indexOf(':');
+  return colon === -1 ? [arg] : [arg, arg.slice(colon + 1)];
+}
+
+function isAllowlisted(args: string[], allowlist: string[]): boolean {
+  return allowlist.some(entry => {
+    const [command, subcommand] = entry.trim().split(/\s+/);
+    return command === args[0] && (!subcommand || subcommand === args[1]);
+  });
+}
+
+async function checkShellCommand(command: string, policy: ToolPolicy): Promise<ToolDecision> {
+  let segments: string[][];
+  try {
+    segments = parseShellPipeline(command);
+  } catch (error) {
+    return deny(`${error instanceof Error ? error.message : String(error)}: ${command}`);
+  }
+
+  for (const [index, args] of segments.entries()) {
+    if (!isAllowlisted(args, policy.shellAllowlist)) {
+      return deny(`"${args.slice(0, 2).join(' ')}" is not in the shell allowlist`);
+    }
+
+    const dangerous = DANGEROUS_ARGUMENTS[args[0]] ?? [];
+    const blocked = args.find(arg => isDangerousArgument(arg, dangerous));
+    if (blocked) {
+      return deny(`Argument "${blocked}" of ${args[0]} is not allowed`);
+    }
+
+    // Every operand may name a path (or a symlink out of the repository), and
+    // option values count too, e.g. --git-dir=/elsewhere
+    const paths = args
+      .slice(1)
+      .flatMap(arg =>
+        arg.startsWith('-') ? (arg.includes('=') ? [arg.slice(arg.indexOf('=') + 1)] : []) : [arg]
+      )
+      .flatMap(argumentPaths);
+    const decision = await checkPaths(paths, policy, '');
+    if (!decision.allowed) return decision;
+
+    const roots = await recursiveSearchRoots(args, policy, index > 0);
+    const searchDecision = await checkSearchRoots(roots, policy);
+    if (searchDecision) return searchDecision;
+  }
+
+  return allow(`Bash ${command}`);
+}
+
+/**
+ * Create the canUseTool handler and PreToolUse hook enforcing a policy.
+ * Each tool call is logged once, even when both see it.
+ */
+export function createToolPermissions(
+  policy: ToolPolicy,
+  logger: Logger
+): {
+  canUseTool: CanUseTool;
+  hooks: Partial<Record<HookEvent, HookCallbackMatcher[]>>;
+} {
+  const logged = new Set<string>();
+
+  const decide = async (
+    toolName: string,
+    input: Record<string, unknown>,
+    toolUseId: string | undefined
+  ): Promise<ToolDecision> => {
+    const decision = await evaluateToolUse(toolName, input, policy);
+    if (!toolUseId || !logged.has(toolUseId)) {
+      if (toolUseId) logged.add(toolUseId);
+      if (decision.allowed) {
+        logger.info(`Tool allowed: ${decision.reason}`);
+      } else {
+        logger.warn(`Tool denied: ${toolName} (${decision.reason})`);
+      }
+    }
+    return decision;
+  };
+
+  const canUseTool: CanUseTool = async (toolName, input, options) => {
+    const decision = await decide(toolName, input, options.toolUseID);
+    return decision.allowed
+      ? { behavior: 'allow', updatedInput: input, toolUseID: options.toolUseID }
+      : {
+          behavior: 'deny',
+          message: `Denied by the GitChorus sandbox: ${decision.reason}`,
+          toolUseID: options.toolUseID,
+        };
+  };
+
+  const hooks: Partial<Record<HookEvent, HookCallbackMatcher[]>> = {
+    PreToolUse: [
+      {
+        hooks: [
+          async input => {
+            if (input.hook_event_name !== 'PreToolUse') return {};
+            const toolInput = (input.tool_input ?? {}) as Record<string, unknown>;
+            const decision = await decide(input.tool_name, toolInput, input.tool_use_id);
+            return {
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse',
+                permissionDecision: decision.allowed ? 'allow' : 'deny',
+                permissionDecisionReason: decision.allowed
+                  ? undefined
+                  : `Denied by the GitChorus sandbox: ${decision.reason}`,
+              },
+            };
+          },
+        ],
+      },
+    ],
+  };
+
+  return { canUseTool, hooks };
+}
@@ -0,0 +1,132 @@
+import type { ReviewParams, ReviewTriage } from '@gitchorus/shared';
+import {
+  TRIAGE_MAX_DIFF_CHARS,
+  buildTriagePrompt,
+  buildTriageFocusSection,
+  meetsRiskThreshold,
+  parseTriageOutput,
+} from './triage';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeParams(overrides: Partial<ReviewParams> = {}): ReviewParams {
+  return {
+    diff: 'diff --git a/package.json b/package.json\n-"lodash": "4.17.20"\n+"lodash": "4.17.21"',
+    prNumber: 42,
+    prTitle: 'Bump lodash',
+    headBranch: 'deps/lodash',
+    baseBranch: 'main',
+    repoPath: '/repo',
+    repoName: 'owner/repo',
+    ...overrides,
+  };
+}
+
+function makeTriage(overrides: Partial<ReviewTriage> = {}): ReviewTriage {
+  return {
+    riskLevel: 'high',
+    summary: 'Touches session handling',
+    riskyFiles: [],
+    model: 'claude-haiku-4-5-20251001',
+    threshold: 'high',
+    escalated: true,
+    costUsd: 0.001,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// meetsRiskThreshold
+// ---------------------------------------------------------------------------
+
+describe('meetsRiskThreshold', () => {
+  it.each([
+    ['low', 'medium', false],
+    ['medium', 'medium', true],
+    ['critical', 'high', true],
+    ['high', 'critical', false],
+  ] as const)('%s against threshold %s should be %s', (level, threshold, expected) => {
+    expect(meetsRiskThreshold(level, threshold)).toBe(expected);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseTriageOutput
+// ---------------------------------------------------------------------------
+
+describe('parseTriageOutput', () => {
+  it('should parse a well-formed triage', () => {
+    expect(
+      parseTriageOutput({
+        riskLevel: 'medium',
+        summary: 'Adds a settings toggle',
+        files: [{ file: 'src/settings.ts', riskLevel: 'medium', reason: 'New config field' }],
+      })
+    ).toEqual({
+      riskLevel: 'medium',
+      summary: 'Adds a settings toggle',
+      riskyFiles: [{ file: 'src/settings.ts', riskLevel: 'medium', reason: 'New config field' }],
+    });
+  });
+
+  it('should raise the overall level to the riskiest file', () => {
+    const triage = parseTriageOutput({
+      riskLevel: 'low',
+      summary: '',
+      files: [{ file: 'src/auth.ts', riskLevel: 'critical', reason: 'Token validation' }],
+    });
+
+    expect(triage.riskLevel).toBe('critical');
+  });
+
+  it('should treat unknown risk levels as high and drop malformed files', () => {
+    const triage = parseTriageOutput({
+      riskLevel: 'unclear',
+      files: [null, { riskLevel: 'low' }, { file: 'a.ts', riskLevel: 'bogus' }],
+    });
+
+    expect(triage.riskLevel).toBe('high');
+    expect(triage.summary).toBe('');
+    expect(triage.riskyFiles).toEqual([{ file: 'a.ts', riskLevel: 'high', reason: '' }]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Prompt builders
+// ---------------------------------------------------------------------------
+
+describe('buildTriagePrompt', () => {
+  it('should include the PR metadata and diff', () => {
+    const prompt = buildTriagePrompt(makeParams());
+
+    expect(prompt).toContain('PR #42: Bump lodash');
+    expect(prompt).toContain('+"lodash": "4.17.21"');
+  });
+
+  it('should truncate very large diffs', () => {
+    const prompt = buildTriagePrompt(makeParams({ diff: 'x'.repeat(TRIAGE_MAX_DIFF_CHARS + 100) }));
+
+    expect(prompt).toContain('(diff truncated for triage)');
+    expect(prompt).not.toContain('x'.repeat(TRIAGE_MAX_DIFF_CHARS + 1));
+  });
+});
+
+describe('buildTriageFocusSection', () => {
+  it('should be empty without risky files', () => {
+    expect(buildTriageFocusSection(undefined)).toBe('');
+    expect(buildTriageFocusSection(makeTriage())).toBe('');
+  });
+
+  it('should list the risky files with their reasons', () => {
+    const section = buildTriageFocusSection(
+      makeTriage({
+        riskyFiles: [{ file: 'src/auth.ts', riskLevel: 'critical', reason: 'Token validation' }],
+      })
+    );
+
+    expect(section).toContain('rated this PR HIGH risk');
+    expect(section).toContain('- src/auth.ts [CRITICAL]: Token validation');
+  });
+});
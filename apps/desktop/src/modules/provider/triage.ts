@@ -0,0 +1,159 @@
+/**
+ * Cascade Triage
+ *
+ * Prompt, schema and parsing for the cheap triage pass of cascaded routing:
+ * a fast model reads only the diff and rates how risky the PR is. PRs at or
+ * above the configured threshold are escalated to the expensive model for the
+ * full review; everything else is reviewed with the regular model.
+ *
+ * Extracted to a separate file to avoid importing the Claude Agent SDK
+ * in test environments.
+ */
+
+import type {
+  ClaudeModel,
+  PromptTemplateOverrides,
+  ReviewParams,
+  ReviewRiskLevel,
+  ReviewTriage,
+  TriageFileRisk,
+} from '@gitchorus/shared';
+import { REVIEW_RISK_LEVELS } from '@gitchorus/shared';
+import { fenceUntrustedContent } from './prompt-injection';
+import { renderPromptTemplate } from './prompt-templates';
+
+/** Model used for the triage pass */
+export const TRIAGE_MODEL: ClaudeModel = 'claude-haiku-4-5-20251001';
+
+/**
+ * Turn limit for the triage pass. Triage uses no tools, so it only needs
+ * room for the answer and the structured output.
+ */
+export const TRIAGE_MAX_TURNS = 3;
+
+/** Diffs longer than this are truncated before triage (the full review still sees everything) */
+export const TRIAGE_MAX_DIFF_CHARS = 60_000;
+
+/**
+ * JSON schema for structured triage output.
+ */
+export const TRIAGE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    riskLevel: { type: 'string', enum: REVIEW_RISK_LEVELS },
+    summary: { type: 'string' },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          riskLevel: { type: 'string', enum: REVIEW_RISK_LEVELS },
+          reason: { type: 'string' },
+        },
+        required: ['file', 'riskLevel', 'reason'],
+      },
+    },
+  },
+  required: ['riskLevel', 'summary', 'files'],
+};
+
+/**
+ * Build the system prompt for the triage pass.
+ */
+export function buildTriageSystemPrompt(templates?: PromptTemplateOverrides): string {
+  return renderPromptTemplate('triage-system', {}, templates);
+}
+
+/**
+ * Build the user prompt for triaging a PR.
+ */
+export function buildTriagePrompt(
+  params: ReviewParams,
+  templates?: PromptTemplateOverrides
+): string {
+  const diff =
+    params.diff.length > TRIAGE_MAX_DIFF_CHARS
+      ? `${params.diff.slice(0, TRIAGE_MAX_DIFF_CHARS)}\n... (diff truncated for triage)`
+      : params.diff;
+
+  return renderPromptTemplate(
+    'triage-user',
+    {
+      repoName: params.repoName,
+      prNumber: params.prNumber,
+      prTitle: fenceUntrustedContent(params.prTitle),
+      headBranch: fenceUntrustedContent(params.headBranch),
+      baseBranch: fenceUntrustedContent(params.baseBranch),
+      prDescription: params.prBody
+        ? `**Description:**\n${fenceUntrustedContent(params.prBody)}`
+        : '(No description provided)',
+      diff: fenceUntrustedContent(diff),
+    },
+    templates
+  );
+}
+
+/**
+ * Normalize a risk level from model output, treating anything unknown as high
+ * so a malformed triage never lets a PR skip escalation by accident.
+ */
+function parseRiskLevel(value: unknown): ReviewRiskLevel {
+  return REVIEW_RISK_LEVELS.includes(value as ReviewRiskLevel)
+    ? (value as ReviewRiskLevel)
+    : 'high';
+}
+
+/**
+ * Runtime-validate triage output. The overall risk level is raised to the
+ * highest file risk level if the model rated it lower.
+ */
+export function parseTriageOutput(
+  output: Record<string, unknown>
+): Pick<ReviewTriage, 'riskLevel' | 'summary' | 'riskyFiles'> {
+  const riskyFiles: TriageFileRisk[] = (Array.isArray(output.files) ? output.files : [])
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        !!entry && typeof entry === 'object' && typeof entry.file === 'string'
+    )
+    .map(entry => ({
+      file: entry.file as string,
+      riskLevel: parseRiskLevel(entry.riskLevel),
+      reason: typeof entry.reason === 'string' ? entry.reason : '',
+    }));
+
+  const riskLevel = [parseRiskLevel(output.riskLevel), ...riskyFiles.map(f => f.riskLevel)].reduce(
+    (highest, level) => (meetsRiskThreshold(level, highest) ? level : highest)
+  );
+
+  return {
+    riskLevel,
+    summary: typeof output.summary === 'string' ? output.summary : '',
+    riskyFiles,
+  };
+}
+
+/**
+ * Whether a risk level is at or above the threshold.
+ */
+export function meetsRiskThreshold(level: ReviewRiskLevel, threshold: ReviewRiskLevel): boolean {
+  return REVIEW_RISK_LEVELS.indexOf(level) >= REVIEW_RISK_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Build the prompt section that points an escalated review at the files
+ * the triage pass flagged. Returns an empty string when there is nothing to add.
+ */
+export function buildTriageFocusSection(triage: ReviewTriage | undefined): string {
+  if (!triage || triage.riskyFiles.length === 0) return '';
+
+  const files = triage.riskyFiles
+    .map(f => `- ${f.file} [${f.riskLevel.toUpperCase()}]: ${f.reason}`)
+    .join('\n');
+
+  return `
+
+## Triage Notes
+A triage pass rated this PR ${triage.riskLevel.toUpperCase()} risk. Give these files the closest scrutiny, but still review every changed file:
+${files}`;
+}
@@ -0,0 +1,125 @@
+import type { ReviewFinding, ReviewParams } from '@gitchorus/shared';
+import {
+  applyVerifications,
+  buildVerificationPrompt,
+  getVerificationMaxTurns,
+  parseVerificationOutput,
+} from './verification';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeParams(overrides: Partial<ReviewParams> = {}): ReviewParams {
+  return {
+    diff: '',
+    prNumber: 42,
+    prTitle: 'Add retries',
+    headBranch: 'feature/retries',
+    baseBranch: 'main',
+    repoPath: '/repo',
+    repoName: 'owner/repo',
+    ...overrides,
+  };
+}
+
+function makeFinding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: 'major',
+    category: 'logic',
+    file: 'src/retry.ts',
+    line: 12,
+    codeSnippet: 'for (let i = 0; i <= max; i++)',
+    explanation: 'Off-by-one: retries one time too many',
+    suggestedFix: 'Use i < max',
+    title: 'Off-by-one in retry loop',
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// parseVerificationOutput
+// ---------------------------------------------------------------------------
+
+describe('parseVerificationOutput', () => {
+  it('should map verdicts to finding indexes', () => {
+    const verifications = parseVerificationOutput(
+      {
+        verifications: [
+          { index: 0, status: 'verified', justification: 'Loop runs max + 1 times' },
+          { index: 1, status: 'hallucinated', justification: 'Line 40 does not exist' },
+        ],
+      },
+      2
+    );
+
+    expect(verifications.get(0)).toEqual({
+      status: 'verified',
+      justification: 'Loop runs max + 1 times',
+    });
+    expect(verifications.get(1)?.status).toBe('hallucinated');
+  });
+
+  it('should drop entries with unknown indexes or statuses', () => {
+    const verifications = parseVerificationOutput(
+      {
+        verifications: [
+          null,
+          { index: 5, status: 'verified', justification: '' },
+          { index: 0.5, status: 'verified', justification: '' },
+          { index: 0, status: 'probably', justification: '' },
+          { index: 1, status: 'disputed' },
+        ],
+      },
+      2
+    );
+
+    expect(Array.from(verifications.keys())).toEqual([1]);
+    expect(verifications.get(1)).toEqual({ status: 'disputed', justification: '' });
+  });
+
+  it('should return no verdicts for malformed output', () => {
+    expect(parseVerificationOutput({}, 3).size).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyVerifications
+// ---------------------------------------------------------------------------
+
+describe('applyVerifications', () => {
+  it('should attach verdicts and leave unchecked findings untouched', () => {
+    const findings = [makeFinding(), makeFinding({ title: 'Second' })];
+    const verification = { status: 'disputed' as const, justification: 'Guarded above' };
+
+    const result = applyVerifications(findings, new Map([[1, verification]]));
+
+    expect(result[0]).toBe(findings[0]);
+    expect(result[1]).toEqual({ ...findings[1], verification });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Prompt builders
+// ---------------------------------------------------------------------------
+
+describe('buildVerificationPrompt', () => {
+  it('should list each finding with its index, location and snippet', () => {
+    const prompt = buildVerificationPrompt(makeParams(), [
+      makeFinding(),
+      makeFinding({ file: 'src/b.ts', line: 3 }),
+    ]);
+
+    expect(prompt).toContain('PR #42: Add retries');
+    expect(prompt).toContain('### Finding 0\n**File:** src/retry.ts:12');
+    expect(prompt).toContain('### Finding 1\n**File:** src/b.ts:3');
+    expect(prompt).toContain('for (let i = 0; i <= max; i++)');
+  });
+});
+
+describe('getVerificationMaxTurns', () => {
+  it('should grow with the number of findings up to a cap', () => {
+    expect(getVerificationMaxTurns(1)).toBeLessThan(getVerificationMaxTurns(10));
+    expect(getVerificationMaxTurns(1000)).toBe(getVerificationMaxTurns(2000));
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Finding Verification
+ *
+ * Prompt, schema and parsing for the optional verification pass that runs
+ * after a review: a second agent opens the files the findings point at and
+ * checks each finding's code snippet and claim against the actual code. Each
+ * finding is marked verified, disputed or hallucinated with a short
+ * justification, so false positives can be hidden and kept off GitHub.
+ *
+ * Extracted to a separate file to avoid importing the Claude Agent SDK
+ * in test environments.
+ */
+
+import type {
+  FindingVerification,
+  FindingVerificationStatus,
+  PromptTemplateOverrides,
+  ReviewFinding,
+  ReviewParams,
+} from '@gitchorus/shared';
+import { FINDING_VERIFICATION_STATUSES } from '@gitchorus/shared';
+import { fenceUntrustedContent } from './prompt-injection';
+import { renderPromptTemplate } from './prompt-templates';
+
+/** Tools available to the verifier: it only needs to read the checkout */
+export const VERIFICATION_TOOLS = ['Read', 'Grep', 'Glob'];
+
+/** Base turn allowance for the verification pass, plus VERIFICATION_TURNS_PER_FINDING per finding */
+const VERIFICATION_BASE_TURNS = 5;
+
+/** Extra turns per finding: roughly one read and one search each */
+const VERIFICATION_TURNS_PER_FINDING = 2;
+
+/** Upper cap on verification turns, however many findings there are */
+const VERIFICATION_MAX_TURNS = 60;
+
+/**
+ * JSON schema for structured verification output.
+ */
+export const VERIFICATION_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    verifications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'number' },
+          status: { type: 'string', enum: FINDING_VERIFICATION_STATUSES },
+          justification: { type: 'string' },
+        },
+        required: ['index', 'status', 'justification'],
+      },
+    },
+  },
+  required: ['verifications'],
+};
+
+/**
+ * Turn limit for verifying the given number of findings.
+ */
+export function getVerificationMaxTurns(findingCount: number): number {
+  return Math.min(
+    VERIFICATION_BASE_TURNS + findingCount * VERIFICATION_TURNS_PER_FINDING,
+    VERIFICATION_MAX_TURNS
+  );
+}
+
+/**
+ * Build the system prompt for the verification pass.
+ */
+export function buildVerificationSystemPrompt(templates?: PromptTemplateOverrides): string {
+  return renderPromptTemplate('verification-system', {}, templates);
+}
+
+/**
+ * Build the user prompt listing the findings to verify.
+ */
+export function buildVerificationPrompt(
+  params: ReviewParams,
+  findings: ReviewFinding[],
+  templates?: PromptTemplateOverrides
+): string {
+  const list = findings
+    .map(
+      (finding, index) => `### Finding ${index}
+**File:** ${finding.file}:${finding.line}
+**Title:** ${finding.title}
+**Claim:** ${finding.explanation}
+**Code snippet:**
+\`\`\`
+${finding.codeSnippet}
+\`\`\``
+    )
+    .join('\n\n');
+
+  return renderPromptTemplate(
+    'verification-user',
+    {
+      repoName: params.repoName,
+      prNumber: params.prNumber,
+      prTitle: fenceUntrustedContent(params.prTitle),
+      findings: fenceUntrustedContent(list),
+    },
+    templates
+  );
+}
+
+/**
+ * Runtime-validate verification output into a map from finding index to verdict.
+ * Entries with an unknown index or status are dropped, leaving those findings unverified.
+ */
+export function parseVerificationOutput(
+  output: Record<string, unknown>,
+  findingCount: number
+): Map<number, FindingVerification> {
+  const verifications = new Map<number, FindingVerification>();
+  const entries = Array.isArray(output.verifications) ? output.verifications : [];
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { index, status, justification } = entry as Record<string, unknown>;
+    if (
+      typeof index !== 'number' ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= findingCount ||
+      !FINDING_VERIFICATION_STATUSES.includes(status as FindingVerificationStatus)
+    ) {
+      continue;
+    }
+    verifications.set(index, {
+      status: status as FindingVerificationStatus,
+      justification: typeof justification === 'string' ? justification : '',
+    });
+  }
+
+  return verifications;
+}
+
+/**
+ * Attach verification verdicts to the findings they belong to.
+ */
+export function applyVerifications(
+  findings: ReviewFinding[],
+  verifications: Map<number, FindingVerification>
+): ReviewFinding[] {
+  return findings.map((finding, index) => {
+    const verification = verifications.get(index);
+    return verification ? { ...finding, verification } : finding;
+  });
+}
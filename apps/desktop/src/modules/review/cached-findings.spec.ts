@@ -0,0 +1,102 @@
+import type { ReviewFinding, ReviewResult } from '@gitchorus/shared';
+import { carryForwardFindings, restrictDiffToFiles } from './cached-findings';
+import type { CachedFileReview } from './review-file-cache.service';
+
+function createFinding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: 'minor',
+    category: 'logic',
+    file: 'src/a.ts',
+    line: 10,
+    codeSnippet: 'x',
+    explanation: 'Explanation',
+    suggestedFix: 'y',
+    title: 'Issue',
+    ...overrides,
+  };
+}
+
+function createResult(overrides: Partial<ReviewResult> = {}): ReviewResult {
+  return {
+    prNumber: 42,
+    prTitle: 'Test PR',
+    repositoryFullName: 'user/repo',
+    findings: [],
+    verdict: 'Good',
+    qualityScore: 9,
+    reviewedAt: new Date().toISOString(),
+    providerType: 'claude',
+    model: 'claude-sonnet-4-5-20250929',
+    costUsd: 0.01,
+    durationMs: 1000,
+    ...overrides,
+  };
+}
+
+function cacheEntry(file: string, findings: ReviewFinding[]): CachedFileReview {
+  return {
+    repositoryFullName: 'user/repo',
+    file,
+    blobSha: `sha-${file}`,
+    findings,
+    reviewedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('restrictDiffToFiles', () => {
+  it('should keep only the sections of the given files', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-old a',
+      '+new a',
+      'diff --git a/src/b.ts b/src/b.ts',
+      '--- a/src/b.ts',
+      '+++ b/src/b.ts',
+      '@@ -1 +1 @@',
+      '-old b',
+      '+new b',
+    ].join('\n');
+
+    const restricted = restrictDiffToFiles(diff, new Set(['src/b.ts']));
+
+    expect(restricted).toContain('+new b');
+    expect(restricted).not.toContain('src/a.ts');
+  });
+});
+
+describe('carryForwardFindings', () => {
+  it('should add cached findings as persisting and replace agent findings on cached files', () => {
+    const cached = new Map([
+      ['src/a.ts', cacheEntry('src/a.ts', [createFinding({ title: 'Cached' })])],
+      ['src/clean.ts', cacheEntry('src/clean.ts', [])],
+    ]);
+    const result = createResult({
+      findings: [
+        createFinding({ file: 'src/a.ts', title: 'Re-reported' }),
+        createFinding({ file: 'src/b.ts', title: 'New' }),
+      ],
+    });
+
+    const merged = carryForwardFindings(result, cached);
+
+    expect(merged.findings.map(finding => finding.title)).toEqual(['New', 'Cached']);
+    expect(merged.findings[1].addressingStatus).toBe('persisting');
+    expect(merged.cachedFiles).toEqual(['src/a.ts', 'src/clean.ts']);
+    expect(merged.addressedFindings).toEqual([
+      expect.objectContaining({ title: 'Cached', status: 'unaddressed' }),
+    ]);
+  });
+
+  it('should cap the score for carried critical findings', () => {
+    const cached = new Map([
+      ['src/a.ts', cacheEntry('src/a.ts', [createFinding({ severity: 'critical' })])],
+    ]);
+
+    const merged = carryForwardFindings(createResult({ qualityScore: 9 }), cached);
+
+    expect(merged.qualityScore).toBe(5);
+  });
+});
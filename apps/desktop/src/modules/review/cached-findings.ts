@@ -0,0 +1,88 @@
+/**
+ * Cached Findings
+ *
+ * Helpers for re-reviews backed by the per-file review cache: files whose
+ * content (blob SHA) is unchanged since they were last reviewed keep their
+ * findings, and only the changed files go back to the agent. This makes
+ * re-reviews cheaper and stops findings on untouched code from randomly
+ * disappearing or reappearing between runs.
+ */
+
+import type {
+  AddressedFindingSummary,
+  ReviewFinding,
+  ReviewHistoryEntry,
+  ReviewParams,
+  ReviewResult,
+} from '@gitchorus/shared';
+import { applySeverityCaps } from '../provider/multi-agent-utils';
+import type { CachedFileReview } from './review-file-cache.service';
+import { parseDiffSections } from './map-reduce';
+
+/**
+ * Keep only the sections of a unified diff that belong to the given files.
+ */
+export function restrictDiffToFiles(diff: string, files: Set<string>): string {
+  return parseDiffSections(diff)
+    .filter(section => files.has(section.file.path))
+    .map(section => section.text)
+    .join('\n');
+}
+
+/**
+ * Add the cached findings of unchanged files to a re-review result.
+ *
+ * Any finding the agent still reported for a cached file is replaced by the
+ * cached one, carried findings are marked persisting, and the severity caps
+ * are applied again over the combined findings.
+ */
+export function carryForwardFindings(
+  result: ReviewResult,
+  cached: Map<string, CachedFileReview>
+): ReviewResult {
+  const carried: ReviewFinding[] = Array.from(cached.values()).flatMap(entry =>
+    entry.findings.map(finding => ({ ...finding, addressingStatus: 'persisting' as const }))
+  );
+  const findings = [...result.findings.filter(finding => !cached.has(finding.file)), ...carried];
+
+  const unaddressed: AddressedFindingSummary[] = carried.map(finding => ({
+    title: finding.title,
+    severity: finding.severity,
+    status: 'unaddressed',
+    explanation: 'The file is unchanged since it was last reviewed.',
+  }));
+
+  return {
+    ...result,
+    findings,
+    qualityScore: applySeverityCaps(result.qualityScore, findings),
+    addressedFindings: [...(result.addressedFindings ?? []), ...unaddressed],
+    cachedFiles: Array.from(cached.keys()).sort(),
+  };
+}
+
+/**
+ * Build a re-review result without running the agent, for when every changed
+ * file is unchanged since the previous review. Combine with
+ * {@link carryForwardFindings} to add the cached findings.
+ */
+export function buildUnchangedReviewResult(
+  params: ReviewParams,
+  previous: ReviewHistoryEntry
+): ReviewResult {
+  return {
+    prNumber: params.prNumber,
+    prTitle: params.prTitle,
+    repositoryFullName: params.repoName,
+    findings: [],
+    verdict:
+      'No file changed since the previous review, so its findings were carried forward without running the agent.',
+    qualityScore: previous.qualityScore,
+    reviewedAt: new Date().toISOString(),
+    providerType: previous.providerType,
+    model: previous.model,
+    costUsd: 0,
+    durationMs: 0,
+    addressedFindings: [],
+  };
+}
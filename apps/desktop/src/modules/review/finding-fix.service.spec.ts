@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ReviewFinding } from '@gitchorus/shared';
+import { FindingFixService } from './finding-fix.service';
+import type { GithubService } from '../git/github.service';
+import type { GitWorktreeService } from '../git/git-worktree.service';
+import type { GitCommitService } from '../git/git-commit.service';
+import type { GitRemoteService } from '../git/git-remote.service';
+import type { GitBaseService } from '../git/git-base.service';
+
+const HEAD_SHA = '1111111111111111111111111111111111111111';
+const FIX_SHA = '2222222222222222222222222222222222222222';
+
+const finding: ReviewFinding = {
+  severity: 'major',
+  category: 'logic',
+  file: 'src/a.ts',
+  line: 1,
+  codeSnippet: 'return x == 1;',
+  explanation: 'Loose equality',
+  suggestedFix: '-return x == 1;\n+return x === 1;',
+  title: 'Loose equality',
+};
+
+describe('FindingFixService', () => {
+  let worktreePath: string;
+  let service: FindingFixService;
+
+  const githubService = { getPrHeadRef: jest.fn() } as unknown as jest.Mocked<GithubService>;
+  const worktreeService = {
+    createPrWorktree: jest.fn(),
+    removeWorktree: jest.fn(),
+  } as unknown as jest.Mocked<GitWorktreeService>;
+  const commitService = {
+    diff: jest.fn(),
+    stage: jest.fn(),
+    commit: jest.fn(),
+  } as unknown as jest.Mocked<GitCommitService>;
+  const remoteService = { push: jest.fn() } as unknown as jest.Mocked<GitRemoteService>;
+  const gitBase = { execGit: jest.fn() } as unknown as jest.Mocked<GitBaseService>;
+
+  beforeEach(() => {
+    worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'gitchorus-fix-'));
+    fs.mkdirSync(path.join(worktreePath, 'src'));
+    fs.writeFileSync(path.join(worktreePath, 'src/a.ts'), 'return x == 1;\n');
+
+    githubService.getPrHeadRef.mockResolvedValue({
+      sha: HEAD_SHA,
+      branch: 'feature',
+      isCrossRepository: false,
+    });
+    worktreeService.createPrWorktree.mockResolvedValue({
+      path: worktreePath,
+      head: HEAD_SHA,
+      branch: '',
+      isMain: false,
+      isLocked: false,
+      isPrunable: false,
+    });
+    worktreeService.removeWorktree.mockResolvedValue(undefined);
+    commitService.diff.mockResolvedValue('-return x == 1;\n+return x === 1;');
+    commitService.commit.mockResolvedValue(FIX_SHA);
+    gitBase.execGit.mockResolvedValue({ stdout: `${FIX_SHA}\trefs/heads/feature\n`, stderr: '' });
+
+    service = new FindingFixService(
+      githubService,
+      worktreeService,
+      commitService,
+      remoteService,
+      gitBase
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+  });
+
+  it('should apply the fix in a PR worktree and return its diff', async () => {
+    const result = await service.prepare('/repo', 42, finding);
+
+    expect(worktreeService.createPrWorktree).toHaveBeenCalledWith('/repo', 42, HEAD_SHA);
+    expect(fs.readFileSync(path.join(worktreePath, 'src/a.ts'), 'utf8')).toBe('return x === 1;\n');
+    expect(commitService.diff).toHaveBeenCalledWith(worktreePath, 'src/a.ts');
+    expect(result).toMatchObject({ branch: 'feature', diff: expect.stringContaining('+return') });
+    expect(worktreeService.removeWorktree).not.toHaveBeenCalled();
+  });
+
+  it('should commit, push to the PR branch and remove the worktree', async () => {
+    const { fixId } = await service.prepare('/repo', 42, finding);
+
+    const sha = await service.commit(fixId, 'fix: strict equality');
+
+    expect(commitService.stage).toHaveBeenCalledWith(worktreePath, ['src/a.ts']);
+    expect(commitService.commit).toHaveBeenCalledWith(worktreePath, 'fix: strict equality');
+    expect(remoteService.push).toHaveBeenCalledWith(
+      worktreePath,
+      'origin',
+      'HEAD:refs/heads/feature'
+    );
+    expect(sha).toBe(FIX_SHA);
+    expect(worktreeService.removeWorktree).toHaveBeenCalledWith('/repo', worktreePath);
+    await expect(service.commit(fixId, 'again')).rejects.toThrow('no longer pending');
+  });
+
+  it('should throw when the push is rejected', async () => {
+    gitBase.execGit.mockResolvedValue({ stdout: `${HEAD_SHA}\trefs/heads/feature\n`, stderr: '' });
+    const { fixId } = await service.prepare('/repo', 42, finding);
+
+    await expect(service.commit(fixId, 'fix')).rejects.toThrow('Pushing to feature was rejected');
+    expect(worktreeService.removeWorktree).toHaveBeenCalledWith('/repo', worktreePath);
+  });
+
+  it('should refuse PRs from forks', async () => {
+    githubService.getPrHeadRef.mockResolvedValue({
+      sha: HEAD_SHA,
+      branch: 'feature',
+      isCrossRepository: true,
+    });
+
+    await expect(service.prepare('/repo', 42, finding)).rejects.toThrow('comes from a fork');
+    expect(worktreeService.createPrWorktree).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to write through a symbolic link', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'gitchorus-outside-'));
+    const target = path.join(outside, 'a.ts');
+    fs.writeFileSync(target, 'return x == 1;\n');
+    fs.symlinkSync(target, path.join(worktreePath, 'src/link.ts'));
+    fs.symlinkSync('a.ts', path.join(worktreePath, 'src/alias.ts'));
+
+    try {
+      await expect(
+        service.prepare('/repo', 42, { ...finding, file: 'src/link.ts' })
+      ).rejects.toThrow('Path is outside the repository: src/link.ts');
+      await expect(
+        service.prepare('/repo', 42, { ...finding, file: 'src/alias.ts' })
+      ).rejects.toThrow('src/alias.ts is a symbolic link');
+      expect(fs.readFileSync(target, 'utf8')).toBe('return x == 1;\n');
+      expect(fs.readFileSync(path.join(worktreePath, 'src/a.ts'), 'utf8')).toBe('return x == 1;\n');
+      expect(worktreeService.removeWorktree).toHaveBeenCalledWith('/repo', worktreePath);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should remove the worktree when the fix cannot be applied', async () => {
+    await expect(
+      service.prepare('/repo', 42, { ...finding, suggestedFix: '-missing\n+code' })
+    ).rejects.toThrow('was not found');
+    expect(worktreeService.removeWorktree).toHaveBeenCalledWith('/repo', worktreePath);
+  });
+});
@@ -0,0 +1,183 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLogger } from '@gitchorus/shared';
+import type { ReviewFinding } from '@gitchorus/shared';
+import { GithubService } from '../git/github.service';
+import { GitWorktreeService } from '../git/git-worktree.service';
+import { GitCommitService } from '../git/git-commit.service';
+import { GitRemoteService } from '../git/git-remote.service';
+import { GitBaseService } from '../git/git-base.service';
+import { resolveRepoPath } from '../provider/local-tools';
+import { applyFindingFix } from './finding-fix';
+
+const logger = createLogger('FindingFixService');
+
+/**
+ * A fix applied in a worktree and waiting for the user to commit or discard it.
+ */
+interface PendingFix {
+  projectPath: string;
+  prNumber: number;
+  worktreePath: string;
+  /** Head branch of the PR */
+  branch: string;
+  /** PR head commit the worktree was created at */
+  headSha: string;
+  /** Changed file, relative to the repository root */
+  file: string;
+}
+
+/**
+ * Generate a unique ID for a prepared fix.
+ */
+function generateFixId(prNumber: number): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `fix-${prNumber}-${timestamp}-${random}`;
+}
+
+/**
+ * Service applying a finding's suggested fix to the PR branch.
+ *
+ * prepare() checks out the PR head in a temporary worktree, applies the fix
+ * there and returns the diff. commit() then commits it and pushes it to the
+ * PR's head branch, and discard() drops it; both remove the worktree. PRs
+ * from forks are refused since their branch cannot be pushed to origin.
+ */
+@Injectable()
+export class FindingFixService implements OnModuleDestroy {
+  private readonly pending = new Map<string, PendingFix>();
+
+  constructor(
+    private readonly githubService: GithubService,
+    private readonly worktreeService: GitWorktreeService,
+    private readonly commitService: GitCommitService,
+    private readonly remoteService: GitRemoteService,
+    private readonly gitBase: GitBaseService
+  ) {}
+
+  /**
+   * Apply a finding's fix in a worktree of the PR head and return its diff.
+   */
+  async prepare(
+    projectPath: string,
+    prNumber: number,
+    finding: ReviewFinding
+  ): Promise<{ fixId: string; branch: string; diff: string }> {
+    if (!finding.file) {
+      throw new Error('The finding is not about a file, so there is nothing to apply');
+    }
+
+    const head = await this.githubService.getPrHeadRef(projectPath, prNumber);
+    if (head.isCrossRepository) {
+      throw new Error(`PR #${prNumber} comes from a fork, so its branch cannot be pushed to`);
+    }
+
+    const worktree = await this.worktreeService.createPrWorktree(projectPath, prNumber, head.sha);
+
+    try {
+      const file = finding.file.replace(/\\/g, '/').replace(/^\.?\//, '');
+      // Symlinks are resolved, and a symlinked file is never written through
+      const filePath = await resolveRepoPath(worktree.path, file);
+      if ((await fs.promises.lstat(path.resolve(worktree.path, file))).isSymbolicLink()) {
+        throw new Error(`${file} is a symbolic link, so the fix cannot be applied to it`);
+      }
+
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      const fixed = applyFindingFix(content, finding);
+      if (fixed === content) {
+        throw new Error(`The suggested fix does not change ${file}`);
+      }
+      await fs.promises.writeFile(filePath, fixed, 'utf8');
+
+      const diff = await this.commitService.diff(worktree.path, file);
+      const fixId = generateFixId(prNumber);
+      this.pending.set(fixId, {
+        projectPath,
+        prNumber,
+        worktreePath: worktree.path,
+        branch: head.branch,
+        headSha: head.sha,
+        file,
+      });
+
+      logger.info(`Prepared fix ${fixId} for ${file} on PR #${prNumber}`);
+      return { fixId, branch: head.branch, diff };
+    } catch (error) {
+      await this.removeWorktree(projectPath, worktree.path);
+      throw error;
+    }
+  }
+
+  /**
+   * Commit a prepared fix and push it to the PR's head branch.
+   * The push is verified against the remote, since git reports a rejected
+   * push (e.g. the branch has moved on) without a fatal exit code.
+   * @returns The hash of the pushed commit
+   */
+  async commit(fixId: string, message: string): Promise<string> {
+    const fix = this.pending.get(fixId);
+    if (!fix) {
+      throw new Error('This fix is no longer pending; apply it again');
+    }
+    this.pending.delete(fixId);
+
+    try {
+      await this.commitService.stage(fix.worktreePath, [fix.file]);
+      const commitSha = await this.commitService.commit(fix.worktreePath, message);
+      if (commitSha === fix.headSha) {
+        throw new Error('Nothing was committed; check the git user configuration');
+      }
+
+      await this.remoteService.push(fix.worktreePath, 'origin', `HEAD:refs/heads/${fix.branch}`);
+      const { stdout } = await this.gitBase.execGit(fix.worktreePath, [
+        'ls-remote',
+        'origin',
+        `refs/heads/${fix.branch}`,
+      ]);
+      if (!stdout.startsWith(commitSha)) {
+        throw new Error(
+          `Pushing to ${fix.branch} was rejected; the PR branch may have new commits`
+        );
+      }
+
+      logger.info(`Pushed fix ${commitSha.slice(0, 7)} to ${fix.branch} (PR #${fix.prNumber})`);
+      return commitSha;
+    } finally {
+      await this.removeWorktree(fix.projectPath, fix.worktreePath);
+    }
+  }
+
+  /**
+   * Drop a prepared fix without committing it.
+   */
+  async discard(fixId: string): Promise<void> {
+    const fix = this.pending.get(fixId);
+    if (!fix) return;
+
+    this.pending.delete(fixId);
+    await this.removeWorktree(fix.projectPath, fix.worktreePath);
+  }
+
+  /**
+   * Remove the worktrees of fixes still pending when the app shuts down.
+   */
+  async onModuleDestroy(): Promise<void> {
+    for (const fixId of [...this.pending.keys()]) {
+      await this.discard(fixId);
+    }
+  }
+
+  /**
+   * Remove a fix worktree. Failures are logged, never thrown, so cleanup
+   * cannot hide the outcome of the fix.
+   */
+  private async removeWorktree(projectPath: string, worktreePath: string): Promise<void> {
+    try {
+      await this.worktreeService.removeWorktree(projectPath, worktreePath);
+    } catch (error) {
+      logger.warn(`Failed to remove worktree ${worktreePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import type { ReviewFinding } from '@gitchorus/shared';
+import { applyFindingFix } from './finding-fix';
+
+function createFinding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: 'minor',
+    category: 'logic',
+    file: 'src/a.ts',
+    line: 1,
+    codeSnippet: '',
+    explanation: 'Explanation',
+    suggestedFix: '',
+    title: 'Issue',
+    ...overrides,
+  };
+}
+
+const content = [
+  'function a() {',
+  '  return x == 1;',
+  '}',
+  '',
+  'function b() {',
+  '  if (ready) {',
+  '    return x == 1;',
+  '  }',
+  '}',
+].join('\n');
+
+describe('applyFindingFix', () => {
+  it('should replace the lines of a drop-in replacement', () => {
+    const finding = createFinding({
+      startLine: 1,
+      endLine: 3,
+      codeSnippet: '```ts\nreturn x == 1;\n```',
+      replacement: 'const a = () => x === 1;',
+      suggestedFix: '-ignored\n+ignored',
+    });
+
+    expect(applyFindingFix(content, finding).split('\n').slice(0, 2)).toEqual([
+      'const a = () => x === 1;',
+      '',
+    ]);
+  });
+
+  it('should fall back to the diff when the drop-in lines no longer match the snippet', () => {
+    const finding = createFinding({
+      line: 7,
+      startLine: 1,
+      endLine: 3,
+      codeSnippet: 'if (ready) {\n  return x == 1;\n}',
+      replacement: 'const a = () => x === 1;',
+      suggestedFix: '-return x == 1;\n+return x === 1;',
+    });
+
+    const lines = applyFindingFix(content, finding).split('\n');
+
+    expect(lines[0]).toBe('function a() {');
+    expect(lines[6]).toBe('    return x === 1;');
+  });
+
+  it('should throw when the drop-in lines changed and there is no diff to fall back to', () => {
+    const finding = createFinding({
+      startLine: 2,
+      endLine: 2,
+      codeSnippet: 'return y;',
+      replacement: 'return z;',
+    });
+
+    expect(() => applyFindingFix(content, finding)).toThrow(
+      'Lines 2-2 of src/a.ts no longer match the reviewed code'
+    );
+  });
+
+  it('should apply a diff at the occurrence closest to the finding, re-indented', () => {
+    const finding = createFinding({
+      line: 7,
+      suggestedFix: '```diff\n@@ -1 +1 @@\n-return x == 1;\n+// strict\n+return x === 1;\n```',
+    });
+
+    const lines = applyFindingFix(content, finding).split('\n');
+
+    expect(lines[1]).toBe('  return x == 1;');
+    expect(lines.slice(6, 8)).toEqual(['    // strict', '    return x === 1;']);
+  });
+
+  it('should keep CRLF line endings', () => {
+    const finding = createFinding({ suggestedFix: '-  return x == 1;\n+  return x === 1;' });
+
+    const result = applyFindingFix(content.replace(/\n/g, '\r\n'), finding);
+
+    expect(result.split('\r\n')[1]).toBe('  return x === 1;');
+    expect(result.split('\r\n')).toHaveLength(9);
+  });
+
+  it('should throw when the changed code is not in the file', () => {
+    const finding = createFinding({ suggestedFix: '-return y;\n+return z;' });
+
+    expect(() => applyFindingFix(content, finding)).toThrow(
+      'The code the suggested fix changes was not found in src/a.ts'
+    );
+  });
+
+  it('should throw when the suggested fix is not a diff or only adds code', () => {
+    expect(() =>
+      applyFindingFix(content, createFinding({ suggestedFix: 'Use strict equality.' }))
+    ).toThrow('not a diff');
+    expect(() =>
+      applyFindingFix(content, createFinding({ suggestedFix: '+const y = 1;' }))
+    ).toThrow('only adds code');
+  });
+});
@@ -0,0 +1,156 @@
+import type { ReviewFinding } from '@gitchorus/shared';
+
+/** Matches an opening or closing Markdown code fence */
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+/** Unified diff file and hunk headers, which carry no code */
+const DIFF_HEADER_PATTERN = /^(@@ |--- |\+\+\+ )/;
+
+/**
+ * Split a suggested fix written as a diff into the code it replaces and the
+ * code replacing it. Lines starting with "-" are removed, "+" added, anything
+ * else is context kept in both.
+ */
+function parseFixDiff(suggestedFix: string): { before: string[]; after: string[] } {
+  const before: string[] = [];
+  const after: string[] = [];
+  let changes = 0;
+
+  for (const line of suggestedFix.split('\n')) {
+    if (FENCE_PATTERN.test(line) || DIFF_HEADER_PATTERN.test(line)) continue;
+
+    if (line.startsWith('-')) {
+      before.push(line.slice(1));
+      changes++;
+    } else if (line.startsWith('+')) {
+      after.push(line.slice(1));
+      changes++;
+    } else {
+      const context = line.startsWith(' ') ? line.slice(1) : line;
+      before.push(context);
+      after.push(context);
+    }
+  }
+
+  if (changes === 0) {
+    throw new Error('The suggested fix is not a diff, so it cannot be applied automatically');
+  }
+
+  // Blank lines around the fix are formatting, not code to match
+  while (before.length > 0 && before[0].trim() === '' && after[0]?.trim() === '') {
+    before.shift();
+    after.shift();
+  }
+  while (
+    before.length > 0 &&
+    before[before.length - 1].trim() === '' &&
+    after[after.length - 1]?.trim() === ''
+  ) {
+    before.pop();
+    after.pop();
+  }
+
+  if (before.every(line => line.trim() === '')) {
+    throw new Error('The suggested fix only adds code, so where it goes is ambiguous');
+  }
+  return { before, after };
+}
+
+/**
+ * Start indices where `block` occurs in `lines`, comparing lines without
+ * their indentation and trailing whitespace.
+ */
+function findBlock(lines: string[], block: string[]): number[] {
+  const starts: number[] = [];
+  for (let start = 0; start + block.length <= lines.length; start++) {
+    if (block.every((line, i) => lines[start + i].trim() === line.trim())) {
+      starts.push(start);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Whether the lines a drop-in replacement targets still hold the finding's
+ * code snippet, i.e. one contains the other (ignoring indentation, blank lines
+ * and code fences). False when the finding has no snippet to compare.
+ */
+function matchesSnippet(target: string[], codeSnippet: string): boolean {
+  const code = (text: string[]) =>
+    text.filter(line => line.trim() !== '' && !FENCE_PATTERN.test(line));
+  const snippet = code(codeSnippet.split(/\r?\n/));
+  const lines = code(target);
+  if (snippet.length === 0 || lines.length === 0) return false;
+
+  return snippet.length <= lines.length
+    ? findBlock(lines, snippet).length > 0
+    : findBlock(snippet, lines).length > 0;
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+/**
+ * Apply a finding's fix to the content of its file at the PR head.
+ *
+ * A drop-in replacement (replacement with startLine/endLine on the new file)
+ * replaces exactly those lines, provided they still hold the finding's code
+ * snippet; when the PR changed them since the review, the fix falls back to
+ * suggestedFix. That is read as a diff: the
+ * code it removes is located in the file (the occurrence closest to the
+ * finding's line wins) and swapped for the code it adds, re-indented to match
+ * the file. Throws when the fix cannot be placed unambiguously.
+ */
+export function applyFindingFix(content: string, finding: ReviewFinding): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+
+  if (
+    finding.replacement !== undefined &&
+    finding.startLine !== undefined &&
+    finding.endLine !== undefined &&
+    finding.side !== 'LEFT'
+  ) {
+    const { startLine, endLine } = finding;
+    if (startLine < 1 || endLine < startLine || endLine > lines.length) {
+      throw new Error(`Lines ${startLine}-${endLine} are outside of ${finding.file}`);
+    }
+    if (matchesSnippet(lines.slice(startLine - 1, endLine), finding.codeSnippet)) {
+      lines.splice(startLine - 1, endLine - startLine + 1, ...finding.replacement.split(/\r?\n/));
+      return lines.join(eol);
+    }
+    if (!finding.suggestedFix) {
+      throw new Error(
+        `Lines ${startLine}-${endLine} of ${finding.file} no longer match the reviewed code`
+      );
+    }
+  } else if (!finding.suggestedFix) {
+    throw new Error('The finding has no suggested fix');
+  }
+
+  const { before, after } = parseFixDiff(finding.suggestedFix);
+  const starts = findBlock(lines, before);
+  if (starts.length === 0) {
+    throw new Error(`The code the suggested fix changes was not found in ${finding.file}`);
+  }
+  const start = starts.reduce((closest, candidate) =>
+    Math.abs(candidate + 1 - finding.line) < Math.abs(closest + 1 - finding.line)
+      ? candidate
+      : closest
+  );
+
+  const firstCode = before.findIndex(line => line.trim() !== '');
+  const fixIndent = leadingWhitespace(before[firstCode]);
+  const fileIndent = leadingWhitespace(lines[start + firstCode]);
+  const replacement = after.map(line =>
+    line.trim() === ''
+      ? ''
+      : line.startsWith(fixIndent)
+        ? fileIndent + line.slice(fixIndent.length)
+        : line
+  );
+
+  lines.splice(start, before.length, ...replacement);
+  return lines.join(eol);
+}
@@ -0,0 +1,319 @@
+import type { ReviewFinding, ReviewResult } from '@gitchorus/shared';
+import {
+  clusterDiffSections,
+  countDiffLines,
+  mergeClusterResults,
+  parseDiffSections,
+} from './map-reduce';
+
+/**
+ * Build the diff of a modified file with `added` added lines in one hunk.
+ */
+function fileDiff(file: string, added: number): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    'index 1111111..2222222 100644',
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    `@@ -1,1 +1,${added + 1} @@`,
+    ' unchanged',
+    ...Array.from({ length: added }, (_, i) => `+line ${i + 1}`),
+  ].join('\n');
+}
+
+function createResult(overrides: Partial<ReviewResult> = {}): ReviewResult {
+  return {
+    prNumber: 42,
+    prTitle: 'Large PR',
+    repositoryFullName: 'user/repo',
+    findings: [],
+    verdict: 'Fine',
+    qualityScore: 8,
+    reviewedAt: new Date().toISOString(),
+    providerType: 'claude',
+    model: 'claude-sonnet-4-5-20250929',
+    costUsd: 0.1,
+    durationMs: 1000,
+    ...overrides,
+  };
+}
+
+function createFinding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: 'minor',
+    category: 'logic',
+    file: 'src/a.ts',
+    line: 10,
+    codeSnippet: 'x',
+    explanation: 'Explanation',
+    suggestedFix: 'y',
+    title: 'Issue',
+    ...overrides,
+  };
+}
+
+describe('parseDiffSections', () => {
+  it('should split a diff into per-file sections with parsed hunks', () => {
+    const diff = [
+      fileDiff('src/a.ts', 2),
+      [
+        'diff --git a/src/old.ts b/src/new.ts',
+        'similarity index 90%',
+        'rename from src/old.ts',
+        'rename to src/new.ts',
+        '--- a/src/old.ts',
+        '+++ b/src/new.ts',
+        '@@ -3,2 +3,2 @@ function run() {',
+        '-  return 1;',
+        '+  return 2;',
+        ' }',
+      ].join('\n'),
+      '',
+    ].join('\n');
+
+    const sections = parseDiffSections(diff);
+
+    expect(sections).toHaveLength(2);
+    expect(sections[0].file).toEqual(
+      expect.objectContaining({ path: 'src/a.ts', additions: 2, deletions: 0, isBinary: false })
+    );
+    expect(sections[0].text).toBe(fileDiff('src/a.ts', 2));
+
+    const renamed = sections[1].file;
+    expect(renamed.path).toBe('src/new.ts');
+    expect(renamed.oldPath).toBe('src/old.ts');
+    expect(renamed.hunks[0]).toEqual(
+      expect.objectContaining({ oldStart: 3, oldLines: 2, newStart: 3, newLines: 2 })
+    );
+    expect(renamed.hunks[0].lines).toEqual([
+      { type: 'deletion', content: '  return 1;', oldLineNumber: 3 },
+      { type: 'addition', content: '  return 2;', newLineNumber: 3 },
+      { type: 'context', content: '}', oldLineNumber: 4, newLineNumber: 4 },
+    ]);
+  });
+
+  it('should mark binary files and new files', () => {
+    const diff = [
+      'diff --git a/logo.png b/logo.png',
+      'new file mode 100644',
+      'Binary files /dev/null and b/logo.png differ',
+    ].join('\n');
+
+    const [section] = parseDiffSections(diff);
+
+    expect(section.file.path).toBe('logo.png');
+    expect(section.file.isBinary).toBe(true);
+    expect(section.file.hunks).toEqual([]);
+  });
+
+  it('should return no sections for text without diff headers', () => {
+    expect(parseDiffSections('not a diff')).toEqual([]);
+  });
+});
+
+describe('clusterDiffSections', () => {
+  it('should keep files of the same directory together', () => {
+    const sections = parseDiffSections(
+      [
+        fileDiff('src/ui/b.tsx', 40),
+        fileDiff('src/api/a.ts', 40),
+        fileDiff('src/ui/a.tsx', 40),
+        fileDiff('src/api/b.ts', 40),
+      ].join('\n')
+    );
+
+    const clusters = clusterDiffSections(sections, 100);
+
+    expect(clusters.map(cluster => cluster.files)).toEqual([
+      ['src/api/a.ts', 'src/api/b.ts'],
+      ['src/ui/a.tsx', 'src/ui/b.tsx'],
+    ]);
+    expect(clusters[0].diff).toContain('diff --git a/src/api/b.ts');
+    expect(clusters[0].diffLines).toBe(countDiffLines(clusters[0].diff));
+  });
+
+  it('should split a directory that does not fit in one cluster', () => {
+    const sections = parseDiffSections(
+      [fileDiff('src/a.ts', 60), fileDiff('src/b.ts', 60), fileDiff('src/c.ts', 60)].join('\n')
+    );
+
+    const clusters = clusterDiffSections(sections, 100);
+
+    expect(clusters.map(cluster => cluster.files)).toEqual([
+      ['src/a.ts'],
+      ['src/b.ts'],
+      ['src/c.ts'],
+    ]);
+  });
+
+  it('should give a file larger than the limit a cluster of its own', () => {
+    const sections = parseDiffSections(
+      [fileDiff('a/small.ts', 5), fileDiff('b/huge.ts', 500), fileDiff('c/small.ts', 5)].join('\n')
+    );
+
+    const clusters = clusterDiffSections(sections, 100);
+
+    expect(clusters.map(cluster => cluster.files)).toEqual([
+      ['a/small.ts'],
+      ['b/huge.ts'],
+      ['c/small.ts'],
+    ]);
+  });
+});
+
+describe('mergeClusterResults', () => {
+  const clusters = [
+    { files: ['src/a.ts', 'src/b.ts', 'src/c.ts'], diff: '', diffLines: 300 },
+    { files: ['lib/x.ts'], diff: '', diffLines: 100 },
+  ];
+
+  it('should weight the quality score by cluster size and sum costs', () => {
+    const merged = mergeClusterResults(
+      [
+        createResult({ qualityScore: 8, costUsd: 0.25, verdict: 'Solid' }),
+        createResult({ qualityScore: 4, costUsd: 0.15, verdict: 'Shaky' }),
+      ],
+      clusters,
+      Date.now() - 5000
+    );
+
+    expect(merged.qualityScore).toBe(7);
+    expect(merged.costUsd).toBeCloseTo(0.4);
+    expect(merged.durationMs).toBeGreaterThanOrEqual(5000);
+    expect(merged.verdict).toContain('Reviewed in 2 parts');
+    expect(merged.verdict).toContain('**Part 1** (`src/a.ts`, `src/b.ts` and 1 more): Solid');
+    expect(merged.verdict).toContain('**Part 2** (`lib/x.ts`): Shaky');
+    expect(merged.clusters).toEqual([
+      expect.objectContaining({ files: clusters[0].files, diffLines: 300, qualityScore: 8 }),
+      expect.objectContaining({ files: clusters[1].files, diffLines: 100, qualityScore: 4 }),
+    ]);
+  });
+
+  it('should record the prompt templates of every cluster once', () => {
+    const review = { id: 'review-system' as const, version: 'aaaa1111', custom: false };
+    const verification = { id: 'verification-system' as const, version: 'bbbb2222', custom: false };
+    const merged = mergeClusterResults(
+      [
+        createResult({ promptTemplates: [review, verification] }),
+        createResult({ promptTemplates: [review] }),
+      ],
+      clusters,
+      Date.now()
+    );
+
+    expect(merged.promptTemplates).toEqual([review, verification]);
+  });
+
+  it('should deduplicate findings and apply severity caps', () => {
+    const finding = createFinding({ severity: 'critical' });
+    const merged = mergeClusterResults(
+      [
+        createResult({ qualityScore: 9, findings: [finding] }),
+        createResult({ qualityScore: 9, findings: [{ ...finding, line: 9 }] }),
+      ],
+      clusters,
+      Date.now()
+    );
+
+    expect(merged.findings).toHaveLength(1);
+    expect(merged.qualityScore).toBe(5);
+    expect(merged.clusters?.map(summary => summary.findingCount)).toEqual([1, 1]);
+  });
+
+  it('should keep an escalated triage', () => {
+    const triage = {
+      riskLevel: 'high' as const,
+      summary: 'Touches auth',
+      riskyFiles: [],
+      model: 'claude-haiku-4-5-20251001',
+      threshold: 'high' as const,
+      escalated: true,
+      costUsd: 0.01,
+    };
+
+    const merged = mergeClusterResults(
+      [
+        createResult({ triage: { ...triage, riskLevel: 'low', escalated: false } }),
+        createResult({ triage }),
+      ],
+      clusters,
+      Date.now()
+    );
+
+    expect(merged.triage).toBe(triage);
+  });
+
+  it('should sum the verification cost of the clusters', () => {
+    const verification = { model: 'claude-sonnet-4-5-20250929', costUsd: 0.02 };
+
+    const merged = mergeClusterResults(
+      [
+        createResult({ verification }),
+        createResult({ verification: { ...verification, costUsd: 0.03 } }),
+      ],
+      clusters,
+      Date.now()
+    );
+
+    expect(merged.verification?.model).toBe(verification.model);
+    expect(merged.verification?.costUsd).toBeCloseTo(0.05);
+  });
+
+  it('should record the provider and model of every cluster and flag when they differ', () => {
+    const merged = mergeClusterResults(
+      [
+        createResult({ model: 'claude-opus-4-6' }),
+        createResult({ providerType: 'codex', model: 'gpt-5' }),
+      ],
+      clusters,
+      Date.now()
+    );
+
+    expect(merged.clusters).toEqual([
+      expect.objectContaining({ providerType: 'claude', model: 'claude-opus-4-6' }),
+      expect.objectContaining({ providerType: 'codex', model: 'gpt-5' }),
+    ]);
+    expect(merged.providerType).toBe('claude');
+    expect(merged.model).toBe('claude-opus-4-6');
+    expect(merged.verdict).toContain(
+      'The parts were reviewed by different models: part 1 by Claude (claude-opus-4-6), part 2 by Codex (gpt-5).'
+    );
+  });
+
+  it('should not flag clusters reviewed by the same model', () => {
+    const merged = mergeClusterResults([createResult(), createResult()], clusters, Date.now());
+
+    expect(merged.verdict).not.toContain('different models');
+  });
+
+  it('should merge the sub-agent scores of multi-agent clusters', () => {
+    const score = (value: number, summary: string) => ({
+      agent: 'security',
+      score: value,
+      weight: 0.3,
+      summary,
+      findingCount: 1,
+      severityCounts: { critical: 0, major: 1, minor: 0, nit: 0 },
+    });
+
+    const merged = mergeClusterResults(
+      [
+        createResult({ multiAgent: true, subAgentScores: [score(8, 'Safe')] }),
+        createResult({ multiAgent: true, subAgentScores: [score(4, 'Leaky')] }),
+      ],
+      clusters,
+      Date.now()
+    );
+
+    expect(merged.subAgentScores).toEqual([
+      {
+        agent: 'security',
+        score: 7,
+        weight: 0.3,
+        summary: 'Part 1: Safe\nPart 2: Leaky',
+        findingCount: 2,
+        severityCounts: { critical: 0, major: 2, minor: 0, nit: 0 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Map-Reduce Review
+ *
+ * A very large PR diff inlined into a single prompt makes the agent run out of
+ * turns or skim. Instead the diff is split into clusters of related files, each
+ * cluster is reviewed in its own provider run (map), and the partial results are
+ * merged into one ReviewResult with the multi-agent deduplication and weighted
+ * scoring utilities (reduce).
+ *
+ * Pure functions, kept apart from ReviewService so they can be unit tested
+ * without the Nest container.
+ */
+
+import * as path from 'path';
+import type {
+  GitDiffHunk,
+  GitDiffLine,
+  GitFileDiff,
+  PromptTemplateUsage,
+  ReviewClusterSummary,
+  ReviewResult,
+  SubAgentScore,
+} from '@gitchorus/shared';
+import { PROVIDER_LABELS } from '@gitchorus/shared';
+import {
+  applySeverityCaps,
+  calculateWeightedScore,
+  deduplicateFindings,
+} from '../provider/multi-agent-utils';
+
+/** Target size of one cluster in diff lines; a single larger file gets a cluster of its own */
+export const MAP_REDUCE_CLUSTER_LINES = 1500;
+
+/**
+ * One file's section of a unified diff: the parsed diff plus its raw text.
+ */
+export interface DiffFileSection {
+  /** Parsed file diff */
+  file: GitFileDiff;
+  /** Raw diff text of this file, from its `diff --git` header to the next one */
+  text: string;
+}
+
+/**
+ * A group of related files reviewed together in one provider run.
+ */
+export interface DiffCluster {
+  /** Files in this cluster */
+  files: string[];
+  /** Concatenated raw diff of the files */
+  diff: string;
+  /** Number of diff lines in the cluster */
+  diffLines: number;
+}
+
+/**
+ * Number of lines in a diff, the unit used for the map-reduce threshold.
+ */
+export function countDiffLines(diff: string): number {
+  return diff.split('\n').length;
+}
+
+/**
+ * Split a unified diff (`gh pr diff` output) into per-file sections.
+ * Returns an empty list when the text has no `diff --git` headers.
+ */
+export function parseDiffSections(diff: string): DiffFileSection[] {
+  const sections: DiffFileSection[] = [];
+  let current: string[] | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      if (current) sections.push(parseFileSection(current));
+      current = [line];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) sections.push(parseFileSection(current));
+
+  return sections;
+}
+
+/**
+ * Parse the lines of one file's diff section into a GitFileDiff.
+ */
+function parseFileSection(lines: string[]): DiffFileSection {
+  // Trailing empty line left by the split on the final newline
+  while (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+
+  const header = lines[0].match(/^diff --git a\/(.+) b\/(.+)$/);
+  let newPath = header ? header[2] : '';
+  let oldPath = header ? header[1] : '';
+  let isBinary = false;
+  const hunks: GitDiffHunk[] = [];
+  let hunk: GitDiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let additions = 0;
+  let deletions = 0;
+
+  for (const line of lines.slice(1)) {
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkMatch) {
+      oldLine = parseInt(hunkMatch[1], 10);
+      newLine = parseInt(hunkMatch[3], 10);
+      hunk = {
+        oldStart: oldLine,
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        newStart: newLine,
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        header: line,
+        lines: [],
+      };
+      hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      // File header: paths, rename and binary markers
+      if (line.startsWith('+++ b/')) newPath = line.slice('+++ b/'.length);
+      else if (line.startsWith('--- a/')) oldPath = line.slice('--- a/'.length);
+      else if (line.startsWith('rename from ')) oldPath = line.slice('rename from '.length);
+      else if (line.startsWith('rename to ')) newPath = line.slice('rename to '.length);
+      else if (line.startsWith('Binary files ') || line === 'GIT binary patch') isBinary = true;
+      continue;
+    }
+
+    let diffLine: GitDiffLine | null = null;
+    if (line.startsWith('+')) {
+      diffLine = { type: 'addition', content: line.slice(1), newLineNumber: newLine++ };
+      additions++;
+    } else if (line.startsWith('-')) {
+      diffLine = { type: 'deletion', content: line.slice(1), oldLineNumber: oldLine++ };
+      deletions++;
+    } else if (!line.startsWith('\\')) {
+      diffLine = {
+        type: 'context',
+        content: line.slice(1),
+        oldLineNumber: oldLine++,
+        newLineNumber: newLine++,
+      };
+    }
+    if (diffLine) hunk.lines.push(diffLine);
+  }
+
+  return {
+    file: {
+      path: newPath,
+      oldPath: oldPath && oldPath !== newPath ? oldPath : undefined,
+      isBinary,
+      hunks,
+      additions,
+      deletions,
+    },
+    text: lines.join('\n'),
+  };
+}
+
+/**
+ * Group file sections into clusters of at most `maxLines` diff lines.
+ *
+ * Files are kept together by directory so a cluster covers related code; a
+ * directory too large for one cluster is split across several, and a single
+ * file larger than `maxLines` gets a cluster of its own (files are never split).
+ */
+export function clusterDiffSections(sections: DiffFileSection[], maxLines: number): DiffCluster[] {
+  const byDirectory = new Map<string, DiffFileSection[]>();
+  for (const section of [...sections].sort((a, b) => a.file.path.localeCompare(b.file.path))) {
+    const directory = path.posix.dirname(section.file.path);
+    byDirectory.set(directory, [...(byDirectory.get(directory) ?? []), section]);
+  }
+
+  const clusters: DiffCluster[] = [];
+  let current: DiffFileSection[] = [];
+  let currentLines = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    clusters.push({
+      files: current.map(section => section.file.path),
+      diff: current.map(section => section.text).join('\n'),
+      diffLines: currentLines,
+    });
+    current = [];
+    currentLines = 0;
+  };
+
+  for (const group of byDirectory.values()) {
+    const groupLines = group.reduce((sum, section) => sum + countDiffLines(section.text), 0);
+    if (currentLines + groupLines <= maxLines) {
+      current.push(...group);
+      currentLines += groupLines;
+      continue;
+    }
+
+    flush();
+    for (const section of group) {
+      const sectionLines = countDiffLines(section.text);
+      if (currentLines > 0 && currentLines + sectionLines > maxLines) flush();
+      current.push(section);
+      currentLines += sectionLines;
+    }
+  }
+  flush();
+
+  return clusters;
+}
+
+/**
+ * Merge the results of the cluster reviews into a single ReviewResult.
+ *
+ * Findings are deduplicated, the quality score is the average of the cluster
+ * scores weighted by diff size (then capped by severity), and costs are summed.
+ * Each cluster summary records the provider and model that reviewed it; the
+ * result reports the one that reviewed the most diff lines, and the verdict
+ * says so when the clusters were reviewed by different models.
+ *
+ * @param results - One result per cluster, in cluster order
+ * @param clusters - The clusters the results belong to
+ * @param startTime - When the map-reduce review started (for durationMs)
+ */
+export function mergeClusterResults(
+  results: ReviewResult[],
+  clusters: DiffCluster[],
+  startTime: number
+): ReviewResult {
+  const findings = deduplicateFindings(results.flatMap(result => result.findings));
+  const weightedScore = calculateWeightedScore(
+    results.map((result, index) => ({
+      score: result.qualityScore,
+      weight: clusters[index].diffLines,
+    }))
+  );
+
+  const summaries: ReviewClusterSummary[] = results.map((result, index) => ({
+    files: clusters[index].files,
+    diffLines: clusters[index].diffLines,
+    qualityScore: result.qualityScore,
+    verdict: result.verdict,
+    findingCount: result.findings.length,
+    providerType: result.providerType,
+    model: result.model,
+  }));
+
+  const reviewers = [...new Set(summaries.map(describeReviewer))];
+  const main = summaries.reduce((largest, summary) =>
+    summary.diffLines > largest.diffLines ? summary : largest
+  );
+
+  const verdict = [
+    `Reviewed in ${results.length} parts because of the size of the diff.`,
+    ...(reviewers.length > 1
+      ? [
+          `The parts were reviewed by different models: ${summaries
+            .map((summary, index) => `part ${index + 1} by ${describeReviewer(summary)}`)
+            .join(', ')}.`,
+        ]
+      : []),
+    ...summaries.map(
+      (summary, index) =>
+        `**Part ${index + 1}** (${describeFiles(summary.files)}): ${summary.verdict}`
+    ),
+  ].join('\n\n');
+
+  const contextSummary = results
+    .map(result => result.contextSummary)
+    .filter(Boolean)
+    .join('\n\n');
+
+  // Keep an escalated triage so re-reviews of this PR stay on the escalation model
+  const triage = results.find(result => result.triage?.escalated)?.triage ?? results[0].triage;
+  const verifications = results.flatMap(result =>
+    result.verification ? [result.verification] : []
+  );
+  const verification = verifications.length
+    ? {
+        model: verifications[0].model,
+        costUsd: verifications.reduce((sum, entry) => sum + entry.costUsd, 0),
+      }
+    : undefined;
+  const last = results[results.length - 1];
+
+  return {
+    prNumber: last.prNumber,
+    prTitle: last.prTitle,
+    repositoryFullName: last.repositoryFullName,
+    findings,
+    verdict,
+    qualityScore: applySeverityCaps(weightedScore, findings),
+    reviewedAt: new Date().toISOString(),
+    providerType: main.providerType,
+    model: main.model,
+    costUsd: results.reduce((sum, result) => sum + result.costUsd, 0),
+    durationMs: Date.now() - startTime,
+    multiAgent: results.some(result => result.multiAgent) || undefined,
+    subAgentScores: mergeSubAgentScores(results, clusters),
+    contextSummary: contextSummary || undefined,
+    triage,
+    verification,
+    clusters: summaries,
+    promptTemplates: mergePromptTemplates(results),
+  };
+}
+
+/**
+ * Combine the sub-agent scores of multi-agent cluster reviews into one score
+ * per sub-agent: scores are weighted by cluster size, counts are summed and
+ * the summaries are kept per part.
+ */
+function mergeSubAgentScores(
+  results: ReviewResult[],
+  clusters: DiffCluster[]
+): SubAgentScore[] | undefined {
+  const byAgent = new Map<string, { part: number; weight: number; score: SubAgentScore }[]>();
+  results.forEach((result, index) => {
+    for (const score of result.subAgentScores ?? []) {
+      const entries = byAgent.get(score.agent) ?? [];
+      entries.push({ part: index + 1, weight: clusters[index].diffLines, score });
+      byAgent.set(score.agent, entries);
+    }
+  });
+  if (byAgent.size === 0) return undefined;
+
+  return [...byAgent.entries()].map(([agent, entries]) => {
+    const severityCounts = { critical: 0, major: 0, minor: 0, nit: 0 };
+    for (const { score } of entries) {
+      for (const severity of Object.keys(severityCounts) as (keyof typeof severityCounts)[]) {
+        severityCounts[severity] += score.severityCounts[severity] ?? 0;
+      }
+    }
+    return {
+      agent,
+      score: calculateWeightedScore(
+        entries.map(({ weight, score }) => ({ score: score.score, weight }))
+      ),
+      weight: entries[0].score.weight,
+      summary:
+        entries.length === 1
+          ? entries[0].score.summary
+          : entries.map(({ part, score }) => `Part ${part}: ${score.summary}`).join('\n'),
+      findingCount: entries.reduce((sum, { score }) => sum + score.findingCount, 0),
+      severityCounts,
+    };
+  });
+}
+
+/**
+ * Provider and model of a cluster review, e.g. "Claude (claude-opus-4-6)".
+ */
+function describeReviewer({ providerType, model }: ReviewClusterSummary): string {
+  return model ? `${PROVIDER_LABELS[providerType]} (${model})` : PROVIDER_LABELS[providerType];
+}
+
+/**
+ * The prompt template versions used by any of the cluster reviews, each once.
+ */
+function mergePromptTemplates(results: ReviewResult[]): PromptTemplateUsage[] | undefined {
+  const usages = new Map<string, PromptTemplateUsage>();
+  for (const usage of results.flatMap(result => result.promptTemplates ?? [])) {
+    usages.set(`${usage.id}@${usage.version}`, usage);
+  }
+  return usages.size > 0 ? [...usages.values()] : undefined;
+}
+
+/**
+ * Short Markdown description of a cluster's files, e.g. "`src/a.ts`, `src/b.ts` and 3 more".
+ */
+function describeFiles(files: string[]): string {
+  const listed = files
+    .slice(0, 2)
+    .map(file => `\`${file}\``)
+    .join(', ');
+  return files.length > 2 ? `${listed} and ${files.length - 2} more` : listed;
+}
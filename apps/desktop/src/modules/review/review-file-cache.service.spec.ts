@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReviewFileCacheService } from './review-file-cache.service';
+import type { ReviewFinding } from '@gitchorus/shared';
+
+// ---------------------------------------------------------------------------
+// Mock electron-store
+// ---------------------------------------------------------------------------
+
+const storeData: Record<string, unknown> = {};
+
+jest.mock('electron-store', () => {
+  return jest.fn().mockImplementation(() => ({
+    get: jest.fn((key: string) => storeData[key]),
+    set: jest.fn((key: string, value: unknown) => {
+      storeData[key] = value;
+    }),
+  }));
+});
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function createFinding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: 'major',
+    category: 'logic',
+    file: 'src/a.ts',
+    line: 10,
+    codeSnippet: 'x',
+    explanation: 'Explanation',
+    suggestedFix: 'y',
+    title: 'Issue',
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ReviewFileCacheService', () => {
+  let service: ReviewFileCacheService;
+
+  beforeEach(async () => {
+    delete storeData['reviewFileCache'];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ReviewFileCacheService],
+    }).compile();
+
+    service = module.get<ReviewFileCacheService>(ReviewFileCacheService);
+  });
+
+  it('should return the findings of files whose blob SHA matches', () => {
+    const finding = createFinding();
+    service.saveFiles(
+      'user/repo',
+      new Map([
+        ['src/a.ts', 'sha-a'],
+        ['src/b.ts', 'sha-b'],
+      ]),
+      [finding],
+      '2026-01-01T00:00:00.000Z'
+    );
+
+    const hits = service.lookup(
+      'user/repo',
+      new Map([
+        ['src/a.ts', 'sha-a'],
+        ['src/b.ts', 'sha-b2'],
+      ])
+    );
+
+    expect(Array.from(hits.keys())).toEqual(['src/a.ts']);
+    expect(hits.get('src/a.ts')?.findings).toEqual([finding]);
+  });
+
+  it('should cache clean files with no findings', () => {
+    service.saveFiles('user/repo', new Map([['src/clean.ts', 'sha-c']]), [], 'now');
+
+    const hits = service.lookup('user/repo', new Map([['src/clean.ts', 'sha-c']]));
+
+    expect(hits.get('src/clean.ts')?.findings).toEqual([]);
+  });
+
+  it('should not share entries between repositories', () => {
+    service.saveFiles('user/repo', new Map([['src/a.ts', 'sha-a']]), [], 'now');
+
+    expect(service.lookup('other/repo', new Map([['src/a.ts', 'sha-a']])).size).toBe(0);
+  });
+
+  it('should replace an older entry for the same file content', () => {
+    const blobs = new Map([['src/a.ts', 'sha-a']]);
+    service.saveFiles('user/repo', blobs, [createFinding({ title: 'Old' })], 'earlier');
+    service.saveFiles('user/repo', blobs, [createFinding({ title: 'New' })], 'later');
+
+    expect(storeData['reviewFileCache']).toHaveLength(1);
+    expect(service.lookup('user/repo', blobs).get('src/a.ts')?.findings[0].title).toBe('New');
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import Store from 'electron-store';
+import { createLogger } from '@gitchorus/shared';
+import type { ReviewFinding } from '@gitchorus/shared';
+
+const logger = createLogger('ReviewFileCacheService');
+
+/** Maximum number of cached file reviews to retain */
+const MAX_CACHE_ENTRIES = 5000;
+
+/** Store key for the per-file review cache */
+const STORE_KEY = 'reviewFileCache';
+
+/**
+ * Findings of one file, as reviewed at a specific blob SHA.
+ */
+export interface CachedFileReview {
+  /** Repository full name (owner/repo) */
+  repositoryFullName: string;
+  /** File path at review time */
+  file: string;
+  /** Blob SHA of the file's content at review time */
+  blobSha: string;
+  /** Findings the review reported for this file (empty if it was clean) */
+  findings: ReviewFinding[];
+  /** ISO timestamp of the review that produced the findings */
+  reviewedAt: string;
+}
+
+/**
+ * Per-file review cache persisted with electron-store.
+ *
+ * Keyed by repository, file path and blob SHA: as long as a file's content is
+ * unchanged, a re-review reuses its findings instead of sending it back to the
+ * agent. Entries are capped at MAX_CACHE_ENTRIES (5000), newest first.
+ */
+@Injectable()
+export class ReviewFileCacheService {
+  private readonly store: Store;
+
+  constructor() {
+    this.store = new Store();
+  }
+
+  /**
+   * Look up the cached reviews of the given files.
+   * @param blobShas - Map from file path to its current blob SHA
+   * @returns Map from file path to its cached review, for files with a cache hit
+   */
+  lookup(repositoryFullName: string, blobShas: Map<string, string>): Map<string, CachedFileReview> {
+    const hits = new Map<string, CachedFileReview>();
+    if (blobShas.size === 0) return hits;
+
+    for (const entry of this.getAllEntries()) {
+      if (
+        entry.repositoryFullName === repositoryFullName &&
+        blobShas.get(entry.file) === entry.blobSha &&
+        !hits.has(entry.file)
+      ) {
+        hits.set(entry.file, entry);
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * Cache the findings of a review for every reviewed file, including files without findings.
+   * @param blobShas - Map from file path to the blob SHA that was reviewed
+   */
+  saveFiles(
+    repositoryFullName: string,
+    blobShas: Map<string, string>,
+    findings: ReviewFinding[],
+    reviewedAt: string
+  ): void {
+    if (blobShas.size === 0) return;
+
+    const saved: CachedFileReview[] = Array.from(blobShas, ([file, blobSha]) => ({
+      repositoryFullName,
+      file,
+      blobSha,
+      findings: findings.filter(finding => finding.file === file),
+      reviewedAt,
+    }));
+    const savedKeys = new Set(saved.map(cacheKey));
+
+    // Newest first; replace older entries for the same file content
+    const entries = [
+      ...saved,
+      ...this.getAllEntries().filter(entry => !savedKeys.has(cacheKey(entry))),
+    ];
+    if (entries.length > MAX_CACHE_ENTRIES) {
+      entries.length = MAX_CACHE_ENTRIES;
+      logger.debug(`File cache capped at ${MAX_CACHE_ENTRIES} entries`);
+    }
+
+    this.store.set(STORE_KEY, entries);
+    logger.info(`Cached ${saved.length} reviewed file(s) for ${repositoryFullName}`);
+  }
+
+  /**
+   * Get all cached entries from the store.
+   */
+  private getAllEntries(): CachedFileReview[] {
+    try {
+      const data = this.store.get(STORE_KEY);
+      if (Array.isArray(data)) {
+        return data as CachedFileReview[];
+      }
+      return [];
+    } catch (error) {
+      logger.error('Failed to read file cache from store:', error);
+      return [];
+    }
+  }
+}
+
+/**
+ * Identity of a cache entry: the same file content in the same repository.
+ */
+function cacheKey(entry: CachedFileReview): string {
+  return `${entry.repositoryFullName}\n${entry.file}\n${entry.blobSha}`;
+}
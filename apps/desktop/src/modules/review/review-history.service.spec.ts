@@ -380,6 +380,32 @@ describe('ReviewHistoryService', () => {
     });
   });
 
+  // ==================== recordPush / markPushRetracted ====================
+
+  describe('recordPush and markPushRetracted', () => {
+    const push = { reviewId: 7, commentIds: [70, 71], url: 'u', pushedAt: '2025-01-01T00:00:00Z' };
+
+    it('should append pushes and mark the retracted one', () => {
+      storeData['reviewHistory'] = [{ ...createMockResult(), id: 'rh-pushed' }];
+
+      service.recordPush('rh-pushed', { ...push, reviewId: 6 });
+      service.recordPush('rh-pushed', push);
+      const entry = service.markPushRetracted('rh-pushed', 7);
+
+      expect(entry?.pushes?.map(p => [p.reviewId, Boolean(p.retractedAt)])).toEqual([
+        [6, false],
+        [7, true],
+      ]);
+      expect((storeData['reviewHistory'] as ReviewHistoryEntry[])[0]).toEqual(entry);
+    });
+
+    it('should return null when entry is not found', () => {
+      storeData['reviewHistory'] = [];
+
+      expect(service.recordPush('nonexistent', push)).toBeNull();
+    });
+  });
+
   // ==================== clear ====================
 
   describe('clear', () => {
@@ -1,7 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import Store from 'electron-store';
 import { createLogger } from '@gitchorus/shared';
-import type { ReviewResult, ReviewHistoryEntry, ReviewHistoryFilter } from '@gitchorus/shared';
+import type {
+  ReviewResult,
+  ReviewHistoryEntry,
+  ReviewHistoryFilter,
+  PushedReview,
+} from '@gitchorus/shared';
 
 const logger = createLogger('ReviewHistoryService');
 
@@ -155,6 +160,28 @@ export class ReviewHistoryService {
     return true;
   }
 
+  /**
+   * Record a push of a history entry to GitHub.
+   * Returns the updated entry, or null if it was not found.
+   */
+  recordPush(id: string, push: PushedReview): ReviewHistoryEntry | null {
+    return this.update(id, entry => ({ ...entry, pushes: [...(entry.pushes ?? []), push] }));
+  }
+
+  /**
+   * Mark a push of a history entry as retracted.
+   * Returns the updated entry, or null if it was not found.
+   */
+  markPushRetracted(id: string, reviewId: number): ReviewHistoryEntry | null {
+    const retractedAt = new Date().toISOString();
+    return this.update(id, entry => ({
+      ...entry,
+      pushes: (entry.pushes ?? []).map(push =>
+        push.reviewId === reviewId ? { ...push, retractedAt } : push
+      ),
+    }));
+  }
+
   /**
    * Import a review from GitHub review data.
    * Creates a ReviewHistoryEntry with parsed quality score and verdict
@@ -220,6 +247,27 @@ export class ReviewHistoryService {
     }
   }
 
+  /**
+   * Replace a history entry with an updated copy.
+   * Returns the updated entry, or null if it was not found.
+   */
+  private update(
+    id: string,
+    change: (entry: ReviewHistoryEntry) => ReviewHistoryEntry
+  ): ReviewHistoryEntry | null {
+    const entries = this.getAllEntries();
+    const index = entries.findIndex(e => e.id === id);
+
+    if (index === -1) {
+      logger.debug(`History entry not found: ${id}`);
+      return null;
+    }
+
+    entries[index] = change(entries[index]);
+    this.store.set(STORE_KEY, entries);
+    return entries[index];
+  }
+
   /**
    * Get all entries from the store.
    * Returns an empty array if no entries exist or data is invalid.
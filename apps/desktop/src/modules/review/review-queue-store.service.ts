@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import type { ReviewQueueItem } from '@gitchorus/shared';
+import { BaseQueueStoreService, type PersistedQueue } from '../shared/base-queue-store.service';
+
+/**
+ * Persisted review queue, including the previous review each pending re-review builds on.
+ */
+export interface PersistedReviewQueue extends PersistedQueue<ReviewQueueItem> {
+  /** previousReviewId of pending re-reviews, keyed by PR number */
+  reReviewContext: Record<number, string>;
+}
+
+@Injectable()
+export class ReviewQueueStoreService extends BaseQueueStoreService<
+  ReviewQueueItem,
+  PersistedReviewQueue
+> {
+  constructor() {
+    super('reviewQueue', { projectPath: null, items: [], reReviewContext: {} });
+  }
+}
@@ -0,0 +1,57 @@
+import { ReviewRulesService } from './review-rules.service';
+import type { GitBaseService } from '../git/git-base.service';
+
+const BASE_SHA = '3333333333333333333333333333333333333333';
+
+describe('ReviewRulesService', () => {
+  const gitBase = { execGit: jest.fn() } as unknown as jest.Mocked<GitBaseService>;
+  let service: ReviewRulesService;
+
+  /** Fake git whose refs map to commits and whose base commit holds the given rules file */
+  function mockGit(refs: Record<string, string>, rulesFile: string | null) {
+    gitBase.execGit.mockImplementation(async (_repoPath, args) => {
+      if (args[0] === 'rev-parse') {
+        return { stdout: refs[args[3].replace('^{commit}', '')] ?? '', stderr: '' };
+      }
+      if (args[0] === 'ls-tree') {
+        return { stdout: rulesFile === null ? '' : '.gitchorus.yml\n', stderr: '' };
+      }
+      return { stdout: rulesFile ?? '', stderr: '' };
+    });
+  }
+
+  beforeEach(() => {
+    service = new ReviewRulesService(gitBase);
+  });
+
+  it('should read the rules committed on the remote base branch', async () => {
+    mockGit({ 'origin/main': BASE_SHA, main: 'stale' }, 'guidelines: Prefer early returns.\n');
+
+    const rules = await service.load('/repo', 'main');
+
+    expect(rules?.guidelines).toBe('Prefer early returns.');
+    expect(gitBase.execGit).toHaveBeenCalledWith('/repo', ['show', `${BASE_SHA}:.gitchorus.yml`]);
+  });
+
+  it('should fall back to the local base branch', async () => {
+    mockGit({ main: BASE_SHA }, 'guidelines: Local\n');
+
+    await expect(service.load('/repo', 'main')).resolves.toEqual(
+      expect.objectContaining({ guidelines: 'Local' })
+    );
+    expect(gitBase.execGit).toHaveBeenCalledWith('/repo', ['show', `${BASE_SHA}:.gitchorus.yml`]);
+  });
+
+  it('should return null when the base branch has no rules file', async () => {
+    mockGit({ 'origin/main': BASE_SHA }, null);
+
+    await expect(service.load('/repo', 'main')).resolves.toBeNull();
+    expect(gitBase.execGit).not.toHaveBeenCalledWith('/repo', expect.arrayContaining(['show']));
+  });
+
+  it('should throw when the base branch does not exist', async () => {
+    mockGit({}, null);
+
+    await expect(service.load('/repo', 'gone')).rejects.toThrow('Base branch gone was not found');
+  });
+});
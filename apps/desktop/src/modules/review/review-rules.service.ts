@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { REVIEW_RULES_FILE_NAME } from '@gitchorus/shared';
+import type { ReviewRules } from '@gitchorus/shared';
+import { GitBaseService } from '../git/git-base.service';
+import { parseReviewRules } from './review-rules';
+
+/**
+ * Loads a repository's review rules from the `.gitchorus.yml` at its root.
+ *
+ * Rules are read from the PR's base branch with `git show`, never from the PR
+ * head or the working checkout, so a pull request cannot loosen the rules it
+ * is reviewed under.
+ */
+@Injectable()
+export class ReviewRulesService {
+  constructor(private readonly gitBase: GitBaseService) {}
+
+  /**
+   * Load the review rules of a repository as committed on a branch.
+   * @returns The parsed rules, or null when the branch has no rules file
+   * @throws Error when the branch is unknown or the rules file is invalid
+   */
+  async load(projectPath: string, baseBranch: string): Promise<ReviewRules | null> {
+    const commit = await this.resolveBranch(projectPath, baseBranch);
+
+    const { stdout: listed } = await this.gitBase.execGit(projectPath, [
+      'ls-tree',
+      '--name-only',
+      commit,
+      '--',
+      REVIEW_RULES_FILE_NAME,
+    ]);
+    if (!listed.trim()) {
+      return null;
+    }
+
+    const { stdout: text } = await this.gitBase.execGit(projectPath, [
+      'show',
+      `${commit}:${REVIEW_RULES_FILE_NAME}`,
+    ]);
+    return parseReviewRules(text);
+  }
+
+  /**
+   * Commit of a branch, preferring the remote one since the local branch may lag behind.
+   */
+  private async resolveBranch(projectPath: string, branch: string): Promise<string> {
+    for (const ref of [`origin/${branch}`, branch]) {
+      const { stdout } = await this.gitBase.execGit(projectPath, [
+        'rev-parse',
+        '--verify',
+        '--quiet',
+        `${ref}^{commit}`,
+      ]);
+      if (stdout.trim()) {
+        return stdout.trim();
+      }
+    }
+    throw new Error(`Base branch ${branch} was not found`);
+  }
+}
@@ -0,0 +1,166 @@
+import type { ReviewFinding, ReviewResult, ReviewRules } from '@gitchorus/shared';
+import {
+  applyForcedSeverities,
+  excludeIgnoredFiles,
+  matchesRuleGlob,
+  parseReviewRules,
+  scopeRulesToFiles,
+} from './review-rules';
+
+function fileDiff(file: string): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    '@@ -1 +1 @@',
+    '-old',
+    '+new',
+  ].join('\n');
+}
+
+function createRules(overrides: Partial<ReviewRules> = {}): ReviewRules {
+  return { guidelines: '', ignore: [], severity: {}, focus: [], ...overrides };
+}
+
+function createFinding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: 'minor',
+    category: 'logic',
+    file: 'src/a.ts',
+    line: 10,
+    codeSnippet: 'x',
+    explanation: 'Explanation',
+    suggestedFix: 'y',
+    title: 'Issue',
+    ...overrides,
+  };
+}
+
+function createResult(overrides: Partial<ReviewResult> = {}): ReviewResult {
+  return {
+    prNumber: 42,
+    prTitle: 'Test PR',
+    repositoryFullName: 'user/repo',
+    findings: [],
+    verdict: 'Good',
+    qualityScore: 9,
+    reviewedAt: new Date().toISOString(),
+    providerType: 'claude',
+    model: 'claude-sonnet-4-5-20250929',
+    costUsd: 0.01,
+    durationMs: 1000,
+    ...overrides,
+  };
+}
+
+describe('parseReviewRules', () => {
+  it('should parse every rule', () => {
+    const rules = parseReviewRules(
+      [
+        'guidelines: |',
+        '  Prefer Result types over exceptions.',
+        'ignore:',
+        '  - pnpm-lock.yaml',
+        '  - "src/generated/**"',
+        'severity:',
+        '  style: nit',
+        '  security: critical',
+        'focus:',
+        '  - path: "src/db/**"',
+        '    note: Queries go through the repository layer.',
+      ].join('\n')
+    );
+
+    expect(rules).toEqual({
+      guidelines: 'Prefer Result types over exceptions.',
+      ignore: ['pnpm-lock.yaml', 'src/generated/**'],
+      severity: { style: 'nit', security: 'critical' },
+      focus: [{ path: 'src/db/**', note: 'Queries go through the repository layer.' }],
+    });
+  });
+
+  it('should treat an empty file as no rules', () => {
+    expect(parseReviewRules('')).toEqual(createRules());
+  });
+
+  it.each([
+    ['invalid YAML', 'ignore: [', 'is not valid YAML'],
+    ['a list at the top level', '- a', 'must be a mapping'],
+    ['an ignore string', 'ignore: "*.lock"', '"ignore" must be a list of globs'],
+    ['an unknown category', 'severity:\n  typos: nit', 'unknown category "typos"'],
+    ['an unknown severity', 'severity:\n  style: low', 'unknown severity "low"'],
+    ['a focus entry without a note', 'focus:\n  - path: src/**', 'focus entry 1 needs'],
+  ])('should reject %s', (_, text, message) => {
+    expect(() => parseReviewRules(text)).toThrow(message);
+  });
+});
+
+describe('matchesRuleGlob', () => {
+  it.each([
+    ['pnpm-lock.yaml', 'pnpm-lock.yaml', true],
+    ['apps/web/pnpm-lock.yaml', 'pnpm-lock.yaml', true],
+    ['src/generated/api.ts', 'src/generated/**', true],
+    ['lib/src/generated/api.ts', 'src/generated/**', false],
+    ['.github/workflows/ci.yml', '.github/**', true],
+  ])('%s against %s should be %s', (file, glob, expected) => {
+    expect(matchesRuleGlob(file, glob)).toBe(expected);
+  });
+});
+
+describe('excludeIgnoredFiles', () => {
+  it('should drop the sections of ignored files', () => {
+    const diff = [fileDiff('src/a.ts'), fileDiff('yarn.lock')].join('\n');
+
+    const { diff: kept, ignoredFiles } = excludeIgnoredFiles(diff, ['*.lock']);
+
+    expect(ignoredFiles).toEqual(['yarn.lock']);
+    expect(kept).toBe(fileDiff('src/a.ts'));
+  });
+
+  it('should leave the diff untouched when nothing is ignored', () => {
+    const diff = fileDiff('src/a.ts');
+
+    expect(excludeIgnoredFiles(diff, ['*.lock'])).toEqual({ diff, ignoredFiles: [] });
+  });
+});
+
+describe('scopeRulesToFiles', () => {
+  it('should keep only focus notes matching a changed file', () => {
+    const rules = createRules({
+      focus: [
+        { path: 'src/db/**', note: 'DB' },
+        { path: 'src/ui/**', note: 'UI' },
+      ],
+    });
+
+    expect(scopeRulesToFiles(rules, ['src/db/users.ts']).focus).toEqual([
+      { path: 'src/db/**', note: 'DB' },
+    ]);
+  });
+});
+
+describe('applyForcedSeverities', () => {
+  it('should force severities per category and apply the severity caps', () => {
+    const result = createResult({
+      qualityScore: 9,
+      findings: [
+        createFinding({ category: 'security', severity: 'minor' }),
+        createFinding({ category: 'style', severity: 'major' }),
+      ],
+    });
+
+    const forced = applyForcedSeverities(
+      result,
+      createRules({ severity: { security: 'critical', style: 'nit' } })
+    );
+
+    expect(forced.findings.map(finding => finding.severity)).toEqual(['critical', 'nit']);
+    expect(forced.qualityScore).toBe(5);
+  });
+
+  it('should return the result unchanged without severity rules', () => {
+    const result = createResult({ findings: [createFinding()] });
+
+    expect(applyForcedSeverities(result, createRules())).toBe(result);
+  });
+});
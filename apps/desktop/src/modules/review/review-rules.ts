@@ -0,0 +1,189 @@
+/**
+ * Review Rules
+ *
+ * Parsing and application of a repository's `.gitchorus.yml`:
+ *
+ *   guidelines: |
+ *     Prefer Result types over exceptions in src/core.
+ *   ignore:
+ *     - pnpm-lock.yaml
+ *     - "src/generated/**"
+ *   severity:
+ *     style: nit
+ *   focus:
+ *     - path: "src/db/**"
+ *       note: Every query must go through the repository layer.
+ *
+ * Ignore and focus globs follow gitignore conventions: a pattern without a
+ * slash matches the file name in any directory.
+ */
+
+import { minimatch } from 'minimatch';
+import { parse as parseYaml } from 'yaml';
+import type {
+  ReviewCategory,
+  ReviewFinding,
+  ReviewPathFocus,
+  ReviewResult,
+  ReviewRules,
+  ReviewSeverity,
+} from '@gitchorus/shared';
+import { REVIEW_RULES_FILE_NAME } from '@gitchorus/shared';
+import { applySeverityCaps } from '../provider/multi-agent-utils';
+import { parseDiffSections } from './map-reduce';
+
+const REVIEW_CATEGORIES: ReviewCategory[] = [
+  'security',
+  'logic',
+  'performance',
+  'style',
+  'codebase-fit',
+];
+
+const REVIEW_SEVERITIES: ReviewSeverity[] = ['critical', 'major', 'minor', 'nit'];
+
+/**
+ * Parse the contents of a `.gitchorus.yml` file.
+ * @throws Error naming the offending key when the file is not valid YAML or has the wrong shape
+ */
+export function parseReviewRules(text: string): ReviewRules {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${REVIEW_RULES_FILE_NAME} is not valid YAML: ${message}`);
+  }
+
+  // An empty file is valid and defines no rules
+  if (data === null || data === undefined) {
+    return { guidelines: '', ignore: [], severity: {}, focus: [] };
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${REVIEW_RULES_FILE_NAME} must be a mapping of rule names to values`);
+  }
+
+  const { guidelines, ignore, severity, focus } = data as Record<string, unknown>;
+  return {
+    guidelines: parseGuidelines(guidelines),
+    ignore: parseStringList(ignore, 'ignore'),
+    severity: parseSeverities(severity),
+    focus: parseFocus(focus),
+  };
+}
+
+function parseGuidelines(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') {
+    throw new Error(`${REVIEW_RULES_FILE_NAME}: "guidelines" must be a string`);
+  }
+  return value.trim();
+}
+
+function parseStringList(value: unknown, key: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${REVIEW_RULES_FILE_NAME}: "${key}" must be a list of globs`);
+  }
+  return value as string[];
+}
+
+function parseSeverities(value: unknown): ReviewRules['severity'] {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${REVIEW_RULES_FILE_NAME}: "severity" must map categories to severities`);
+  }
+
+  const severities: ReviewRules['severity'] = {};
+  for (const [category, severity] of Object.entries(value)) {
+    if (!REVIEW_CATEGORIES.includes(category as ReviewCategory)) {
+      throw new Error(
+        `${REVIEW_RULES_FILE_NAME}: unknown category "${category}" in "severity" (expected one of ${REVIEW_CATEGORIES.join(', ')})`
+      );
+    }
+    if (!REVIEW_SEVERITIES.includes(severity as ReviewSeverity)) {
+      throw new Error(
+        `${REVIEW_RULES_FILE_NAME}: unknown severity "${String(severity)}" for "${category}" (expected one of ${REVIEW_SEVERITIES.join(', ')})`
+      );
+    }
+    severities[category as ReviewCategory] = severity as ReviewSeverity;
+  }
+  return severities;
+}
+
+function parseFocus(value: unknown): ReviewPathFocus[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`${REVIEW_RULES_FILE_NAME}: "focus" must be a list of { path, note } entries`);
+  }
+
+  return value.map((entry, i) => {
+    const { path, note } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof path !== 'string' || typeof note !== 'string') {
+      throw new Error(
+        `${REVIEW_RULES_FILE_NAME}: focus entry ${i + 1} needs a "path" glob and a "note"`
+      );
+    }
+    return { path, note: note.trim() };
+  });
+}
+
+/**
+ * Whether a file path matches a rules glob.
+ */
+export function matchesRuleGlob(file: string, glob: string): boolean {
+  return minimatch(file, glob, { dot: true, matchBase: true });
+}
+
+/**
+ * Remove the sections of ignored files from a unified diff.
+ * @returns The remaining diff and the paths of the files that were removed
+ */
+export function excludeIgnoredFiles(
+  diff: string,
+  ignore: string[]
+): { diff: string; ignoredFiles: string[] } {
+  if (ignore.length === 0) return { diff, ignoredFiles: [] };
+
+  const kept: string[] = [];
+  const ignoredFiles: string[] = [];
+  for (const section of parseDiffSections(diff)) {
+    if (ignore.some(glob => matchesRuleGlob(section.file.path, glob))) {
+      ignoredFiles.push(section.file.path);
+    } else {
+      kept.push(section.text);
+    }
+  }
+
+  return { diff: ignoredFiles.length > 0 ? kept.join('\n') : diff, ignoredFiles };
+}
+
+/**
+ * Keep only the focus notes whose glob matches at least one of the given files,
+ * so the prompt does not carry notes about parts of the repository the PR leaves alone.
+ */
+export function scopeRulesToFiles(rules: ReviewRules, files: string[]): ReviewRules {
+  return {
+    ...rules,
+    focus: rules.focus.filter(entry => files.some(file => matchesRuleGlob(file, entry.path))),
+  };
+}
+
+/**
+ * Force the configured severities onto a result's findings and apply the
+ * severity caps again, since forcing can raise a finding to major or critical.
+ */
+export function applyForcedSeverities(result: ReviewResult, rules: ReviewRules): ReviewResult {
+  if (Object.keys(rules.severity).length === 0) return result;
+
+  const findings: ReviewFinding[] = result.findings.map(finding => {
+    const severity = rules.severity[finding.category];
+    return severity && severity !== finding.severity ? { ...finding, severity } : finding;
+  });
+
+  return {
+    ...result,
+    findings,
+    qualityScore: applySeverityCaps(result.qualityScore, findings),
+  };
+}
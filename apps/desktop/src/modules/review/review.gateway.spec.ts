@@ -6,6 +6,8 @@ import { ReviewService } from './review.service';
 import { ReviewHistoryService } from './review-history.service';
 import { ReviewLogService } from './review-log.service';
 import { GithubService } from '../git/github.service';
+import { FindingFixService } from './finding-fix.service';
+import type { ReviewFinding } from '@gitchorus/shared';
 
 // ---------------------------------------------------------------------------
 // Mock helpers
@@ -50,6 +52,8 @@ const mockHistoryService = {
   save: jest.fn(),
   clear: jest.fn(),
   importFromGithub: jest.fn(),
+  recordPush: jest.fn(),
+  markPushRetracted: jest.fn(),
 };
 
 const mockLogService = {
@@ -61,6 +65,13 @@ const mockGithubService = {
   listPrReviews: jest.fn(),
   getPullRequest: jest.fn(),
   getRepoInfo: jest.fn(),
+  retractPrReview: jest.fn(),
+};
+
+const mockFixService = {
+  prepare: jest.fn(),
+  commit: jest.fn(),
+  discard: jest.fn(),
 };
 
 // ---------------------------------------------------------------------------
@@ -81,6 +92,7 @@ describe('ReviewGateway', () => {
         { provide: ReviewHistoryService, useValue: mockHistoryService },
         { provide: ReviewLogService, useValue: mockLogService },
         { provide: GithubService, useValue: mockGithubService },
+        { provide: FindingFixService, useValue: mockFixService },
       ],
     }).compile();
 
@@ -387,6 +399,107 @@ describe('ReviewGateway', () => {
     });
   });
 
+  // ========================================================================
+  // review:retract-push
+  // ========================================================================
+
+  describe('handleRetractPush', () => {
+    const push = { reviewId: 7, commentIds: [70], url: 'u', pushedAt: '2025-01-01T00:00:00Z' };
+
+    it('should retract the latest active push and mark it retracted', async () => {
+      const entry = {
+        id: 'rh-1',
+        prNumber: 42,
+        pushes: [{ ...push, reviewId: 6 }, push, { ...push, reviewId: 8, retractedAt: 'x' }],
+      };
+      const updated = { ...entry, pushes: [] };
+      mockHistoryService.getById.mockReturnValue(entry);
+      mockGithubService.retractPrReview.mockResolvedValue({ deletedComments: 1 });
+      mockHistoryService.markPushRetracted.mockReturnValue(updated);
+
+      const result = await gateway.handleRetractPush(client, { projectPath: '/repo', id: 'rh-1' });
+
+      expect(mockGithubService.retractPrReview).toHaveBeenCalledWith('/repo', 42, 7, [70]);
+      expect(mockHistoryService.markPushRetracted).toHaveBeenCalledWith('rh-1', 7);
+      expect(result).toEqual({ entry: updated });
+    });
+
+    it('should return error when nothing is left to retract', async () => {
+      const entry = { id: 'rh-1', prNumber: 42, pushes: [{ ...push, retractedAt: 'x' }] };
+      mockHistoryService.getById.mockReturnValue(entry);
+
+      const result = await gateway.handleRetractPush(client, { projectPath: '/repo', id: 'rh-1' });
+
+      expect(mockGithubService.retractPrReview).not.toHaveBeenCalled();
+      expect(result).toEqual({ entry, error: 'This review has no push to retract' });
+    });
+
+    it('should return error and keep the push when GitHub fails', async () => {
+      mockHistoryService.getById.mockReturnValue({ id: 'rh-1', prNumber: 42, pushes: [push] });
+      mockGithubService.retractPrReview.mockRejectedValue(new Error('Not Found (HTTP 404)'));
+
+      const result = await gateway.handleRetractPush(client, { projectPath: '/repo', id: 'rh-1' });
+
+      expect(mockHistoryService.markPushRetracted).not.toHaveBeenCalled();
+      expect(result).toEqual({ entry: null, error: 'Not Found (HTTP 404)' });
+    });
+  });
+
+  // ========================================================================
+  // review:fix-prepare / review:fix-commit
+  // ========================================================================
+
+  describe('handleFixPrepare', () => {
+    const finding = { file: 'src/a.ts', line: 3, title: 'Bug' } as unknown as ReviewFinding;
+
+    it('should return the prepared fix', async () => {
+      const prepared = { fixId: 'fix-1', branch: 'feature', diff: '-a\n+b' };
+      mockFixService.prepare.mockResolvedValue(prepared);
+
+      const result = await gateway.handleFixPrepare(client, {
+        projectPath: '/repo',
+        prNumber: 42,
+        finding,
+      });
+
+      expect(mockFixService.prepare).toHaveBeenCalledWith('/repo', 42, finding);
+      expect(result).toEqual(prepared);
+    });
+
+    it('should return error when the fix cannot be applied', async () => {
+      mockFixService.prepare.mockRejectedValue(new Error('The finding has no suggested fix'));
+
+      const result = await gateway.handleFixPrepare(client, {
+        projectPath: '/repo',
+        prNumber: 42,
+        finding,
+      });
+
+      expect(result).toEqual({ error: 'The finding has no suggested fix' });
+    });
+  });
+
+  describe('handleFixCommit', () => {
+    it('should commit and push the fix', async () => {
+      mockFixService.commit.mockResolvedValue('abc123');
+
+      const result = await gateway.handleFixCommit(client, {
+        fixId: 'fix-1',
+        message: ' fix: bug ',
+      });
+
+      expect(mockFixService.commit).toHaveBeenCalledWith('fix-1', 'fix: bug');
+      expect(result).toEqual({ success: true, commitSha: 'abc123' });
+    });
+
+    it('should return error when the commit message is empty', async () => {
+      const result = await gateway.handleFixCommit(client, { fixId: 'fix-1', message: ' ' });
+
+      expect(mockFixService.commit).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+    });
+  });
+
   // ========================================================================
   // review:chain
   // ========================================================================
@@ -15,6 +15,7 @@ import {
   GITCHORUS_REVIEW_MARKER,
   createLogger,
   extractErrorMessage,
+  getActivePush,
   type ReviewStartPayload,
   type ReviewReReviewStartPayload,
   type ReviewCancelPayload,
@@ -33,12 +34,21 @@ import {
   type ReviewLogEntriesResponse,
   type ReviewImportGithubPayload,
   type ReviewImportGithubResponse,
+  type ReviewRecordPushPayload,
+  type ReviewRetractPushPayload,
+  type ReviewPushHistoryResponse,
+  type ReviewFixPreparePayload,
+  type ReviewFixPrepareResponse,
+  type ReviewFixCommitPayload,
+  type ReviewFixCommitResponse,
+  type ReviewFixDiscardPayload,
 } from '@gitchorus/shared';
 import { CORS_CONFIG } from '../shared/cors.config';
 import { ReviewService, InternalReviewEvents } from './review.service';
 import { ReviewHistoryService } from './review-history.service';
 import { ReviewLogService } from './review-log.service';
 import { GithubService } from '../git/github.service';
+import { FindingFixService } from './finding-fix.service';
 
 /**
  * WebSocket gateway for review events.
@@ -60,7 +70,8 @@ export class ReviewGateway implements OnGatewayInit {
     private readonly reviewService: ReviewService,
     private readonly historyService: ReviewHistoryService,
     private readonly logService: ReviewLogService,
-    private readonly githubService: GithubService
+    private readonly githubService: GithubService,
+    private readonly fixService: FindingFixService
   ) {}
 
   afterInit(): void {
@@ -323,6 +334,145 @@ export class ReviewGateway implements OnGatewayInit {
     }
   }
 
+  // ============================================
+  // Push handlers
+  // ============================================
+
+  /**
+   * Handle request to record a push of a history entry to GitHub, so the
+   * push can be retracted later.
+   */
+  @SubscribeMessage(ReviewEvents.RECORD_PUSH)
+  handleRecordPush(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: ReviewRecordPushPayload
+  ): ReviewPushHistoryResponse {
+    try {
+      const { id, push } = payload;
+
+      if (!id || !push?.reviewId) {
+        return { entry: null, error: 'id and push are required' };
+      }
+
+      const entry = this.historyService.recordPush(id, push);
+      if (!entry) {
+        return { entry: null, error: `History entry not found: ${id}` };
+      }
+      return { entry };
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error recording review push: ${message}`);
+      return { entry: null, error: message };
+    }
+  }
+
+  /**
+   * Handle request to retract the latest push of a history entry: dismisses
+   * the GitHub review, deletes its inline comments and replaces its summary.
+   */
+  @SubscribeMessage(ReviewEvents.RETRACT_PUSH)
+  async handleRetractPush(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: ReviewRetractPushPayload
+  ): Promise<ReviewPushHistoryResponse> {
+    try {
+      const { projectPath, id } = payload;
+
+      if (!projectPath || !id) {
+        return { entry: null, error: 'projectPath and id are required' };
+      }
+
+      const entry = this.historyService.getById(id);
+      const push = entry && getActivePush(entry);
+      if (!entry || !push) {
+        return { entry, error: 'This review has no push to retract' };
+      }
+
+      await this.githubService.retractPrReview(
+        projectPath,
+        entry.prNumber,
+        push.reviewId,
+        push.commentIds
+      );
+
+      return { entry: this.historyService.markPushRetracted(id, push.reviewId) };
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error retracting review push: ${message}`);
+      return { entry: null, error: message };
+    }
+  }
+
+  // ============================================
+  // Fix handlers
+  // ============================================
+
+  /**
+   * Handle request to apply a finding's suggested fix in a worktree of the
+   * PR branch. Returns the diff for the user to confirm.
+   */
+  @SubscribeMessage(ReviewEvents.FIX_PREPARE)
+  async handleFixPrepare(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: ReviewFixPreparePayload
+  ): Promise<ReviewFixPrepareResponse> {
+    try {
+      const { projectPath, prNumber, finding } = payload;
+
+      if (!projectPath || !prNumber || !finding) {
+        return { error: 'projectPath, prNumber, and finding are required' };
+      }
+
+      return await this.fixService.prepare(projectPath, prNumber, finding);
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error preparing fix: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Handle request to commit a prepared fix and push it to the PR branch.
+   */
+  @SubscribeMessage(ReviewEvents.FIX_COMMIT)
+  async handleFixCommit(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: ReviewFixCommitPayload
+  ): Promise<ReviewFixCommitResponse> {
+    try {
+      const { fixId, message } = payload;
+
+      if (!fixId || !message?.trim()) {
+        return { success: false, error: 'fixId and a commit message are required' };
+      }
+
+      const commitSha = await this.fixService.commit(fixId, message.trim());
+      return { success: true, commitSha };
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error committing fix: ${message}`);
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Handle request to discard a prepared fix.
+   */
+  @SubscribeMessage(ReviewEvents.FIX_DISCARD)
+  async handleFixDiscard(
+    @ConnectedSocket() _client: Socket,
+    @MessageBody() payload: ReviewFixDiscardPayload
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.fixService.discard(payload.fixId);
+      return { success: true };
+    } catch (error) {
+      const message = extractErrorMessage(error, 'Unknown error');
+      this.logger.error(`Error discarding fix: ${message}`);
+      return { success: false, error: message };
+    }
+  }
+
   // ============================================
   // Log handlers
   // ============================================
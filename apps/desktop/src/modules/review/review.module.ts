@@ -1,25 +1,46 @@
 import { Module } from '@nestjs/common';
 import { GitModule } from '../git';
 import { ProviderModule } from '../provider';
+import { BudgetModule } from '../budget';
+import { SettingsModule } from '../settings';
 import { ReviewService } from './review.service';
 import { ReviewGateway } from './review.gateway';
 import { ReviewHistoryService } from './review-history.service';
 import { ReviewLogService } from './review-log.service';
+import { ReviewQueueStoreService } from './review-queue-store.service';
+import { ReviewFileCacheService } from './review-file-cache.service';
+import { ReviewRulesService } from './review-rules.service';
+import { FindingFixService } from './finding-fix.service';
 
 /**
  * NestJS module for PR review.
  *
- * Imports GitModule (for GithubService) and ProviderModule (for ProviderRegistry).
- * Review mode selection (single-agent vs multi-agent) is handled in the provider layer,
- * matching the pattern where ValidationModule does not import SettingsModule.
+ * Imports GitModule (for GithubService, GitWorktreeService, GitCommitService and GitRemoteService),
+ * ProviderModule (for ProviderRegistry),
+ * BudgetModule (for BudgetService),
+ * and SettingsModule (for the review concurrency limit).
+ * Review mode selection (single-agent vs multi-agent) is handled in the provider layer.
  * Provides ReviewService for queue management and agent dispatch,
  * ReviewHistoryService for local persistence via electron-store,
  * ReviewLogService for JSONL file logging,
+ * ReviewQueueStoreService for persisting the queue across restarts,
+ * ReviewFileCacheService for reusing findings of unchanged files in re-reviews,
+ * ReviewRulesService for loading per-repository rules from .gitchorus.yml,
+ * FindingFixService for applying suggested fixes to the PR branch,
  * and ReviewGateway for WebSocket event handling.
  */
 @Module({
-  imports: [GitModule, ProviderModule],
-  providers: [ReviewService, ReviewGateway, ReviewHistoryService, ReviewLogService],
+  imports: [GitModule, ProviderModule, BudgetModule, SettingsModule],
+  providers: [
+    ReviewService,
+    ReviewGateway,
+    ReviewHistoryService,
+    ReviewLogService,
+    ReviewQueueStoreService,
+    ReviewFileCacheService,
+    ReviewRulesService,
+    FindingFixService,
+  ],
   exports: [ReviewService, ReviewHistoryService, ReviewLogService],
 })
 export class ReviewModule {}
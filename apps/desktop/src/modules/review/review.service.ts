@@ -1,17 +1,61 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { createLogger } from '@gitchorus/shared';
+import {
+  createLogger,
+  MAX_QUEUE_CONCURRENCY,
+  PROVIDER_LABELS,
+  REVIEW_RULES_FILE_NAME,
+} from '@gitchorus/shared';
 import type {
   Logger,
+  PromptInjectionSignal,
+  SecretRedaction,
   ValidationStep,
+  ReviewParams,
   ReviewResult,
   ReviewQueueItem,
   ReviewStatus,
+  ReviewHistoryEntry,
+  ReviewRules,
+  WorktreeInfo,
 } from '@gitchorus/shared';
 import { GithubService } from '../git/github.service';
-import { ProviderRegistry } from '../provider/provider.registry';
+import { GitWorktreeService } from '../git/git-worktree.service';
+import { GitCommitService } from '../git/git-commit.service';
+import {
+  MAP_REDUCE_CLUSTER_LINES,
+  clusterDiffSections,
+  countDiffLines,
+  mergeClusterResults,
+  parseDiffSections,
+} from './map-reduce';
+import {
+  ProviderRegistry,
+  type AgentProvider,
+  type ProviderAttempt,
+} from '../provider/provider.registry';
+import { addErrorCost, getErrorCostUsd, isFailoverError } from '../provider/provider-errors';
+import { createRunLogger } from '../provider/run-context';
+import { createDiffLocator, redactSecrets } from '../shared/secret-redaction';
+import {
+  buildPromptInjectionFindings,
+  scanPullRequestForPromptInjection,
+} from '../provider/prompt-injection';
+import { BudgetService, type BudgetReservation } from '../budget';
+import { SettingsService } from '../settings';
+import { WorkerPool } from '../shared/worker-pool';
+import { recoverQueueItems } from '../shared/queue-recovery';
 import { ReviewHistoryService } from './review-history.service';
 import { ReviewLogService } from './review-log.service';
+import { ReviewQueueStoreService } from './review-queue-store.service';
+import { ReviewFileCacheService, type CachedFileReview } from './review-file-cache.service';
+import {
+  buildUnchangedReviewResult,
+  carryForwardFindings,
+  restrictDiffToFiles,
+} from './cached-findings';
+import { ReviewRulesService } from './review-rules.service';
+import { applyForcedSeverities, excludeIgnoredFiles, scopeRulesToFiles } from './review-rules';
 
 /**
  * Internal event names for EventEmitter2 communication
@@ -27,16 +71,28 @@ export const InternalReviewEvents = {
 /**
  * Orchestrates PR review via the AI provider layer.
  *
- * Manages a queue of review requests that process sequentially.
+ * Manages a queue of review requests worked off by a pool of concurrent workers
+ * (Settings → reviewConcurrency). Each running review owns an AbortController,
+ * so cancelling one PR leaves the others running, and logs under its own context.
+ * Each review runs in a temporary git worktree checked out at the PR head, so the
+ * agent reads the PR's files and never touches the user's working copy.
+ * Initial reviews of very large diffs are split into file clusters that are
+ * reviewed one by one and merged (Settings → mapReduceThresholdLines).
+ * Every review caches its findings per file blob SHA; re-reviews carry the
+ * findings of unchanged files forward and only send changed files to the agent.
+ * Rules from the repository's .gitchorus.yml add guidelines and focus notes to the
+ * prompts, leave ignored files out of the diff and force severities per category.
+ * The queue is persisted on every change and restored on startup, so queued
+ * reviews survive quitting the app.
  * Emits events via EventEmitter2 for the gateway to broadcast via WebSocket.
  */
 @Injectable()
-export class ReviewService {
+export class ReviewService implements OnApplicationBootstrap {
   /** Queue of reviews indexed by PR number */
   private reviewQueue = new Map<number, ReviewQueueItem>();
 
-  /** Currently running review PR number */
-  private currentReview: number | null = null;
+  /** Workers running the queued reviews, keyed by PR number */
+  private readonly workers: WorkerPool<number>;
 
   /** Project path for the current session */
   private projectPath: string | null = null;
@@ -55,15 +111,39 @@ export class ReviewService {
     private readonly githubService: GithubService,
     private readonly eventEmitter: EventEmitter2,
     private readonly historyService: ReviewHistoryService,
-    private readonly logService: ReviewLogService
+    private readonly logService: ReviewLogService,
+    private readonly budgetService: BudgetService,
+    private readonly settingsService: SettingsService,
+    private readonly queueStore: ReviewQueueStoreService,
+    private readonly worktreeService: GitWorktreeService,
+    private readonly commitService: GitCommitService,
+    private readonly fileCache: ReviewFileCacheService,
+    private readonly rulesService: ReviewRulesService
   ) {
     this.fileTransport = this.logService.getLogTransport();
     this.logger = createLogger('ReviewService', { fileTransport: this.fileTransport });
+    this.workers = new WorkerPool<number>({
+      concurrency: () =>
+        Math.min(this.settingsService.getConfig().reviewConcurrency, MAX_QUEUE_CONCURRENCY),
+      next: () => this.nextQueuedReview(),
+      // nextQueuedReview only hands out work once a project path is set
+      run: (prNumber, signal) => this.runReview(prNumber, this.projectPath as string, signal),
+      onError: (prNumber, error) =>
+        this.logger.error(`Unexpected error in review worker for PR #${prNumber}:`, error),
+    });
+  }
+
+  /**
+   * Restore the queue persisted before the app last quit and resume processing.
+   * Runs after all modules are initialized so the providers are registered.
+   */
+  onApplicationBootstrap(): void {
+    this.restoreQueue();
   }
 
   /**
    * Queue a review for the given PR number.
-   * If nothing is currently running, starts processing immediately.
+   * Starts right away if a worker is free.
    */
   queueReview(prNumber: number, projectPath: string): void {
     this.projectPath = projectPath;
@@ -85,10 +165,7 @@ export class ReviewService {
     this.logger.info(`Queued review for PR #${prNumber}`);
     this.emitQueueUpdate();
 
-    // If nothing is running, start processing
-    if (this.currentReview === null) {
-      this.processQueue();
-    }
+    this.workers.drain();
   }
 
   /**
@@ -107,7 +184,7 @@ export class ReviewService {
   }
 
   /**
-   * Cancel a review. If running, aborts via the provider's cancel method.
+   * Cancel a review. If running, aborts that review's worker only.
    * If queued, removes from queue.
    */
   cancelReview(prNumber: number): void {
@@ -116,12 +193,10 @@ export class ReviewService {
 
     if (item.status === 'running') {
       this.logger.info(`Cancelling running review for PR #${prNumber}`);
-      const provider = this.providerRegistry.getClaude();
-      if (provider) {
-        provider.cancel();
-      }
+      this.workers.abort(prNumber);
     } else if (item.status === 'queued') {
       this.logger.info(`Removing queued review for PR #${prNumber}`);
+      this.reReviewContext.delete(prNumber);
       this.updateQueueItem(prNumber, {
         status: 'cancelled',
         completedAt: new Date().toISOString(),
@@ -139,35 +214,30 @@ export class ReviewService {
   }
 
   /**
-   * Process the next item in the queue.
+   * Pick the oldest queued review that no worker has started yet.
    */
-  private async processQueue(): Promise<void> {
-    // Find the next queued item
-    const nextItem = Array.from(this.reviewQueue.values()).find(item => item.status === 'queued');
-
-    if (!nextItem || !this.projectPath) {
-      this.currentReview = null;
-      return;
-    }
-
-    this.currentReview = nextItem.prNumber;
-
-    try {
-      await this.runReview(nextItem.prNumber, this.projectPath);
-    } catch (error) {
-      this.logger.error(`Unexpected error in processQueue for PR #${nextItem.prNumber}:`, error);
-    }
-
-    // Process next item in queue
-    this.currentReview = null;
-    this.processQueue();
+  private nextQueuedReview(): number | undefined {
+    if (!this.projectPath) return undefined;
+    return Array.from(this.reviewQueue.values()).find(
+      item => item.status === 'queued' && !this.workers.has(item.prNumber)
+    )?.prNumber;
   }
 
   /**
    * Run a single review using the AI provider.
+   * The signal aborts when the review is cancelled.
    */
-  private async runReview(prNumber: number, projectPath: string): Promise<void> {
+  private async runReview(
+    prNumber: number,
+    projectPath: string,
+    signal: AbortSignal
+  ): Promise<void> {
     const startTime = Date.now();
+    const logContext = `PR #${prNumber}`;
+    const logger = createRunLogger('ReviewService', {
+      fileTransport: this.fileTransport,
+      logContext,
+    });
 
     // Update status to running
     this.updateQueueItem(prNumber, {
@@ -176,6 +246,11 @@ export class ReviewService {
     });
     this.emitQueueUpdate();
 
+    // Temporary checkout of the PR head, removed once the review ends
+    let worktree: WorktreeInfo | null = null;
+    // Share of the repository's budget held while the review runs
+    let reservation: BudgetReservation | null = null;
+
     try {
       // Fetch PR details
       const pr = await this.githubService.getPullRequest(projectPath, prNumber);
@@ -193,18 +268,21 @@ export class ReviewService {
       const repoInfo = await this.githubService.getRepoInfo(projectPath);
       const repoName = repoInfo?.fullName || 'unknown/unknown';
 
+      // Refuses to start once the repository's monthly budget is used up
+      reservation = this.budgetService.reserve(repoName);
+
       // Fetch HEAD commit SHA for chain tracking
       let headCommitSha: string | undefined;
       try {
         headCommitSha = await this.githubService.getPrHeadSha(projectPath, prNumber);
       } catch (error) {
-        this.logger.warn(`Failed to get HEAD SHA for PR #${prNumber}:`, error);
+        logger.warn(`Failed to get HEAD SHA for PR #${prNumber}:`, error);
       }
 
-      // Get the Claude provider
-      const provider = this.providerRegistry.getClaude();
-      if (!provider) {
-        throw new Error('Claude provider is not available');
+      // Configured review provider first, then the fallback chain
+      const chain = this.providerRegistry.getChainForTask('review');
+      if (!chain[0].provider) {
+        throw new Error(`${PROVIDER_LABELS[chain[0].type]} provider is not available`);
       }
 
       // Build review params — enriched with re-review context if available
@@ -218,11 +296,14 @@ export class ReviewService {
         baseBranch: pr.baseRefName,
         repoPath: projectPath,
         repoName,
+        config: { type: chain[0].type, maxBudgetUsd: reservation.maxBudgetUsd },
         fileTransport: this.fileTransport,
+        logContext,
+        signal,
       };
 
       // Lookup previous entry once — reused later for result enrichment
-      let previousEntry: import('@gitchorus/shared').ReviewHistoryEntry | null = null;
+      let previousEntry: ReviewHistoryEntry | null = null;
 
       if (previousReviewId) {
         previousEntry = this.historyService.getById(previousReviewId);
@@ -239,51 +320,92 @@ export class ReviewService {
                 previousEntry.headCommitSha,
                 headCommitSha
               );
-              this.logger.info(
+              logger.info(
                 `Got incremental diff for PR #${prNumber}: ${previousEntry.headCommitSha.slice(0, 7)}..${headCommitSha.slice(0, 7)}`
               );
             } catch (error) {
-              this.logger.warn(
+              logger.warn(
                 `Failed to get incremental diff for PR #${prNumber}, will use full diff only:`,
                 error
               );
             }
           }
         } else {
-          this.logger.warn(
+          logger.warn(
             `Previous review ${previousReviewId} not found in history, running as initial review`
           );
         }
-
-        // Clean up re-review context
-        this.reReviewContext.delete(prNumber);
       }
 
-      // Provider handles single-agent vs multi-agent mode selection internally
-      const generator = provider.reviewAuto(reviewParams);
+      // Nothing the PR contains is sent to the provider before secrets are masked
+      const redactions = this.redactReviewParams(prNumber, reviewParams, logger);
 
-      let result: ReviewResult | undefined;
+      // Cancelled while fetching PR data
+      if (signal.aborted) {
+        throw new Error('Review cancelled by user');
+      }
 
-      // Iterate over the async generator
-      while (true) {
-        const { value, done } = await generator.next();
+      worktree = await this.createReviewWorktree(prNumber, projectPath, headCommitSha, logger);
+      if (worktree) {
+        reviewParams.repoPath = worktree.path;
+      }
 
-        if (done) {
-          result = value as ReviewResult;
-          break;
-        }
+      // Repository rules: ignored files never reach the agent or the review cache
+      const rules = await this.loadReviewRules(prNumber, projectPath, pr.baseRefName, logger);
+      const ignoredFiles = rules ? this.useReviewRules(prNumber, reviewParams, rules, logger) : [];
 
-        // value is a ValidationStep -- emit progress
-        const step = value as ValidationStep;
-        this.eventEmitter.emit(InternalReviewEvents.PROGRESS, {
-          prNumber,
-          step,
-        });
+      // Blob SHAs of the changed files at the PR head, keys of the per-file review cache
+      const changedFiles = parseDiffSections(reviewParams.diff).map(section => section.file.path);
+      if (changedFiles.length === 0 && ignoredFiles.length > 0) {
+        throw new Error(
+          `Every changed file of PR #${prNumber} is ignored by ${REVIEW_RULES_FILE_NAME}, nothing to review`
+        );
       }
+      const fileBlobs = await this.getFileBlobShas(
+        prNumber,
+        projectPath,
+        headCommitSha,
+        changedFiles,
+        logger
+      );
+
+      // Re-reviews reuse the findings of files whose content has not changed
+      const cached =
+        reviewParams.isReReview && previousEntry
+          ? this.fileCache.lookup(repoName, fileBlobs)
+          : new Map<string, CachedFileReview>();
+      if (previousEntry && cached.size > 0) {
+        this.useCachedFiles(prNumber, reviewParams, previousEntry, changedFiles, cached, logger);
+      }
+
+      const promptInjection = this.scanForPromptInjection(prNumber, reviewParams, logger);
 
-      if (!result) {
-        throw new Error('Review completed without producing a result');
+      let result: ReviewResult;
+      if (previousEntry && cached.size > 0 && cached.size === changedFiles.length) {
+        result = buildUnchangedReviewResult(reviewParams, previousEntry);
+      } else if (this.shouldMapReduce(reviewParams)) {
+        result = await this.runMapReduceReview(prNumber, chain, reviewParams, logger);
+      } else {
+        result = await this.runProviderChain(prNumber, chain, reviewParams, logger);
+      }
+      if (cached.size > 0) {
+        result = carryForwardFindings(result, cached);
+      }
+      if (rules) {
+        result = applyForcedSeverities(result, rules);
+      }
+      // Added after the repository rules, which the PR itself could change
+      if (promptInjection.length > 0) {
+        result.promptInjection = promptInjection;
+        result.findings = [...buildPromptInjectionFindings(promptInjection), ...result.findings];
+      }
+      if (redactions.length > 0 || result.redactions) {
+        result.redactions = [...redactions, ...(result.redactions ?? [])];
       }
+      if (ignoredFiles.length > 0) {
+        result.ignoredFiles = ignoredFiles;
+      }
+      this.fileCache.saveFiles(repoName, fileBlobs, result.findings, result.reviewedAt);
 
       // Enrich result with chain metadata
       if (headCommitSha) {
@@ -296,7 +418,7 @@ export class ReviewService {
         result.reviewSequence = (previousEntry.reviewSequence || 1) + 1;
       } else {
         if (previousReviewId) {
-          this.logger.warn(
+          logger.warn(
             `Previous review ${previousReviewId} not found during enrichment, treating as initial`
           );
         }
@@ -305,6 +427,7 @@ export class ReviewService {
 
       // Save to history for local persistence
       this.historyService.save(result);
+      this.budgetService.recordRun(repoName, 'review', result.costUsd);
 
       // Update queue item with result
       this.updateQueueItem(prNumber, {
@@ -324,15 +447,19 @@ export class ReviewService {
       const isCancelled = errorMessage.includes('cancelled') || errorMessage.includes('aborted');
 
       // Log full error to file logger for post-mortem debugging
-      this.logger.error(
-        `Review failed for PR #${prNumber} (duration=${durationMs}ms): ${errorMessage}`
-      );
+      logger.error(`Review failed for PR #${prNumber} (duration=${durationMs}ms): ${errorMessage}`);
       if (error instanceof Error && error.stack) {
-        this.logger.debug(`Stack trace: ${error.stack}`);
+        logger.debug(`Stack trace: ${error.stack}`);
       }
 
       const status: ReviewStatus = isCancelled ? 'cancelled' : 'failed';
 
+      // What a failed run spent counts towards the budget too
+      const costUsd = getErrorCostUsd(error);
+      if (reservation && costUsd > 0) {
+        this.budgetService.recordRun(reservation.repositoryFullName, 'review', costUsd);
+      }
+
       this.updateQueueItem(prNumber, {
         status,
         error: errorMessage,
@@ -344,10 +471,461 @@ export class ReviewService {
         error: errorMessage,
       });
     } finally {
+      if (reservation) {
+        this.budgetService.release(reservation);
+      }
+      if (worktree) {
+        await this.removeReviewWorktree(projectPath, worktree, logger);
+      }
+      // Kept until the review ends so a review interrupted by a restart resumes as a re-review
+      this.reReviewContext.delete(prNumber);
       this.emitQueueUpdate();
     }
   }
 
+  /**
+   * Check out the PR head in a temporary worktree for the agent to explore.
+   *
+   * Returns null when that is not possible (unknown head SHA, commit cannot be
+   * fetched); the review then runs in the project checkout and says so in its progress.
+   */
+  private async createReviewWorktree(
+    prNumber: number,
+    projectPath: string,
+    headCommitSha: string | undefined,
+    logger: Logger
+  ): Promise<WorktreeInfo | null> {
+    let reason = 'the PR head commit is unknown';
+
+    if (headCommitSha) {
+      try {
+        return await this.worktreeService.createPrWorktree(projectPath, prNumber, headCommitSha);
+      } catch (error) {
+        reason = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    logger.warn(`Could not create a worktree for PR #${prNumber}: ${reason}`);
+    const step: ValidationStep = {
+      step: 'worktree-fallback',
+      stepType: 'init',
+      message: `Could not check out the PR head (${reason}). Reviewing the current checkout instead, so files outside the diff may not match the PR.`,
+      timestamp: new Date().toISOString(),
+    };
+    this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+    return null;
+  }
+
+  /**
+   * Remove a review worktree. Failures are logged, never thrown, so cleanup
+   * cannot turn a finished review into a failed one.
+   */
+  private async removeReviewWorktree(
+    projectPath: string,
+    worktree: WorktreeInfo,
+    logger: Logger
+  ): Promise<void> {
+    try {
+      await this.worktreeService.removeWorktree(projectPath, worktree.path);
+    } catch (error) {
+      logger.warn(`Failed to remove worktree ${worktree.path}:`, error);
+    }
+  }
+
+  /**
+   * Run the review on each provider of the chain in turn until one succeeds.
+   *
+   * Failures a different provider or model may avoid (auth, usage limits, running
+   * out of turns) move on to the next entry; any other error ends the chain.
+   * The result reports the providerType/model that actually produced it, and its
+   * cost includes what the failed attempts spent.
+   */
+  private async runProviderChain(
+    prNumber: number,
+    chain: ProviderAttempt[],
+    reviewParams: ReviewParams,
+    logger: Logger
+  ): Promise<ReviewResult> {
+    const maxBudgetUsd = reviewParams.config?.maxBudgetUsd;
+    let failedCostUsd = 0;
+
+    for (let index = 0; index < chain.length; index++) {
+      const { type, model, provider } = chain[index];
+      const label = this.describeAttempt(chain[index]);
+      const next = chain[index + 1];
+
+      try {
+        if (!provider) {
+          throw new Error(`${PROVIDER_LABELS[type]} provider is not available`);
+        }
+
+        const result = await this.runProvider(prNumber, provider, {
+          ...reviewParams,
+          config: {
+            ...reviewParams.config,
+            type,
+            model,
+            // Failed attempts' spend comes out of the budget of the next one
+            maxBudgetUsd:
+              maxBudgetUsd !== undefined ? Math.max(maxBudgetUsd - failedCostUsd, 0) : undefined,
+          },
+        });
+        result.costUsd += failedCostUsd;
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        // An unregistered fallback is skipped; a provider error only fails over when it qualifies
+        if (!next || (provider && !isFailoverError(errorMessage))) {
+          throw addErrorCost(error, failedCostUsd);
+        }
+        failedCostUsd += getErrorCostUsd(error);
+
+        const nextLabel = this.describeAttempt(next);
+        logger.warn(
+          `${label} failed for PR #${prNumber}, falling back to ${nextLabel}: ${errorMessage}`
+        );
+        const step: ValidationStep = {
+          step: 'provider-fallback',
+          stepType: 'init',
+          message: `${label} failed: ${errorMessage}. Retrying with ${nextLabel}...`,
+          timestamp: new Date().toISOString(),
+        };
+        this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+      }
+    }
+
+    throw new Error('Review completed without producing a result');
+  }
+
+  /**
+   * Load the repository's .gitchorus.yml from the PR's base branch.
+   * Returns null when there is none; an invalid file is reported in the
+   * review's progress and the review runs without rules.
+   */
+  private async loadReviewRules(
+    prNumber: number,
+    projectPath: string,
+    baseBranch: string,
+    logger: Logger
+  ): Promise<ReviewRules | null> {
+    try {
+      return await this.rulesService.load(projectPath, baseBranch);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Ignoring review rules for PR #${prNumber}: ${message}`);
+
+      const step: ValidationStep = {
+        step: 'review-rules-invalid',
+        stepType: 'init',
+        message: `Ignoring ${REVIEW_RULES_FILE_NAME}: ${message}`,
+        timestamp: new Date().toISOString(),
+      };
+      this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+      return null;
+    }
+  }
+
+  /**
+   * Apply the repository rules to the review params: ignored files are removed
+   * from the diffs and the rules, with focus notes limited to the remaining
+   * files, are passed to the provider for its prompts.
+   * @returns The changed files left out of the review
+   */
+  private useReviewRules(
+    prNumber: number,
+    reviewParams: ReviewParams,
+    rules: ReviewRules,
+    logger: Logger
+  ): string[] {
+    const { diff, ignoredFiles } = excludeIgnoredFiles(reviewParams.diff, rules.ignore);
+    reviewParams.diff = diff;
+    if (reviewParams.incrementalDiff) {
+      reviewParams.incrementalDiff = excludeIgnoredFiles(
+        reviewParams.incrementalDiff,
+        rules.ignore
+      ).diff;
+    }
+
+    const files = parseDiffSections(diff).map(section => section.file.path);
+    reviewParams.rules = scopeRulesToFiles(rules, files);
+    logger.info(
+      `Applying ${REVIEW_RULES_FILE_NAME} to PR #${prNumber}: ${ignoredFiles.length} file(s) ignored, ${reviewParams.rules.focus.length} focus note(s)`
+    );
+
+    const step: ValidationStep = {
+      step: 'review-rules',
+      stepType: 'init',
+      message:
+        ignoredFiles.length > 0
+          ? `Applying ${REVIEW_RULES_FILE_NAME}; ignoring ${ignoredFiles.length} file(s)`
+          : `Applying ${REVIEW_RULES_FILE_NAME}`,
+      timestamp: new Date().toISOString(),
+    };
+    this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+    return ignoredFiles;
+  }
+
+  /**
+   * Mask secrets in the PR title, description and diffs before any of them
+   * reaches the provider. Each masked secret is reported in the review's
+   * progress and kept for the result.
+   */
+  private redactReviewParams(
+    prNumber: number,
+    reviewParams: ReviewParams,
+    logger: Logger
+  ): SecretRedaction[] {
+    const title = redactSecrets(reviewParams.prTitle, 'pr-title');
+    const body = redactSecrets(reviewParams.prBody ?? '', 'pr-description');
+    const diff = redactSecrets(reviewParams.diff, 'diff', createDiffLocator(reviewParams.diff));
+    const incremental = reviewParams.incrementalDiff
+      ? redactSecrets(
+          reviewParams.incrementalDiff,
+          'diff',
+          createDiffLocator(reviewParams.incrementalDiff)
+        )
+      : null;
+
+    const redactions = [
+      ...title.redactions,
+      ...body.redactions,
+      ...diff.redactions,
+      ...(incremental?.redactions ?? []),
+    ];
+    if (redactions.length === 0) return redactions;
+
+    reviewParams.prTitle = title.text;
+    if (reviewParams.prBody) reviewParams.prBody = body.text;
+    reviewParams.diff = diff.text;
+    if (incremental) reviewParams.incrementalDiff = incremental.text;
+
+    logger.warn(
+      `Masked ${redactions.length} secret(s) in PR #${prNumber}: ${redactions.map(redaction => `${redaction.kind} (${redaction.file ?? redaction.source})`).join(', ')}`
+    );
+    const step: ValidationStep = {
+      step: 'secret-redaction',
+      stepType: 'init',
+      message: `Masked ${redactions.length} secret(s) before sending the PR to the provider`,
+      timestamp: new Date().toISOString(),
+    };
+    this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+    return redactions;
+  }
+
+  /**
+   * Pre-scan the PR text and the diff about to be sent for attempts to
+   * instruct the agent. Suspected attempts are pointed out in the prompt and
+   * reported in the review's progress.
+   */
+  private scanForPromptInjection(
+    prNumber: number,
+    reviewParams: ReviewParams,
+    logger: Logger
+  ): PromptInjectionSignal[] {
+    const signals = scanPullRequestForPromptInjection(reviewParams);
+    if (signals.length === 0) return signals;
+
+    reviewParams.promptInjection = signals;
+    logger.warn(
+      `Suspected prompt injection in PR #${prNumber}: ${signals.map(signal => `${signal.rule} (${signal.file ?? signal.source})`).join(', ')}`
+    );
+
+    const step: ValidationStep = {
+      step: 'prompt-injection',
+      stepType: 'init',
+      message: `Suspected prompt injection in ${signals.length} place(s); the agent was told not to follow it`,
+      timestamp: new Date().toISOString(),
+    };
+    this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+    return signals;
+  }
+
+  /**
+   * Read the blob SHAs of the changed files at the PR head.
+   * Returns an empty map (no caching) when the head is unknown or git fails.
+   */
+  private async getFileBlobShas(
+    prNumber: number,
+    projectPath: string,
+    headCommitSha: string | undefined,
+    files: string[],
+    logger: Logger
+  ): Promise<Map<string, string>> {
+    if (!headCommitSha || files.length === 0) return new Map();
+
+    try {
+      return await this.commitService.getBlobShas(projectPath, headCommitSha, files);
+    } catch (error) {
+      logger.warn(
+        `Failed to read blob SHAs for PR #${prNumber}, skipping the review cache:`,
+        error
+      );
+      return new Map();
+    }
+  }
+
+  /**
+   * Point a re-review at the changed files only: unchanged files are left out of
+   * the diff and of the previous findings the agent has to re-check.
+   */
+  private useCachedFiles(
+    prNumber: number,
+    reviewParams: ReviewParams,
+    previousEntry: ReviewHistoryEntry,
+    changedFiles: string[],
+    cached: Map<string, CachedFileReview>,
+    logger: Logger
+  ): void {
+    const remaining = changedFiles.filter(file => !cached.has(file));
+    logger.info(
+      `Reusing cached findings of ${cached.size} unchanged file(s) for PR #${prNumber}, re-reviewing ${remaining.length}`
+    );
+
+    reviewParams.diff = restrictDiffToFiles(reviewParams.diff, new Set(remaining));
+    reviewParams.cachedFiles = Array.from(cached.keys());
+    reviewParams.previousReview = {
+      ...previousEntry,
+      findings: previousEntry.findings.filter(finding => !cached.has(finding.file)),
+    };
+
+    const step: ValidationStep = {
+      step: 'review-cache',
+      stepType: 'init',
+      message:
+        remaining.length > 0
+          ? `Reusing findings for ${cached.size} unchanged file(s); re-reviewing ${remaining.length} changed file(s)`
+          : `All ${cached.size} file(s) are unchanged since the last review; reusing their findings`,
+      timestamp: new Date().toISOString(),
+    };
+    this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+  }
+
+  /**
+   * Whether the diff is large enough to be reviewed in clusters.
+   * Re-reviews are never split: they focus on the incremental diff.
+   */
+  private shouldMapReduce(reviewParams: ReviewParams): boolean {
+    const threshold = this.settingsService.getConfig().mapReduceThresholdLines;
+    return (
+      !reviewParams.isReReview && threshold > 0 && countDiffLines(reviewParams.diff) > threshold
+    );
+  }
+
+  /**
+   * Review a large diff in clusters of related files, one provider chain run
+   * per cluster, and merge the partial results into one ReviewResult.
+   * Clusters run one after another so a PR never takes more than one worker.
+   */
+  private async runMapReduceReview(
+    prNumber: number,
+    chain: ProviderAttempt[],
+    reviewParams: ReviewParams,
+    logger: Logger
+  ): Promise<ReviewResult> {
+    const startTime = Date.now();
+    const clusters = clusterDiffSections(
+      parseDiffSections(reviewParams.diff),
+      MAP_REDUCE_CLUSTER_LINES
+    );
+    if (clusters.length < 2) {
+      return this.runProviderChain(prNumber, chain, reviewParams, logger);
+    }
+
+    logger.info(
+      `Splitting the ${countDiffLines(reviewParams.diff)}-line diff of PR #${prNumber} into ${clusters.length} clusters`
+    );
+
+    const allFiles = clusters.flatMap(cluster => cluster.files);
+    const { config } = reviewParams;
+    const maxBudgetUsd = config?.maxBudgetUsd;
+    const results: ReviewResult[] = [];
+    let spentUsd = 0;
+
+    for (const [index, cluster] of clusters.entries()) {
+      if (reviewParams.signal?.aborted) {
+        throw new Error('Review cancelled by user');
+      }
+
+      const step: ValidationStep = {
+        step: 'cluster',
+        stepType: 'analyzing',
+        message: `Reviewing part ${index + 1} of ${clusters.length}: ${cluster.files.length} file(s), ${cluster.diffLines} diff lines`,
+        timestamp: new Date().toISOString(),
+      };
+      this.eventEmitter.emit(InternalReviewEvents.PROGRESS, { prNumber, step });
+
+      let result: ReviewResult;
+      try {
+        result = await this.runProviderChain(
+          prNumber,
+          chain,
+          {
+            ...reviewParams,
+            diff: cluster.diff,
+            diffCluster: {
+              index: index + 1,
+              total: clusters.length,
+              files: cluster.files,
+              otherFiles: allFiles.filter(file => !cluster.files.includes(file)),
+            },
+            // Earlier clusters' spend comes out of the remaining budget
+            config: config && {
+              ...config,
+              maxBudgetUsd:
+                maxBudgetUsd !== undefined ? Math.max(maxBudgetUsd - spentUsd, 0) : undefined,
+            },
+          },
+          logger
+        );
+      } catch (error) {
+        // Earlier clusters' spend is lost with the review, so it is reported with the error
+        throw addErrorCost(error, spentUsd);
+      }
+      spentUsd += result.costUsd;
+      results.push(result);
+    }
+
+    return mergeClusterResults(results, clusters, startTime);
+  }
+
+  /**
+   * Human-readable label for a chain entry, e.g. "Claude (claude-opus-4-6)".
+   */
+  private describeAttempt({ type, model }: ProviderAttempt): string {
+    return model ? `${PROVIDER_LABELS[type]} (${model})` : PROVIDER_LABELS[type];
+  }
+
+  /**
+   * Run the review on a single provider, forwarding its progress steps.
+   */
+  private async runProvider(
+    prNumber: number,
+    provider: AgentProvider,
+    reviewParams: ReviewParams
+  ): Promise<ReviewResult> {
+    // Provider handles single-agent vs multi-agent mode selection internally
+    const generator = provider.reviewAuto(reviewParams);
+
+    // Iterate over the async generator
+    while (true) {
+      const { value, done } = await generator.next();
+
+      if (done) {
+        if (!value) {
+          throw new Error('Review completed without producing a result');
+        }
+        return value as ReviewResult;
+      }
+
+      // value is a ValidationStep -- emit progress
+      const step = value as ValidationStep;
+      this.eventEmitter.emit(InternalReviewEvents.PROGRESS, {
+        prNumber,
+        step,
+      });
+    }
+  }
+
   /**
    * Update a queue item's fields.
    */
@@ -359,9 +937,46 @@ export class ReviewService {
   }
 
   /**
-   * Emit queue state update via EventEmitter2.
+   * Restore persisted queue items. Reviews that were running when the app quit
+   * are re-queued or failed depending on the resumeInterruptedRuns setting.
+   */
+  private restoreQueue(): void {
+    const saved = this.queueStore.load();
+    const items = recoverQueueItems(
+      saved.items,
+      this.settingsService.getConfig().resumeInterruptedRuns,
+      'review'
+    );
+    if (items.length === 0) return;
+
+    this.projectPath = saved.projectPath;
+    for (const item of items) {
+      this.reviewQueue.set(item.prNumber, item);
+      const previousReviewId = saved.reReviewContext[item.prNumber];
+      if (previousReviewId && item.status === 'queued') {
+        this.reReviewContext.set(item.prNumber, previousReviewId);
+      }
+    }
+
+    const failed = items.filter(item => item.status === 'failed').length;
+    this.logger.info(
+      `Restored ${items.length - failed} queued review(s)` +
+        (failed > 0 ? `, ${failed} interrupted review(s) marked failed` : '')
+    );
+
+    this.emitQueueUpdate();
+    this.workers.drain();
+  }
+
+  /**
+   * Persist the queue and emit its state via EventEmitter2.
    */
   private emitQueueUpdate(): void {
+    this.queueStore.save({
+      projectPath: this.projectPath,
+      items: this.getQueue(),
+      reReviewContext: Object.fromEntries(this.reReviewContext),
+    });
     this.eventEmitter.emit(InternalReviewEvents.QUEUE_UPDATE, {
       queue: this.getQueue(),
     });
@@ -4,6 +4,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { createLogger } from '@gitchorus/shared';
 import type { LogEntry, Logger } from '@gitchorus/shared';
+import { maskSecrets, maskSecretValues } from './secret-redaction';
 
 /** Maximum number of daily log files to retain */
 const MAX_LOG_DAYS = 7;
@@ -15,6 +16,18 @@ function getTodayDate(): string {
   return new Date().toISOString().split('T')[0];
 }
 
+/**
+ * Mask the secrets of a JSONL log line value by value, then serialize it again.
+ * Lines that are not JSON are masked as plain text.
+ */
+function maskLogLine(line: string): string {
+  try {
+    return JSON.stringify(maskSecretValues(JSON.parse(line))) + '\n';
+  } catch {
+    return maskSecrets(line);
+  }
+}
+
 /**
  * Abstract base class for file-based JSONL log services.
  *
@@ -63,13 +76,14 @@ export abstract class BaseLogService implements OnModuleDestroy {
 
   /**
    * Get a file transport function compatible with createLogger({ fileTransport }).
-   * The transport writes JSONL-formatted messages to the current day's log file.
+   * The transport writes JSONL-formatted messages to the current day's log file,
+   * with secrets (API keys, tokens, private keys) masked in each value of the entry.
    */
   getLogTransport(): (message: string) => void {
     return (message: string) => {
       this.ensureCurrentStream();
       if (this.writeStream) {
-        this.writeStream.write(message);
+        this.writeStream.write(maskLogLine(message));
       }
     };
   }
@@ -0,0 +1,64 @@
+import Store from 'electron-store';
+import { createLogger } from '@gitchorus/shared';
+import type { Logger } from '@gitchorus/shared';
+import { isPendingQueueItem, type RecoverableQueueItem } from './queue-recovery';
+
+/**
+ * Queue state persisted across app restarts.
+ */
+export interface PersistedQueue<T extends RecoverableQueueItem> {
+  /** Project path the queue runs against */
+  projectPath: string | null;
+  /** Queued and running items (finished items are not persisted) */
+  items: T[];
+}
+
+/**
+ * Abstract base class for persisting a review/validation queue in electron-store.
+ *
+ * Only pending (queued or running) items are written, so the stored queue stays small.
+ * Concrete subclasses call `super(storeKey, emptyState)` and may extend the
+ * persisted state with queue-specific fields.
+ */
+export abstract class BaseQueueStoreService<
+  T extends RecoverableQueueItem,
+  S extends PersistedQueue<T> = PersistedQueue<T>,
+> {
+  private readonly store: Store;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly storeKey: string,
+    private readonly emptyState: S
+  ) {
+    this.store = new Store();
+    this.logger = createLogger(`${storeKey.charAt(0).toUpperCase() + storeKey.slice(1)}Store`);
+  }
+
+  /**
+   * Load the persisted queue, or an empty one if nothing was stored or it is unreadable.
+   */
+  load(): S {
+    try {
+      const stored = this.store.get(this.storeKey) as Partial<S> | undefined;
+      if (!stored || typeof stored !== 'object' || !Array.isArray(stored.items)) {
+        return { ...this.emptyState };
+      }
+      return { ...this.emptyState, ...stored };
+    } catch (error) {
+      this.logger.error('Failed to read persisted queue:', error);
+      return { ...this.emptyState };
+    }
+  }
+
+  /**
+   * Persist the queue's pending items. Finished items are dropped; history keeps their results.
+   */
+  save(state: S): void {
+    try {
+      this.store.set(this.storeKey, { ...state, items: state.items.filter(isPendingQueueItem) });
+    } catch (error) {
+      this.logger.error('Failed to persist queue:', error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { MAX_QUEUE_RESUMES, recoverQueueItems, type RecoverableQueueItem } from './queue-recovery';
+
+interface Item extends RecoverableQueueItem {
+  prNumber: number;
+  queuedAt: string;
+}
+
+function makeItem(overrides: Partial<Item> = {}): Item {
+  return { prNumber: 42, status: 'queued', queuedAt: '2026-01-01T10:00:00.000Z', ...overrides };
+}
+
+const now = new Date('2026-01-01T12:00:00.000Z');
+
+describe('recoverQueueItems', () => {
+  it('should keep queued items and drop finished ones', () => {
+    const items = [
+      makeItem({ prNumber: 1 }),
+      makeItem({ prNumber: 2, status: 'completed' }),
+      makeItem({ prNumber: 3, status: 'failed' }),
+      makeItem({ prNumber: 4, status: 'cancelled' }),
+    ];
+
+    expect(recoverQueueItems(items, true, 'review', now)).toEqual([items[0]]);
+  });
+
+  it('should re-queue interrupted running items when resuming', () => {
+    const [item] = recoverQueueItems(
+      [makeItem({ status: 'running', startedAt: '2026-01-01T11:00:00.000Z' })],
+      true,
+      'review',
+      now
+    );
+
+    expect(item).toEqual(
+      expect.objectContaining({ status: 'queued', startedAt: undefined, resumeCount: 1 })
+    );
+  });
+
+  it('should fail items interrupted more than MAX_QUEUE_RESUMES times', () => {
+    const [item] = recoverQueueItems(
+      [makeItem({ status: 'running', resumeCount: MAX_QUEUE_RESUMES })],
+      true,
+      'review',
+      now
+    );
+
+    expect(item.status).toBe('failed');
+    expect(item.error).toContain('interrupted by an app restart again');
+    expect(item.completedAt).toBe(now.toISOString());
+  });
+
+  it('should fail interrupted items with a clear reason when resuming is off', () => {
+    const [item] = recoverQueueItems([makeItem({ status: 'running' })], false, 'validation', now);
+
+    expect(item.status).toBe('failed');
+    expect(item.error).toBe(
+      'The validation was interrupted because GitChorus quit before it finished. Start it again to retry.'
+    );
+  });
+});
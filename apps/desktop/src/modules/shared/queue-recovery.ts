@@ -0,0 +1,62 @@
+/**
+ * Queue Recovery
+ *
+ * Decides what happens to persisted review/validation queue items when the app
+ * starts again. Queued items are restored as-is. Items that were running when the
+ * app quit are re-queued (or marked failed when resuming is disabled), and an item
+ * that keeps getting interrupted is failed instead of retried forever.
+ * Finished items are not restored; their results live in history.
+ *
+ * Extracted to a separate file to avoid importing electron-store in test environments.
+ */
+
+/** The queue item fields recovery reads and writes */
+export interface RecoverableQueueItem {
+  status: 'idle' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  resumeCount?: number;
+}
+
+/** How many times an interrupted item is re-queued before it is failed */
+export const MAX_QUEUE_RESUMES = 1;
+
+/**
+ * Whether an item still has work left and belongs in the persisted queue.
+ */
+export function isPendingQueueItem(item: RecoverableQueueItem): boolean {
+  return item.status === 'queued' || item.status === 'running';
+}
+
+/**
+ * Restore persisted queue items after a restart.
+ *
+ * @param items - Items as persisted before the app quit
+ * @param resume - Re-queue interrupted running items instead of failing them
+ * @param noun - What the queue runs ("review", "validation"), used in failure reasons
+ */
+export function recoverQueueItems<T extends RecoverableQueueItem>(
+  items: T[],
+  resume: boolean,
+  noun: string,
+  now: Date = new Date()
+): T[] {
+  return items.filter(isPendingQueueItem).map(item => {
+    if (item.status === 'queued') return item;
+
+    const resumeCount = item.resumeCount ?? 0;
+    if (resume && resumeCount < MAX_QUEUE_RESUMES) {
+      return { ...item, status: 'queued', startedAt: undefined, resumeCount: resumeCount + 1 };
+    }
+
+    return {
+      ...item,
+      status: 'failed',
+      error: resume
+        ? `The ${noun} was interrupted by an app restart again and was not retried. Start it again to retry.`
+        : `The ${noun} was interrupted because GitChorus quit before it finished. Start it again to retry.`,
+      completedAt: now.toISOString(),
+    };
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * Secret Redaction
+ *
+ * Masks credentials before content leaves the machine or reaches a log file:
+ * PR and issue text, diffs and files read by the local provider's tools are
+ * redacted before they are sent to a provider, and the values of every line
+ * written by BaseLogService are redacted before they are serialized.
+ *
+ * Each secret is replaced by a `[REDACTED:<kind>]` placeholder. For assignments
+ * and connection strings only the value is replaced, so the agent still sees
+ * which variable or host the secret belonged to.
+ */
+
+import type { RedactionSource, SecretKind, SecretRedaction } from '@gitchorus/shared';
+
+/**
+ * A secret format. When `keepPrefix` is set, the first capture group is part
+ * of the match for context only and is left in place.
+ */
+interface SecretRule {
+  kind: SecretKind;
+  pattern: RegExp;
+  keepPrefix?: boolean;
+}
+
+/** Rules in priority order: when two matches overlap, the earlier rule wins */
+const SECRET_RULES: SecretRule[] = [
+  {
+    kind: 'private-key',
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+  },
+  { kind: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    kind: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  { kind: 'anthropic-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'openai-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'stripe-key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { kind: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    kind: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    kind: 'connection-string',
+    pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)[^\s@/]{3,}(?=@)/gi,
+    keepPrefix: true,
+  },
+  {
+    // Values of secret-looking variables and keys: .env lines, YAML, JSON, code.
+    // The value must mix letters and digits, so type names and placeholders pass.
+    kind: 'env-value',
+    pattern:
+      /(\b[A-Za-z0-9_]*(?:secret|token|passw(?:or)?d|api_?key|private_?key|access_?key|credentials?)[A-Za-z0-9_]*["']?\s*[=:]\s*["']?)(?=[^\s"'\\]*\d)(?=[^\s"'\\]*[A-Za-z])[A-Za-z0-9_\-+/=~!@%^&*]{8,}(?=["'\\,;]|\s|$)/gim,
+    keepPrefix: true,
+  },
+];
+
+/**
+ * A secret found in a text, as a range of the text.
+ */
+interface SecretMatch {
+  kind: SecretKind;
+  start: number;
+  end: number;
+}
+
+/** Finds the file and line a position of a text belongs to */
+export type SecretLocator = (index: number) => { file?: string; line?: number };
+
+/**
+ * Find the secrets in a text, without overlaps, ordered by position.
+ */
+function findSecrets(text: string): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  for (const rule of SECRET_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index + (rule.keepPrefix ? match[1].length : 0);
+      const end = match.index + match[0].length;
+      if (matches.some(other => start < other.end && other.start < end)) continue;
+      matches.push({ kind: rule.kind, start, end });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace each secret of a text with its placeholder.
+ */
+function replaceSecrets(text: string, matches: SecretMatch[]): string {
+  let result = '';
+  let position = 0;
+  for (const match of matches) {
+    result += `${text.slice(position, match.start)}[REDACTED:${match.kind}]`;
+    position = match.end;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Mask the secrets of a text and describe each one for the result.
+ * The locator, if given, places each secret in a file and line.
+ */
+export function redactSecrets(
+  text: string,
+  source: RedactionSource,
+  locate?: SecretLocator
+): { text: string; redactions: SecretRedaction[] } {
+  const matches = findSecrets(text);
+  if (matches.length === 0) return { text, redactions: [] };
+
+  return {
+    text: replaceSecrets(text, matches),
+    redactions: matches.map(match => ({ kind: match.kind, source, ...locate?.(match.start) })),
+  };
+}
+
+/**
+ * Mask the secrets of a text, e.g. a log line, without reporting them.
+ */
+export function maskSecrets(text: string): string {
+  const matches = findSecrets(text);
+  return matches.length === 0 ? text : replaceSecrets(text, matches);
+}
+
+/**
+ * Copy of a JSON value with the secrets of all its strings masked. Masking
+ * values rather than serialized JSON keeps a mask from spanning a quote.
+ */
+export function maskSecretValues(value: unknown): unknown {
+  if (typeof value === 'string') return maskSecrets(value);
+  if (Array.isArray(value)) return value.map(maskSecretValues);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, maskSecretValues(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Build a locator placing positions of a unified diff in the changed file and
+ * the line of its new version (removed lines get the file only).
+ */
+export function createDiffLocator(diff: string): SecretLocator {
+  const lines: { start: number; file?: string; line?: number }[] = [];
+  let file: string | undefined;
+  let newLine = 0;
+  let start = 0;
+  // File headers come between "diff --git" and the first hunk of a file
+  let inHeader = true;
+
+  for (const diffLine of diff.split('\n')) {
+    const entry: { start: number; file?: string; line?: number } = { start, file };
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(diffLine);
+    if (diffLine.startsWith('diff --git ')) {
+      file = undefined;
+      entry.file = undefined;
+      inHeader = true;
+    } else if (inHeader && (diffLine.startsWith('--- ') || diffLine.startsWith('+++ '))) {
+      // The new path, or the old one for deleted files
+      const target = diffLine.slice(4).trim();
+      if (target !== '/dev/null') file = target.replace(/^[ab]\//, '');
+      entry.file = file;
+    } else if (hunk) {
+      newLine = Number(hunk[1]);
+      inHeader = false;
+    } else if (!inHeader && file && !diffLine.startsWith('-') && !diffLine.startsWith('\\')) {
+      entry.line = newLine++;
+    }
+    lines.push(entry);
+    start += diffLine.length + 1;
+  }
+
+  return index => {
+    let low = 0;
+    let high = lines.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lines[mid].start <= index) low = mid;
+      else high = mid - 1;
+    }
+    const { file: lineFile, line } = lines[low] ?? {};
+    return { ...(lineFile && { file: lineFile }), ...(line !== undefined && { line }) };
+  };
+}
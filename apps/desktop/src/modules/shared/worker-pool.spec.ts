@@ -0,0 +1,97 @@
+import { WorkerPool } from './worker-pool';
+
+/** A job whose completion is controlled by the test */
+interface Deferred {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/** Let pending promise callbacks (settle → finally → drain) run */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+function createPool(waiting: number[], concurrency = 2) {
+  const jobs = new Map<number, Deferred>();
+  const signals = new Map<number, AbortSignal>();
+  const onError = jest.fn();
+  let limit = concurrency;
+
+  const pool: WorkerPool<number> = new WorkerPool<number>({
+    concurrency: () => limit,
+    next: () => waiting.find(key => !pool.has(key)),
+    run: (key, signal) => {
+      waiting.splice(waiting.indexOf(key), 1);
+      signals.set(key, signal);
+      return new Promise<void>((resolve, reject) => jobs.set(key, { resolve, reject }));
+    },
+    onError,
+  });
+
+  return { pool, jobs, signals, onError, setLimit: (value: number) => (limit = value) };
+}
+
+describe('WorkerPool', () => {
+  it('should run up to the concurrency limit at once', () => {
+    const { pool, jobs } = createPool([1, 2, 3]);
+
+    pool.drain();
+
+    expect(pool.size).toBe(2);
+    expect(Array.from(jobs.keys())).toEqual([1, 2]);
+  });
+
+  it('should start the next job when one finishes', async () => {
+    const { pool, jobs } = createPool([1, 2, 3]);
+    pool.drain();
+
+    jobs.get(1)!.resolve();
+    await flush();
+
+    expect(pool.has(1)).toBe(false);
+    expect(pool.has(3)).toBe(true);
+    expect(pool.size).toBe(2);
+  });
+
+  it('should abort only the cancelled job', () => {
+    const { pool, signals } = createPool([1, 2]);
+    pool.drain();
+
+    expect(pool.abort(1)).toBe(true);
+
+    expect(signals.get(1)!.aborted).toBe(true);
+    expect(signals.get(2)!.aborted).toBe(false);
+    expect(pool.abort(3)).toBe(false);
+  });
+
+  it('should report rejected jobs and keep draining', async () => {
+    const { pool, jobs, onError } = createPool([1, 2], 1);
+    pool.drain();
+
+    const error = new Error('boom');
+    jobs.get(1)!.reject(error);
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith(1, error);
+    expect(pool.has(2)).toBe(true);
+  });
+
+  it('should pick up a raised concurrency limit on the next drain', () => {
+    const { pool, setLimit } = createPool([1, 2, 3], 1);
+    pool.drain();
+    expect(pool.size).toBe(1);
+
+    setLimit(3);
+    pool.drain();
+
+    expect(pool.size).toBe(3);
+  });
+
+  it('should run at least one job for invalid limits', () => {
+    const { pool } = createPool([1, 2], 0);
+
+    pool.drain();
+
+    expect(pool.size).toBe(1);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Worker Pool
+ *
+ * Runs queued review and validation jobs side by side, up to a configurable
+ * concurrency limit, with per-job cancellation.
+ */
+
+/**
+ * Options for a {@link WorkerPool}.
+ */
+export interface WorkerPoolOptions<K> {
+  /** Maximum number of jobs running at once. Read on every drain so settings changes apply to the next job. */
+  concurrency: () => number;
+  /** Pick the next job to start, or undefined when nothing is waiting. Must skip running jobs. */
+  next: () => K | undefined;
+  /** Run one job to completion. The signal aborts when the job is cancelled. */
+  run: (key: K, signal: AbortSignal) => Promise<void>;
+  /** Called if run rejects. Jobs are expected to handle their own errors; this is a last resort. */
+  onError: (key: K, error: unknown) => void;
+}
+
+/**
+ * Bounded pool of concurrent jobs keyed by PR or issue number.
+ *
+ * The pool does not own the queue: the service keeps its queue items and
+ * tells the pool which one to start next. Each running job owns an
+ * AbortController, so cancelling one job never affects the others.
+ * Whenever a job settles, the pool starts the next waiting ones.
+ */
+export class WorkerPool<K> {
+  /** AbortControllers of the running jobs */
+  private readonly running = new Map<K, AbortController>();
+
+  constructor(private readonly options: WorkerPoolOptions<K>) {}
+
+  /**
+   * Number of jobs currently running.
+   */
+  get size(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Whether the job is currently running.
+   */
+  has(key: K): boolean {
+    return this.running.has(key);
+  }
+
+  /**
+   * Start waiting jobs until the concurrency limit is reached or nothing is left.
+   */
+  drain(): void {
+    const limit = Math.max(1, Math.floor(this.options.concurrency()) || 1);
+    while (this.running.size < limit) {
+      const key = this.options.next();
+      if (key === undefined || this.running.has(key)) return;
+      this.start(key);
+    }
+  }
+
+  /**
+   * Abort a running job. Returns false if the job is not running.
+   */
+  abort(key: K): boolean {
+    const controller = this.running.get(key);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Run a job and start the next ones once it settles.
+   */
+  private start(key: K): void {
+    const controller = new AbortController();
+    this.running.set(key, controller);
+
+    this.options
+      .run(key, controller.signal)
+      .catch(error => this.options.onError(key, error))
+      .finally(() => {
+        this.running.delete(key);
+        this.drain();
+      });
+  }
+}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import type { ValidationQueueItem } from '@gitchorus/shared';
+import { BaseQueueStoreService } from '../shared/base-queue-store.service';
+
+@Injectable()
+export class ValidationQueueStoreService extends BaseQueueStoreService<ValidationQueueItem> {
+  constructor() {
+    super('validationQueue', { projectPath: null, items: [] });
+  }
+}
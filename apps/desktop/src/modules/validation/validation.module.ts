@@ -1,23 +1,35 @@
 import { Module } from '@nestjs/common';
 import { GitModule } from '../git';
 import { ProviderModule } from '../provider';
+import { BudgetModule } from '../budget';
+import { SettingsModule } from '../settings';
 import { ValidationService } from './validation.service';
 import { ValidationGateway } from './validation.gateway';
 import { ValidationHistoryService } from './validation-history.service';
 import { ValidationLogService } from './validation-log.service';
+import { ValidationQueueStoreService } from './validation-queue-store.service';
 
 /**
  * NestJS module for issue validation.
  *
- * Imports GitModule (for GithubService) and ProviderModule (for ProviderRegistry).
+ * Imports GitModule (for GithubService), ProviderModule (for ProviderRegistry),
+ * BudgetModule (for BudgetService),
+ * and SettingsModule (for the validation concurrency limit).
  * Provides ValidationService for queue management and agent dispatch,
  * ValidationHistoryService for local persistence via electron-store,
  * ValidationLogService for file-based log transport,
+ * ValidationQueueStoreService for persisting the queue across restarts,
  * and ValidationGateway for WebSocket event handling.
  */
 @Module({
-  imports: [GitModule, ProviderModule],
-  providers: [ValidationService, ValidationGateway, ValidationHistoryService, ValidationLogService],
+  imports: [GitModule, ProviderModule, BudgetModule, SettingsModule],
+  providers: [
+    ValidationService,
+    ValidationGateway,
+    ValidationHistoryService,
+    ValidationLogService,
+    ValidationQueueStoreService,
+  ],
   exports: [ValidationService, ValidationHistoryService, ValidationLogService],
 })
 export class ValidationModule {}
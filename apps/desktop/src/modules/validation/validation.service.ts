@@ -1,6 +1,6 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { createLogger } from '@gitchorus/shared';
+import { createLogger, MAX_QUEUE_CONCURRENCY, PROVIDER_LABELS } from '@gitchorus/shared';
 import type {
   Logger,
   ValidationStep,
@@ -10,8 +10,17 @@ import type {
 } from '@gitchorus/shared';
 import { GithubService } from '../git/github.service';
 import { ProviderRegistry } from '../provider/provider.registry';
+import { createRunLogger } from '../provider/run-context';
+import { scanIssueForPromptInjection } from '../provider/prompt-injection';
+import { getErrorCostUsd } from '../provider/provider-errors';
+import { redactSecrets } from '../shared/secret-redaction';
+import { BudgetService, type BudgetReservation } from '../budget';
+import { SettingsService } from '../settings';
+import { WorkerPool } from '../shared/worker-pool';
+import { recoverQueueItems } from '../shared/queue-recovery';
 import { ValidationHistoryService } from './validation-history.service';
 import { ValidationLogService } from './validation-log.service';
+import { ValidationQueueStoreService } from './validation-queue-store.service';
 
 /**
  * Internal event names for EventEmitter2 communication
@@ -27,19 +36,19 @@ export const InternalValidationEvents = {
 /**
  * Orchestrates issue validation via the AI provider layer.
  *
- * Manages a queue of validation requests that process sequentially.
+ * Manages a queue of validation requests worked off by a pool of concurrent workers
+ * (Settings → validationConcurrency), independent of the review queue. Each running
+ * validation owns an AbortController and logs under its own context.
+ * The queue is persisted on every change and restored on startup.
  * Emits events via EventEmitter2 for the gateway to broadcast via WebSocket.
  */
 @Injectable()
-export class ValidationService {
+export class ValidationService implements OnApplicationBootstrap {
   /** Queue of validations indexed by issue number */
   private validationQueue = new Map<number, ValidationQueueItem>();
 
-  /** Currently running validation issue number */
-  private currentValidation: number | null = null;
-
-  /** AbortController for the currently running validation */
-  private abortController: AbortController | null = null;
+  /** Workers running the queued validations, keyed by issue number */
+  private readonly workers: WorkerPool<number>;
 
   /** Project path for the current session */
   private projectPath: string | null = null;
@@ -55,15 +64,36 @@ export class ValidationService {
     private readonly githubService: GithubService,
     private readonly eventEmitter: EventEmitter2,
     private readonly historyService: ValidationHistoryService,
-    private readonly logService: ValidationLogService
+    private readonly logService: ValidationLogService,
+    private readonly budgetService: BudgetService,
+    private readonly settingsService: SettingsService,
+    private readonly queueStore: ValidationQueueStoreService
   ) {
     this.fileTransport = this.logService.getLogTransport();
     this.logger = createLogger('ValidationService', { fileTransport: this.fileTransport });
+    this.workers = new WorkerPool<number>({
+      concurrency: () =>
+        Math.min(this.settingsService.getConfig().validationConcurrency, MAX_QUEUE_CONCURRENCY),
+      next: () => this.nextQueuedValidation(),
+      // nextQueuedValidation only hands out work once a project path is set
+      run: (issueNumber, signal) =>
+        this.runValidation(issueNumber, this.projectPath as string, signal),
+      onError: (issueNumber, error) =>
+        this.logger.error(`Unexpected error in validation worker for #${issueNumber}:`, error),
+    });
+  }
+
+  /**
+   * Restore the queue persisted before the app last quit and resume processing.
+   * Runs after all modules are initialized so the providers are registered.
+   */
+  onApplicationBootstrap(): void {
+    this.restoreQueue();
   }
 
   /**
    * Queue a validation for the given issue number.
-   * If nothing is currently running, starts processing immediately.
+   * Starts right away if a worker is free.
    */
   queueValidation(issueNumber: number, projectPath: string): void {
     this.projectPath = projectPath;
@@ -85,23 +115,20 @@ export class ValidationService {
     this.logger.info(`Queued validation for issue #${issueNumber}`);
     this.emitQueueUpdate();
 
-    // If nothing is running, start processing
-    if (this.currentValidation === null) {
-      this.processQueue();
-    }
+    this.workers.drain();
   }
 
   /**
-   * Cancel a validation. If running, aborts via AbortController.
+   * Cancel a validation. If running, aborts that validation's worker only.
    * If queued, removes from queue.
    */
   cancelValidation(issueNumber: number): void {
     const item = this.validationQueue.get(issueNumber);
     if (!item) return;
 
-    if (item.status === 'running' && this.abortController) {
+    if (item.status === 'running') {
       this.logger.info(`Cancelling running validation for issue #${issueNumber}`);
-      this.abortController.abort();
+      this.workers.abort(issueNumber);
     } else if (item.status === 'queued') {
       this.logger.info(`Removing queued validation for issue #${issueNumber}`);
       this.updateQueueItem(issueNumber, {
@@ -121,43 +148,38 @@ export class ValidationService {
   }
 
   /**
-   * Process the next item in the queue.
+   * Pick the oldest queued validation that no worker has started yet.
    */
-  private async processQueue(): Promise<void> {
-    // Find the next queued item
-    const nextItem = Array.from(this.validationQueue.values()).find(
-      item => item.status === 'queued'
-    );
-
-    if (!nextItem || !this.projectPath) {
-      this.currentValidation = null;
-      return;
-    }
-
-    this.currentValidation = nextItem.issueNumber;
-
-    try {
-      await this.runValidation(nextItem.issueNumber, this.projectPath);
-    } catch (error) {
-      // Error handling is done inside runValidation
-      this.logger.error(`Unexpected error in processQueue for #${nextItem.issueNumber}:`, error);
-    }
-
-    // Process next item in queue
-    this.currentValidation = null;
-    this.processQueue();
+  private nextQueuedValidation(): number | undefined {
+    if (!this.projectPath) return undefined;
+    return Array.from(this.validationQueue.values()).find(
+      item => item.status === 'queued' && !this.workers.has(item.issueNumber)
+    )?.issueNumber;
   }
 
   /**
    * Run a single validation using the AI provider.
+   * The signal aborts when the validation is cancelled.
    */
-  private async runValidation(issueNumber: number, projectPath: string): Promise<void> {
+  private async runValidation(
+    issueNumber: number,
+    projectPath: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    const logContext = `issue #${issueNumber}`;
+    const logger = createRunLogger('ValidationService', {
+      fileTransport: this.fileTransport,
+      logContext,
+    });
     // Update status to running
     this.updateQueueItem(issueNumber, {
       status: 'running',
       startedAt: new Date().toISOString(),
     });
     this.emitQueueUpdate();
+    logger.info(`Starting validation of issue #${issueNumber}`);
+    // Share of the repository's budget held while the validation runs
+    let reservation: BudgetReservation | null = null;
 
     try {
       // Fetch issue details
@@ -170,21 +192,66 @@ export class ValidationService {
       const repoInfo = await this.githubService.getRepoInfo(projectPath);
       const repoName = repoInfo?.fullName || 'unknown/unknown';
 
-      // Get the Claude provider
-      const provider = this.providerRegistry.getClaude();
+      // Refuses to start once the repository's monthly budget is used up
+      reservation = this.budgetService.reserve(repoName);
+
+      // Get the provider configured for validations
+      const { type: providerType, provider } = this.providerRegistry.getForTask('validation');
       if (!provider) {
-        throw new Error('Claude provider is not available');
+        throw new Error(`${PROVIDER_LABELS[providerType]} provider is not available`);
+      }
+
+      // Cancelled while fetching issue data
+      if (signal.aborted) {
+        throw new Error('Validation cancelled by user');
       }
 
-      // Create abort controller
-      this.abortController = new AbortController();
+      // Mask credentials pasted into the issue before it reaches the provider
+      const title = redactSecrets(issue.title, 'issue-title');
+      const body = redactSecrets(issue.body ?? '', 'issue-body');
+      const redactions = [...title.redactions, ...body.redactions];
+      const redactedIssue =
+        redactions.length > 0
+          ? { ...issue, title: title.text, body: issue.body && body.text }
+          : issue;
+      if (redactions.length > 0) {
+        logger.warn(
+          `Masked ${redactions.length} secret(s) in issue #${issueNumber}: ${redactions.map(redaction => `${redaction.kind} (${redaction.source})`).join(', ')}`
+        );
+        const step: ValidationStep = {
+          step: 'secret-redaction',
+          stepType: 'init',
+          message: `Masked ${redactions.length} secret(s) before sending the issue to the provider`,
+          timestamp: new Date().toISOString(),
+        };
+        this.eventEmitter.emit(InternalValidationEvents.PROGRESS, { issueNumber, step });
+      }
+
+      // Pre-scan what the issue author wrote for attempts to instruct the agent
+      const promptInjection = scanIssueForPromptInjection(redactedIssue);
+      if (promptInjection.length > 0) {
+        logger.warn(
+          `Suspected prompt injection in issue #${issueNumber}: ${promptInjection.map(signal => `${signal.rule} (${signal.source})`).join(', ')}`
+        );
+        const step: ValidationStep = {
+          step: 'prompt-injection',
+          stepType: 'init',
+          message: `Suspected prompt injection in ${promptInjection.length} place(s); the agent was told not to follow it`,
+          timestamp: new Date().toISOString(),
+        };
+        this.eventEmitter.emit(InternalValidationEvents.PROGRESS, { issueNumber, step });
+      }
 
       // Run the validation generator — pass fileTransport for log file writing
       const generator = provider.validate({
-        issue,
+        issue: redactedIssue,
         repoPath: projectPath,
         repoName,
+        config: { type: providerType, maxBudgetUsd: reservation.maxBudgetUsd },
         fileTransport: this.fileTransport,
+        logContext,
+        signal,
+        promptInjection: promptInjection.length > 0 ? promptInjection : undefined,
       });
 
       let result: ValidationResult | undefined;
@@ -210,9 +277,16 @@ export class ValidationService {
       if (!result) {
         throw new Error('Validation completed without producing a result');
       }
+      if (promptInjection.length > 0) {
+        result.promptInjection = promptInjection;
+      }
+      if (redactions.length > 0 || result.redactions) {
+        result.redactions = [...redactions, ...(result.redactions ?? [])];
+      }
 
       // Save to history for local persistence
       this.historyService.save(result);
+      this.budgetService.recordRun(repoName, 'validation', result.costUsd);
 
       // Update queue item with result
       this.updateQueueItem(issueNumber, {
@@ -229,9 +303,16 @@ export class ValidationService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       const isCancelled = errorMessage.includes('cancelled') || errorMessage.includes('aborted');
+      logger.error(`Validation failed for issue #${issueNumber}: ${errorMessage}`);
 
       const status: ValidationStatus = isCancelled ? 'cancelled' : 'failed';
 
+      // What a failed run spent counts towards the budget too
+      const costUsd = getErrorCostUsd(error);
+      if (reservation && costUsd > 0) {
+        this.budgetService.recordRun(reservation.repositoryFullName, 'validation', costUsd);
+      }
+
       this.updateQueueItem(issueNumber, {
         status,
         error: errorMessage,
@@ -243,7 +324,9 @@ export class ValidationService {
         error: errorMessage,
       });
     } finally {
-      this.abortController = null;
+      if (reservation) {
+        this.budgetService.release(reservation);
+      }
       this.emitQueueUpdate();
     }
   }
@@ -259,9 +342,38 @@ export class ValidationService {
   }
 
   /**
-   * Emit queue state update via EventEmitter2.
+   * Restore persisted queue items. Validations that were running when the app quit
+   * are re-queued or failed depending on the resumeInterruptedRuns setting.
+   */
+  private restoreQueue(): void {
+    const saved = this.queueStore.load();
+    const items = recoverQueueItems(
+      saved.items,
+      this.settingsService.getConfig().resumeInterruptedRuns,
+      'validation'
+    );
+    if (items.length === 0) return;
+
+    this.projectPath = saved.projectPath;
+    for (const item of items) {
+      this.validationQueue.set(item.issueNumber, item);
+    }
+
+    const failed = items.filter(item => item.status === 'failed').length;
+    this.logger.info(
+      `Restored ${items.length - failed} queued validation(s)` +
+        (failed > 0 ? `, ${failed} interrupted validation(s) marked failed` : '')
+    );
+
+    this.emitQueueUpdate();
+    this.workers.drain();
+  }
+
+  /**
+   * Persist the queue and emit its state via EventEmitter2.
    */
   private emitQueueUpdate(): void {
+    this.queueStore.save({ projectPath: this.projectPath, items: this.getQueue() });
     this.eventEmitter.emit(InternalValidationEvents.QUEUE_UPDATE, {
       queue: this.getQueue(),
     });
@@ -0,0 +1,75 @@
+import { Wallet } from 'lucide-react';
+import type { BudgetStatus } from '@gitchorus/shared';
+import { cn } from '@/lib/utils';
+
+interface BudgetCardProps {
+  status: BudgetStatus;
+}
+
+/**
+ * Monthly budget of the connected repository: spend, cap and what is left.
+ * Uncapped repositories only show the month's spend.
+ */
+export function BudgetCard({ status }: BudgetCardProps) {
+  const usedPercent =
+    status.capUsd !== null ? Math.min(100, (status.spentUsd / status.capUsd) * 100) : 0;
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-card/50 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center justify-center w-9 h-9 rounded-lg bg-emerald-500/10">
+            <Wallet size={18} className="text-emerald-500" />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-foreground">Budget ({status.month})</p>
+            <p className="text-xs text-muted-foreground">
+              ${status.spentUsd.toFixed(2)} spent on {status.runCount} run
+              {status.runCount === 1 ? '' : 's'}
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          {status.remainingUsd !== null ? (
+            <>
+              <p
+                className={cn(
+                  'text-lg font-semibold leading-tight',
+                  status.exhausted ? 'text-red-600 dark:text-red-400' : 'text-foreground'
+                )}
+              >
+                ${status.remainingUsd.toFixed(2)}
+              </p>
+              <p className="text-xs text-muted-foreground">left of ${status.capUsd?.toFixed(2)}</p>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">No monthly cap</p>
+          )}
+        </div>
+      </div>
+
+      {status.capUsd !== null && (
+        <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+          <div
+            className={cn(
+              'h-full rounded-full transition-all',
+              usedPercent >= 100
+                ? 'bg-red-500'
+                : usedPercent >= 80
+                  ? 'bg-amber-500'
+                  : 'bg-green-500'
+            )}
+            style={{ width: `${usedPercent}%` }}
+          />
+        </div>
+      )}
+
+      {status.exhausted && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          Budget used up. New reviews and validations are refused until next month or until the cap
+          is raised in Settings.
+        </p>
+      )}
+    </div>
+  );
+}
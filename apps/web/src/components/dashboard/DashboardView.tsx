@@ -1,7 +1,9 @@
 import { lazy, Suspense, useCallback } from 'react';
 import { useDashboard } from '@/hooks/useDashboard';
+import { useBudget } from '@/hooks/useBudget';
 import type { ActivityItem } from '@/hooks/useDashboard';
 import { StatsCards } from './StatsCards';
+import { BudgetCard } from './BudgetCard';
 import { ActivityFeed } from './ActivityFeed';
 
 const QualityChart = lazy(() => import('./QualityChart'));
@@ -16,6 +18,7 @@ interface DashboardViewProps {
  *
  * Layout:
  * - Stats cards (open issues/PRs, total validations/reviews, avg quality)
+ * - Monthly budget of the repository (spend, cap, remaining)
  * - Quality score trend line chart (with time range filter)
  * - Clickable activity feed (validations, reviews, issue/PR opens)
  *
@@ -23,6 +26,7 @@ interface DashboardViewProps {
  */
 export function DashboardView({ onNavigateToIssue, onNavigateToPR }: DashboardViewProps) {
   const { stats, qualityChartData, activityItems, timeRange, setTimeRange } = useDashboard();
+  const { status: budgetStatus } = useBudget();
 
   const handleNavigate = useCallback(
     (type: ActivityItem['type'], number: number) => {
@@ -41,6 +45,9 @@ export function DashboardView({ onNavigateToIssue, onNavigateToPR }: DashboardVi
         {/* Stats Cards */}
         <StatsCards stats={stats} />
 
+        {/* Monthly Budget */}
+        {budgetStatus && <BudgetCard status={budgetStatus} />}
+
         {/* Quality Score Chart */}
         <Suspense
           fallback={
@@ -0,0 +1,240 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GitCommitHorizontal, Loader2, RefreshCw, AlertTriangle, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Markdown } from '@/components/ui/markdown';
+import { useReview } from '@/hooks/useReview';
+import { formatFindingLocation } from '@/lib/reviewFormatter';
+import type { ReviewFinding } from '@gitchorus/shared';
+
+// ============================================
+// Types
+// ============================================
+
+interface ApplyFixModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Finding whose suggested fix is applied */
+  finding: ReviewFinding | null;
+  prNumber: number;
+}
+
+type FixState = 'preparing' | 'ready' | 'pushing' | 'success' | 'error';
+
+interface PreparedFix {
+  fixId: string;
+  branch: string;
+  diff: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+/**
+ * Modal applying a finding's suggested fix to the PR branch.
+ *
+ * On open the backend applies the fix in a worktree of the PR head and the
+ * resulting diff is shown. Confirming commits it and pushes it to the PR
+ * branch; closing before that discards it.
+ */
+export function ApplyFixModal({ open, onOpenChange, finding, prNumber }: ApplyFixModalProps) {
+  const { prepareFix, commitFix, discardFix } = useReview();
+  const [fixState, setFixState] = useState<FixState>('preparing');
+  const [prepared, setPrepared] = useState<PreparedFix | null>(null);
+  const [message, setMessage] = useState('');
+  const [commitSha, setCommitSha] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Identifies the latest prepare request, so a stale one is discarded when it resolves
+  const requestRef = useRef(0);
+
+  const prepare = useCallback(async () => {
+    if (!finding) return;
+    const request = ++requestRef.current;
+    setFixState('preparing');
+    setPrepared(null);
+    setErrorMessage(null);
+
+    try {
+      const fix = await prepareFix(prNumber, finding);
+      if (request !== requestRef.current) {
+        await discardFix(fix.fixId);
+        return;
+      }
+      setPrepared(fix);
+      setFixState('ready');
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to apply the suggested fix');
+      setFixState('error');
+    }
+  }, [finding, prNumber, prepareFix, discardFix]);
+
+  useEffect(() => {
+    if (open && finding) {
+      setMessage(`fix: ${finding.title}`);
+      setCommitSha(null);
+      prepare();
+    }
+  }, [open, finding, prepare]);
+
+  const handleCommit = async () => {
+    if (!prepared) return;
+    setFixState('pushing');
+    setErrorMessage(null);
+
+    try {
+      const sha = await commitFix(prepared.fixId, message);
+      setCommitSha(sha);
+      setFixState('success');
+    } catch (err) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to push the fix');
+      setFixState('error');
+    } finally {
+      // The backend drops the prepared fix whether or not the push succeeded
+      setPrepared(null);
+    }
+  };
+
+  const handleClose = (value: boolean) => {
+    if (!value) {
+      requestRef.current++;
+      if (prepared && fixState !== 'pushing') {
+        discardFix(prepared.fixId);
+      }
+      setPrepared(null);
+      setErrorMessage(null);
+      setFixState('preparing');
+    }
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col gap-0 p-0">
+        <DialogHeader className="px-6 pt-6 pb-3">
+          <DialogTitle className="text-base">Apply Suggested Fix</DialogTitle>
+          <DialogDescription className="text-xs text-muted-foreground">
+            {finding
+              ? `${finding.title} · ${formatFindingLocation(finding)}`
+              : `Fix for PR #${prNumber}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Success state */}
+        {fixState === 'success' ? (
+          <div className="flex flex-col items-center justify-center gap-3 py-12 px-6">
+            <div className="h-10 w-10 rounded-full bg-green-500/10 flex items-center justify-center">
+              <GitCommitHorizontal size={18} className="text-green-500" />
+            </div>
+            <p className="text-sm font-medium text-foreground">Fix pushed</p>
+            <p className="text-xs text-muted-foreground text-center">
+              Commit <span className="font-mono">{commitSha?.slice(0, 7)}</span> was pushed to the
+              branch of PR #{prNumber}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+              {/* Preparing state */}
+              {fixState === 'preparing' && (
+                <div className="flex items-center gap-2 py-8 justify-center">
+                  <Loader2 size={14} className="text-muted-foreground animate-spin" />
+                  <span className="text-sm text-muted-foreground">
+                    Applying the fix to the PR branch...
+                  </span>
+                </div>
+              )}
+
+              {/* Diff preview and commit message */}
+              {prepared && (
+                <>
+                  <div>
+                    <h4 className="text-xs font-semibold text-foreground mb-2 flex items-center gap-1.5">
+                      <Wrench size={12} />
+                      Changes on <span className="font-mono">{prepared.branch}</span>
+                    </h4>
+                    <Markdown size="sm">{`\`\`\`diff\n${prepared.diff}\n\`\`\``}</Markdown>
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="apply-fix-message"
+                      className="text-xs font-semibold text-foreground mb-2 block"
+                    >
+                      Commit message
+                    </label>
+                    <input
+                      id="apply-fix-message"
+                      type="text"
+                      value={message}
+                      onChange={e => setMessage(e.target.value)}
+                      disabled={fixState === 'pushing'}
+                      className="w-full h-8 rounded-md border border-input bg-background px-2.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Error state */}
+            {fixState === 'error' && errorMessage && (
+              <div className="px-6 pb-3">
+                <div className="rounded-lg border p-3 border-destructive/30 bg-destructive/5">
+                  <div className="flex items-start gap-2">
+                    <AlertTriangle size={14} className="text-destructive mt-0.5 shrink-0" />
+                    <div className="flex-1">
+                      <p className="text-xs font-medium text-destructive">
+                        Could not apply the fix
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-0.5">{errorMessage}</p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Footer */}
+            <DialogFooter className="px-6 py-4 border-t">
+              <div className="flex items-center justify-end w-full gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 text-xs"
+                  onClick={() => handleClose(false)}
+                  disabled={fixState === 'pushing'}
+                >
+                  Cancel
+                </Button>
+                {fixState === 'error' ? (
+                  <Button size="sm" className="h-8 text-xs" onClick={prepare}>
+                    <RefreshCw size={12} className="mr-1.5" /> Retry
+                  </Button>
+                ) : fixState === 'pushing' ? (
+                  <Button size="sm" disabled className="h-8 text-xs">
+                    <Loader2 size={12} className="mr-1.5 animate-spin" /> Pushing...
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={handleCommit}
+                    disabled={fixState !== 'ready' || !message.trim()}
+                  >
+                    <GitCommitHorizontal size={12} className="mr-1.5" /> Commit & Push
+                  </Button>
+                )}
+              </div>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,23 @@
-import { FileCode2 } from 'lucide-react';
+import { FileCode2, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { Markdown } from '@/components/ui/markdown';
-import { getLanguageForFile } from '@/lib/reviewFormatter';
-import type { ReviewFinding, ReviewSeverity, ReviewCategory } from '@gitchorus/shared';
-import { AGENT_BADGE_COLORS, AGENT_SHORT_LABELS } from '@/lib/agent-display';
+import { formatFindingLocation, getLanguageForFile, getSuggestion } from '@/lib/reviewFormatter';
+import type {
+  ReviewFinding,
+  ReviewSeverity,
+  ReviewCategory,
+  FindingVerificationStatus,
+} from '@gitchorus/shared';
+import { getAgentBadgeColor, getAgentShortLabel } from '@/lib/agent-display';
 
 interface FindingCardProps {
   finding: ReviewFinding;
   index: number;
   selected: boolean;
   onToggle: (index: number) => void;
+  /** Apply the suggested fix to the PR branch; the button is hidden when omitted */
+  onApplyFix?: (finding: ReviewFinding) => void;
 }
 
 // ============================================
@@ -35,6 +43,16 @@ const categoryColors: Record<ReviewCategory, string> = {
   'codebase-fit': 'bg-amber-500/5 text-amber-500 dark:text-amber-300 border-amber-500/15',
 };
 
+// ============================================
+// Verification badge colors
+// ============================================
+
+const verificationColors: Record<FindingVerificationStatus, string> = {
+  verified: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+  disputed: 'bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20',
+  hallucinated: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
+};
+
 // Agent badge colors and labels imported from @/lib/agent-display
 
 /**
@@ -44,7 +62,7 @@ const categoryColors: Record<ReviewCategory, string> = {
  * Renders code snippets using Markdown component's shiki syntax highlighting.
  * Selection checkbox on the left for parent-managed selection state.
  */
-export function FindingCard({ finding, index, selected, onToggle }: FindingCardProps) {
+export function FindingCard({ finding, index, selected, onToggle, onApplyFix }: FindingCardProps) {
   const lang = getLanguageForFile(finding.file);
 
   // Wrap code in a fenced code block for Markdown component's shiki rendering
@@ -54,6 +72,9 @@ export function FindingCard({ finding, index, selected, onToggle }: FindingCardP
     ? `\`\`\`${lang}\n${finding.suggestedFix}\n\`\`\``
     : '';
 
+  // Drop-in fixes are pushed as suggestions the PR author can commit directly
+  const suggestion = getSuggestion(finding);
+
   return (
     <div
       className={cn(
@@ -115,10 +136,22 @@ export function FindingCard({ finding, index, selected, onToggle }: FindingCardP
                 <span
                   className={cn(
                     'text-[10px] px-1.5 py-0.5 rounded-full border font-medium',
-                    AGENT_BADGE_COLORS[finding.agentSource]
+                    getAgentBadgeColor(finding.agentSource)
+                  )}
+                >
+                  {getAgentShortLabel(finding.agentSource)}
+                </span>
+              )}
+              {/* Verification badge (finding verification only) */}
+              {finding.verification && (
+                <span
+                  className={cn(
+                    'text-[10px] px-1.5 py-0.5 rounded-full border font-medium capitalize',
+                    verificationColors[finding.verification.status]
                   )}
+                  title={finding.verification.justification}
                 >
-                  {AGENT_SHORT_LABELS[finding.agentSource]}
+                  {finding.verification.status}
                 </span>
               )}
             </div>
@@ -129,12 +162,25 @@ export function FindingCard({ finding, index, selected, onToggle }: FindingCardP
             {/* File path + line */}
             <div className="flex items-center gap-1.5 text-xs text-muted-foreground font-mono">
               <FileCode2 size={12} className="shrink-0" />
-              <span className="truncate">
-                {finding.file}:{finding.line}
-              </span>
+              <span className="truncate">{formatFindingLocation(finding)}</span>
             </div>
           </div>
 
+          {/* Verification justification (disputed or hallucinated only) */}
+          {finding.verification &&
+            finding.verification.status !== 'verified' &&
+            finding.verification.justification && (
+              <div
+                className={cn(
+                  'rounded-md border px-2.5 py-1.5 text-xs',
+                  verificationColors[finding.verification.status]
+                )}
+              >
+                <span className="font-medium capitalize">{finding.verification.status}:</span>{' '}
+                {finding.verification.justification}
+              </div>
+            )}
+
           {/* Code snippet */}
           {codeSnippetMd && (
             <div>
@@ -162,8 +208,27 @@ export function FindingCard({ finding, index, selected, onToggle }: FindingCardP
             <div>
               <p className="text-[10px] font-medium text-green-600 dark:text-green-400 uppercase tracking-wide mb-1">
                 Suggested fix
+                {suggestion && (
+                  <span className="normal-case tracking-normal font-normal text-muted-foreground">
+                    {' '}
+                    · pushed as a GitHub suggestion for{' '}
+                    {suggestion.startLine === suggestion.endLine
+                      ? `line ${suggestion.startLine}`
+                      : `lines ${suggestion.startLine}-${suggestion.endLine}`}
+                  </span>
+                )}
               </p>
               <Markdown size="sm">{suggestedFixMd}</Markdown>
+              {onApplyFix && finding.file && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs mt-1.5"
+                  onClick={() => onApplyFix(finding)}
+                >
+                  <Wrench size={12} className="mr-1.5" /> Apply fix
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -1,9 +1,25 @@
 import { useState, useMemo, useCallback } from 'react';
-import { Send, ChevronDown, CheckCircle2, AlertTriangle, XCircle, CircleDot } from 'lucide-react';
+import {
+  Send,
+  ChevronDown,
+  CheckCircle2,
+  AlertTriangle,
+  XCircle,
+  CircleDot,
+  EyeOff,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { FindingCard } from './FindingCard';
+import { useSettings } from '@/hooks/useSettings';
+import { evaluateReviewGate } from '@/lib/reviewGate';
+import {
+  DEFAULT_REVIEW_GATE_POLICY,
+  REVIEW_ACTION_LABELS,
+  isDisputedFinding,
+} from '@gitchorus/shared';
 import type {
+  DefaultReviewAction,
   ReviewFinding,
   ReviewResult,
   ReviewSeverity,
@@ -14,11 +30,15 @@ import type {
 // Types
 // ============================================
 
-type ReviewAction = 'REQUEST_CHANGES' | 'COMMENT';
-
 interface ReviewFindingsProps {
   result: ReviewResult;
-  onPushToGithub: (selectedFindings: ReviewFinding[], reviewAction: ReviewAction) => void;
+  onPushToGithub: (
+    selectedFindings: ReviewFinding[],
+    reviewAction: DefaultReviewAction,
+    actionReason: string
+  ) => void;
+  /** Apply a finding's suggested fix to the PR branch */
+  onApplyFix?: (finding: ReviewFinding) => void;
 }
 
 // ============================================
@@ -27,6 +47,14 @@ interface ReviewFindingsProps {
 
 const SEVERITY_ORDER: ReviewSeverity[] = ['critical', 'major', 'minor', 'nit'];
 
+const REVIEW_ACTIONS: DefaultReviewAction[] = ['COMMENT', 'REQUEST_CHANGES', 'APPROVE'];
+
+const reviewActionColors: Record<DefaultReviewAction, string> = {
+  APPROVE: 'border-green-500/30 text-green-600 dark:text-green-400 bg-green-500/5',
+  REQUEST_CHANGES: 'border-orange-500/30 text-orange-600 dark:text-orange-400 bg-orange-500/5',
+  COMMENT: 'border-blue-500/30 text-blue-600 dark:text-blue-400 bg-blue-500/5',
+};
+
 const severityHeaderColors: Record<ReviewSeverity, string> = {
   critical: 'text-red-600 dark:text-red-400',
   major: 'text-orange-600 dark:text-orange-400',
@@ -135,18 +163,36 @@ function AddressedFindingsSection({ findings }: { findings: AddressedFindingSumm
  * - Severity group headers with count badges
  * - Severity-level toggle checkboxes for bulk selection
  * - Per-finding checkboxes for fine-tuning
- * - Auto-determined review action (REQUEST_CHANGES if Critical selected)
- * - User can override review action via dropdown
+ * - Findings disputed by the verification pass start deselected and can be hidden
+ * - Review action picked by the quality-gate policy from the score and all undisputed
+ *   findings, with the rule that produced it; deselecting findings does not change it
+ * - User can override review action via dropdown; any other action is a manual override
  * - "Push to GitHub" button at the top
  */
-export function ReviewFindings({ result, onPushToGithub }: ReviewFindingsProps) {
-  // All findings selected by default
-  const allIndices = useMemo(() => new Set(result.findings.map((_, i) => i)), [result.findings]);
-  const [selectedFindings, setSelectedFindings] = useState<Set<number>>(allIndices);
-  const [actionOverride, setActionOverride] = useState<ReviewAction | null>(null);
+export function ReviewFindings({ result, onPushToGithub, onApplyFix }: ReviewFindingsProps) {
+  const { config } = useSettings();
+  // All findings selected by default, except those the verification pass disputed
+  const defaultIndices = useMemo(
+    () => new Set(result.findings.flatMap((finding, i) => (isDisputedFinding(finding) ? [] : [i]))),
+    [result.findings]
+  );
+  const [selectedFindings, setSelectedFindings] = useState<Set<number>>(defaultIndices);
+  const [actionOverride, setActionOverride] = useState<DefaultReviewAction | null>(null);
   const [showActionDropdown, setShowActionDropdown] = useState(false);
+  const [hideDisputed, setHideDisputed] = useState(false);
+
+  const disputedCount = useMemo(
+    () => result.findings.filter(isDisputedFinding).length,
+    [result.findings]
+  );
+
+  // Whether a finding is currently shown (hidden findings are never pushed)
+  const isVisible = useCallback(
+    (finding: ReviewFinding) => !hideDisputed || !isDisputedFinding(finding),
+    [hideDisputed]
+  );
 
-  // Group findings by severity
+  // Group visible findings by severity
   const groupedFindings = useMemo(() => {
     const groups = new Map<ReviewSeverity, { finding: ReviewFinding; index: number }[]>();
     for (const severity of SEVERITY_ORDER) {
@@ -154,31 +200,44 @@ export function ReviewFindings({ result, onPushToGithub }: ReviewFindingsProps)
     }
     result.findings.forEach((finding, index) => {
       const group = groups.get(finding.severity);
-      if (group) {
+      if (group && isVisible(finding)) {
         group.push({ finding, index });
       }
     });
     return groups;
-  }, [result.findings]);
+  }, [result.findings, isVisible]);
 
-  // Auto-determine review action based on selected findings
-  const autoAction: ReviewAction = useMemo(() => {
-    for (const idx of selectedFindings) {
-      if (result.findings[idx]?.severity === 'critical') {
-        return 'REQUEST_CHANGES';
-      }
-    }
-    return 'COMMENT';
-  }, [selectedFindings, result.findings]);
+  const visibleIndices = useMemo(
+    () => new Set(Array.from(groupedFindings.values()).flatMap(group => group.map(g => g.index))),
+    [groupedFindings]
+  );
+  const visibleSelection = useMemo(
+    () => new Set(Array.from(selectedFindings).filter(i => visibleIndices.has(i))),
+    [selectedFindings, visibleIndices]
+  );
+
+  // Let the quality gate pick the review action for every undisputed finding, so
+  // deselecting a blocking finding cannot turn the gate into an approval
+  const gateDecision = useMemo(
+    () =>
+      evaluateReviewGate(
+        config?.reviewGatePolicy ?? DEFAULT_REVIEW_GATE_POLICY,
+        result.findings.filter(finding => !isDisputedFinding(finding)),
+        result.qualityScore,
+        config?.defaultReviewAction ?? 'COMMENT'
+      ),
+    [config, result.findings, result.qualityScore]
+  );
 
-  const reviewAction = actionOverride ?? autoAction;
-  const selectedCount = selectedFindings.size;
+  const reviewAction = actionOverride ?? gateDecision.action;
+  const actionReason = actionOverride ? 'Chosen manually' : gateDecision.reason;
+  const selectedCount = visibleSelection.size;
   const hasSelection = selectedCount > 0;
 
   // Get selected finding objects
   const getSelectedFindings = useCallback((): ReviewFinding[] => {
-    return result.findings.filter((_, i) => selectedFindings.has(i));
-  }, [result.findings, selectedFindings]);
+    return result.findings.filter((_, i) => visibleSelection.has(i));
+  }, [result.findings, visibleSelection]);
 
   // Toggle individual finding
   const toggleFinding = useCallback((index: number) => {
@@ -260,58 +319,64 @@ export function ReviewFindings({ result, onPushToGithub }: ReviewFindingsProps)
       <div className="flex items-center justify-between gap-3 sticky top-0 z-10 bg-background py-2">
         <div className="flex items-center gap-3 text-xs text-muted-foreground">
           <span>
-            {selectedCount} of {result.findings.length} findings selected
+            {selectedCount} of {visibleIndices.size} findings selected
           </span>
+          {/* Hide findings disputed by the verification pass */}
+          {disputedCount > 0 && (
+            <button
+              onClick={() => setHideDisputed(p => !p)}
+              className={cn(
+                'flex items-center gap-1 px-2 py-1 rounded border text-xs font-medium transition-colors',
+                hideDisputed
+                  ? 'border-amber-500/30 text-amber-600 dark:text-amber-400 bg-amber-500/5'
+                  : 'border-border text-muted-foreground hover:bg-muted'
+              )}
+            >
+              <EyeOff size={12} />
+              {hideDisputed ? 'Show' : 'Hide'} disputed ({disputedCount})
+            </button>
+          )}
           {/* Review action indicator */}
           <div className="relative">
             <button
               onClick={() => setShowActionDropdown(p => !p)}
+              title={actionReason}
               className={cn(
                 'flex items-center gap-1 px-2 py-1 rounded border text-xs font-medium transition-colors',
-                reviewAction === 'REQUEST_CHANGES'
-                  ? 'border-orange-500/30 text-orange-600 dark:text-orange-400 bg-orange-500/5'
-                  : 'border-blue-500/30 text-blue-600 dark:text-blue-400 bg-blue-500/5'
+                reviewActionColors[reviewAction]
               )}
             >
-              {reviewAction === 'REQUEST_CHANGES' ? 'Request Changes' : 'Comment'}
+              {REVIEW_ACTION_LABELS[reviewAction]}
               <ChevronDown size={12} />
             </button>
             {showActionDropdown && (
               <div className="absolute top-full left-0 mt-1 bg-popover border rounded-md shadow-md z-20 min-w-[160px]">
-                <button
-                  className={cn(
-                    'w-full text-left px-3 py-1.5 text-xs hover:bg-muted transition-colors',
-                    reviewAction === 'REQUEST_CHANGES' && 'font-medium text-foreground'
-                  )}
-                  onClick={() => {
-                    setActionOverride('REQUEST_CHANGES');
-                    setShowActionDropdown(false);
-                  }}
-                >
-                  Request Changes
-                </button>
-                <button
-                  className={cn(
-                    'w-full text-left px-3 py-1.5 text-xs hover:bg-muted transition-colors',
-                    reviewAction === 'COMMENT' && 'font-medium text-foreground'
-                  )}
-                  onClick={() => {
-                    setActionOverride('COMMENT');
-                    setShowActionDropdown(false);
-                  }}
-                >
-                  Comment
-                </button>
+                {REVIEW_ACTIONS.map(action => (
+                  <button
+                    key={action}
+                    className={cn(
+                      'w-full text-left px-3 py-1.5 text-xs hover:bg-muted transition-colors',
+                      reviewAction === action && 'font-medium text-foreground'
+                    )}
+                    onClick={() => {
+                      setActionOverride(action === gateDecision.action ? null : action);
+                      setShowActionDropdown(false);
+                    }}
+                  >
+                    {REVIEW_ACTION_LABELS[action]}
+                  </button>
+                ))}
               </div>
             )}
           </div>
+          <span className="truncate">{actionReason}</span>
         </div>
 
         <Button
           size="sm"
           className="h-8 gap-1.5"
           disabled={!hasSelection}
-          onClick={() => onPushToGithub(getSelectedFindings(), reviewAction)}
+          onClick={() => onPushToGithub(getSelectedFindings(), reviewAction, actionReason)}
         >
           <Send size={14} />
           Push to GitHub
@@ -365,6 +430,7 @@ export function ReviewFindings({ result, onPushToGithub }: ReviewFindingsProps)
                   index={index}
                   selected={selectedFindings.has(index)}
                   onToggle={toggleFinding}
+                  onApplyFix={onApplyFix}
                 />
               ))}
             </div>
@@ -20,8 +20,10 @@ import {
 } from '@/components/ui/dialog';
 import { Markdown } from '@/components/ui/markdown';
 import { useReview } from '@/hooks/useReview';
-import { formatReviewSummaryBody } from '@/lib/reviewFormatter';
-import type { ReviewFinding } from '@gitchorus/shared';
+import { useSettings } from '@/hooks/useSettings';
+import { formatFindingLocation, formatReviewSummaryBody } from '@/lib/reviewFormatter';
+import { REVIEW_ACTION_LABELS } from '@gitchorus/shared';
+import type { DefaultReviewAction, ReviewFinding } from '@gitchorus/shared';
 
 // ============================================
 // Types
@@ -33,8 +35,14 @@ interface ReviewPushModalProps {
   selectedFindings: ReviewFinding[];
   verdict: string;
   qualityScore: number;
-  reviewAction: 'REQUEST_CHANGES' | 'COMMENT';
+  reviewAction: DefaultReviewAction;
+  /** Which gate rule produced the action, or that it was chosen manually */
+  reviewActionReason: string;
   prNumber: number;
+  /** History entry the review belongs to, which records the push for retraction */
+  historyEntryId?: string;
+  /** Keys of every finding the review still reports, selected or not */
+  openFindingKeys: string[];
 }
 
 type PushState = 'idle' | 'pushing' | 'success' | 'error';
@@ -56,14 +64,22 @@ export function ReviewPushModal({
   verdict,
   qualityScore,
   reviewAction,
+  reviewActionReason,
   prNumber,
+  historyEntryId,
+  openFindingKeys,
 }: ReviewPushModalProps) {
-  const { pushReview } = useReview();
+  const { pushReview, recordPush } = useReview();
+  const { config } = useSettings();
+  const [draftOverride, setDraftOverride] = useState<boolean | null>(null);
+  const draft = draftOverride ?? config?.draftReviews ?? false;
   const [pushState, setPushState] = useState<PushState>('idle');
   const [resultUrl, setResultUrl] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [skippedCount, setSkippedCount] = useState(0);
   const [postedCount, setPostedCount] = useState(0);
+  const [resolvedCount, setResolvedCount] = useState(0);
+  const [duplicateCount, setDuplicateCount] = useState(0);
 
   // Build the summary body that will be posted (shared formatter eliminates duplication with useReview.ts)
   const summaryBody = useMemo(
@@ -81,12 +97,26 @@ export function ReviewPushModal({
         selectedFindings,
         verdict,
         qualityScore,
-        reviewAction
+        reviewAction,
+        draft,
+        openFindingKeys
       );
 
+      if (historyEntryId && result.reviewId) {
+        await recordPush(historyEntryId, {
+          reviewId: result.reviewId,
+          commentIds: result.commentIds,
+          url: result.url ?? '',
+          pushedAt: new Date().toISOString(),
+          draft: draft || undefined,
+        });
+      }
+
       setResultUrl(result.url ?? null);
       setPostedCount(result.postedComments);
       setSkippedCount(result.skippedComments);
+      setResolvedCount(result.resolvedThreads);
+      setDuplicateCount(result.duplicateComments);
       setPushState('success');
     } catch (err) {
       setErrorMessage(err instanceof Error ? err.message : 'Failed to push review');
@@ -107,6 +137,9 @@ export function ReviewPushModal({
       setErrorMessage(null);
       setSkippedCount(0);
       setPostedCount(0);
+      setResolvedCount(0);
+      setDuplicateCount(0);
+      setDraftOverride(null);
     }
     onOpenChange(value);
   };
@@ -127,11 +160,30 @@ export function ReviewPushModal({
             <div className="h-10 w-10 rounded-full bg-green-500/10 flex items-center justify-center">
               <Send size={18} className="text-green-500" />
             </div>
-            <p className="text-sm font-medium text-foreground">Review posted successfully</p>
+            <p className="text-sm font-medium text-foreground">
+              {draft ? 'Pending review saved' : 'Review posted successfully'}
+            </p>
+            {draft && (
+              <p className="text-xs text-muted-foreground text-center">
+                Only you can see it until you edit and submit it on GitHub
+              </p>
+            )}
             <div className="text-xs text-muted-foreground text-center space-y-1">
               <p>
-                {postedCount} inline comment{postedCount !== 1 ? 's' : ''} posted
+                {postedCount} inline comment{postedCount !== 1 ? 's' : ''}{' '}
+                {draft ? 'added' : 'posted'}
               </p>
+              {resolvedCount > 0 && (
+                <p>
+                  {resolvedCount} earlier thread{resolvedCount !== 1 ? 's' : ''} resolved as fixed
+                </p>
+              )}
+              {duplicateCount > 0 && (
+                <p>
+                  {duplicateCount} finding{duplicateCount !== 1 ? 's' : ''} already open from an
+                  earlier push, not posted again
+                </p>
+              )}
               {skippedCount > 0 && (
                 <p className="flex items-center gap-1 text-yellow-600 dark:text-yellow-400">
                   <AlertTriangle size={12} />
@@ -156,22 +208,41 @@ export function ReviewPushModal({
             {/* Preview content */}
             <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
               {/* Review action indicator */}
-              <div className="flex items-center gap-3 text-xs">
-                <span
-                  className={cn(
-                    'px-2 py-1 rounded border font-medium',
-                    reviewAction === 'REQUEST_CHANGES'
-                      ? 'border-orange-500/30 text-orange-600 dark:text-orange-400 bg-orange-500/5'
-                      : 'border-blue-500/30 text-blue-600 dark:text-blue-400 bg-blue-500/5'
-                  )}
-                >
-                  Review action:{' '}
-                  {reviewAction === 'REQUEST_CHANGES' ? 'Request Changes' : 'Comment'}
-                </span>
-                <span className="text-muted-foreground">
-                  Posting {selectedFindings.length} inline comment
-                  {selectedFindings.length !== 1 ? 's' : ''} + 1 summary review
-                </span>
+              <div className="space-y-1">
+                <div className="flex items-center gap-3 text-xs">
+                  <span
+                    className={cn(
+                      'px-2 py-1 rounded border font-medium',
+                      reviewAction === 'APPROVE'
+                        ? 'border-green-500/30 text-green-600 dark:text-green-400 bg-green-500/5'
+                        : reviewAction === 'REQUEST_CHANGES'
+                          ? 'border-orange-500/30 text-orange-600 dark:text-orange-400 bg-orange-500/5'
+                          : 'border-blue-500/30 text-blue-600 dark:text-blue-400 bg-blue-500/5'
+                    )}
+                  >
+                    Review action: {REVIEW_ACTION_LABELS[reviewAction]}
+                  </span>
+                  <span className="text-muted-foreground">
+                    Posting {selectedFindings.length} inline comment
+                    {selectedFindings.length !== 1 ? 's' : ''} + 1 summary review
+                  </span>
+                </div>
+                {reviewActionReason && (
+                  <p className="text-[11px] text-muted-foreground">{reviewActionReason}</p>
+                )}
+                <label className="flex items-center gap-2 pt-1 text-xs text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={draft}
+                    onChange={e => setDraftOverride(e.target.checked)}
+                    disabled={pushState === 'pushing'}
+                    className="accent-primary"
+                  />
+                  Save as pending review
+                  <span className="text-muted-foreground">
+                    (edit and submit on GitHub; the action above is not applied)
+                  </span>
+                </label>
               </div>
 
               {/* Summary body preview */}
@@ -196,7 +267,7 @@ export function ReviewPushModal({
                     <div key={idx} className="rounded-lg border p-3 bg-card">
                       <div className="flex items-center gap-2 mb-1.5">
                         <span className="text-[10px] font-mono text-muted-foreground">
-                          {finding.file}:{finding.line}
+                          {formatFindingLocation(finding)}
                         </span>
                         <span
                           className={cn(
@@ -252,7 +323,8 @@ export function ReviewPushModal({
                   </Button>
                 ) : (
                   <Button size="sm" className="h-8 text-xs" onClick={handlePush}>
-                    <Send size={12} className="mr-1.5" /> Push to GitHub
+                    <Send size={12} className="mr-1.5" />{' '}
+                    {draft ? 'Save Pending Review' : 'Push to GitHub'}
                   </Button>
                 )}
               </div>
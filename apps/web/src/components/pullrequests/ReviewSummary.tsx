@@ -7,11 +7,18 @@ import {
   ChevronDown,
   ChevronRight,
   Users,
+  Route,
+  History,
+  FileX2,
 } from 'lucide-react';
 import { cn, formatDuration } from '@/lib/utils';
 import { Markdown } from '@/components/ui/markdown';
-import type { ReviewResult, ReviewSeverity, SubAgentScore } from '@gitchorus/shared';
-import { AGENT_FULL_LABELS } from '@/lib/agent-display';
+import type { ReviewResult, ReviewSeverity, ReviewTriage, SubAgentScore } from '@gitchorus/shared';
+import { REVIEW_RISK_LABELS, REVIEW_RULES_FILE_NAME } from '@gitchorus/shared';
+import { getAgentFullLabel } from '@/lib/agent-display';
+import { formatPromptTemplateUsage } from '@/lib/promptTemplates';
+import { PromptInjectionNotice } from '@/components/shared/PromptInjectionNotice';
+import { RedactionNotice } from '@/components/shared/RedactionNotice';
 
 interface ReviewSummaryProps {
   result: ReviewResult;
@@ -82,7 +89,7 @@ function ScoreDelta({ previous, current }: { previous: number; current: number }
   );
 }
 
-// Agent labels imported from @/lib/agent-display (AGENT_FULL_LABELS)
+// Agent labels imported from @/lib/agent-display (getAgentFullLabel)
 
 /**
  * Expandable sub-agent score breakdown for multi-agent reviews.
@@ -106,7 +113,7 @@ function SubAgentScoreBreakdown({ scores }: { scores: SubAgentScore[] }) {
           {scores.map(agentScore => (
             <div key={agentScore.agent} className="flex items-center gap-2">
               <span className="text-xs text-muted-foreground w-28 shrink-0">
-                {AGENT_FULL_LABELS[agentScore.agent] || agentScore.agent}
+                {getAgentFullLabel(agentScore.agent)}
               </span>
               {agentScore.weight > 0 ? (
                 <>
@@ -143,6 +150,59 @@ function SubAgentScoreBreakdown({ scores }: { scores: SubAgentScore[] }) {
   );
 }
 
+/**
+ * Cascaded routing outcome: triage risk level and whether the review was escalated.
+ */
+function TriageNote({ triage }: { triage: ReviewTriage }) {
+  return (
+    <div className="flex items-start gap-1.5 text-xs text-muted-foreground border-t pt-2">
+      <Route size={12} className="mt-0.5 shrink-0" />
+      <div className="space-y-0.5">
+        <p>
+          <span className="font-medium text-foreground">
+            {REVIEW_RISK_LABELS[triage.riskLevel]} risk
+          </span>{' '}
+          &middot; {triage.escalated ? 'escalated' : 'not escalated'} (threshold:{' '}
+          {REVIEW_RISK_LABELS[triage.threshold]})
+        </p>
+        {triage.summary && <p>{triage.summary}</p>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Files whose findings a re-review carried forward from the review cache.
+ */
+function CachedFilesNote({ files }: { files: string[] }) {
+  return (
+    <div className="flex items-start gap-1.5 text-xs text-muted-foreground border-t pt-2">
+      <History size={12} className="mt-0.5 shrink-0" />
+      <p>
+        <span className="font-medium text-foreground">
+          {files.length} unchanged file{files.length === 1 ? '' : 's'}
+        </span>{' '}
+        &middot; findings carried forward from the last review without re-running the agent
+      </p>
+    </div>
+  );
+}
+
+function IgnoredFilesNote({ files }: { files: string[] }) {
+  return (
+    <div className="flex items-start gap-1.5 text-xs text-muted-foreground border-t pt-2">
+      <FileX2 size={12} className="mt-0.5 shrink-0" />
+      <p title={files.join('\n')}>
+        <span className="font-medium text-foreground">
+          {files.length} ignored file{files.length === 1 ? '' : 's'}
+        </span>{' '}
+        &middot; left out of the review by{' '}
+        <code className="font-mono">{REVIEW_RULES_FILE_NAME}</code>
+      </p>
+    </div>
+  );
+}
+
 /**
  * Summary section displayed at the top of the review results.
  *
@@ -184,17 +244,45 @@ export function ReviewSummary({ result }: ReviewSummaryProps) {
       {/* Finding count summary */}
       <div className="text-xs text-muted-foreground">{countSummary}</div>
 
+      {/* Text in the PR that tried to instruct the reviewer */}
+      {result.promptInjection && result.promptInjection.length > 0 && (
+        <PromptInjectionNotice signals={result.promptInjection} />
+      )}
+
+      {/* Secrets masked before the PR was sent to the provider */}
+      {result.redactions && result.redactions.length > 0 && (
+        <RedactionNotice redactions={result.redactions} />
+      )}
+
       {/* Sub-agent score breakdown (multi-agent mode only) */}
       {result.multiAgent && result.subAgentScores && result.subAgentScores.length > 0 && (
         <SubAgentScoreBreakdown scores={result.subAgentScores} />
       )}
 
+      {/* Cascaded routing triage */}
+      {result.triage && <TriageNote triage={result.triage} />}
+
+      {/* Findings reused from the per-file review cache */}
+      {result.cachedFiles && result.cachedFiles.length > 0 && (
+        <CachedFilesNote files={result.cachedFiles} />
+      )}
+
+      {/* Files skipped by the repository's review rules */}
+      {result.ignoredFiles && result.ignoredFiles.length > 0 && (
+        <IgnoredFilesNote files={result.ignoredFiles} />
+      )}
+
       {/* Metadata */}
       <div className="flex items-center gap-4 text-xs text-muted-foreground border-t pt-2">
         <span>Model: {result.model}</span>
         <span>Cost: ${result.costUsd.toFixed(4)}</span>
         <span>Duration: {formatDuration(result.durationMs / 1000)}</span>
         {result.multiAgent && <span className="text-primary font-medium">Multi-Agent</span>}
+        {result.promptTemplates && (
+          <span title={formatPromptTemplateUsage(result.promptTemplates)}>
+            Prompts: {result.promptTemplates.some(entry => entry.custom) ? 'custom' : 'default'}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -9,6 +9,8 @@ import {
   GitBranch,
   GitCommitHorizontal,
   Download,
+  Undo2,
+  ExternalLink,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
@@ -20,7 +22,10 @@ import { ReviewProgress } from './ReviewProgress';
 import { ReviewSummary } from './ReviewSummary';
 import { ReviewFindings } from './ReviewFindings';
 import { ReviewPushModal } from './ReviewPushModal';
+import { ApplyFixModal } from './ApplyFixModal';
+import { getActivePush, getOpenFindingKeys } from '@gitchorus/shared';
 import type {
+  DefaultReviewAction,
   PullRequest,
   ReviewFinding,
   ReviewHistoryEntry,
@@ -38,8 +43,6 @@ interface ReviewViewProps {
   pr: PullRequest;
 }
 
-type ReviewAction = 'REQUEST_CHANGES' | 'COMMENT';
-
 /**
  * Full-width review view for a selected PR.
  *
@@ -47,7 +50,7 @@ type ReviewAction = 'REQUEST_CHANGES' | 'COMMENT';
  * and review results when complete.
  */
 export function ReviewView({ pr }: ReviewViewProps) {
-  const { startReview, startReReview, cancelReview, importGithubReview } = useReview();
+  const { startReview, startReReview, cancelReview, importGithubReview, retractPush } = useReview();
   const setSelectedPr = useReviewStore(state => state.setSelectedPr);
 
   // Confirmation dialog state
@@ -56,7 +59,16 @@ export function ReviewView({ pr }: ReviewViewProps) {
   // Push modal state
   const [pushModalOpen, setPushModalOpen] = useState(false);
   const [pushFindings, setPushFindings] = useState<ReviewFinding[]>([]);
-  const [pushAction, setPushAction] = useState<ReviewAction>('COMMENT');
+  const [pushAction, setPushAction] = useState<DefaultReviewAction>('COMMENT');
+  const [pushActionReason, setPushActionReason] = useState('');
+
+  // Apply fix modal state
+  const [fixFinding, setFixFinding] = useState<ReviewFinding | null>(null);
+
+  // Retract push state
+  const [showRetractConfirm, setShowRetractConfirm] = useState(false);
+  const [retracting, setRetracting] = useState(false);
+  const [retractError, setRetractError] = useState<string | null>(null);
 
   // GitHub import state
   const [importChecking, setImportChecking] = useState(false);
@@ -85,6 +97,26 @@ export function ReviewView({ pr }: ReviewViewProps) {
     )
   ) as ReviewHistoryEntry | undefined;
 
+  // The history entry of the shown result, which records its pushes to GitHub
+  const resultEntry =
+    latestHistoryEntry && result && latestHistoryEntry.reviewedAt === result.reviewedAt
+      ? latestHistoryEntry
+      : undefined;
+  const activePush = resultEntry ? getActivePush(resultEntry) : null;
+
+  const handleRetractPush = async () => {
+    if (!resultEntry) return;
+    setRetracting(true);
+    setRetractError(null);
+    try {
+      await retractPush(resultEntry.id);
+    } catch (err) {
+      setRetractError(err instanceof Error ? err.message : 'Failed to retract review');
+    } finally {
+      setRetracting(false);
+    }
+  };
+
   // Auto-check GitHub for existing GitChorus reviews when no local history exists
   useEffect(() => {
     if (
@@ -245,6 +277,40 @@ export function ReviewView({ pr }: ReviewViewProps) {
           </div>
         )}
 
+        {/* Pushed to GitHub indicator with undo */}
+        {activePush && (
+          <div className="px-3 py-2 rounded-lg border bg-muted/30 text-xs text-muted-foreground space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="flex-1">
+                {activePush.draft ? 'Saved as a pending review' : 'Pushed to GitHub'} with{' '}
+                {activePush.commentIds.length} inline comment
+                {activePush.commentIds.length !== 1 ? 's' : ''}
+              </span>
+              {activePush.url && (
+                <a
+                  href={activePush.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-primary hover:underline"
+                >
+                  View <ExternalLink size={10} />
+                </a>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 text-xs gap-1"
+                disabled={retracting}
+                onClick={() => setShowRetractConfirm(true)}
+              >
+                {retracting ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />}
+                Undo push
+              </Button>
+            </div>
+            {retractError && <p className="text-destructive">{retractError}</p>}
+          </div>
+        )}
+
         {/* Error state — shown at top for immediate visibility */}
         {(isFailed || (error && !isRunning)) && error && (
           <div className="rounded-lg border p-4 border-destructive/30 bg-destructive/5">
@@ -291,11 +357,13 @@ export function ReviewView({ pr }: ReviewViewProps) {
             <ReviewSummary result={result} />
             <ReviewFindings
               result={result}
-              onPushToGithub={(findings, action) => {
+              onPushToGithub={(findings, action, reason) => {
                 setPushFindings(findings);
                 setPushAction(action);
+                setPushActionReason(reason);
                 setPushModalOpen(true);
               }}
+              onApplyFix={setFixFinding}
             />
           </>
         )}
@@ -345,10 +413,31 @@ export function ReviewView({ pr }: ReviewViewProps) {
           verdict={result.verdict}
           qualityScore={result.qualityScore}
           reviewAction={pushAction}
+          reviewActionReason={pushActionReason}
           prNumber={pr.number}
+          historyEntryId={resultEntry?.id}
+          openFindingKeys={getOpenFindingKeys(result)}
         />
       )}
 
+      {/* Apply suggested fix modal */}
+      <ApplyFixModal
+        open={fixFinding !== null}
+        onOpenChange={open => !open && setFixFinding(null)}
+        finding={fixFinding}
+        prNumber={pr.number}
+      />
+
+      {/* Retract push confirmation dialog */}
+      <ConfirmDialog
+        open={showRetractConfirm}
+        onOpenChange={setShowRetractConfirm}
+        title="Retract pushed review?"
+        description="The review is dismissed on GitHub, its inline comments are deleted and its summary is replaced by a retraction note. A pending review is deleted."
+        confirmLabel="Retract Review"
+        onConfirm={handleRetractPush}
+      />
+
       {/* Re-review confirmation dialog */}
       <ConfirmDialog
         open={showConfirm}
@@ -8,3 +8,4 @@ export { ReviewSummary } from './ReviewSummary';
 export { ReviewFindings } from './ReviewFindings';
 export { FindingCard } from './FindingCard';
 export { ReviewPushModal } from './ReviewPushModal';
+export { ApplyFixModal } from './ApplyFixModal';
@@ -6,10 +6,13 @@ import { Dialog, DialogOverlay, DialogPortal, DialogTitle } from '@/components/u
 import { SettingsNavigation } from './SettingsNavigation';
 import {
   AppearanceSection,
+  BudgetSection,
   GithubSection,
   GeneralSection,
   ProviderSection,
   ReviewPreferencesSection,
+  SubAgentsSection,
+  PromptTemplatesSection,
 } from './sections';
 
 export default function SettingsModal() {
@@ -27,6 +30,12 @@ export default function SettingsModal() {
         return <ProviderSection />;
       case 'review-preferences':
         return <ReviewPreferencesSection />;
+      case 'sub-agents':
+        return <SubAgentsSection />;
+      case 'prompt-templates':
+        return <PromptTemplatesSection />;
+      case 'budget':
+        return <BudgetSection />;
       case 'github':
         return <GithubSection />;
       case 'general':
@@ -1,5 +1,14 @@
 import type { ComponentType } from 'react';
-import { Palette, Info, Github, Bot, SlidersHorizontal } from 'lucide-react';
+import {
+  Palette,
+  Info,
+  Github,
+  Bot,
+  SlidersHorizontal,
+  Users,
+  FileText,
+  Wallet,
+} from 'lucide-react';
 import type { SettingsSectionId } from '@gitchorus/shared';
 
 export interface NavigationItem {
@@ -22,6 +31,9 @@ export const NAV_GROUPS: NavigationGroup[] = [
     items: [
       { id: 'provider', label: 'AI Provider', icon: Bot },
       { id: 'review-preferences', label: 'Review Preferences', icon: SlidersHorizontal },
+      { id: 'sub-agents', label: 'Sub-Agents', icon: Users },
+      { id: 'prompt-templates', label: 'Prompt Templates', icon: FileText },
+      { id: 'budget', label: 'Budget', icon: Wallet },
     ],
   },
   {
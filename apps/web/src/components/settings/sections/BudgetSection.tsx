@@ -0,0 +1,148 @@
+import { Wallet, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useSettings } from '@/hooks/useSettings';
+import { useBudget } from '@/hooks/useBudget';
+
+/**
+ * Parse a USD cap from an input. Empty or invalid input means no cap (0).
+ */
+function parseCap(value: string): number {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * 100) / 100 : 0;
+}
+
+export function BudgetSection() {
+  const { config, loading, updateConfig } = useSettings();
+  const { status, repositoryFullName } = useBudget();
+
+  if (loading && !config) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          Loading settings...
+        </div>
+      </div>
+    );
+  }
+
+  const monthlyBudgetUsd = config?.monthlyBudgetUsd ?? 0;
+  const repoBudgetsUsd = config?.repoBudgetsUsd ?? {};
+  const repoCap = repositoryFullName ? repoBudgetsUsd[repositoryFullName] : undefined;
+
+  const setRepoCap = (value: string) => {
+    if (!repositoryFullName) return;
+    const next = { ...repoBudgetsUsd };
+    if (value.trim() === '') {
+      delete next[repositoryFullName];
+    } else {
+      next[repositoryFullName] = parseCap(value);
+    }
+    updateConfig({ repoBudgetsUsd: next });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Section Header */}
+      <div className="flex items-center gap-3">
+        <div
+          className={clsx(
+            'w-10 h-10 rounded-xl flex items-center justify-center',
+            'bg-linear-to-br from-primary/20 to-brand-600/10',
+            'ring-1'
+          )}
+          style={
+            {
+              '--tw-ring-color': 'color-mix(in oklch, var(--primary), transparent 80%)',
+            } as React.CSSProperties
+          }
+        >
+          <Wallet className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Budget</h2>
+          <p className="text-sm text-muted-foreground">
+            Monthly spend caps per repository, counted from the cost of every review and validation
+            run
+          </p>
+        </div>
+      </div>
+
+      {/* Current Repository Status */}
+      {status && (
+        <div className="rounded-xl border border-border/50 bg-card/50 p-4 space-y-1">
+          <h3 className="text-sm font-medium text-foreground">
+            {status.repositoryFullName} &middot; {status.month}
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            ${status.spentUsd.toFixed(2)} spent (reviews ${status.reviewSpendUsd.toFixed(2)},
+            validations ${status.validationSpendUsd.toFixed(2)})
+          </p>
+          <p
+            className={clsx(
+              'text-xs font-medium',
+              status.exhausted ? 'text-red-600 dark:text-red-400' : 'text-foreground'
+            )}
+          >
+            {status.remainingUsd !== null
+              ? `$${status.remainingUsd.toFixed(2)} of $${status.capUsd?.toFixed(2)} remaining`
+              : 'No monthly cap'}
+          </p>
+        </div>
+      )}
+
+      {/* Caps */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Monthly Caps</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Once a repository reaches its cap, new reviews and validations are refused until the
+            next month. The remaining budget is also passed to each run as its spending limit. Use 0
+            for no cap.
+          </p>
+        </div>
+        <label className="block space-y-1.5">
+          <span className="text-xs font-medium text-muted-foreground">
+            Default cap for all repositories (USD)
+          </span>
+          <input
+            key={monthlyBudgetUsd}
+            type="number"
+            min={0}
+            step={1}
+            defaultValue={monthlyBudgetUsd}
+            onBlur={e => {
+              const value = parseCap(e.target.value);
+              if (value !== monthlyBudgetUsd) {
+                updateConfig({ monthlyBudgetUsd: value });
+              }
+            }}
+            className="w-full p-2.5 text-xs font-mono bg-muted/50 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+        </label>
+        {repositoryFullName && (
+          <label className="block space-y-1.5">
+            <span className="text-xs font-medium text-muted-foreground">
+              Cap for {repositoryFullName} (USD, leave empty to use the default)
+            </span>
+            <input
+              key={repoCap ?? 'default'}
+              type="number"
+              min={0}
+              step={1}
+              defaultValue={repoCap ?? ''}
+              placeholder={String(monthlyBudgetUsd)}
+              onBlur={e => {
+                const value = e.target.value.trim();
+                const unchanged =
+                  value === '' ? repoCap === undefined : parseCap(value) === repoCap;
+                if (!unchanged) setRepoCap(value);
+              }}
+              className="w-full p-2.5 text-xs font-mono bg-muted/50 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
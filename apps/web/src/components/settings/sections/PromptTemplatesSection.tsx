@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { FileText, Loader2, RotateCcw, Save, AlertTriangle } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { PromptTemplateId } from '@gitchorus/shared';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import { diffLines } from '@/lib/promptTemplates';
+
+const DIFF_LINE_COLORS = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-500/10 text-green-700 dark:text-green-400',
+  removed: 'bg-red-500/10 text-red-700 dark:text-red-400',
+} as const;
+
+const DIFF_LINE_PREFIXES = { same: ' ', added: '+', removed: '-' } as const;
+
+export function PromptTemplatesSection() {
+  const { templates, loading, saveTemplate, resetTemplate } = usePromptTemplates();
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('review-system');
+  const [draft, setDraft] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selected = templates.find(template => template.id === selectedId);
+  const savedText = selected ? (selected.override?.template ?? selected.defaultTemplate) : '';
+
+  // Start from the saved text whenever another template is picked or a save lands
+  useEffect(() => {
+    setDraft(savedText);
+    setError(null);
+  }, [selectedId, savedText]);
+
+  if (loading && templates.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          Loading prompt templates...
+        </div>
+      </div>
+    );
+  }
+
+  const dirty = draft !== savedText;
+  const staleOverride =
+    selected?.override && selected.override.baseVersion !== selected.defaultVersion;
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setSaving(true);
+    setError(await saveTemplate(selected.id, draft));
+    setSaving(false);
+  };
+
+  const handleReset = async () => {
+    if (!selected) return;
+    setSaving(true);
+    setError(await resetTemplate(selected.id));
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Section Header */}
+      <div className="flex items-center gap-3">
+        <div
+          className={clsx(
+            'w-10 h-10 rounded-xl flex items-center justify-center',
+            'bg-linear-to-br from-primary/20 to-brand-600/10',
+            'ring-1'
+          )}
+          style={
+            {
+              '--tw-ring-color': 'color-mix(in oklch, var(--primary), transparent 80%)',
+            } as React.CSSProperties
+          }
+        >
+          <FileText className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Prompt Templates</h2>
+          <p className="text-sm text-muted-foreground">
+            Customize the prompts sent for validations, reviews and re-reviews
+          </p>
+        </div>
+      </div>
+
+      {/* Template Picker */}
+      <div className="grid grid-cols-2 gap-2">
+        {templates.map(template => (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => setSelectedId(template.id)}
+            className={clsx(
+              'rounded-xl border p-3 text-left transition-colors',
+              template.id === selectedId
+                ? 'border-primary/50 bg-primary/5 ring-1 ring-primary/20'
+                : 'border-border/50 hover:bg-muted/50'
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-foreground">{template.name}</span>
+              {template.override && (
+                <span className="text-[10px] px-1.5 py-0.5 rounded-full border border-primary/20 bg-primary/10 text-primary font-medium">
+                  Custom
+                </span>
+              )}
+            </div>
+            <p className="text-[11px] text-muted-foreground mt-0.5">{template.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-medium text-foreground">{selected.name}</h3>
+              <p className="text-xs text-muted-foreground mt-0.5 font-mono">
+                version {selected.version}
+                {selected.override ? ` (default ${selected.defaultVersion})` : ' (default)'}
+              </p>
+            </div>
+            <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showDiff}
+                onChange={() => setShowDiff(!showDiff)}
+                className="accent-primary"
+              />
+              Diff against default
+            </label>
+          </div>
+
+          {staleOverride && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-500/20 bg-amber-500/5 p-2.5 text-xs text-amber-700 dark:text-amber-400">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              The built-in default has changed since this override was saved (was{' '}
+              {selected.override?.baseVersion}). Check the diff to pick up the changes.
+            </div>
+          )}
+
+          {showDiff ? (
+            <pre className="max-h-96 overflow-auto rounded-md border bg-muted/30 p-2.5 text-[11px] font-mono leading-relaxed">
+              {diffLines(selected.defaultTemplate, draft).map((line, i) => (
+                <div key={i} className={clsx('whitespace-pre-wrap', DIFF_LINE_COLORS[line.type])}>
+                  {DIFF_LINE_PREFIXES[line.type]} {line.text}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              rows={18}
+              spellCheck={false}
+              className="w-full p-2.5 text-[11px] font-mono leading-relaxed bg-muted/50 border rounded-md resize-y focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          )}
+
+          {/* Variables */}
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-muted-foreground">Variables</span>
+            <ul className="space-y-0.5">
+              {selected.variables.map(variable => (
+                <li key={variable.name} className="text-[11px] text-muted-foreground">
+                  <code className="font-mono text-foreground">{`{{${variable.name}}}`}</code>{' '}
+                  {variable.description}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!dirty || saving}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save size={12} />
+              Save Override
+            </button>
+            {dirty && (
+              <button
+                type="button"
+                onClick={() => setDraft(savedText)}
+                className="px-3 py-1.5 text-xs font-medium rounded-md border border-border/50 hover:bg-muted/50 transition-colors"
+              >
+                Discard Changes
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={!selected.override || saving}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md border border-border/50 hover:bg-muted/50 transition-colors ml-auto disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RotateCcw size={12} />
+              Reset to Default
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
-import { Bot, Check, Loader2 } from 'lucide-react';
+import { ArrowDown, ArrowUp, Bot, Check, Loader2, Plus, X } from 'lucide-react';
 import { clsx } from 'clsx';
-import type { ClaudeModel } from '@gitchorus/shared';
-import { CLAUDE_MODEL_LABELS } from '@gitchorus/shared';
+import type {
+  ClaudeModel,
+  CodexModel,
+  ProviderFallback,
+  ProviderType,
+  ReviewConfig,
+} from '@gitchorus/shared';
+import { CLAUDE_MODEL_LABELS, CODEX_MODEL_LABELS, PROVIDER_LABELS } from '@gitchorus/shared';
 import { useSettings } from '@/hooks/useSettings';
 
 /** Model descriptions for the selection cards */
@@ -18,6 +24,35 @@ const MODEL_OPTIONS: ClaudeModel[] = [
   'claude-opus-4-6',
 ];
 
+/** Codex model descriptions for the selection cards */
+const CODEX_MODEL_DESCRIPTIONS: Record<CodexModel, string> = {
+  'gpt-5-codex': 'Tuned for agentic coding tasks',
+  'gpt-5': 'General-purpose reasoning model',
+};
+
+/** Ordered list of Codex models for display */
+const CODEX_MODEL_OPTIONS: CodexModel[] = ['gpt-5-codex', 'gpt-5'];
+
+/** Provider descriptions for the selection cards */
+const PROVIDER_DESCRIPTIONS: Record<ProviderType, string> = {
+  claude: 'Anthropic Claude via Agent SDK',
+  codex: 'OpenAI Codex via Codex CLI',
+  local: 'Ollama, llama.cpp or any OpenAI-compatible server',
+  replay: 'Replay recorded Claude sessions, no API calls',
+};
+
+/** Ordered list of providers for display */
+const PROVIDER_OPTIONS: ProviderType[] = ['claude', 'codex', 'local', 'replay'];
+
+/** Tasks that can each be routed to a provider */
+const PROVIDER_TASKS: {
+  key: keyof Pick<ReviewConfig, 'reviewProvider' | 'validationProvider'>;
+  label: string;
+}[] = [
+  { key: 'reviewProvider', label: 'PR Review' },
+  { key: 'validationProvider', label: 'Issue Validation' },
+];
+
 export function ProviderSection() {
   const { config, loading, updateConfig } = useSettings();
 
@@ -33,6 +68,33 @@ export function ProviderSection() {
   }
 
   const selectedModel = config?.model ?? 'claude-sonnet-4-5-20250929';
+  const selectedCodexModel = config?.codexModel ?? 'gpt-5-codex';
+  const reviewFallbacks = config?.reviewFallbacks ?? [];
+  const usesProvider = (type: ProviderType) =>
+    config?.reviewProvider === type ||
+    config?.validationProvider === type ||
+    reviewFallbacks.some(fallback => fallback.provider === type);
+  const usesCodex = usesProvider('codex');
+  const usesLocal = usesProvider('local');
+  const recordSessions = config?.recordSessions ?? false;
+
+  const setFallbacks = (fallbacks: ProviderFallback[]) =>
+    updateConfig({ reviewFallbacks: fallbacks });
+
+  const moveFallback = (index: number, offset: number) => {
+    const next = [...reviewFallbacks];
+    const [entry] = next.splice(index, 1);
+    next.splice(index + offset, 0, entry);
+    setFallbacks(next);
+  };
+
+  const setFallbackModel = (index: number, model: string) => {
+    const value = model.trim() || undefined;
+    if (value === reviewFallbacks[index].model) return;
+    setFallbacks(
+      reviewFallbacks.map((fallback, i) => (i === index ? { ...fallback, model: value } : fallback))
+    );
+  };
 
   return (
     <div className="space-y-6">
@@ -58,29 +120,118 @@ export function ProviderSection() {
         </div>
       </div>
 
-      {/* Provider Card */}
-      <div className="space-y-4">
-        <h3 className="text-sm font-medium text-foreground">Provider</h3>
-        <div className="rounded-xl border border-primary/50 bg-primary/5 p-4 ring-1 ring-primary/20">
-          <div className="flex items-center gap-3">
-            <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
-              <Bot className="w-4 h-4 text-primary" />
-            </div>
-            <div className="flex-1">
-              <h3 className="text-sm font-medium text-foreground">Claude</h3>
-              <p className="text-xs text-muted-foreground">Anthropic Claude via Agent SDK</p>
+      {/* Provider Selection (per task) */}
+      {PROVIDER_TASKS.map(task => {
+        const selectedProvider = config?.[task.key] ?? 'claude';
+        return (
+          <div key={task.key} className="space-y-3">
+            <h3 className="text-sm font-medium text-foreground">{task.label} Provider</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {PROVIDER_OPTIONS.map(providerType => {
+                const isSelected = selectedProvider === providerType;
+                return (
+                  <button
+                    key={providerType}
+                    onClick={() => updateConfig({ [task.key]: providerType })}
+                    className={clsx(
+                      'text-left rounded-xl border p-3 transition-all duration-200',
+                      isSelected
+                        ? 'border-primary/50 bg-primary/5 ring-1 ring-primary/20'
+                        : 'border-border hover:border-primary/30 hover:bg-muted/50'
+                    )}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium text-foreground">
+                        {PROVIDER_LABELS[providerType]}
+                      </span>
+                      {isSelected && <Check className="w-3.5 h-3.5 text-primary" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground leading-relaxed">
+                      {PROVIDER_DESCRIPTIONS[providerType]}
+                    </p>
+                  </button>
+                );
+              })}
             </div>
-            <span className="flex items-center gap-1.5 text-xs font-medium text-primary bg-primary/10 px-2 py-1 rounded-full">
-              <Check className="w-3 h-3" />
-              Active
-            </span>
           </div>
+        );
+      })}
+
+      {/* Review Fallback Chain */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Review Fallbacks</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Tried in order when a review fails with an authentication error, a usage limit or by
+            running out of turns. Leave the model empty to use the provider&apos;s configured model.
+          </p>
+        </div>
+        {reviewFallbacks.length > 0 && (
+          <div className="space-y-2">
+            {reviewFallbacks.map((fallback, index) => (
+              <div
+                key={`${index}-${fallback.provider}-${fallback.model ?? ''}`}
+                className="flex items-center gap-2 rounded-xl border border-border p-2.5"
+              >
+                <span className="text-xs text-muted-foreground w-4 text-right">{index + 1}.</span>
+                <span className="text-sm font-medium text-foreground w-16">
+                  {PROVIDER_LABELS[fallback.provider]}
+                </span>
+                <input
+                  type="text"
+                  defaultValue={fallback.model ?? ''}
+                  placeholder="Default model"
+                  onBlur={e => setFallbackModel(index, e.target.value)}
+                  className="flex-1 min-w-0 p-2 text-xs font-mono bg-muted/50 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                <button
+                  type="button"
+                  aria-label="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveFallback(index, -1)}
+                  className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 disabled:opacity-30 disabled:pointer-events-none"
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Move down"
+                  disabled={index === reviewFallbacks.length - 1}
+                  onClick={() => moveFallback(index, 1)}
+                  className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50 disabled:opacity-30 disabled:pointer-events-none"
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Remove fallback"
+                  onClick={() => setFallbacks(reviewFallbacks.filter((_, i) => i !== index))}
+                  className="p-1 rounded-md text-muted-foreground hover:text-destructive hover:bg-muted/50"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {PROVIDER_OPTIONS.map(providerType => (
+            <button
+              key={providerType}
+              type="button"
+              onClick={() => setFallbacks([...reviewFallbacks, { provider: providerType }])}
+              className="inline-flex items-center gap-1 rounded-md border border-border px-2.5 py-1.5 text-xs text-muted-foreground hover:border-primary/30 hover:bg-muted/50 hover:text-foreground transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              {PROVIDER_LABELS[providerType]}
+            </button>
+          ))}
         </div>
       </div>
 
       {/* Model Selection */}
       <div className="space-y-4">
-        <h3 className="text-sm font-medium text-foreground">Model</h3>
+        <h3 className="text-sm font-medium text-foreground">Claude Model</h3>
         <div className="space-y-2">
           {MODEL_OPTIONS.map(modelId => {
             const isSelected = selectedModel === modelId;
@@ -111,6 +262,118 @@ export function ProviderSection() {
           })}
         </div>
       </div>
+
+      {/* Session Recording Toggle */}
+      <div className="rounded-xl border border-border/50 bg-card/50 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Record Agent Sessions</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Save every Claude run to disk so it can be replayed with the Replay provider
+            </p>
+          </div>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={recordSessions}
+            onClick={() => updateConfig({ recordSessions: !recordSessions })}
+            className={clsx(
+              'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background',
+              recordSessions ? 'bg-primary' : 'bg-muted'
+            )}
+          >
+            <span
+              className={clsx(
+                'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out',
+                recordSessions ? 'translate-x-5' : 'translate-x-0'
+              )}
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Codex Model Selection */}
+      {usesCodex && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-foreground">Codex Model</h3>
+          <div className="space-y-2">
+            {CODEX_MODEL_OPTIONS.map(modelId => {
+              const isSelected = selectedCodexModel === modelId;
+              return (
+                <button
+                  key={modelId}
+                  onClick={() => updateConfig({ codexModel: modelId })}
+                  className={clsx(
+                    'w-full text-left rounded-xl border p-4 transition-all duration-200',
+                    isSelected
+                      ? 'border-primary/50 bg-primary/5 ring-1 ring-primary/20'
+                      : 'border-border hover:border-primary/30 hover:bg-muted/50'
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-sm font-medium text-foreground">
+                        {CODEX_MODEL_LABELS[modelId]}
+                      </span>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {CODEX_MODEL_DESCRIPTIONS[modelId]}
+                      </p>
+                    </div>
+                    {isSelected && <Check className="w-4 h-4 text-primary flex-shrink-0" />}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Local Model Endpoint */}
+      {usesLocal && (
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Local Model</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              OpenAI-compatible server. The model needs tool calling support to explore the
+              repository.
+            </p>
+          </div>
+          <div className="space-y-3">
+            <label className="block space-y-1.5">
+              <span className="text-xs font-medium text-muted-foreground">Endpoint URL</span>
+              <input
+                key={config?.localEndpoint}
+                type="url"
+                defaultValue={config?.localEndpoint ?? ''}
+                placeholder="http://localhost:11434/v1"
+                onBlur={e => {
+                  const value = e.target.value.trim();
+                  if (value && value !== config?.localEndpoint) {
+                    updateConfig({ localEndpoint: value });
+                  }
+                }}
+                className="w-full p-2.5 text-xs font-mono bg-muted/50 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+            </label>
+            <label className="block space-y-1.5">
+              <span className="text-xs font-medium text-muted-foreground">Model name</span>
+              <input
+                key={config?.localModel}
+                type="text"
+                defaultValue={config?.localModel ?? ''}
+                placeholder="qwen2.5-coder:14b"
+                onBlur={e => {
+                  const value = e.target.value.trim();
+                  if (value && value !== config?.localModel) {
+                    updateConfig({ localModel: value });
+                  }
+                }}
+                className="w-full p-2.5 text-xs font-mono bg-muted/50 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+            </label>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,8 +1,34 @@
-import { SlidersHorizontal, Check, Loader2, AlertTriangle, FlaskConical } from 'lucide-react';
+import {
+  SlidersHorizontal,
+  Check,
+  Loader2,
+  AlertTriangle,
+  FlaskConical,
+  Plus,
+  Trash2,
+} from 'lucide-react';
 import { clsx } from 'clsx';
-import type { ReviewDepth, DefaultReviewAction, ReviewMode } from '@gitchorus/shared';
-import { REVIEW_DEPTH_CONFIG } from '@gitchorus/shared';
+import type {
+  ClaudeModel,
+  ReviewDepth,
+  DefaultReviewAction,
+  ReviewGateRule,
+  ReviewMode,
+  ReviewRiskLevel,
+  ReviewSeverity,
+} from '@gitchorus/shared';
+import {
+  CLAUDE_MODEL_LABELS,
+  DEFAULT_REVIEW_CONFIG,
+  DEFAULT_REVIEW_GATE_POLICY,
+  MAX_QUEUE_CONCURRENCY,
+  REVIEW_ACTION_LABELS,
+  REVIEW_DEPTH_CONFIG,
+  REVIEW_RISK_LABELS,
+  REVIEW_RISK_LEVELS,
+} from '@gitchorus/shared';
 import { useSettings } from '@/hooks/useSettings';
+import { describeReviewGateRule } from '@/lib/reviewGate';
 
 /** Ordered list of depth options */
 const DEPTH_OPTIONS: ReviewDepth[] = ['quick', 'standard', 'thorough'];
@@ -22,11 +48,43 @@ const REVIEW_MODE_OPTIONS: {
   {
     value: 'multi-agent',
     label: 'Multi-Agent',
-    description: '4 specialized sub-agents review in parallel for deeper analysis',
+    description:
+      'Specialized sub-agents, including your own, review in parallel for deeper analysis',
     experimental: true,
   },
 ];
 
+/** Risk thresholds offered for cascaded routing ("low" would escalate every PR) */
+const CASCADE_THRESHOLD_OPTIONS: ReviewRiskLevel[] = REVIEW_RISK_LEVELS.filter(
+  level => level !== 'low'
+);
+
+/** Claude models a risky PR can be escalated to */
+const ESCALATION_MODEL_OPTIONS: ClaudeModel[] = ['claude-sonnet-4-5-20250929', 'claude-opus-4-6'];
+
+/** Concurrency limits offered for the review and validation queues */
+const CONCURRENCY_OPTIONS: number[] = Array.from(
+  { length: MAX_QUEUE_CONCURRENCY },
+  (_, index) => index + 1
+);
+
+/** Queues whose concurrency can be configured */
+const CONCURRENCY_QUEUES: {
+  key: 'reviewConcurrency' | 'validationConcurrency';
+  label: string;
+}[] = [
+  { key: 'reviewConcurrency', label: 'PR reviews' },
+  { key: 'validationConcurrency', label: 'Issue validations' },
+];
+
+/** Diff sizes above which initial reviews are split into file clusters (0 = never) */
+const MAP_REDUCE_THRESHOLD_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Never' },
+  { value: 2000, label: '2,000 lines' },
+  { value: 3000, label: '3,000 lines' },
+  { value: 5000, label: '5,000 lines' },
+];
+
 /** Review action labels */
 const REVIEW_ACTION_OPTIONS: { value: DefaultReviewAction; label: string; description: string }[] =
   [
@@ -43,6 +101,27 @@ const REVIEW_ACTION_OPTIONS: { value: DefaultReviewAction; label: string; descri
     { value: 'APPROVE', label: 'Approve', description: 'Approve the PR with review comments' },
   ];
 
+/** Severities a gate rule can test for */
+const GATE_SEVERITIES: ReviewSeverity[] = ['critical', 'major', 'minor', 'nit'];
+
+/** Rule added by "Add rule": approve clean, high-scoring reviews */
+const NEW_GATE_RULE: ReviewGateRule = {
+  action: 'APPROVE',
+  minQualityScore: 8,
+  noSeverity: ['critical', 'major'],
+};
+
+/** Toggle a severity in a rule's severity list, dropping the list when it becomes empty */
+function toggleSeverity(
+  severities: ReviewSeverity[] | undefined,
+  severity: ReviewSeverity
+): ReviewSeverity[] | undefined {
+  const next = severities?.includes(severity)
+    ? severities.filter(s => s !== severity)
+    : [...(severities ?? []), severity];
+  return next.length > 0 ? next : undefined;
+}
+
 export function ReviewPreferencesSection() {
   const { config, loading, updateConfig } = useSettings();
 
@@ -61,7 +140,23 @@ export function ReviewPreferencesSection() {
   const reviewDepth = config?.reviewDepth ?? 'standard';
   const reviewMode = config?.reviewMode ?? 'single-agent';
   const defaultReviewAction = config?.defaultReviewAction ?? 'COMMENT';
+  const reviewGatePolicy = config?.reviewGatePolicy ?? DEFAULT_REVIEW_GATE_POLICY;
+  const updateGateRule = (index: number, changes: Partial<ReviewGateRule>) =>
+    updateConfig({
+      reviewGatePolicy: reviewGatePolicy.map((rule, i) =>
+        i === index ? { ...rule, ...changes } : rule
+      ),
+    });
   const autoPush = config?.autoPush ?? false;
+  const draftReviews = config?.draftReviews ?? false;
+  const cascadeRouting = config?.cascadeRouting ?? false;
+  const cascadeRiskThreshold = config?.cascadeRiskThreshold ?? 'high';
+  const cascadeEscalationModel = config?.cascadeEscalationModel ?? 'claude-opus-4-6';
+  const resumeInterruptedRuns = config?.resumeInterruptedRuns ?? true;
+  const verifyFindings = config?.verifyFindings ?? false;
+  const mapReduceThresholdLines =
+    config?.mapReduceThresholdLines ?? DEFAULT_REVIEW_CONFIG.mapReduceThresholdLines;
+  const shellAllowlist = config?.shellAllowlist ?? DEFAULT_REVIEW_CONFIG.shellAllowlist;
 
   return (
     <div className="space-y-6">
@@ -221,12 +316,265 @@ export function ReviewPreferencesSection() {
         )}
       </div>
 
+      {/* Cascaded Routing */}
+      <div className="rounded-xl border border-border/50 bg-card/50 p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Cascaded Routing</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Haiku triages each PR first. Only risky PRs are reviewed with the escalation model,
+              the rest use your regular model. Claude provider only.
+            </p>
+          </div>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={cascadeRouting}
+            onClick={() => updateConfig({ cascadeRouting: !cascadeRouting })}
+            className={clsx(
+              'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background',
+              cascadeRouting ? 'bg-primary' : 'bg-muted'
+            )}
+          >
+            <span
+              className={clsx(
+                'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out',
+                cascadeRouting ? 'translate-x-5' : 'translate-x-0'
+              )}
+            />
+          </button>
+        </div>
+        {cascadeRouting && (
+          <>
+            <div className="space-y-2">
+              <span className="text-xs font-medium text-muted-foreground">
+                Escalate at risk level
+              </span>
+              <div className="grid grid-cols-3 gap-2">
+                {CASCADE_THRESHOLD_OPTIONS.map(level => {
+                  const isSelected = cascadeRiskThreshold === level;
+                  return (
+                    <button
+                      key={level}
+                      onClick={() => updateConfig({ cascadeRiskThreshold: level })}
+                      className={clsx(
+                        'flex items-center justify-between rounded-xl border p-3 text-sm font-medium text-foreground transition-all duration-200',
+                        isSelected
+                          ? 'border-primary/50 bg-primary/5 ring-1 ring-primary/20'
+                          : 'border-border hover:border-primary/30 hover:bg-muted/50'
+                      )}
+                    >
+                      <span>
+                        {REVIEW_RISK_LABELS[level]}
+                        {level !== 'critical' && '+'}
+                      </span>
+                      {isSelected && <Check className="w-3.5 h-3.5 text-primary" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <span className="text-xs font-medium text-muted-foreground">Escalation model</span>
+              <div className="grid grid-cols-2 gap-2">
+                {ESCALATION_MODEL_OPTIONS.map(modelId => {
+                  const isSelected = cascadeEscalationModel === modelId;
+                  return (
+                    <button
+                      key={modelId}
+                      onClick={() => updateConfig({ cascadeEscalationModel: modelId })}
+                      className={clsx(
+                        'flex items-center justify-between rounded-xl border p-3 text-sm font-medium text-foreground transition-all duration-200',
+                        isSelected
+                          ? 'border-primary/50 bg-primary/5 ring-1 ring-primary/20'
+                          : 'border-border hover:border-primary/30 hover:bg-muted/50'
+                      )}
+                    >
+                      {CLAUDE_MODEL_LABELS[modelId]}
+                      {isSelected && <Check className="w-3.5 h-3.5 text-primary" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Verify Findings */}
+      <div className="rounded-xl border border-border/50 bg-card/50 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Verify Findings</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              A second pass checks each finding against the actual code and marks it verified,
+              disputed or hallucinated. Disputed findings are not pushed by default. Claude provider
+              only.
+            </p>
+          </div>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={verifyFindings}
+            onClick={() => updateConfig({ verifyFindings: !verifyFindings })}
+            className={clsx(
+              'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background',
+              verifyFindings ? 'bg-primary' : 'bg-muted'
+            )}
+          >
+            <span
+              className={clsx(
+                'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out',
+                verifyFindings ? 'translate-x-5' : 'translate-x-0'
+              )}
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Large PR Splitting */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Large PR Splitting</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Diffs longer than this are split into clusters of related files, each reviewed on its
+            own, and the findings merged into one review. Re-reviews are never split.
+          </p>
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {MAP_REDUCE_THRESHOLD_OPTIONS.map(option => {
+            const isSelected = mapReduceThresholdLines === option.value;
+            return (
+              <button
+                key={option.value}
+                onClick={() => updateConfig({ mapReduceThresholdLines: option.value })}
+                className={clsx(
+                  'flex items-center justify-between rounded-xl border p-3 text-sm font-medium text-foreground transition-all duration-200',
+                  isSelected
+                    ? 'border-primary/50 bg-primary/5 ring-1 ring-primary/20'
+                    : 'border-border hover:border-primary/30 hover:bg-muted/50'
+                )}
+              >
+                {option.label}
+                {isSelected && <Check className="w-3.5 h-3.5 text-primary" />}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Concurrent Runs */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Concurrent Runs</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            How many reviews and validations run at the same time. The two queues run side by side;
+            higher values finish a backlog faster but spend credits faster too.
+          </p>
+        </div>
+        {CONCURRENCY_QUEUES.map(queue => {
+          const current = config?.[queue.key] ?? DEFAULT_REVIEW_CONFIG[queue.key];
+          return (
+            <div key={queue.key} className="space-y-2">
+              <span className="text-xs font-medium text-muted-foreground">{queue.label}</span>
+              <div className="grid grid-cols-4 gap-2">
+                {CONCURRENCY_OPTIONS.map(count => {
+                  const isSelected = current === count;
+                  return (
+                    <button
+                      key={count}
+                      onClick={() => updateConfig({ [queue.key]: count })}
+                      className={clsx(
+                        'flex items-center justify-between rounded-xl border p-3 text-sm font-medium text-foreground transition-all duration-200',
+                        isSelected
+                          ? 'border-primary/50 bg-primary/5 ring-1 ring-primary/20'
+                          : 'border-border hover:border-primary/30 hover:bg-muted/50'
+                      )}
+                    >
+                      {count === 1 ? '1 at a time' : `${count} at once`}
+                      {isSelected && <Check className="w-3.5 h-3.5 text-primary" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Resume After Restart */}
+      <div className="rounded-xl border border-border/50 bg-card/50 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Resume After Restart</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Queued reviews and validations are kept when GitChorus quits. When on, runs that were
+              interrupted start again; when off, they are marked failed.
+            </p>
+          </div>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={resumeInterruptedRuns}
+            onClick={() => updateConfig({ resumeInterruptedRuns: !resumeInterruptedRuns })}
+            className={clsx(
+              'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background',
+              resumeInterruptedRuns ? 'bg-primary' : 'bg-muted'
+            )}
+          >
+            <span
+              className={clsx(
+                'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out',
+                resumeInterruptedRuns ? 'translate-x-5' : 'translate-x-0'
+              )}
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Shell Allowlist */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Shell Allowlist</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Commands Claude agents may run, one per line, as a command or a command with its
+            subcommand (e.g. <code className="font-mono">git log</code>). Agents can only read files
+            inside the repository, never files that usually hold credentials (such as{' '}
+            <code className="font-mono">.env</code>), and cannot search a folder holding one as a
+            whole; chaining, redirection and substitution are always refused.
+          </p>
+        </div>
+        <textarea
+          key={shellAllowlist.join('\n')}
+          defaultValue={shellAllowlist.join('\n')}
+          onBlur={e => {
+            const entries = e.target.value
+              .split('\n')
+              .map(line => line.trim().replace(/\s+/g, ' '))
+              .filter(Boolean);
+            if (entries.join('\n') !== shellAllowlist.join('\n')) {
+              updateConfig({ shellAllowlist: entries });
+            }
+          }}
+          rows={6}
+          spellCheck={false}
+          className="w-full p-2.5 text-xs font-mono bg-muted/50 border rounded-md resize-y focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        <button
+          type="button"
+          onClick={() => updateConfig({ shellAllowlist: DEFAULT_REVIEW_CONFIG.shellAllowlist })}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Restore defaults
+        </button>
+      </div>
+
       {/* Default Review Action */}
       <div className="space-y-3">
         <div>
           <h3 className="text-sm font-medium text-foreground">Default Review Action</h3>
           <p className="text-xs text-muted-foreground mt-0.5">
-            Default action when pushing review to GitHub
+            Action pushed to GitHub when no quality gate rule matches
           </p>
         </div>
         <div className="space-y-2">
@@ -256,6 +604,156 @@ export function ReviewPreferencesSection() {
         </div>
       </div>
 
+      {/* Quality Gate */}
+      <div className="space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Quality Gate</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Rules picking the review action from the quality score and the findings being pushed.
+              They are tried in order and the first one whose conditions all hold wins.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => updateConfig({ reviewGatePolicy: [...reviewGatePolicy, NEW_GATE_RULE] })}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md border border-border/50 hover:bg-muted/50 transition-colors shrink-0"
+          >
+            <Plus size={12} />
+            Add rule
+          </button>
+        </div>
+
+        {reviewGatePolicy.length === 0 && (
+          <p className="text-xs text-muted-foreground italic">
+            No rules: the default review action is always used.
+          </p>
+        )}
+
+        {reviewGatePolicy.map((rule, index) => (
+          <div
+            key={index}
+            className="rounded-xl border border-border/50 bg-card/50 p-3 space-y-2.5"
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-muted-foreground">Rule {index + 1}</span>
+              <div className="flex gap-1 ml-auto">
+                {REVIEW_ACTION_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => updateGateRule(index, { action: option.value })}
+                    className={clsx(
+                      'px-2 py-1 rounded-md border text-xs transition-colors',
+                      rule.action === option.value
+                        ? 'border-primary/50 bg-primary/5 text-foreground font-medium'
+                        : 'border-border text-muted-foreground hover:bg-muted/50'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  updateConfig({ reviewGatePolicy: reviewGatePolicy.filter((_, i) => i !== index) })
+                }
+                aria-label={`Remove rule ${index + 1}`}
+                className="p-1.5 rounded-md text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-xs">
+              <span className="text-muted-foreground">Min. score</span>
+              <input
+                key={rule.minQualityScore ?? ''}
+                type="number"
+                min={1}
+                max={10}
+                placeholder="Any"
+                defaultValue={rule.minQualityScore ?? ''}
+                onBlur={e => {
+                  const value = e.target.value.trim();
+                  const minQualityScore =
+                    value === '' ? undefined : Math.min(10, Math.max(1, Math.round(Number(value))));
+                  if (minQualityScore !== rule.minQualityScore && !Number.isNaN(minQualityScore)) {
+                    updateGateRule(index, { minQualityScore });
+                  }
+                }}
+                className="w-20 p-1.5 text-xs font-mono bg-muted/50 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+              {(['anySeverity', 'noSeverity'] as const).map(key => (
+                <div key={key} className="contents">
+                  <span className="text-muted-foreground">
+                    {key === 'anySeverity' ? 'Any finding' : 'No finding'}
+                  </span>
+                  <div className="flex gap-3">
+                    {GATE_SEVERITIES.map(severity => (
+                      <label key={severity} className="flex items-center gap-1.5 capitalize">
+                        <input
+                          type="checkbox"
+                          checked={rule[key]?.includes(severity) ?? false}
+                          onChange={() =>
+                            updateGateRule(index, { [key]: toggleSeverity(rule[key], severity) })
+                          }
+                          className="accent-primary"
+                        />
+                        {severity}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-[11px] text-muted-foreground">
+              {REVIEW_ACTION_LABELS[rule.action]} when {describeReviewGateRule(rule)}
+            </p>
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => updateConfig({ reviewGatePolicy: DEFAULT_REVIEW_GATE_POLICY })}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Restore defaults
+        </button>
+      </div>
+
+      {/* Draft Reviews Toggle */}
+      <div className="rounded-xl border border-border/50 bg-card/50 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Pending Reviews</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Push reviews as pending drafts, so comments can be edited on GitHub before you submit
+              them
+            </p>
+          </div>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={draftReviews}
+            onClick={() => updateConfig({ draftReviews: !draftReviews })}
+            className={clsx(
+              'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background',
+              draftReviews ? 'bg-primary' : 'bg-muted'
+            )}
+          >
+            <span
+              className={clsx(
+                'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out',
+                draftReviews ? 'translate-x-5' : 'translate-x-0'
+              )}
+            />
+          </button>
+        </div>
+      </div>
+
       {/* Auto-Push Toggle */}
       <div className="rounded-xl border border-border/50 bg-card/50 p-4">
         <div className="flex items-center justify-between">
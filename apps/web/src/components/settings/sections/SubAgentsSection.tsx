@@ -0,0 +1,302 @@
+import { Users, Loader2, Plus, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { CustomAgentTool, CustomReviewAgent, ScoringAgentType } from '@gitchorus/shared';
+import { CUSTOM_AGENT_TOOLS, DEFAULT_REVIEW_CONFIG, SCORING_AGENT_TYPES } from '@gitchorus/shared';
+import { useSettings } from '@/hooks/useSettings';
+import { getAgentFullLabel } from '@/lib/agent-display';
+
+const INPUT_CLASS =
+  'w-full p-2.5 text-xs bg-muted/50 border rounded-md focus:outline-none focus:ring-1 focus:ring-primary';
+
+/**
+ * Parse a weight from an input. Empty or invalid input means no weight (0).
+ */
+function parseWeight(value: string): number {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : 0;
+}
+
+/**
+ * Derive a kebab-case id from an agent name, unique among the given ids.
+ */
+function toAgentId(name: string, takenIds: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^[^a-z]+|-+$/g, '') || 'custom-agent';
+  let id = base;
+  for (let i = 2; takenIds.includes(id); i++) {
+    id = `${base}-${i}`;
+  }
+  return id;
+}
+
+export function SubAgentsSection() {
+  const { config, loading, updateConfig } = useSettings();
+
+  if (loading && !config) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          Loading settings...
+        </div>
+      </div>
+    );
+  }
+
+  const weights = config?.subAgentWeights ?? DEFAULT_REVIEW_CONFIG.subAgentWeights;
+  const agents = config?.customReviewAgents ?? [];
+
+  /** Ids a custom agent may not take: built-in agents and the other custom agents */
+  const takenIds = (exceptIndex?: number) => [
+    'context',
+    ...SCORING_AGENT_TYPES,
+    ...agents.filter((_, i) => i !== exceptIndex).map(agent => agent.id),
+  ];
+
+  const setWeight = (agent: ScoringAgentType, value: number) => {
+    updateConfig({ subAgentWeights: { ...weights, [agent]: value } });
+  };
+
+  const updateAgent = (index: number, changes: Partial<CustomReviewAgent>) => {
+    updateConfig({
+      customReviewAgents: agents.map((agent, i) =>
+        i === index ? { ...agent, ...changes } : agent
+      ),
+    });
+  };
+
+  const addAgent = () => {
+    const name = 'New Sub-Agent';
+    updateConfig({
+      customReviewAgents: [
+        ...agents,
+        {
+          id: toAgentId(name, takenIds()),
+          name,
+          description: '',
+          prompt: '',
+          tools: [...CUSTOM_AGENT_TOOLS],
+          weight: 25,
+          enabled: true,
+        },
+      ],
+    });
+  };
+
+  const removeAgent = (index: number) => {
+    updateConfig({ customReviewAgents: agents.filter((_, i) => i !== index) });
+  };
+
+  const toggleTool = (index: number, tool: CustomAgentTool) => {
+    const tools = agents[index].tools;
+    updateAgent(index, {
+      tools: tools.includes(tool) ? tools.filter(t => t !== tool) : [...tools, tool],
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Section Header */}
+      <div className="flex items-center gap-3">
+        <div
+          className={clsx(
+            'w-10 h-10 rounded-xl flex items-center justify-center',
+            'bg-linear-to-br from-primary/20 to-brand-600/10',
+            'ring-1'
+          )}
+          style={
+            {
+              '--tw-ring-color': 'color-mix(in oklch, var(--primary), transparent 80%)',
+            } as React.CSSProperties
+          }
+        >
+          <Users className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Sub-Agents</h2>
+          <p className="text-sm text-muted-foreground">
+            Score weights and custom reviewers of the multi-agent review mode
+          </p>
+        </div>
+      </div>
+
+      {/* Built-in Weights */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">Score Weights</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            How much each sub-agent&apos;s score counts towards the quality score. Weights are
+            relative: they are scaled to add up to 100% together with the enabled custom sub-agents.
+          </p>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {SCORING_AGENT_TYPES.map(agent => (
+            <label key={agent} className="block space-y-1.5">
+              <span className="text-xs font-medium text-muted-foreground">
+                {getAgentFullLabel(agent)}
+              </span>
+              <input
+                key={weights[agent]}
+                type="number"
+                min={0}
+                step={5}
+                defaultValue={weights[agent]}
+                onBlur={e => {
+                  const value = parseWeight(e.target.value);
+                  if (value !== weights[agent]) setWeight(agent, value);
+                }}
+                className={clsx(INPUT_CLASS, 'font-mono')}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Custom Sub-Agents */}
+      <div className="space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-medium text-foreground">Custom Sub-Agents</h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Reviewers for areas the built-in agents don&apos;t cover, such as accessibility or API
+              compatibility. They run alongside the built-in agents and can only read the
+              repository. Claude provider only.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={addAgent}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md border border-border/50 hover:bg-muted/50 transition-colors shrink-0"
+          >
+            <Plus size={12} />
+            Add
+          </button>
+        </div>
+
+        {agents.length === 0 && (
+          <p className="text-xs text-muted-foreground italic">No custom sub-agents yet.</p>
+        )}
+
+        {agents.map((agent, index) => (
+          <div
+            key={agent.id}
+            className={clsx(
+              'rounded-xl border border-border/50 bg-card/50 p-4 space-y-3',
+              !agent.enabled && 'opacity-60'
+            )}
+          >
+            <div className="flex items-center gap-3">
+              <input
+                key={agent.name}
+                defaultValue={agent.name}
+                placeholder="Name"
+                onBlur={e => {
+                  const name = e.target.value.trim();
+                  if (name && name !== agent.name) {
+                    updateAgent(index, { name, id: toAgentId(name, takenIds(index)) });
+                  }
+                }}
+                className={clsx(INPUT_CLASS, 'font-medium')}
+              />
+              <button
+                type="button"
+                role="switch"
+                aria-checked={agent.enabled}
+                aria-label={`Enable ${agent.name}`}
+                onClick={() => updateAgent(index, { enabled: !agent.enabled })}
+                className={clsx(
+                  'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background',
+                  agent.enabled ? 'bg-primary' : 'bg-muted'
+                )}
+              >
+                <span
+                  className={clsx(
+                    'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out',
+                    agent.enabled ? 'translate-x-5' : 'translate-x-0'
+                  )}
+                />
+              </button>
+              <button
+                type="button"
+                onClick={() => removeAgent(index)}
+                aria-label={`Remove ${agent.name}`}
+                className="p-1.5 rounded-md text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <p className="text-[10px] font-mono text-muted-foreground">id: {agent.id}</p>
+
+            <label className="block space-y-1.5">
+              <span className="text-xs font-medium text-muted-foreground">
+                Focus (one line, shown to the orchestrator)
+              </span>
+              <input
+                key={agent.description}
+                defaultValue={agent.description}
+                placeholder="ARIA roles, keyboard navigation, color contrast"
+                onBlur={e => {
+                  const description = e.target.value.trim();
+                  if (description !== agent.description) updateAgent(index, { description });
+                }}
+                className={INPUT_CLASS}
+              />
+            </label>
+
+            <label className="block space-y-1.5">
+              <span className="text-xs font-medium text-muted-foreground">Instructions</span>
+              <textarea
+                key={agent.prompt}
+                defaultValue={agent.prompt}
+                rows={5}
+                placeholder="What this reviewer should look for and how to judge it"
+                onBlur={e => {
+                  if (e.target.value !== agent.prompt)
+                    updateAgent(index, { prompt: e.target.value });
+                }}
+                className={clsx(INPUT_CLASS, 'font-mono resize-y')}
+              />
+            </label>
+
+            <div className="flex items-end gap-4">
+              <div className="space-y-1.5">
+                <span className="text-xs font-medium text-muted-foreground">Tools</span>
+                <div className="flex gap-3">
+                  {CUSTOM_AGENT_TOOLS.map(tool => (
+                    <label key={tool} className="flex items-center gap-1.5 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={agent.tools.includes(tool)}
+                        onChange={() => toggleTool(index, tool)}
+                        className="accent-primary"
+                      />
+                      {tool}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="block space-y-1.5 w-28 ml-auto">
+                <span className="text-xs font-medium text-muted-foreground">Weight</span>
+                <input
+                  key={agent.weight}
+                  type="number"
+                  min={0}
+                  step={5}
+                  defaultValue={agent.weight}
+                  onBlur={e => {
+                    const weight = parseWeight(e.target.value);
+                    if (weight !== agent.weight) updateAgent(index, { weight });
+                  }}
+                  className={clsx(INPUT_CLASS, 'font-mono')}
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
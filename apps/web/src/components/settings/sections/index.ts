@@ -3,3 +3,6 @@ export { GithubSection } from './GithubSection';
 export { GeneralSection } from './GeneralSection';
 export { ProviderSection } from './ProviderSection';
 export { ReviewPreferencesSection } from './ReviewPreferencesSection';
+export { BudgetSection } from './BudgetSection';
+export { SubAgentsSection } from './SubAgentsSection';
+export { PromptTemplatesSection } from './PromptTemplatesSection';
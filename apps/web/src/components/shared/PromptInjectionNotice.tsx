@@ -0,0 +1,49 @@
+import { ShieldAlert } from 'lucide-react';
+import type { PromptInjectionSignal } from '@gitchorus/shared';
+import { PROMPT_INJECTION_SOURCE_LABELS } from '@gitchorus/shared';
+
+interface PromptInjectionNoticeProps {
+  signals: PromptInjectionSignal[];
+}
+
+/**
+ * Warning shown on a result when the pre-scan found text in the PR or issue
+ * that appears to give the agent instructions.
+ */
+export function PromptInjectionNotice({ signals }: PromptInjectionNoticeProps) {
+  return (
+    <div className="rounded-md border border-amber-500/20 bg-amber-500/5 p-2.5 text-xs text-amber-700 dark:text-amber-400 space-y-1.5">
+      <div className="flex items-center gap-1.5 font-medium">
+        <ShieldAlert size={14} className="shrink-0" />
+        Suspected prompt injection in {signals.length} place{signals.length === 1 ? '' : 's'}
+      </div>
+      <p className="text-muted-foreground">
+        The agent was told to treat this text as data and not to follow it. Check the result with
+        that in mind.
+      </p>
+      <ul className="space-y-1">
+        {signals.map((signal, i) => (
+          <li key={i}>
+            <span className="font-medium">
+              {PROMPT_INJECTION_SOURCE_LABELS[signal.source]}
+              {signal.file && (
+                <span className="font-mono">
+                  {' '}
+                  ({signal.file}:{signal.line})
+                </span>
+              )}
+              :
+            </span>{' '}
+            {signal.description}
+            <div
+              className="font-mono text-[11px] text-muted-foreground truncate"
+              title={signal.excerpt}
+            >
+              {signal.excerpt}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { EyeOff } from 'lucide-react';
+import type { SecretRedaction } from '@gitchorus/shared';
+import { REDACTION_SOURCE_LABELS, SECRET_KIND_LABELS } from '@gitchorus/shared';
+
+interface RedactionNoticeProps {
+  redactions: SecretRedaction[];
+}
+
+/**
+ * Notice shown on a result when secrets were masked before content was sent
+ * to the provider.
+ */
+export function RedactionNotice({ redactions }: RedactionNoticeProps) {
+  return (
+    <div className="rounded-md border border-amber-500/20 bg-amber-500/5 p-2.5 text-xs text-amber-700 dark:text-amber-400 space-y-1.5">
+      <div className="flex items-center gap-1.5 font-medium">
+        <EyeOff size={14} className="shrink-0" />
+        {redactions.length} secret{redactions.length === 1 ? ' was' : 's were'} masked
+      </div>
+      <p className="text-muted-foreground">
+        The provider and the log files only saw a placeholder. Consider rotating credentials that
+        were pasted or committed.
+      </p>
+      <ul className="space-y-1">
+        {redactions.map((redaction, i) => (
+          <li key={i}>
+            <span className="font-medium">
+              {REDACTION_SOURCE_LABELS[redaction.source]}
+              {redaction.file && (
+                <span className="font-mono">
+                  {' '}
+                  ({redaction.file}
+                  {redaction.line !== undefined && `:${redaction.line}`})
+                </span>
+              )}
+              :
+            </span>{' '}
+            {SECRET_KIND_LABELS[redaction.kind]}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
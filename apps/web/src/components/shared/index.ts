@@ -4,4 +4,6 @@ export { WelcomeView } from './WelcomeView';
 export { RepoInfoView } from './RepoInfoView';
 export { TopBar } from './TopBar';
 export { TabBar } from './TabBar';
+export { PromptInjectionNotice } from './PromptInjectionNotice';
+export { RedactionNotice } from './RedactionNotice';
 export type { AppTab } from './TabBar';
@@ -11,6 +11,9 @@ import {
   Check,
 } from 'lucide-react';
 import { cn, formatDuration } from '@/lib/utils';
+import { formatPromptTemplateUsage } from '@/lib/promptTemplates';
+import { PromptInjectionNotice } from '@/components/shared/PromptInjectionNotice';
+import { RedactionNotice } from '@/components/shared/RedactionNotice';
 import { Badge } from '@/components/ui/badge';
 import { Markdown } from '@/components/ui/markdown';
 import type { ValidationResult, BugValidation, FeatureValidation } from '@gitchorus/shared';
@@ -209,6 +212,16 @@ export function ValidationResults({ result }: ValidationResultsProps) {
         </div>
       </div>
 
+      {/* Text in the issue that tried to instruct the agent */}
+      {result.promptInjection && result.promptInjection.length > 0 && (
+        <PromptInjectionNotice signals={result.promptInjection} />
+      )}
+
+      {/* Secrets masked before the issue was sent to the provider */}
+      {result.redactions && result.redactions.length > 0 && (
+        <RedactionNotice redactions={result.redactions} />
+      )}
+
       {/* Type + Complexity badges */}
       <div className="flex items-center gap-2">
         <Badge variant="outline" className="text-[10px] capitalize">
@@ -302,7 +315,14 @@ export function ValidationResults({ result }: ValidationResultsProps) {
             <DollarSign size={10} />${result.costUsd.toFixed(4)}
           </span>
         )}
-        <span className="ml-auto">{result.model}</span>
+        {result.promptTemplates && (
+          <span className="ml-auto" title={formatPromptTemplateUsage(result.promptTemplates)}>
+            {result.promptTemplates.some(entry => entry.custom)
+              ? 'custom prompts'
+              : 'default prompts'}
+          </span>
+        )}
+        <span className={cn(!result.promptTemplates && 'ml-auto')}>{result.model}</span>
       </div>
     </div>
   );
@@ -8,4 +8,6 @@ export { useClickOutside } from './useClickOutside';
 export { useValidation, useValidationSocket } from './useValidation';
 export { useReview, useReviewSocket } from './useReview';
 export { useSettings } from './useSettings';
+export { useBudget } from './useBudget';
 export { useSplashScreen } from './useSplashScreen';
+export { usePromptTemplates } from './usePromptTemplates';
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getSocket } from '@/lib/socket';
+import { emitAsync } from '@/lib/socketHelpers';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import { useRepositoryStore } from '@/stores/useRepositoryStore';
+import {
+  BudgetEvents,
+  ReviewEvents,
+  SettingsEvents,
+  ValidationEvents,
+  createLogger,
+  type BudgetStatus,
+  type BudgetStatusPayload,
+  type BudgetStatusResponse,
+} from '@gitchorus/shared';
+
+const logger = createLogger('useBudget');
+
+/**
+ * Hook for the connected repository's monthly budget status.
+ *
+ * Fetches the status when the repository changes and refetches whenever
+ * spend or caps may have changed (review/validation completed, settings updated).
+ */
+export function useBudget() {
+  const socketInitialized = useConnectionStore(state => state.socketInitialized);
+  const repositoryFullName = useRepositoryStore(state => state.githubInfo?.fullName ?? null);
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    if (!repositoryFullName) {
+      setStatus(null);
+      return;
+    }
+    try {
+      const response = await emitAsync<BudgetStatusPayload, BudgetStatusResponse>(
+        BudgetEvents.STATUS,
+        { repositoryFullName }
+      );
+      if (response.error) {
+        logger.error('Error fetching budget status:', response.error);
+      }
+      setStatus(response.status);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch budget status';
+      logger.error('Failed to fetch budget status:', message);
+    }
+  }, [repositoryFullName]);
+
+  useEffect(() => {
+    if (!socketInitialized) return;
+    fetchStatus();
+
+    const socket = getSocket();
+    const refetch = () => {
+      fetchStatus();
+    };
+    socket.on(ReviewEvents.COMPLETE, refetch);
+    socket.on(ValidationEvents.COMPLETE, refetch);
+    socket.on(SettingsEvents.CHANGED, refetch);
+    return () => {
+      socket.off(ReviewEvents.COMPLETE, refetch);
+      socket.off(ValidationEvents.COMPLETE, refetch);
+      socket.off(SettingsEvents.CHANGED, refetch);
+    };
+  }, [socketInitialized, fetchStatus]);
+
+  return { status, repositoryFullName, refetch: fetchStatus };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import { emitAsync } from '@/lib/socketHelpers';
+import { useConnectionStore } from '@/stores/useConnectionStore';
+import {
+  PromptTemplateEvents,
+  createLogger,
+  type PromptTemplateId,
+  type PromptTemplateInfo,
+  type PromptTemplateListPayload,
+  type PromptTemplateListResponse,
+  type PromptTemplateResetPayload,
+  type PromptTemplateSavePayload,
+} from '@gitchorus/shared';
+
+const logger = createLogger('usePromptTemplates');
+
+/**
+ * Hook for the prompt templates and the user's overrides.
+ *
+ * Fetches the templates once the socket is ready. saveTemplate and
+ * resetTemplate resolve to an error message when the desktop rejects the
+ * change (e.g. an unknown variable), or null on success.
+ */
+export function usePromptTemplates() {
+  const socketInitialized = useConnectionStore(state => state.socketInitialized);
+  const [templates, setTemplates] = useState<PromptTemplateInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await emitAsync<PromptTemplateListPayload, PromptTemplateListResponse>(
+        PromptTemplateEvents.LIST,
+        {}
+      );
+      setTemplates(response.templates);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch prompt templates';
+      logger.error('Failed to fetch prompt templates:', message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const saveTemplate = useCallback(
+    async (id: PromptTemplateId, template: string): Promise<string | null> => {
+      try {
+        const response = await emitAsync<PromptTemplateSavePayload, PromptTemplateListResponse>(
+          PromptTemplateEvents.SAVE,
+          { id, template }
+        );
+        setTemplates(response.templates);
+        return response.error ?? null;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save prompt template';
+        logger.error('Failed to save prompt template:', message);
+        return message;
+      }
+    },
+    []
+  );
+
+  const resetTemplate = useCallback(async (id: PromptTemplateId): Promise<string | null> => {
+    try {
+      const response = await emitAsync<PromptTemplateResetPayload, PromptTemplateListResponse>(
+        PromptTemplateEvents.RESET,
+        { id }
+      );
+      setTemplates(response.templates);
+      return response.error ?? null;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to reset prompt template';
+      logger.error('Failed to reset prompt template:', message);
+      return message;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!socketInitialized) return;
+    fetchTemplates();
+  }, [socketInitialized, fetchTemplates]);
+
+  return { templates, loading, saveTemplate, resetTemplate };
+}
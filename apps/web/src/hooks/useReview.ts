@@ -15,6 +15,7 @@ import {
   type ReviewCompleteResponse,
   type ReviewErrorResponse,
   type ReviewFinding,
+  type DefaultReviewAction,
   type GithubCreatePrReviewPayload,
   type GithubCreatePrReviewResponse,
   type ReviewHistoryListPayload,
@@ -24,10 +25,21 @@ import {
   type ReviewChainResponse,
   type ReviewImportGithubPayload,
   type ReviewImportGithubResponse,
+  type ReviewHistoryEntry,
+  type PushedReview,
+  type ReviewRecordPushPayload,
+  type ReviewRetractPushPayload,
+  type ReviewPushHistoryResponse,
+  type ReviewFixPreparePayload,
+  type ReviewFixPrepareResponse,
+  type ReviewFixCommitPayload,
+  type ReviewFixCommitResponse,
+  type ReviewFixDiscardPayload,
 } from '@gitchorus/shared';
 import {
   formatReviewSummaryBody,
   formatInlineCommentBody,
+  getInlineCommentPosition,
   normalizeFindingPath,
 } from '@/lib/reviewFormatter';
 
@@ -234,8 +246,18 @@ export function useReview() {
       selectedFindings: ReviewFinding[],
       verdict: string,
       qualityScore: number,
-      reviewAction: 'REQUEST_CHANGES' | 'COMMENT'
-    ): Promise<{ url?: string; postedComments: number; skippedComments: number }> => {
+      reviewAction: DefaultReviewAction,
+      draft = false,
+      openFindingKeys?: string[]
+    ): Promise<{
+      url?: string;
+      reviewId?: number;
+      commentIds: number[];
+      postedComments: number;
+      skippedComments: number;
+      resolvedThreads: number;
+      duplicateComments: number;
+    }> => {
       if (!repositoryPath) {
         throw new Error('No repository connected');
       }
@@ -243,13 +265,15 @@ export function useReview() {
       // Build review body with rich formatting
       const reviewBody = formatReviewSummaryBody(selectedFindings, verdict, qualityScore);
 
-      // Build inline comments with GitHub alerts and syntax-highlighted code blocks
-      const comments = selectedFindings.map(f => ({
-        path: normalizeFindingPath(f.file),
-        line: f.line,
-        body: formatInlineCommentBody(f),
-        side: 'RIGHT' as const,
-      }));
+      // Build inline comments with GitHub alerts and syntax-highlighted code blocks.
+      // Findings about the PR itself have no file and only appear in the summary.
+      const comments = selectedFindings
+        .filter(f => f.file)
+        .map(f => ({
+          path: normalizeFindingPath(f.file),
+          ...getInlineCommentPosition(f),
+          body: formatInlineCommentBody(f),
+        }));
 
       const payload: GithubCreatePrReviewPayload = {
         projectPath: repositoryPath,
@@ -257,6 +281,8 @@ export function useReview() {
         body: reviewBody,
         event: reviewAction,
         comments,
+        draft,
+        openFindingKeys,
       };
 
       try {
@@ -273,8 +299,12 @@ export function useReview() {
         // If comments were skipped, the backend already handled the fallback
         return {
           url: response.url,
+          reviewId: response.reviewId,
+          commentIds: response.commentIds ?? [],
           postedComments: response.postedComments ?? 0,
           skippedComments: response.skippedComments ?? 0,
+          resolvedThreads: response.resolvedThreads ?? 0,
+          duplicateComments: response.duplicateComments ?? 0,
         };
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to push review';
@@ -413,6 +443,122 @@ export function useReview() {
     [repositoryPath, setReviewHistory]
   );
 
+  /**
+   * Replace a history entry in the store with its updated copy.
+   */
+  const replaceHistoryEntry = useCallback(
+    (entry: ReviewHistoryEntry) => {
+      const currentHistory = useReviewStore.getState().reviewHistory;
+      setReviewHistory(currentHistory.map(e => (e.id === entry.id ? entry : e)));
+    },
+    [setReviewHistory]
+  );
+
+  /**
+   * Record a push of a history entry to GitHub so it can be retracted later.
+   */
+  const recordPush = useCallback(
+    async (id: string, push: PushedReview) => {
+      try {
+        const response = await emitAsync<ReviewRecordPushPayload, ReviewPushHistoryResponse>(
+          ReviewEvents.RECORD_PUSH,
+          { id, push }
+        );
+
+        if (response.entry) {
+          replaceHistoryEntry(response.entry);
+        } else {
+          logger.warn('Failed to record review push:', response.error);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to record review push';
+        logger.error('Failed to record review push:', message);
+      }
+    },
+    [replaceHistoryEntry]
+  );
+
+  /**
+   * Retract the latest push of a history entry from GitHub.
+   * Throws with the reason when the push could not be (fully) retracted.
+   */
+  const retractPush = useCallback(
+    async (id: string) => {
+      if (!repositoryPath) {
+        throw new Error('No repository connected');
+      }
+
+      const response = await emitAsync<ReviewRetractPushPayload, ReviewPushHistoryResponse>(
+        ReviewEvents.RETRACT_PUSH,
+        { projectPath: repositoryPath, id },
+        { timeout: 60000 }
+      );
+
+      if (response.error || !response.entry) {
+        logger.warn('Failed to retract review push:', response.error);
+        throw new Error(response.error || 'Failed to retract review push');
+      }
+      replaceHistoryEntry(response.entry);
+    },
+    [repositoryPath, replaceHistoryEntry]
+  );
+
+  /**
+   * Apply a finding's suggested fix in a worktree of the PR branch.
+   * Returns the prepared fix with its diff; throws when it cannot be applied.
+   */
+  const prepareFix = useCallback(
+    async (prNumber: number, finding: ReviewFinding) => {
+      if (!repositoryPath) {
+        throw new Error('No repository connected');
+      }
+
+      const response = await emitAsync<ReviewFixPreparePayload, ReviewFixPrepareResponse>(
+        ReviewEvents.FIX_PREPARE,
+        { projectPath: repositoryPath, prNumber, finding },
+        { timeout: 120000 }
+      );
+
+      if (response.error || !response.fixId) {
+        throw new Error(response.error || 'Failed to apply the suggested fix');
+      }
+      return { fixId: response.fixId, branch: response.branch ?? '', diff: response.diff ?? '' };
+    },
+    [repositoryPath]
+  );
+
+  /**
+   * Commit a prepared fix and push it to the PR branch.
+   * Returns the pushed commit hash; throws when the commit or push failed.
+   */
+  const commitFix = useCallback(async (fixId: string, message: string) => {
+    const response = await emitAsync<ReviewFixCommitPayload, ReviewFixCommitResponse>(
+      ReviewEvents.FIX_COMMIT,
+      { fixId, message },
+      { timeout: 120000 }
+    );
+
+    if (!response.success || !response.commitSha) {
+      throw new Error(response.error || 'Failed to push the fix');
+    }
+    return response.commitSha;
+  }, []);
+
+  /**
+   * Discard a prepared fix without committing it.
+   */
+  const discardFix = useCallback(async (fixId: string) => {
+    try {
+      await emitAsync<ReviewFixDiscardPayload, { success: boolean; error?: string }>(
+        ReviewEvents.FIX_DISCARD,
+        { fixId }
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to discard fix';
+      logger.warn('Failed to discard fix:', message);
+    }
+  }, []);
+
   return {
     startReview,
     startReReview,
@@ -422,5 +568,10 @@ export function useReview() {
     fetchReviewChain,
     deleteHistoryEntry,
     importGithubReview,
+    recordPush,
+    retractPush,
+    prepareFix,
+    commitFix,
+    discardFix,
   };
 }
@@ -30,3 +30,44 @@ export const AGENT_FULL_LABELS: Record<ReviewAgentType, string> = {
   'code-patterns': 'Code Patterns',
   'security-performance': 'Security & Perf',
 };
+
+/**
+ * Badge color for user-defined sub-agents, which have no entry above.
+ */
+const CUSTOM_AGENT_BADGE_COLOR =
+  'bg-emerald-500/5 text-emerald-500 dark:text-emerald-300 border-emerald-500/15';
+
+function isBuiltInAgent(agent: string): agent is ReviewAgentType {
+  return agent in AGENT_FULL_LABELS;
+}
+
+/**
+ * Turn a custom sub-agent id into a label ("api-compat" -> "Api Compat").
+ */
+function humanizeAgentId(agent: string): string {
+  return agent
+    .split('-')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+/**
+ * Badge color of a built-in or custom sub-agent.
+ */
+export function getAgentBadgeColor(agent: string): string {
+  return isBuiltInAgent(agent) ? AGENT_BADGE_COLORS[agent] : CUSTOM_AGENT_BADGE_COLOR;
+}
+
+/**
+ * Short label of a built-in or custom sub-agent.
+ */
+export function getAgentShortLabel(agent: string): string {
+  return isBuiltInAgent(agent) ? AGENT_SHORT_LABELS[agent] : humanizeAgentId(agent);
+}
+
+/**
+ * Full label of a built-in or custom sub-agent.
+ */
+export function getAgentFullLabel(agent: string): string {
+  return isBuiltInAgent(agent) ? AGENT_FULL_LABELS[agent] : humanizeAgentId(agent);
+}
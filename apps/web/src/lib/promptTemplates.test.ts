@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, formatPromptTemplateUsage } from './promptTemplates';
+
+describe('diffLines', () => {
+  it('marks every line as unchanged for identical texts', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  it('reports removed and added lines in order', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+});
+
+describe('formatPromptTemplateUsage', () => {
+  it('lists each template with its version and marks overrides', () => {
+    expect(
+      formatPromptTemplateUsage([
+        { id: 'review-system', version: '1a2b3c4d', custom: false },
+        { id: 'review-user', version: '5e6f7a8b', custom: true },
+      ])
+    ).toBe('review-system@1a2b3c4d, review-user@5e6f7a8b (custom)');
+  });
+});
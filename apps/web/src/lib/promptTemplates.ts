@@ -0,0 +1,57 @@
+import type { PromptTemplateUsage } from '@gitchorus/shared';
+
+/**
+ * A line of a line-by-line diff.
+ */
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence).
+ * Used to compare a prompt template override with its built-in default.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lengths[i][j] = length of the LCS of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
+
+/**
+ * Describe the prompt template versions a run used, e.g.
+ * "review-system@1a2b3c4d, review-user@5e6f7a8b (custom)".
+ */
+export function formatPromptTemplateUsage(usage: PromptTemplateUsage[]): string {
+  return usage
+    .map(entry => `${entry.id}@${entry.version}${entry.custom ? ' (custom)' : ''}`)
+    .join(', ');
+}
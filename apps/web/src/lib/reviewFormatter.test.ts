@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { FINDING_MARKER_PATTERN, getFindingKey } from '@gitchorus/shared';
+import type { ReviewFinding } from '@gitchorus/shared';
+import {
+  formatInlineCommentBody,
+  getInlineCommentPosition,
+  getSuggestion,
+} from './reviewFormatter';
+
+function createFinding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    severity: 'minor',
+    category: 'logic',
+    file: 'src/a.ts',
+    line: 10,
+    codeSnippet: 'if (a = b) {',
+    explanation: 'Assignment instead of comparison.',
+    suggestedFix: '- if (a = b) {\n+ if (a === b) {',
+    title: 'Assignment in condition',
+    ...overrides,
+  };
+}
+
+describe('getSuggestion', () => {
+  it('returns replacements of new-file lines', () => {
+    const finding = createFinding({ startLine: 12, endLine: 13, replacement: 'a();\nb();' });
+
+    expect(getSuggestion(finding)).toEqual({
+      startLine: 12,
+      endLine: 13,
+      replacement: 'a();\nb();',
+    });
+  });
+
+  it('ignores findings without a replacement range or about removed code', () => {
+    expect(getSuggestion(createFinding())).toBeNull();
+    expect(getSuggestion(createFinding({ startLine: 10, endLine: 11 }))).toBeNull();
+    expect(
+      getSuggestion(createFinding({ side: 'LEFT', startLine: 10, endLine: 10, replacement: 'x' }))
+    ).toBeNull();
+  });
+});
+
+describe('getInlineCommentPosition', () => {
+  it('places the comment on the finding line by default', () => {
+    expect(getInlineCommentPosition(createFinding())).toEqual({ line: 10, side: 'RIGHT' });
+  });
+
+  it('spans the block a finding covers', () => {
+    expect(getInlineCommentPosition(createFinding({ startLine: 8, endLine: 12 }))).toEqual({
+      line: 12,
+      startLine: 8,
+      side: 'RIGHT',
+    });
+    expect(getInlineCommentPosition(createFinding({ startLine: 12, endLine: 12 }))).toEqual({
+      line: 12,
+      side: 'RIGHT',
+    });
+  });
+
+  it('keeps findings about removed code on the left side', () => {
+    expect(getInlineCommentPosition(createFinding({ side: 'LEFT', line: 4 }))).toEqual({
+      line: 4,
+      side: 'LEFT',
+    });
+  });
+});
+
+describe('formatInlineCommentBody', () => {
+  it('posts drop-in fixes as a suggestion block', () => {
+    const body = formatInlineCommentBody(
+      createFinding({ startLine: 10, endLine: 10, replacement: '  if (a === b) {' })
+    );
+
+    expect(body).toContain('```suggestion\n  if (a === b) {\n```');
+    expect(body).not.toContain('```diff');
+  });
+
+  it('uses a longer fence when the replacement contains backticks', () => {
+    const body = formatInlineCommentBody(
+      createFinding({ startLine: 10, endLine: 10, replacement: 'const md = "```";' })
+    );
+
+    expect(body).toContain('````suggestion\nconst md = "```";\n````');
+  });
+
+  it('falls back to a diff block for other fixes', () => {
+    expect(formatInlineCommentBody(createFinding())).toContain(
+      '```diff\n- if (a = b) {\n+ if (a === b) {\n```'
+    );
+  });
+
+  it('ends with a finding marker that survives rewording of whitespace and case', () => {
+    const body = formatInlineCommentBody(createFinding());
+    const key = body.match(FINDING_MARKER_PATTERN)?.[1];
+
+    expect(body.endsWith(`<!-- gitchorus-finding:${key} -->`)).toBe(true);
+    expect(key).toBe(getFindingKey({ file: './src/a.ts', title: ' assignment  in Condition' }));
+    expect(key).not.toBe(getFindingKey({ file: 'src/b.ts', title: 'Assignment in condition' }));
+  });
+});
@@ -6,7 +6,7 @@
  */
 
 import type { ReviewFinding, ReviewSeverity } from '@gitchorus/shared';
-import { GITCHORUS_REVIEW_MARKER } from '@gitchorus/shared';
+import { GITCHORUS_REVIEW_MARKER, formatFindingMarker } from '@gitchorus/shared';
 
 /**
  * Re-export the marker from shared for backward compatibility.
@@ -116,6 +116,59 @@ export function normalizeFindingPath(filePath: string): string {
   return normalized;
 }
 
+/**
+ * Where a finding points, for display. Findings about the PR itself rather
+ * than a changed file (e.g. suspected prompt injection) have no file.
+ */
+export function formatFindingLocation(finding: ReviewFinding): string {
+  return finding.file ? `${finding.file}:${finding.line}` : 'PR title/description';
+}
+
+// ============================================
+// Suggestions
+// ============================================
+
+/**
+ * A finding's replacement and the lines it swaps out, when it can be posted
+ * as a GitHub suggestion the PR author commits with one click. A suggestion
+ * replaces exactly the lines its comment covers, so the comment is placed on
+ * the same range (see getInlineCommentPosition).
+ */
+export function getSuggestion(
+  finding: ReviewFinding
+): { startLine: number; endLine: number; replacement: string } | null {
+  const { startLine, endLine, replacement } = finding;
+  if (startLine === undefined || endLine === undefined || replacement === undefined) return null;
+  if (finding.side === 'LEFT') return null;
+  return { startLine, endLine, replacement };
+}
+
+/**
+ * Where an inline comment for a finding is placed: the block it covers when
+ * it has a line range, the finding's line otherwise, on the side of the diff
+ * the finding refers to.
+ */
+export function getInlineCommentPosition(finding: ReviewFinding): {
+  line: number;
+  startLine?: number;
+  side: 'LEFT' | 'RIGHT';
+} {
+  const side = finding.side ?? 'RIGHT';
+  const { startLine, endLine } = finding;
+  if (startLine === undefined || endLine === undefined) return { line: finding.line, side };
+  return startLine < endLine ? { line: endLine, startLine, side } : { line: endLine, side };
+}
+
+/**
+ * Fence code in a block of the given type, with a fence longer than any
+ * backtick run inside the code so it cannot close the block early.
+ */
+function fenceCode(code: string, info: string): string[] {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [`${fence}${info}`, code, fence];
+}
+
 // ============================================
 // Star rating
 // ============================================
@@ -172,7 +225,7 @@ export function formatReviewSummaryBody(
       // Use just the filename (not the full path) to keep the table compact
       const normalizedPath = normalizeFindingPath(f.file);
       const fileName = normalizedPath.split('/').pop() ?? normalizedPath;
-      const location = `\`${fileName}:${f.line}\``;
+      const location = f.file ? `\`${fileName}:${f.line}\`` : formatFindingLocation(f);
       lines.push(`| ${i + 1} | ${emoji} ${severity} | ${category} | ${f.title} | ${location} |`);
     });
   } else {
@@ -194,7 +247,9 @@ export function formatReviewSummaryBody(
  * Format a single inline review comment body for posting to GitHub.
  *
  * Uses GitHub alert syntax for severity indicators and language-hinted
- * code blocks for syntax highlighting.
+ * code blocks for syntax highlighting. Drop-in fixes become suggestion
+ * blocks the PR author can commit from the comment. A hidden finding marker
+ * ties the comment to its finding across pushes.
  */
 export function formatInlineCommentBody(finding: ReviewFinding): string {
   const alert = getSeverityAlert(finding.severity);
@@ -217,7 +272,12 @@ export function formatInlineCommentBody(finding: ReviewFinding): string {
     lines.push('```');
   }
 
-  if (finding.suggestedFix) {
+  const suggestion = getSuggestion(finding);
+  if (suggestion) {
+    lines.push('');
+    lines.push('**Suggested fix:**');
+    lines.push(...fenceCode(suggestion.replacement, 'suggestion'));
+  } else if (finding.suggestedFix) {
     lines.push('');
     lines.push('**Suggested fix:**');
     lines.push('```diff');
@@ -225,5 +285,9 @@ export function formatInlineCommentBody(finding: ReviewFinding): string {
     lines.push('```');
   }
 
+  // Lets a later push recognize this thread and resolve or keep it
+  lines.push('');
+  lines.push(formatFindingMarker(finding));
+
   return lines.join('\n');
 }
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { ReviewFinding, ReviewGateRule, ReviewSeverity } from '@gitchorus/shared';
+import { describeReviewGateRule, evaluateReviewGate } from './reviewGate';
+
+function findingsWith(...severities: ReviewSeverity[]): ReviewFinding[] {
+  return severities.map(severity => ({
+    severity,
+    category: 'logic',
+    file: 'src/a.ts',
+    line: 1,
+    codeSnippet: '',
+    explanation: '',
+    suggestedFix: '',
+    title: severity,
+  }));
+}
+
+const policy: ReviewGateRule[] = [
+  { action: 'REQUEST_CHANGES', anySeverity: ['critical'] },
+  { action: 'APPROVE', minQualityScore: 8, noSeverity: ['critical', 'major'] },
+];
+
+describe('evaluateReviewGate', () => {
+  it('uses the first matching rule and explains it', () => {
+    expect(evaluateReviewGate(policy, findingsWith('critical', 'nit'), 9, 'COMMENT')).toEqual({
+      action: 'REQUEST_CHANGES',
+      ruleIndex: 0,
+      reason: 'Rule 1 matched: any critical finding',
+    });
+    expect(evaluateReviewGate(policy, findingsWith('minor'), 8, 'COMMENT')).toEqual({
+      action: 'APPROVE',
+      ruleIndex: 1,
+      reason: 'Rule 2 matched: quality score ≥ 8 and no critical or major findings',
+    });
+  });
+
+  it('falls back to the default action when no rule matches', () => {
+    expect(evaluateReviewGate(policy, findingsWith('major'), 9, 'COMMENT')).toMatchObject({
+      action: 'COMMENT',
+      ruleIndex: null,
+    });
+    expect(evaluateReviewGate(policy, [], 7, 'COMMENT').action).toBe('COMMENT');
+  });
+});
+
+describe('describeReviewGateRule', () => {
+  it('describes rules without conditions as always matching', () => {
+    expect(describeReviewGateRule({ action: 'COMMENT' })).toBe('always');
+    expect(
+      describeReviewGateRule({
+        action: 'REQUEST_CHANGES',
+        anySeverity: ['critical', 'major', 'minor'],
+      })
+    ).toBe('any critical, major or minor finding');
+  });
+});
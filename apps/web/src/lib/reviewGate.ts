@@ -0,0 +1,88 @@
+/**
+ * Quality-gate evaluation for pushed reviews.
+ *
+ * Derives the review action (Approve / Request Changes / Comment) from the
+ * quality score and the findings being pushed, using the rules configured in
+ * Review Preferences, and explains which rule produced it.
+ */
+
+import type {
+  DefaultReviewAction,
+  ReviewFinding,
+  ReviewGateRule,
+  ReviewSeverity,
+} from '@gitchorus/shared';
+
+/**
+ * The action a gate policy picked, and why.
+ */
+export interface ReviewGateDecision {
+  action: DefaultReviewAction;
+  /** Index of the matching rule in the policy, or null when the default action applied */
+  ruleIndex: number | null;
+  /** Human-readable explanation of the decision */
+  reason: string;
+}
+
+/**
+ * Join severities as "critical or major".
+ */
+function joinSeverities(severities: ReviewSeverity[]): string {
+  if (severities.length <= 1) return severities.join('');
+  return `${severities.slice(0, -1).join(', ')} or ${severities[severities.length - 1]}`;
+}
+
+/**
+ * Describe the conditions of a rule, e.g. "quality score ≥ 8 and no critical or major findings".
+ */
+export function describeReviewGateRule(rule: ReviewGateRule): string {
+  const conditions: string[] = [];
+  if (rule.minQualityScore !== undefined) {
+    conditions.push(`quality score ≥ ${rule.minQualityScore}`);
+  }
+  if (rule.anySeverity && rule.anySeverity.length > 0) {
+    conditions.push(`any ${joinSeverities(rule.anySeverity)} finding`);
+  }
+  if (rule.noSeverity && rule.noSeverity.length > 0) {
+    conditions.push(`no ${joinSeverities(rule.noSeverity)} findings`);
+  }
+  return conditions.length > 0 ? conditions.join(' and ') : 'always';
+}
+
+/**
+ * Whether all conditions of a rule hold for a result.
+ */
+function matchesRule(rule: ReviewGateRule, findings: ReviewFinding[], qualityScore: number) {
+  const severities = new Set(findings.map(finding => finding.severity));
+  if (rule.minQualityScore !== undefined && qualityScore < rule.minQualityScore) return false;
+  if (rule.anySeverity && rule.anySeverity.length > 0) {
+    if (!rule.anySeverity.some(severity => severities.has(severity))) return false;
+  }
+  if (rule.noSeverity?.some(severity => severities.has(severity))) return false;
+  return true;
+}
+
+/**
+ * Pick the review action for the findings being pushed: the action of the
+ * first matching rule, or the default action when none matches.
+ */
+export function evaluateReviewGate(
+  policy: ReviewGateRule[],
+  findings: ReviewFinding[],
+  qualityScore: number,
+  defaultAction: DefaultReviewAction
+): ReviewGateDecision {
+  const ruleIndex = policy.findIndex(rule => matchesRule(rule, findings, qualityScore));
+  if (ruleIndex === -1) {
+    return {
+      action: defaultAction,
+      ruleIndex: null,
+      reason: 'No gate rule matched, so the default review action applies',
+    };
+  }
+  return {
+    action: policy[ruleIndex].action,
+    ruleIndex,
+    reason: `Rule ${ruleIndex + 1} matched: ${describeReviewGateRule(policy[ruleIndex])}`,
+  };
+}
@@ -77,6 +77,11 @@ export const ReviewEvents = {
   CHAIN: 'review:chain',
   LOG_ENTRIES: 'review:log-entries',
   IMPORT_GITHUB_REVIEW: 'review:import-github',
+  RECORD_PUSH: 'review:record-push',
+  RETRACT_PUSH: 'review:retract-push',
+  FIX_PREPARE: 'review:fix-prepare',
+  FIX_COMMIT: 'review:fix-commit',
+  FIX_DISCARD: 'review:fix-discard',
 } as const;
 
 // ============================================
@@ -96,6 +101,22 @@ export const SettingsEvents = {
   CHANGED: 'settings:changed',
 } as const;
 
+// ============================================
+// Prompt Template Events
+// ============================================
+export const PromptTemplateEvents = {
+  LIST: 'prompt-templates:list',
+  SAVE: 'prompt-templates:save',
+  RESET: 'prompt-templates:reset',
+} as const;
+
+// ============================================
+// Budget Events
+// ============================================
+export const BudgetEvents = {
+  STATUS: 'budget:status',
+} as const;
+
 // ============================================
 // System Events
 // ============================================
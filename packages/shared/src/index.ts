@@ -16,6 +16,18 @@ export * from './types/validation';
 // Review types
 export * from './types/review';
 
+// Review rules types
+export * from './types/review-rules';
+
+// Prompt template types
+export * from './types/prompt-templates';
+
+// Prompt injection types
+export * from './types/prompt-injection';
+
+// Secret redaction types
+export * from './types/redaction';
+
 // Repository types
 export * from './types/repository';
 
@@ -25,6 +37,9 @@ export * from './types/recent-project';
 // Settings types
 export * from './types/settings';
 
+// Budget types
+export * from './types/budget';
+
 // Updater types
 export * from './types/updater';
 
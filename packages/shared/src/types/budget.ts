@@ -0,0 +1,34 @@
+/**
+ * Budget Types
+ *
+ * Monthly spend ledger per repository, aggregated from review and
+ * validation history, and the caps that stop new runs once reached.
+ */
+
+// ============================================
+// Ledger Types
+// ============================================
+
+/**
+ * Spend of one repository in one calendar month (UTC) against its cap
+ */
+export interface BudgetStatus {
+  /** Repository full name (owner/repo) */
+  repositoryFullName: string;
+  /** Calendar month in UTC, formatted YYYY-MM */
+  month: string;
+  /** Total spend this month in USD */
+  spentUsd: number;
+  /** Spend on PR reviews this month in USD */
+  reviewSpendUsd: number;
+  /** Spend on issue validations this month in USD */
+  validationSpendUsd: number;
+  /** Number of runs that counted towards this month's spend */
+  runCount: number;
+  /** Monthly cap in USD, or null when the repository has no cap */
+  capUsd: number | null;
+  /** Budget left this month in USD (never negative), or null when uncapped */
+  remainingUsd: number | null;
+  /** Whether the cap is reached and new runs are refused */
+  exhausted: boolean;
+}
@@ -15,7 +15,13 @@ import type {
   ValidationQueueItem,
   ValidationHistoryEntry,
 } from './validation';
-import type { ReviewResult, ReviewQueueItem, ReviewHistoryEntry } from './review';
+import type {
+  ReviewResult,
+  ReviewQueueItem,
+  ReviewHistoryEntry,
+  PushedReview,
+  ReviewFinding,
+} from './review';
 
 // ============================================
 // Generic Response Types
@@ -403,6 +409,84 @@ export interface ReviewChainResponse {
   error?: string;
 }
 
+// ============================================
+// Review Push Payloads
+// ============================================
+
+/**
+ * Payload to record a push of a review history entry to GitHub
+ */
+export interface ReviewRecordPushPayload {
+  id: string;
+  push: PushedReview;
+}
+
+/**
+ * Payload to retract the latest push of a review history entry: dismisses
+ * the review, deletes its inline comments and replaces its summary.
+ */
+export interface ReviewRetractPushPayload {
+  projectPath: string;
+  id: string;
+}
+
+/**
+ * Response for recording or retracting a push, with the updated entry
+ */
+export interface ReviewPushHistoryResponse {
+  entry: ReviewHistoryEntry | null;
+  error?: string;
+}
+
+// ============================================
+// Review Fix Payloads
+// ============================================
+
+/**
+ * Payload to apply a finding's suggested fix in a worktree of the PR branch
+ */
+export interface ReviewFixPreparePayload {
+  projectPath: string;
+  prNumber: number;
+  finding: ReviewFinding;
+}
+
+/**
+ * Response with the diff of a prepared fix, to confirm before committing
+ */
+export interface ReviewFixPrepareResponse {
+  /** Identifies the prepared fix for commit or discard */
+  fixId?: string;
+  /** Head branch of the PR the fix will be pushed to */
+  branch?: string;
+  diff?: string;
+  error?: string;
+}
+
+/**
+ * Payload to commit a prepared fix and push it to the PR branch
+ */
+export interface ReviewFixCommitPayload {
+  fixId: string;
+  message: string;
+}
+
+/**
+ * Response for committing a prepared fix
+ */
+export interface ReviewFixCommitResponse {
+  success: boolean;
+  commitSha?: string;
+  error?: string;
+}
+
+/**
+ * Payload to discard a prepared fix
+ */
+export interface ReviewFixDiscardPayload {
+  fixId: string;
+}
+
 // ============================================
 // Review Import Payloads
 // ============================================
@@ -576,6 +660,23 @@ export interface ProviderStatusResponse {
 // GitHub PR Review Payloads
 // ============================================
 
+/**
+ * An inline comment of a PR review. A multi-line comment spans startLine to
+ * line, which must be in the same hunk of the diff.
+ */
+export interface GithubPrReviewComment {
+  path: string;
+  /** Line the comment is placed on (its last line for multi-line comments) */
+  line: number;
+  body: string;
+  /** LEFT for lines of the old file (removed code), RIGHT (default) for the new file */
+  side?: 'LEFT' | 'RIGHT';
+  /** First line of a multi-line comment */
+  startLine?: number;
+  /** Side of startLine, defaults to side */
+  startSide?: 'LEFT' | 'RIGHT';
+}
+
 /**
  * Payload to create a PR review with inline comments
  */
@@ -583,13 +684,15 @@ export interface GithubCreatePrReviewPayload {
   projectPath: string;
   prNumber: number;
   body: string;
-  event: 'REQUEST_CHANGES' | 'COMMENT';
-  comments: Array<{
-    path: string;
-    line: number;
-    body: string;
-    side?: 'LEFT' | 'RIGHT';
-  }>;
+  event: import('./settings').DefaultReviewAction;
+  comments: GithubPrReviewComment[];
+  /** Leave the review pending (no event) so it can be edited and submitted on GitHub */
+  draft?: boolean;
+  /**
+   * Keys of every finding the review still reports, pushed or not (see getOpenFindingKeys).
+   * Open threads of earlier pushes for other findings are resolved as fixed; without it none are.
+   */
+  openFindingKeys?: string[];
 }
 
 /**
@@ -600,6 +703,14 @@ export interface GithubCreatePrReviewResponse {
   url?: string;
   postedComments?: number;
   skippedComments?: number;
+  /** GitHub ID of the created review */
+  reviewId?: number;
+  /** GitHub IDs of the inline comments the review created */
+  commentIds?: number[];
+  /** Earlier GitChorus threads resolved because the review no longer reports their finding */
+  resolvedThreads?: number;
+  /** Findings not posted again because an earlier GitChorus thread on them is still open */
+  duplicateComments?: number;
   error?: string;
 }
 
@@ -682,3 +793,42 @@ export interface SettingsUpdateResponse {
   config: import('./settings').ReviewConfig;
   error?: string;
 }
+
+// ============================================
+// Prompt Template Payloads
+// ============================================
+
+/** Payload to list the prompt templates with their overrides */
+export interface PromptTemplateListPayload {}
+
+/** Payload to save an override of a prompt template */
+export interface PromptTemplateSavePayload {
+  id: import('./prompt-templates').PromptTemplateId;
+  template: string;
+}
+
+/** Payload to reset a prompt template to its built-in default */
+export interface PromptTemplateResetPayload {
+  id: import('./prompt-templates').PromptTemplateId;
+}
+
+/** Response with every prompt template after a list, save or reset */
+export interface PromptTemplateListResponse {
+  templates: import('./prompt-templates').PromptTemplateInfo[];
+  error?: string;
+}
+
+// ============================================
+// Budget Payloads
+// ============================================
+
+/** Payload to get a repository's budget status for the current month */
+export interface BudgetStatusPayload {
+  repositoryFullName: string;
+}
+
+/** Response with the repository's budget status */
+export interface BudgetStatusResponse {
+  status: import('./budget').BudgetStatus | null;
+  error?: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * Prompt Injection Types
+ *
+ * PR titles, descriptions, diffs and issue bodies are written by whoever
+ * opened them and end up in the agent's prompt. Before a run they are
+ * scanned for text that tries to instruct the agent; suspected attempts are
+ * recorded on the result and, for reviews, reported as a security finding.
+ */
+
+/**
+ * Where suspicious text was found
+ */
+export type PromptInjectionSource =
+  | 'pr-title'
+  | 'pr-description'
+  | 'diff'
+  | 'issue-title'
+  | 'issue-body';
+
+/**
+ * A piece of untrusted text that looks like an attempt to instruct the agent
+ */
+export interface PromptInjectionSignal {
+  /** Where the text was found */
+  source: PromptInjectionSource;
+  /** Identifier of the rule that matched (e.g. "override-instructions") */
+  rule: string;
+  /** What the rule looks for, for display */
+  description: string;
+  /** The matching text, trimmed to a short excerpt */
+  excerpt: string;
+  /** Changed file the text was added to (diff only) */
+  file?: string;
+  /** Line number of the text in the new version of the file (diff only) */
+  line?: number;
+}
+
+/** Display labels for each injection source */
+export const PROMPT_INJECTION_SOURCE_LABELS: Record<PromptInjectionSource, string> = {
+  'pr-title': 'PR title',
+  'pr-description': 'PR description',
+  diff: 'Diff',
+  'issue-title': 'Issue title',
+  'issue-body': 'Issue body',
+};
@@ -0,0 +1,98 @@
+/**
+ * Prompt Template Types
+ *
+ * The system and user prompts of validation, review, re-review, multi-agent
+ * review, triage and finding verification are named templates with `{{variable}}` placeholders. Users can override each one in
+ * Settings; every result records the version of the templates it ran with so
+ * outcomes can be compared across prompt changes.
+ */
+
+/**
+ * Identifier of an overridable prompt template
+ */
+export type PromptTemplateId =
+  | 'validation-system'
+  | 'validation-user'
+  | 'review-system'
+  | 'review-user'
+  | 're-review-system'
+  | 're-review-user'
+  | 'multi-agent-review-system'
+  | 'multi-agent-review-user'
+  | 'triage-system'
+  | 'triage-user'
+  | 'verification-system'
+  | 'verification-user';
+
+/** All prompt template ids, in display order */
+export const PROMPT_TEMPLATE_IDS: PromptTemplateId[] = [
+  'validation-system',
+  'validation-user',
+  'review-system',
+  'review-user',
+  're-review-system',
+  're-review-user',
+  'multi-agent-review-system',
+  'multi-agent-review-user',
+  'triage-system',
+  'triage-user',
+  'verification-system',
+  'verification-user',
+];
+
+/**
+ * A user's replacement for a built-in prompt template
+ */
+export interface PromptTemplateOverride {
+  /** Template text with `{{variable}}` placeholders */
+  template: string;
+  /** Version of the built-in default when the override was saved */
+  baseVersion: string;
+  /** ISO timestamp of the last save */
+  updatedAt: string;
+}
+
+/** Saved overrides, keyed by template id */
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, PromptTemplateOverride>>;
+
+/**
+ * A placeholder a template can use
+ */
+export interface PromptTemplateVariable {
+  /** Placeholder name, used as `{{name}}` */
+  name: string;
+  /** What the placeholder is replaced with */
+  description: string;
+}
+
+/**
+ * A prompt template as shown in Settings
+ */
+export interface PromptTemplateInfo {
+  id: PromptTemplateId;
+  /** Display name */
+  name: string;
+  /** When the prompt is used */
+  description: string;
+  /** Placeholders the template can use */
+  variables: PromptTemplateVariable[];
+  /** Built-in template text */
+  defaultTemplate: string;
+  /** Version of the built-in template */
+  defaultVersion: string;
+  /** The user's override (null when the built-in template is used) */
+  override: PromptTemplateOverride | null;
+  /** Version of the template in use (the override's when there is one) */
+  version: string;
+}
+
+/**
+ * The version of a prompt template a run used, recorded on its result
+ */
+export interface PromptTemplateUsage {
+  id: PromptTemplateId;
+  /** Content hash of the template text */
+  version: string;
+  /** Whether the template was a user override */
+  custom: boolean;
+}
@@ -2,7 +2,7 @@
  * AI Provider Abstraction Types
  *
  * Defines the provider layer for AI-powered analysis.
- * Currently supports Claude Agent SDK, extensible for future providers.
+ * Supports the Claude Agent SDK and the OpenAI Codex CLI.
  */
 
 import type { Issue } from './github';
@@ -14,7 +14,20 @@ import type { Issue } from './github';
 /**
  * Supported AI provider types
  */
-export type ProviderType = 'claude';
+export type ProviderType = 'claude' | 'codex' | 'local' | 'replay';
+
+/**
+ * Tasks that can be routed to a provider independently
+ */
+export type ProviderTask = 'review' | 'validation';
+
+/** Display labels for provider types */
+export const PROVIDER_LABELS: Record<ProviderType, string> = {
+  claude: 'Claude',
+  codex: 'Codex',
+  local: 'Local',
+  replay: 'Replay',
+};
 
 /**
  * Provider availability and authentication status
@@ -64,6 +77,12 @@ export interface ValidationParams {
   config?: ProviderConfig;
   /** Optional file transport function for writing logs to disk */
   fileTransport?: (message: string) => void;
+  /** Job label added to provider log contexts so concurrent runs can be told apart (e.g. "PR #42") */
+  logContext?: string;
+  /** Aborts this run only; other runs on the same provider keep going */
+  signal?: AbortSignal;
+  /** Suspected prompt injection found by the pre-scan, pointed out to the agent */
+  promptInjection?: import('./prompt-injection').PromptInjectionSignal[];
 }
 
 // ============================================
@@ -113,3 +132,27 @@ export interface ClaudeCliStatus {
   /** Authentication status */
   auth: { authenticated: boolean };
 }
+
+// ============================================
+// Codex CLI Status
+// ============================================
+
+/**
+ * OpenAI Codex CLI detection and authentication status
+ */
+export interface CodexCliStatus {
+  /** Whether the Codex CLI is installed */
+  installed: boolean;
+  /** Absolute path to the Codex CLI executable */
+  path?: string;
+  /** Codex CLI version string */
+  version?: string;
+  /** How the CLI was found ('path' = in PATH, 'local' = known installation path) */
+  method?: 'path' | 'local';
+  /** Operating system platform */
+  platform: string;
+  /** CPU architecture */
+  arch: string;
+  /** Authentication status */
+  auth: { authenticated: boolean };
+}
@@ -0,0 +1,66 @@
+/**
+ * Secret Redaction Types
+ *
+ * Credentials pasted into issues, committed in diffs or read from files are
+ * masked before the content reaches a provider or a log file. Each masked
+ * secret is recorded on the result so the user knows what was held back.
+ */
+
+import { PROMPT_INJECTION_SOURCE_LABELS } from './prompt-injection';
+import type { PromptInjectionSource } from './prompt-injection';
+
+/**
+ * Kind of secret a redaction rule detects
+ */
+export type SecretKind =
+  | 'private-key'
+  | 'aws-access-key'
+  | 'github-token'
+  | 'anthropic-key'
+  | 'openai-key'
+  | 'slack-token'
+  | 'stripe-key'
+  | 'google-api-key'
+  | 'jwt'
+  | 'connection-string'
+  | 'env-value';
+
+/**
+ * Where a redacted secret was found
+ */
+export type RedactionSource = PromptInjectionSource | 'file';
+
+/**
+ * A secret that was masked before content left the machine
+ */
+export interface SecretRedaction {
+  /** Kind of secret */
+  kind: SecretKind;
+  /** Where the secret was found */
+  source: RedactionSource;
+  /** Changed or read file the secret is in (diff and file sources only) */
+  file?: string;
+  /** Line number in the new version of the file (diff only) */
+  line?: number;
+}
+
+/** Display labels for each secret kind */
+export const SECRET_KIND_LABELS: Record<SecretKind, string> = {
+  'private-key': 'Private key',
+  'aws-access-key': 'AWS access key',
+  'github-token': 'GitHub token',
+  'anthropic-key': 'Anthropic API key',
+  'openai-key': 'OpenAI API key',
+  'slack-token': 'Slack token',
+  'stripe-key': 'Stripe key',
+  'google-api-key': 'Google API key',
+  jwt: 'JSON Web Token',
+  'connection-string': 'Connection string password',
+  'env-value': 'Secret variable value',
+};
+
+/** Display labels for each redaction source */
+export const REDACTION_SOURCE_LABELS: Record<RedactionSource, string> = {
+  ...PROMPT_INJECTION_SOURCE_LABELS,
+  file: 'File read by the agent',
+};
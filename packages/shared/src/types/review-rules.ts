@@ -0,0 +1,37 @@
+/**
+ * Review Rules Types
+ *
+ * Per-repository review conventions, committed to the repository root as
+ * `.gitchorus.yml`. They complement the global ReviewConfig with rules each
+ * team owns: guidelines for the reviewer, files to skip, forced severities
+ * and focus notes for specific paths.
+ */
+
+import type { ReviewCategory, ReviewSeverity } from './review';
+
+/** Name of the rules file at the repository root */
+export const REVIEW_RULES_FILE_NAME = '.gitchorus.yml';
+
+/**
+ * A note pointing the reviewer at what matters in part of the repository
+ */
+export interface ReviewPathFocus {
+  /** Glob of the paths the note applies to (e.g. "src/db/**") */
+  path: string;
+  /** What to look out for in those files */
+  note: string;
+}
+
+/**
+ * Parsed contents of a repository's `.gitchorus.yml`
+ */
+export interface ReviewRules {
+  /** Free-form review guidelines added to the reviewer's system prompt (empty if none) */
+  guidelines: string;
+  /** Globs of files left out of the review (lockfiles, generated code) */
+  ignore: string[];
+  /** Severity forced on every finding of a category */
+  severity: Partial<Record<ReviewCategory, ReviewSeverity>>;
+  /** Focus notes for specific paths */
+  focus: ReviewPathFocus[];
+}
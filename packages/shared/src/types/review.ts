@@ -32,15 +32,68 @@ export type ReviewMode = 'single-agent' | 'multi-agent';
  */
 export type ReviewAgentType = 'context' | 'code-quality' | 'code-patterns' | 'security-performance';
 
+/**
+ * Built-in sub-agents that score the PR (the context agent only gathers context)
+ */
+export type ScoringAgentType = Exclude<ReviewAgentType, 'context'>;
+
+/** Built-in scoring sub-agents in pipeline order */
+export const SCORING_AGENT_TYPES: ScoringAgentType[] = [
+  'code-quality',
+  'code-patterns',
+  'security-performance',
+];
+
+/**
+ * Risk level assigned to a PR (or file) by the cascade triage pass, lowest first
+ */
+export type ReviewRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+/** Risk levels in ascending order, used for threshold comparisons */
+export const REVIEW_RISK_LEVELS: ReviewRiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+/** Risk level display labels */
+export const REVIEW_RISK_LABELS: Record<ReviewRiskLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
+
 /**
  * Review status for queue tracking
  */
 export type ReviewStatus = 'idle' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
 
+/**
+ * Verdict of the verification pass on a finding, checked against the actual code:
+ * - verified: the code exists and the claim holds
+ * - disputed: the code exists but the claim is wrong or doubtful
+ * - hallucinated: the file, line or code snippet does not exist as described
+ */
+export type FindingVerificationStatus = 'verified' | 'disputed' | 'hallucinated';
+
+/** Verification statuses in order of increasing doubt */
+export const FINDING_VERIFICATION_STATUSES: FindingVerificationStatus[] = [
+  'verified',
+  'disputed',
+  'hallucinated',
+];
+
 // ============================================
 // Finding Types
 // ============================================
 
+/**
+ * Verification pass verdict on a single finding
+ */
+export interface FindingVerification {
+  /** Whether the finding holds up against the actual code */
+  status: FindingVerificationStatus;
+  /** Short justification citing what the verifier found in the file */
+  justification: string;
+}
+
 /**
  * A single finding from the PR review
  */
@@ -53,20 +106,87 @@ export interface ReviewFinding {
   file: string;
   /** Line number in the diff (for inline comment placement) */
   line: number;
+  /** Side of the diff the lines refer to: LEFT for removed code (old file lines), RIGHT by default */
+  side?: 'LEFT' | 'RIGHT';
   /** The problematic code snippet */
   codeSnippet: string;
   /** Explanation of the issue */
   explanation: string;
   /** Suggested fix as a code block with inline comments */
   suggestedFix: string;
+  /** First line of the block the finding covers, when it spans several lines */
+  startLine?: number;
+  /** Last line (inclusive) of the block the finding covers */
+  endLine?: number;
+  /** Exact code replacing lines startLine-endLine (RIGHT side only), pushed as a GitHub suggestion */
+  replacement?: string;
   /** One-line summary for the finding */
   title: string;
   /** For re-reviews: whether this finding is new, persisting, or a regression */
   addressingStatus?: 'new' | 'persisting' | 'regression';
-  /** Which sub-agent produced this finding (multi-agent mode only) */
-  agentSource?: ReviewAgentType;
+  /** Which sub-agent produced this finding: a ReviewAgentType or a custom sub-agent id (multi-agent mode only) */
+  agentSource?: string;
   /** Sub-agent confidence in this finding, 0-100 (multi-agent mode only) */
   agentConfidence?: number;
+  /** Verification pass verdict (finding verification only) */
+  verification?: FindingVerification;
+}
+
+/**
+ * Whether the verification pass rejected a finding (disputed or hallucinated).
+ * Such findings are hidden on request and left out of GitHub pushes by default.
+ */
+export function isDisputedFinding(finding: ReviewFinding): boolean {
+  return (
+    finding.verification?.status === 'disputed' || finding.verification?.status === 'hallucinated'
+  );
+}
+
+/**
+ * Matches the hidden marker tying an inline GitChorus review comment to its
+ * finding; the first group is the finding key.
+ */
+export const FINDING_MARKER_PATTERN = /<!-- gitchorus-finding:([0-9a-f]{8}) -->/;
+
+/**
+ * Key identifying a finding across reviews of a PR: a hash of its file and
+ * normalized title. Re-reviews keep the titles of persisting findings, so a
+ * re-push can match them to the threads of earlier pushes.
+ */
+export function getFindingKey(finding: Pick<ReviewFinding, 'file' | 'title'>): string {
+  const file = finding.file.replace(/\\/g, '/').replace(/^\.?\//, '');
+  const title = finding.title.trim().toLowerCase().replace(/\s+/g, ' ');
+  let hash = 0x811c9dc5;
+  for (const char of `${file}\n${title}`) {
+    hash = Math.imul(hash ^ char.codePointAt(0)!, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Keys of the findings a review still reports, whether or not they are pushed:
+ * every finding except those a re-review marks as addressed. Threads of
+ * earlier pushes whose key is missing are the ones that were fixed.
+ */
+export function getOpenFindingKeys(
+  result: Pick<ReviewResult, 'findings' | 'addressedFindings'>
+): string[] {
+  const normalize = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+  const addressed = new Set(
+    (result.addressedFindings ?? [])
+      .filter(summary => summary.status === 'addressed')
+      .map(summary => normalize(summary.title))
+  );
+  return result.findings
+    .filter(finding => !addressed.has(normalize(finding.title)))
+    .map(getFindingKey);
+}
+
+/**
+ * Hidden marker appended to the inline comment of a finding.
+ */
+export function formatFindingMarker(finding: Pick<ReviewFinding, 'file' | 'title'>): string {
+  return `<!-- gitchorus-finding:${getFindingKey(finding)} -->`;
 }
 
 /**
@@ -91,8 +211,8 @@ export interface AddressedFindingSummary {
  * Score breakdown from a single sub-agent in multi-agent review
  */
 export interface SubAgentScore {
-  /** Which sub-agent produced this score */
-  agent: ReviewAgentType;
+  /** Which sub-agent produced this score: a ReviewAgentType or a custom sub-agent id */
+  agent: string;
   /** Score 1-10 from this sub-agent */
   score: number;
   /** Weight of this score in the overall calculation (0-1) */
@@ -105,6 +225,128 @@ export interface SubAgentScore {
   severityCounts: Record<ReviewSeverity, number>;
 }
 
+/**
+ * Tools a custom sub-agent can be granted. Read-only on purpose: no Bash
+ * (arbitrary commands) and no Task (recursive sub-agents).
+ */
+export type CustomAgentTool = 'Read' | 'Grep' | 'Glob';
+
+/** Every tool a custom sub-agent can be granted */
+export const CUSTOM_AGENT_TOOLS: CustomAgentTool[] = ['Read', 'Grep', 'Glob'];
+
+/** Valid custom sub-agent ids: lowercase kebab-case */
+export const CUSTOM_AGENT_ID_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+/**
+ * A user-defined sub-agent added to the multi-agent review pipeline
+ * (e.g. accessibility, database migrations, API compatibility)
+ */
+export interface CustomReviewAgent {
+  /** Unique kebab-case id, reported as the agentSource of its findings */
+  id: string;
+  /** Display name */
+  name: string;
+  /** One-line summary of what the agent reviews, shown to the orchestrator */
+  description: string;
+  /** Review instructions: what to look for and how to judge it */
+  prompt: string;
+  /** Tools the agent may use */
+  tools: CustomAgentTool[];
+  /** Relative weight of the agent's score, alongside the built-in sub-agent weights */
+  weight: number;
+  /** Disabled agents are kept in Settings but left out of reviews */
+  enabled: boolean;
+}
+
+// ============================================
+// Cascade Triage Types
+// ============================================
+
+/**
+ * Risk assessment of a single changed file from the triage pass
+ */
+export interface TriageFileRisk {
+  /** File path from the diff */
+  file: string;
+  /** Risk level of the changes to this file */
+  riskLevel: ReviewRiskLevel;
+  /** Why the file was rated at this level */
+  reason: string;
+}
+
+/**
+ * Outcome of the cheap triage pass that decides whether a PR is escalated
+ * to the more capable model for the full review
+ */
+export interface ReviewTriage {
+  /** Overall risk level of the PR */
+  riskLevel: ReviewRiskLevel;
+  /** One-paragraph summary of what the PR changes and why it is (not) risky */
+  summary: string;
+  /** Files rated medium risk or above */
+  riskyFiles: TriageFileRisk[];
+  /** Model that performed the triage */
+  model: string;
+  /** Risk threshold in effect when the triage ran */
+  threshold: ReviewRiskLevel;
+  /** Whether the full review was escalated to the escalation model */
+  escalated: boolean;
+  /** Cost of the triage pass in USD (included in the result's costUsd) */
+  costUsd: number;
+}
+
+// ============================================
+// Verification Types
+// ============================================
+
+/**
+ * The verification pass that checked a review's findings
+ */
+export interface ReviewVerificationSummary {
+  /** Model that verified the findings */
+  model: string;
+  /** Cost of the verification pass in USD (included in the result's costUsd) */
+  costUsd: number;
+}
+
+// ============================================
+// Map-Reduce Types
+// ============================================
+
+/**
+ * One slice of a large PR diff, reviewed on its own in map-reduce mode
+ */
+export interface ReviewDiffCluster {
+  /** 1-based position of this cluster */
+  index: number;
+  /** Number of clusters the diff was split into */
+  total: number;
+  /** Files whose diff is in this cluster */
+  files: string[];
+  /** Changed files reviewed in the other clusters */
+  otherFiles: string[];
+}
+
+/**
+ * Outcome of reviewing one cluster of a large PR diff
+ */
+export interface ReviewClusterSummary {
+  /** Files reviewed in this cluster */
+  files: string[];
+  /** Number of diff lines in this cluster */
+  diffLines: number;
+  /** Quality score the cluster review gave */
+  qualityScore: number;
+  /** Verdict of the cluster review */
+  verdict: string;
+  /** Number of findings the cluster review produced (before merging) */
+  findingCount: number;
+  /** Provider that reviewed this cluster (a failover may change it between clusters) */
+  providerType: ProviderType;
+  /** Model that reviewed this cluster */
+  model: string;
+}
+
 // ============================================
 // Review Result
 // ============================================
@@ -155,6 +397,22 @@ export interface ReviewResult {
   subAgentScores?: SubAgentScore[];
   /** Context summary from the context sub-agent (multi-agent mode only) */
   contextSummary?: string;
+  /** Triage pass that routed this review (cascaded routing only) */
+  triage?: ReviewTriage;
+  /** Per-cluster breakdown when a large diff was reviewed in clusters (map-reduce mode only) */
+  clusters?: ReviewClusterSummary[];
+  /** Verification pass that checked the findings (finding verification only) */
+  verification?: ReviewVerificationSummary;
+  /** Files whose findings were carried forward from the review cache because their content was unchanged (re-reviews only) */
+  cachedFiles?: string[];
+  /** Changed files left out of the review by the ignore globs of the repository's .gitchorus.yml */
+  ignoredFiles?: string[];
+  /** Versions of the prompt templates the review ran with */
+  promptTemplates?: import('./prompt-templates').PromptTemplateUsage[];
+  /** Text in the PR that looks like an attempt to instruct the reviewer (also reported as a security finding) */
+  promptInjection?: import('./prompt-injection').PromptInjectionSignal[];
+  /** Secrets masked before the PR content or files reached the provider */
+  redactions?: import('./redaction').SecretRedaction[];
 }
 
 // ============================================
@@ -179,12 +437,32 @@ export interface ReviewQueueItem {
   startedAt?: string;
   /** ISO timestamp when review completed/failed */
   completedAt?: string;
+  /** Number of times the review was re-queued after an app restart interrupted it */
+  resumeCount?: number;
 }
 
 // ============================================
 // History Types
 // ============================================
 
+/**
+ * A push of a review to GitHub, kept so the push can be retracted.
+ */
+export interface PushedReview {
+  /** GitHub ID of the created review */
+  reviewId: number;
+  /** GitHub IDs of the inline comments the review created */
+  commentIds: number[];
+  /** URL of the review on GitHub */
+  url: string;
+  /** ISO timestamp of the push */
+  pushedAt: string;
+  /** Whether the review was left pending */
+  draft?: boolean;
+  /** ISO timestamp when the push was retracted */
+  retractedAt?: string;
+}
+
 /**
  * A persisted review result with a unique ID.
  * Stored locally via electron-store for history viewing.
@@ -192,8 +470,21 @@ export interface ReviewQueueItem {
 export type ReviewHistoryEntry = ReviewResult & {
   /** Unique identifier for this history entry */
   id: string;
+  /** Pushes of this review to GitHub, oldest first */
+  pushes?: PushedReview[];
 };
 
+/**
+ * The latest push of a history entry that has not been retracted.
+ */
+export function getActivePush(entry: ReviewHistoryEntry): PushedReview | null {
+  const pushes = entry.pushes ?? [];
+  for (let i = pushes.length - 1; i >= 0; i--) {
+    if (!pushes[i].retractedAt) return pushes[i];
+  }
+  return null;
+}
+
 /**
  * Filter options for querying review history
  */
@@ -234,6 +525,10 @@ export interface ReviewParams {
   config?: import('./provider').ProviderConfig;
   /** Optional file transport function for writing logs to disk */
   fileTransport?: (message: string) => void;
+  /** Job label added to provider log contexts so concurrent runs can be told apart (e.g. "PR #42") */
+  logContext?: string;
+  /** Aborts this run only; other runs on the same provider keep going */
+  signal?: AbortSignal;
   /** Full prior review result for AI context during re-review */
   previousReview?: ReviewResult;
   /** HEAD SHA at time of previous review */
@@ -242,4 +537,14 @@ export interface ReviewParams {
   isReReview?: boolean;
   /** Diff of changes since the previous review */
   incrementalDiff?: string;
+  /** Triage outcome, used to point the escalated review at the risky files */
+  triage?: ReviewTriage;
+  /** Set when `diff` is one cluster of a larger PR diff (map-reduce mode) */
+  diffCluster?: ReviewDiffCluster;
+  /** Files left out of `diff` because their findings are carried forward from the review cache */
+  cachedFiles?: string[];
+  /** Rules from the repository's .gitchorus.yml, with focus notes limited to the changed files */
+  rules?: import('./review-rules').ReviewRules;
+  /** Suspected prompt injection found by the pre-scan, pointed out to the agent */
+  promptInjection?: import('./prompt-injection').PromptInjectionSignal[];
 }
@@ -59,7 +59,10 @@ export type SettingsSectionId =
   | 'github'
   | 'general'
   | 'provider'
-  | 'review-preferences';
+  | 'review-preferences'
+  | 'budget'
+  | 'sub-agents'
+  | 'prompt-templates';
 
 /** Review depth levels -- maps to maxTurns and prompt detail */
 export type ReviewDepth = 'quick' | 'standard' | 'thorough';
@@ -67,6 +70,34 @@ export type ReviewDepth = 'quick' | 'standard' | 'thorough';
 /** Default review action for GitHub push */
 export type DefaultReviewAction = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
 
+/** Display labels for review actions */
+export const REVIEW_ACTION_LABELS: Record<DefaultReviewAction, string> = {
+  APPROVE: 'Approve',
+  REQUEST_CHANGES: 'Request Changes',
+  COMMENT: 'Comment',
+};
+
+/**
+ * A quality-gate rule picking the review action pushed to GitHub.
+ * A rule matches when all of its conditions hold; rules are tried in order,
+ * the first match wins, and defaultReviewAction applies when none matches.
+ */
+export interface ReviewGateRule {
+  /** Action pushed when the rule matches */
+  action: DefaultReviewAction;
+  /** Holds when the quality score is at least this */
+  minQualityScore?: number;
+  /** Holds when some pushed finding has one of these severities */
+  anySeverity?: import('./review').ReviewSeverity[];
+  /** Holds when no pushed finding has one of these severities */
+  noSeverity?: import('./review').ReviewSeverity[];
+}
+
+/** Default gate: request changes on any critical finding, otherwise the default action */
+export const DEFAULT_REVIEW_GATE_POLICY: ReviewGateRule[] = [
+  { action: 'REQUEST_CHANGES', anySeverity: ['critical'] },
+];
+
 /** Claude model options */
 export type ClaudeModel =
   | 'claude-haiku-4-5-20251001'
@@ -80,6 +111,26 @@ export const CLAUDE_MODEL_LABELS: Record<ClaudeModel, string> = {
   'claude-opus-4-6': 'Opus',
 };
 
+/** Codex CLI model options */
+export type CodexModel = 'gpt-5-codex' | 'gpt-5';
+
+/**
+ * One entry in the review fallback chain.
+ * Tried in order when the previous provider fails with an auth, usage-limit or turn-limit error.
+ */
+export interface ProviderFallback {
+  /** Provider to retry with */
+  provider: import('./provider').ProviderType;
+  /** Model override for that provider (the provider's configured model is used when omitted) */
+  model?: string;
+}
+
+/** Display labels for Codex models */
+export const CODEX_MODEL_LABELS: Record<CodexModel, string> = {
+  'gpt-5-codex': 'GPT-5 Codex',
+  'gpt-5': 'GPT-5',
+};
+
 /**
  * Map of deprecated model IDs to their current replacements.
  * Used to migrate stored settings from older versions.
@@ -132,22 +183,124 @@ export interface ReviewConfig {
   validationDepth: ReviewDepth;
   /** Review depth for PR review */
   reviewDepth: ReviewDepth;
-  /** Default review action when pushing to GitHub */
+  /** Review action pushed to GitHub when no gate rule matches */
   defaultReviewAction: DefaultReviewAction;
+  /** Quality-gate rules deriving the review action from the result, tried in order */
+  reviewGatePolicy: ReviewGateRule[];
   /** Skip preview modal and push directly */
   autoPush: boolean;
+  /** Push reviews as pending drafts that are finished and submitted on GitHub */
+  draftReviews: boolean;
   /** Review mode: single agent or multi-agent pipeline */
   reviewMode: import('./review').ReviewMode;
+  /** Provider used for PR review */
+  reviewProvider: import('./provider').ProviderType;
+  /** Provider used for issue validation */
+  validationProvider: import('./provider').ProviderType;
+  /** Selected Codex model (used when a task is routed to the Codex provider) */
+  codexModel: CodexModel;
+  /** Base URL of the OpenAI-compatible server used by the local provider (e.g. Ollama, llama.cpp) */
+  localEndpoint: string;
+  /** Model name served by the local endpoint */
+  localModel: string;
+  /** Record every Claude agent session to disk so it can be replayed with the Replay provider */
+  recordSessions: boolean;
+  /** Ordered fallbacks tried after the review provider fails (e.g. Sonnet → Opus → Codex) */
+  reviewFallbacks: ProviderFallback[];
+  /** Triage each PR with Haiku first and only escalate risky ones to the escalation model (Claude only) */
+  cascadeRouting: boolean;
+  /** Model used for the full review of PRs at or above the risk threshold */
+  cascadeEscalationModel: ClaudeModel;
+  /** Lowest triage risk level that escalates a PR */
+  cascadeRiskThreshold: import('./review').ReviewRiskLevel;
+  /** Monthly spend cap in USD applied to every repository (0 = no cap) */
+  monthlyBudgetUsd: number;
+  /** Per-repository monthly caps in USD keyed by owner/repo, overriding monthlyBudgetUsd (0 = no cap) */
+  repoBudgetsUsd: Record<string, number>;
+  /** Number of PR reviews that may run at the same time */
+  reviewConcurrency: number;
+  /** Number of issue validations that may run at the same time */
+  validationConcurrency: number;
+  /** Re-queue reviews and validations interrupted by quitting the app (otherwise they are marked failed) */
+  resumeInterruptedRuns: boolean;
+  /** Split initial reviews of diffs longer than this many lines into file clusters (0 = never split) */
+  mapReduceThresholdLines: number;
+  /** Run a second agent pass that checks each finding against the actual code (Claude only) */
+  verifyFindings: boolean;
+  /** Relative score weights of the built-in sub-agents (multi-agent mode) */
+  subAgentWeights: Record<import('./review').ScoringAgentType, number>;
+  /** User-defined sub-agents added to the multi-agent pipeline */
+  customReviewAgents: import('./review').CustomReviewAgent[];
+  /** User overrides of the built-in prompt templates */
+  promptTemplates: import('./prompt-templates').PromptTemplateOverrides;
+  /** Shell commands Claude agents may run, as "command" or "command subcommand" */
+  shellAllowlist: string[];
 }
 
+/**
+ * Read-only shell commands Claude agents may run by default.
+ * Network tools and anything that writes are deliberately absent.
+ */
+export const DEFAULT_SHELL_ALLOWLIST: string[] = [
+  'ls',
+  'cat',
+  'head',
+  'tail',
+  'wc',
+  'find',
+  'grep',
+  'rg',
+  'tree',
+  'file',
+  'stat',
+  'pwd',
+  'sort',
+  'uniq',
+  'git log',
+  'git show',
+  'git diff',
+  'git status',
+  'git blame',
+  'git ls-files',
+  'git ls-tree',
+  'git rev-parse',
+  'git grep',
+];
+
+/** Upper bound for reviewConcurrency and validationConcurrency */
+export const MAX_QUEUE_CONCURRENCY = 4;
+
 /** Default review config */
 export const DEFAULT_REVIEW_CONFIG: ReviewConfig = {
   model: 'claude-sonnet-4-5-20250929',
   validationDepth: 'standard',
   reviewDepth: 'standard',
   defaultReviewAction: 'COMMENT',
+  reviewGatePolicy: DEFAULT_REVIEW_GATE_POLICY,
   autoPush: false,
+  draftReviews: false,
   reviewMode: 'single-agent',
+  reviewProvider: 'claude',
+  validationProvider: 'claude',
+  codexModel: 'gpt-5-codex',
+  localEndpoint: 'http://localhost:11434/v1',
+  localModel: 'qwen2.5-coder:14b',
+  recordSessions: false,
+  reviewFallbacks: [],
+  cascadeRouting: false,
+  cascadeEscalationModel: 'claude-opus-4-6',
+  cascadeRiskThreshold: 'high',
+  monthlyBudgetUsd: 0,
+  repoBudgetsUsd: {},
+  reviewConcurrency: 2,
+  validationConcurrency: 2,
+  resumeInterruptedRuns: true,
+  mapReduceThresholdLines: 3000,
+  verifyFindings: false,
+  subAgentWeights: { 'code-quality': 25, 'code-patterns': 25, 'security-performance': 50 },
+  customReviewAgents: [],
+  promptTemplates: {},
+  shellAllowlist: DEFAULT_SHELL_ALLOWLIST,
 };
 
 /**
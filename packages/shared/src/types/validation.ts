@@ -148,6 +148,12 @@ export type ValidationResult = (BugValidation | FeatureValidation) & {
   costUsd: number;
   /** Duration of the validation in milliseconds */
   durationMs: number;
+  /** Versions of the prompt templates the validation ran with */
+  promptTemplates?: import('./prompt-templates').PromptTemplateUsage[];
+  /** Text in the issue that looks like an attempt to instruct the agent */
+  promptInjection?: import('./prompt-injection').PromptInjectionSignal[];
+  /** Secrets masked before the issue content or files reached the provider */
+  redactions?: import('./redaction').SecretRedaction[];
 };
 
 // ============================================
@@ -172,6 +178,8 @@ export interface ValidationQueueItem {
   startedAt?: string;
   /** ISO timestamp when validation completed/failed */
   completedAt?: string;
+  /** Number of times the validation was re-queued after an app restart interrupted it */
+  resumeCount?: number;
 }
 
 // ============================================